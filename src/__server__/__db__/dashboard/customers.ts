@@ -6,6 +6,8 @@ export const customers = [
     avatar: "/assets/images/avatars/001-man.svg",
     balance: 10350.25,
     orders: "07",
+    spent: 1843.5,
+    lastOrderAt: "2024-05-12T10:30:00.000Z",
     name: "Ethan Booth",
   },
   {
@@ -15,6 +17,8 @@ export const customers = [
     avatar: "/assets/images/avatars/002-girl.svg",
     balance: 12350.45,
     orders: "02",
+    spent: 412.8,
+    lastOrderAt: "2024-04-28T10:30:00.000Z",
     name: "Sofia Hall",
   },
   {
@@ -24,6 +28,8 @@ export const customers = [
     avatar: "/assets/images/avatars/002-woman.svg",
     balance: 11345.25,
     orders: "03",
+    spent: 689.25,
+    lastOrderAt: "2024-05-03T10:30:00.000Z",
     name: "Dominic Moss",
   },
   {
@@ -33,6 +39,8 @@ export const customers = [
     avatar: "/assets/images/avatars/003-boy.svg",
     balance: 9540.47,
     orders: "04",
+    spent: 951.6,
+    lastOrderAt: "2024-03-19T10:30:00.000Z",
     name: "Tilly Thomson",
   },
   {
@@ -42,6 +50,8 @@ export const customers = [
     avatar: "/assets/images/avatars/003-man-1.svg",
     balance: 7250.36,
     orders: "09",
+    spent: 2176.4,
+    lastOrderAt: "2024-05-08T10:30:00.000Z",
     name: "Finley Henry",
   },
   {
@@ -51,6 +61,8 @@ export const customers = [
     avatar: "/assets/images/avatars/004-bald.svg",
     balance: 8356.34,
     orders: "09",
+    spent: 1998.75,
+    lastOrderAt: "2024-02-14T10:30:00.000Z",
     name: "Lola Ryan",
   },
   {
@@ -60,6 +72,8 @@ export const customers = [
     avatar: "/assets/images/avatars/004-woman.svg",
     balance: 4370.55,
     orders: "12",
+    spent: 3120.9,
+    lastOrderAt: "2024-04-02T10:30:00.000Z",
     name: "Gabriel McKenzie",
   },
   {
@@ -69,6 +83,8 @@ export const customers = [
     avatar: "/assets/images/avatars/005-man-2.svg",
     balance: 2458.15,
     orders: "11",
+    spent: 2587.35,
+    lastOrderAt: "2024-05-15T10:30:00.000Z",
     name: "James Davey",
   },
 ];
@@ -31,6 +31,21 @@ export const ProductsEndpoints = (Mock) => {
     }
   });
 
+  // products of a category, by category slug
+  Mock.onGet("/api/products/category").reply(async (config) => {
+    try {
+      const slug = config?.params?.slug;
+      const products = uniqueProducts.filter((item) =>
+        (item?.categories || []).some((category) => category === slug)
+      );
+
+      return [200, products];
+    } catch (err) {
+      console.error(err);
+      return [500, { message: "Internal server error" }];
+    }
+  });
+
   //all products slug list
   Mock.onGet("/api/products/slug-list").reply(async () => {
     try {
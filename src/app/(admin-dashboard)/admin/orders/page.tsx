@@ -10,7 +10,10 @@ export const metadata: Metadata = {
   keywords: ["e-commerce", "e-commerce template", "next.js", "react"]
 };
 
-export default async function Orders() {
-  const orders = await api.orders();
-  return <OrdersPageView orders={orders} />;
+// status, search, sortBy and order filter and sort the Salla order mirror,
+// page picks the page of it
+export default async function Orders({ searchParams }) {
+  const { status, search, sortBy, order, page } = searchParams;
+  const orders = await api.orders({ status, search, sortBy, order, page: Number(page) || 1 });
+  return <OrdersPageView {...orders} />;
 }
@@ -1,10 +1,13 @@
 import { Metadata } from "next";
-import { notFound } from "next/navigation";
+import { notFound, permanentRedirect } from "next/navigation";
 // PAGE VIEW COMPONENT
 import { ProductDetailsPageView } from "pages-sections/product-details/page-view";
 // API FUNCTIONS
 import api from "utils/__api__/products";
 import { getFrequentlyBought, getRelatedProducts } from "utils/__api__/related-products";
+import { getDataSourceName } from "utils/data-source";
+// SALLA SLUG REGISTRY
+import { registerFileSlugStore } from "services/salla/file-slug-store";
 
 export const metadata: Metadata = {
   title: "Product Details - Bazaar Next.js E-commerce Template",
@@ -14,8 +17,23 @@ export const metadata: Metadata = {
 };
 
 export default async function ProductDetails({ params }) {
+  // Salla slugs resolve through the same file registry as the API routes
+  if (getDataSourceName() === "salla") registerFileSlugStore();
+
+  let product;
+  try {
+    product = await api.getProduct(params.slug as string);
+  } catch (error) {
+    notFound();
+  }
+
+  // renamed products answer to their old slugs; send links on to the current one
+  // (outside the try block, since redirecting works by throwing)
+  if (product.slug && product.slug !== params.slug) {
+    permanentRedirect(`/products/${product.slug}`);
+  }
+
   try {
-    const product = await api.getProduct(params.slug as string);
     const relatedProducts = await getRelatedProducts();
     const frequentlyBought = await getFrequentlyBought();
 
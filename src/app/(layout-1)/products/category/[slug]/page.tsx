@@ -0,0 +1,30 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+// PAGE VIEW COMPONENT
+import { CategoryProductsPageView } from "pages-sections/product-details/page-view";
+// API FUNCTIONS
+import api from "utils/__api__/products";
+import { getDataSourceName } from "utils/data-source";
+// SALLA SLUG REGISTRY
+import { registerFileSlugStore } from "services/salla/file-slug-store";
+
+export const metadata: Metadata = {
+  title: "Category Products - Bazaar Next.js E-commerce Template",
+  description: `Bazaar is a React Next.js E-commerce template. Build SEO friendly Online store, delivery app and Multi vendor store`,
+  authors: [{ name: "UI-LIB", url: "https://ui-lib.com" }],
+  keywords: ["e-commerce", "e-commerce template", "next.js", "react"]
+};
+
+export default async function CategoryProducts({ params }) {
+  // Salla slugs resolve through the same file registry as the API routes
+  if (getDataSourceName() === "salla") registerFileSlugStore();
+
+  let products;
+  try {
+    products = await api.getCategoryProducts(params.slug as string);
+  } catch (error) {
+    notFound();
+  }
+
+  return <CategoryProductsPageView products={products} />;
+}
@@ -1,5 +1,5 @@
+import axios from "axios";
 import { ChangeEvent, useEffect, useRef, useState, useTransition } from "react";
-import api from "utils/__api__/products";
 
 export default function useSearch() {
   const parentRef = useRef();
@@ -15,10 +15,12 @@ export default function useSearch() {
     setCategoryTitle(cat.title);
   };
 
-  // FETCH PRODUCTS VIA API
+  // FETCH PRODUCTS VIA THE SEARCH ROUTE
   const getProducts = async (searchText: string, category?: string) => {
-    const data = await api.searchProducts(searchText, category);
-    setResultList(data);
+    const response = await axios.get("/api/salla/search", {
+      params: { name: searchText, category }
+    });
+    setResultList(response.data.data);
   };
 
   const handleSearch = (e: ChangeEvent<HTMLInputElement>) => {
@@ -54,7 +54,8 @@ export const useSallaUserProfile = () => {
     } catch (err: any) {
       const errorMessage = err.message || 'An error occurred while updating profile';
       setError(errorMessage);
-      return { success: false, message: errorMessage };
+      // Keep the typed error so forms can show Salla's per-field messages
+      return { success: false, message: errorMessage, error: err };
     } finally {
       setLoading(false);
     }
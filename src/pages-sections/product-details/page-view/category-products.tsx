@@ -0,0 +1,32 @@
+"use client";
+
+import Grid from "@mui/material/Grid";
+import Container from "@mui/material/Container";
+// GLOBAL CUSTOM COMPONENTS
+import { Paragraph } from "components/Typography";
+import ProductCard16 from "components/product-cards/product-card-16";
+// CUSTOM DATA MODEL
+import Product from "models/Product.model";
+
+// ============================================================
+type Props = { products: Product[] };
+// ============================================================
+
+export default function CategoryProductsPageView({ products }: Props) {
+  return (
+    <Container className="mt-2 mb-3">
+      <Paragraph color="grey.600" mb={3}>
+        {products.length ? `${products.length} products` : "No products in this category yet"}
+      </Paragraph>
+
+      {/* PRODUCT LIST AREA */}
+      <Grid container spacing={3}>
+        {products.map((item) => (
+          <Grid item lg={3} md={4} sm={6} xs={12} key={item.id}>
+            <ProductCard16 product={item} />
+          </Grid>
+        ))}
+      </Grid>
+    </Container>
+  );
+}
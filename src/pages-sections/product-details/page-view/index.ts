@@ -1,2 +1,3 @@
 export { default as ProductSearchPageView } from "./product-search";
 export { default as ProductDetailsPageView } from "./product-details";
+export { default as CategoryProductsPageView } from "./category-products";
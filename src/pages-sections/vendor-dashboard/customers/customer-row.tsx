@@ -1,3 +1,4 @@
+import { format } from "date-fns";
 import Avatar from "@mui/material/Avatar";
 // MUI ICON COMPONENTS
 import Edit from "@mui/icons-material/Edit";
@@ -15,7 +16,7 @@ type Props = { customer: any };
 // ========================================================================
 
 export default function CustomerRow({ customer }: Props) {
-  const { email, name, phone, avatar, balance, orders } = customer || {};
+  const { email, name, phone, avatar, balance, orders, spent, lastOrderAt } = customer || {};
 
   const STYLE = { fontWeight: 400 };
 
@@ -36,14 +37,23 @@ export default function CustomerRow({ customer }: Props) {
         {email}
       </StyledTableCell>
 
+      {/* Salla customers have no wallet */}
       <StyledTableCell align="left" sx={STYLE}>
-        {currency(balance)}
+        {balance === undefined ? "-" : currency(balance)}
       </StyledTableCell>
 
       <StyledTableCell align="left" sx={STYLE}>
         {orders}
       </StyledTableCell>
 
+      <StyledTableCell align="left" sx={STYLE}>
+        {currency(spent)}
+      </StyledTableCell>
+
+      <StyledTableCell align="left" sx={STYLE}>
+        {lastOrderAt ? format(new Date(lastOrderAt), "dd MMM yyyy") : "-"}
+      </StyledTableCell>
+
       <StyledTableCell align="center">
         <StyledIconButton>
           <Edit />
@@ -5,5 +5,7 @@ export const tableHeading = [
   { id: "email", label: "Email", align: "left" },
   { id: "balance", label: "Wallet Balance", align: "left" },
   { id: "orders", label: "No Of Orders", align: "left" },
+  { id: "spent", label: "Lifetime Spend", align: "left" },
+  { id: "lastOrderAt", label: "Last Order", align: "left" },
   { id: "action", label: "Action", align: "center" },
 ];
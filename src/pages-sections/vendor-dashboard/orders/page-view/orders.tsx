@@ -5,6 +5,7 @@ import Stack from "@mui/material/Stack";
 import Table from "@mui/material/Table";
 import TableBody from "@mui/material/TableBody";
 import TableContainer from "@mui/material/TableContainer";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 // GLOBAL CUSTOM COMPONENTS
 import Scrollbar from "components/scrollbar";
 import { TableHeader, TablePagination } from "components/data-table";
@@ -20,10 +21,24 @@ import Order from "models/Order.model";
 import { tableHeading } from "../table-heading";
 
 // =============================================================================
-type Props = { orders: Order[] };
+// page and pageCount are set when the server pages the list (Salla order mirror)
+type Props = { orders: Order[]; page?: number; pageCount?: number };
 // =============================================================================
 
-export default function OrdersPageView({ orders }: Props) {
+// TABLE HEAD CELL IDS THE ORDER MIRROR CAN SORT BY, AND ITS SORT FIELD FOR EACH
+const SERVER_SORT_FIELDS: Record<string, string> = {
+  id: "order_number",
+  qty: "items",
+  purchaseDate: "created_at",
+  amount: "total"
+};
+
+export default function OrdersPageView({ orders, page, pageCount }: Props) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const serverPaged = pageCount !== undefined;
+
   // RESHAPE THE ORDER LIST BASED TABLE HEAD CELL ID
   const filteredOrders = orders.map((item) => ({
     id: item.id,
@@ -48,10 +63,37 @@ export default function OrdersPageView({ orders }: Props) {
     defaultOrder: "desc"
   });
 
+  // THE SERVER SORTS BY THE sortBy AND order SEARCH PARAMS
+  const sortBy = searchParams?.get("sortBy") || "created_at";
+  const serverOrderBy = Object.keys(SERVER_SORT_FIELDS).find((id) => SERVER_SORT_FIELDS[id] === sortBy) ?? "";
+  const serverOrder = searchParams?.get("order") === "asc" ? "asc" : "desc";
+
+  // RELOAD THE LIST FROM THE SERVER WITH CHANGED SEARCH PARAMS, KEEPING THE REST
+  const pushParams = (changes: Record<string, string | undefined>) => {
+    const params = new URLSearchParams(searchParams?.toString());
+    Object.entries(changes).forEach(([key, value]) => (value ? params.set(key, value) : params.delete(key)));
+    router.push(`${pathname}?${params}`);
+  };
+
+  const handleChangeServerPage = (_: unknown, newPage: number) => pushParams({ page: String(newPage) });
+
+  // A NEW SEARCH OR SORT STARTS AGAIN FROM THE FIRST PAGE
+  const handleServerSearch = (search: string) => pushParams({ search, page: undefined });
+
+  const handleServerSort = (id: string) => {
+    if (!SERVER_SORT_FIELDS[id]) return;
+    const isAsc = serverOrderBy === id && serverOrder === "asc";
+    pushParams({ sortBy: SERVER_SORT_FIELDS[id], order: isAsc ? "desc" : "asc", page: undefined });
+  };
+
+  // THE SERVER HAS ALREADY SORTED AND PAGED ITS ROWS
+  const rows = serverPaged ? filteredOrders : filteredList;
+
   return (
     <PageWrapper title="Orders">
       <SearchArea
-        handleSearch={() => {}}
+        handleSearch={serverPaged ? handleServerSearch : () => {}}
+        defaultSearch={searchParams?.get("search") ?? undefined}
         buttonText="Create Order"
         url="/admin/orders"
         searchPlaceholder="Search Order..."
@@ -62,17 +104,17 @@ export default function OrdersPageView({ orders }: Props) {
           <TableContainer sx={{ minWidth: 900 }}>
             <Table>
               <TableHeader
-                order={order}
+                order={serverPaged ? serverOrder : order}
                 hideSelectBtn
-                orderBy={orderBy}
+                orderBy={serverPaged ? serverOrderBy : orderBy}
                 heading={tableHeading}
                 numSelected={selected.length}
-                rowCount={filteredList.length}
-                onRequestSort={handleRequestSort}
+                rowCount={rows.length}
+                onRequestSort={serverPaged ? handleServerSort : handleRequestSort}
               />
 
               <TableBody>
-                {filteredList.map((order) => (
+                {rows.map((order) => (
                   <OrderRow order={order} key={order.id} />
                 ))}
               </TableBody>
@@ -82,8 +124,9 @@ export default function OrdersPageView({ orders }: Props) {
 
         <Stack alignItems="center" my={4}>
           <TablePagination
-            onChange={handleChangePage}
-            count={Math.ceil(filteredList.length / rowsPerPage)}
+            page={serverPaged ? page : undefined}
+            onChange={serverPaged ? handleChangeServerPage : handleChangePage}
+            count={serverPaged ? pageCount : Math.ceil(filteredList.length / rowsPerPage)}
           />
         </Stack>
       </Card>
@@ -11,21 +11,31 @@ import SearchInput from "components/SearchInput";
 interface Props {
   url: string;
   buttonText: string;
-  handleSearch: () => void;
+  handleSearch: (value: string) => void;
   searchPlaceholder: string;
+  defaultSearch?: string;
 }
 // ===============================================================
 
 export default function SearchArea({
   searchPlaceholder = "Search Product...",
   buttonText = "Add Product",
-  url = "/"
+  url = "/",
+  handleSearch,
+  defaultSearch
 }: Props) {
   const downSM = useMediaQuery((theme: Theme) => theme.breakpoints.down("sm"));
 
   return (
     <FlexBox mb={2} gap={2} justifyContent="space-between" flexWrap="wrap">
-      <SearchInput placeholder={searchPlaceholder} />
+      {/* SEARCH ON ENTER */}
+      <SearchInput
+        placeholder={searchPlaceholder}
+        defaultValue={defaultSearch}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleSearch(e.currentTarget.value.trim());
+        }}
+      />
 
       <Button
         href={url}
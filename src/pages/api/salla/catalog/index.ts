@@ -0,0 +1,62 @@
+// Admin endpoint describing the catalog mirror
+// Returns a summary per mirrored store, the latest sync runs and whether the
+// sweep scheduler runs in this process.
+// Query: merchantId
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getCatalogSync } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface CatalogResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+const RUN_LIMIT = 25;
+
+const queryValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) || undefined;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CatalogResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const sync = getCatalogSync();
+    const mirror = sync.getMirror();
+    const merchantId = queryValue(req.query.merchantId);
+    const merchantIds = merchantId ? [merchantId] : await mirror.merchants();
+    const mirrors = (await Promise.all(merchantIds.map(id => mirror.summarize(id)))).filter(Boolean);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        mirrors,
+        runs: await sync.list({ merchantId, limit: RUN_LIMIT }),
+        schedulerRunning: sync.isRunning()
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load the catalog mirror:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load the catalog mirror'
+    });
+  }
+}
@@ -0,0 +1,88 @@
+// Catalog sync runs
+// GET sweeps every mirrored store and answers once the sweeps finish; call
+// it from a cron where no long-running process keeps the in-process
+// scheduler alive (the mirror needs shared storage for that, see the guide).
+// POST { merchantId, type: 'full' | 'sweep' } starts one run and answers
+// 202 straight away; follow its progress through /api/salla/catalog.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SallaError } from '../../../../services/salla/errors';
+import { CatalogSyncType, getCatalogSync } from '../../../../services/salla/server';
+import { isAuthorizedJobRequest } from '../../../../services/salla/admin-auth';
+
+interface SyncResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+const SYNC_TYPES: CatalogSyncType[] = ['full', 'sweep'];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SyncResponse>
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  // Vercel Cron sends GET requests
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  const sync = getCatalogSync();
+
+  if (req.method === 'GET') {
+    try {
+      const runs = await sync.sweepAll();
+      return res.status(200).json({
+        success: true,
+        message: `Swept ${runs.length} catalog mirrors`,
+        data: { runs }
+      });
+    } catch (error) {
+      console.error('❌ Catalog sweep failed:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to sweep the catalog mirrors'
+      });
+    }
+  }
+
+  const { merchantId, type = 'full' } = req.body || {};
+  if (!merchantId || !SYNC_TYPES.includes(type)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Provide a merchantId, and a type of full or sweep'
+    });
+  }
+
+  try {
+    const run = await sync.startRun(String(merchantId), type);
+    return res.status(202).json({
+      success: true,
+      message: `Started a ${type} sync of merchant ${run.merchantId}`,
+      data: run
+    });
+  } catch (error) {
+    if (error instanceof SallaError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Failed to start a catalog sync:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to start the catalog sync'
+    });
+  }
+}
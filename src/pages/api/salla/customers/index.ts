@@ -0,0 +1,60 @@
+// Admin endpoint describing the customer mirror
+// Returns a summary per mirrored store and the customer directory: people
+// linked across stores by email or phone, with their order count, lifetime
+// spend and last order date from the order mirror.
+// Query: merchantId, search
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getCustomerSync } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface CustomersResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+const queryValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) || undefined;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CustomersResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const sync = getCustomerSync();
+    const mirror = sync.getMirror();
+    const merchantId = queryValue(req.query.merchantId);
+    const merchantIds = merchantId ? [merchantId] : await mirror.merchants();
+    const mirrors = (await Promise.all(merchantIds.map(id => mirror.summarize(id)))).filter(Boolean);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        mirrors,
+        customers: await sync.directory({ merchantId, search: queryValue(req.query.search) })
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load the customer mirror:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load the customer mirror'
+    });
+  }
+}
@@ -0,0 +1,57 @@
+// Customer backfill
+// POST { merchantId } writes every customer Salla lists for the store into
+// the customer mirror and answers once it finishes. customer.* webhooks keep
+// the mirror current afterwards.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getCustomerSync } from '../../../../services/salla/server';
+import { isAuthorizedJobRequest } from '../../../../services/salla/admin-auth';
+
+interface SyncResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SyncResponse>
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  const { merchantId } = req.body || {};
+  if (!merchantId) {
+    return res.status(400).json({
+      success: false,
+      message: 'Provide a merchantId'
+    });
+  }
+
+  try {
+    const result = await getCustomerSync().backfill(String(merchantId));
+    return res.status(200).json({
+      success: true,
+      message: `Backfilled ${result.fetched} customers of merchant ${result.merchantId}`,
+      data: result
+    });
+  } catch (error) {
+    console.error('❌ Customer backfill failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to backfill the customers'
+    });
+  }
+}
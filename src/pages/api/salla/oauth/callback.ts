@@ -0,0 +1,54 @@
+// Callback of the Salla OAuth install flow
+// Validates the state against the cookie set by /api/salla/oauth/start,
+// exchanges the code, stores the merchant's tokens and redirects to the
+// result page (or the `returnTo` path given when the flow started).
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SALLA_CONFIG } from '../../../../services/salla/config';
+import {
+  OAUTH_COOKIE,
+  completeOAuthInstall,
+  openOAuthSession,
+  serializeOAuthCookie,
+  verifyOAuthState
+} from '../../../../services/salla/server';
+import { SallaOAuthError, toSallaError } from '../../../../services/salla/errors';
+
+const resultURL = (params: Record<string, string>) =>
+  `${SALLA_CONFIG.oauth.resultPage}?${new URLSearchParams(params).toString()}`;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  // The session is single-use
+  res.setHeader('Set-Cookie', serializeOAuthCookie('', req.headers['x-forwarded-proto'] === 'https'));
+
+  try {
+    const { code, state, error, error_description } = req.query;
+    if (error) {
+      throw new SallaOAuthError(String(error_description || error), 'OAUTH_DENIED');
+    }
+
+    const session = openOAuthSession(req.cookies[OAUTH_COOKIE]);
+    verifyOAuthState(session, state);
+    if (typeof code !== 'string' || !code) {
+      throw new SallaOAuthError('Authorization code is missing', 'OAUTH_CODE_MISSING');
+    }
+
+    const merchant = await completeOAuthInstall(code, session);
+    return res.redirect(302, session.returnTo || resultURL({
+      status: 'success',
+      merchant: merchant.merchantName
+    }));
+  } catch (error) {
+    const sallaError = toSallaError(error);
+    console.error(`❌ OAuth install failed (${sallaError.code}):`, sallaError.message, sallaError.details || '');
+    return res.redirect(302, resultURL({ status: 'error', code: sallaError.code }));
+  }
+}
@@ -0,0 +1,37 @@
+// Start of the Salla OAuth install flow
+// Redirects the merchant to Salla's authorize page with a fresh state and
+// PKCE challenge. Optional `?returnTo=/path` is where the callback lands on success.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SALLA_CONFIG } from '../../../../services/salla/config';
+import {
+  buildAuthorizeURL,
+  createOAuthSession,
+  getOAuthRedirectUri,
+  getSafeReturnPath,
+  sealOAuthSession,
+  serializeOAuthCookie
+} from '../../../../services/salla/server';
+import { toSallaError } from '../../../../services/salla/errors';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const redirectUri = getOAuthRedirectUri(req);
+    const session = createOAuthSession(redirectUri, getSafeReturnPath(req.query.returnTo));
+
+    res.setHeader('Set-Cookie', serializeOAuthCookie(sealOAuthSession(session), redirectUri.startsWith('https:')));
+    return res.redirect(302, buildAuthorizeURL(session));
+  } catch (error) {
+    const sallaError = toSallaError(error);
+    console.error('❌ Failed to start OAuth install:', sallaError.message);
+    return res.redirect(302, `${SALLA_CONFIG.oauth.resultPage}?status=error&code=${encodeURIComponent(sallaError.code)}`);
+  }
+}
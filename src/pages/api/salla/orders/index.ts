@@ -0,0 +1,85 @@
+// Admin endpoint describing the order mirror
+// Returns a summary per mirrored store, the latest backfill and
+// reconciliation runs and whether the reconciliation scheduler runs in this
+// process. With a merchantId it also lists that store's mirrored orders.
+// Query: merchantId, status, search, sortBy, order, page, perPage
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { OrderSortField, getOrderReconciler } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface OrdersResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+const RUN_LIMIT = 25;
+
+const SORT_FIELDS: OrderSortField[] = ['created_at', 'updated_at', 'total', 'items', 'order_number'];
+
+const queryValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) || undefined;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<OrdersResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  const sortBy = queryValue(req.query.sortBy) as OrderSortField | undefined;
+  if (sortBy && !SORT_FIELDS.includes(sortBy)) {
+    return res.status(400).json({
+      success: false,
+      message: `sortBy must be one of ${SORT_FIELDS.join(', ')}`
+    });
+  }
+
+  try {
+    const reconciler = getOrderReconciler();
+    const mirror = reconciler.getMirror();
+    const merchantId = queryValue(req.query.merchantId);
+    const merchantIds = merchantId ? [merchantId] : await mirror.merchants();
+    const mirrors = (await Promise.all(merchantIds.map(id => mirror.summarize(id)))).filter(Boolean);
+
+    const orders = merchantId
+      ? await mirror.list(merchantId, {
+          status: queryValue(req.query.status),
+          search: queryValue(req.query.search),
+          sortBy,
+          order: queryValue(req.query.order) === 'asc' ? 'asc' : 'desc',
+          page: Number(queryValue(req.query.page)) || undefined,
+          perPage: Number(queryValue(req.query.perPage)) || undefined
+        })
+      : undefined;
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        mirrors,
+        orders,
+        runs: await reconciler.list({ merchantId, limit: RUN_LIMIT }),
+        schedulerRunning: reconciler.isRunning()
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load the order mirror:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load the order mirror'
+    });
+  }
+}
@@ -0,0 +1,89 @@
+// Order backfill and reconciliation runs
+// GET reconciles every mirrored store and answers once the runs finish; call
+// it from a cron where no long-running process keeps the in-process
+// scheduler alive (the mirror needs shared storage for that, see the guide).
+// POST { merchantId, type: 'backfill' | 'reconcile', heal? } starts one run
+// and answers 202 straight away; follow its progress through
+// /api/salla/orders. `heal` overrides SALLA_ORDER_AUTO_HEAL for that run.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SallaError } from '../../../../services/salla/errors';
+import { OrderSyncType, getOrderReconciler } from '../../../../services/salla/server';
+import { isAuthorizedJobRequest } from '../../../../services/salla/admin-auth';
+
+interface ReconcileResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+const RUN_TYPES: OrderSyncType[] = ['backfill', 'reconcile'];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReconcileResponse>
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  // Vercel Cron sends GET requests
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  const reconciler = getOrderReconciler();
+
+  if (req.method === 'GET') {
+    try {
+      const runs = await reconciler.reconcileAll();
+      return res.status(200).json({
+        success: true,
+        message: `Reconciled ${runs.length} order mirrors`,
+        data: { runs }
+      });
+    } catch (error) {
+      console.error('❌ Order reconciliation failed:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to reconcile the order mirrors'
+      });
+    }
+  }
+
+  const { merchantId, type = 'backfill', heal } = req.body || {};
+  if (!merchantId || !RUN_TYPES.includes(type) || (heal !== undefined && typeof heal !== 'boolean')) {
+    return res.status(400).json({
+      success: false,
+      message: 'Provide a merchantId, a type of backfill or reconcile, and heal as a boolean if set'
+    });
+  }
+
+  try {
+    const run = await reconciler.startRun(String(merchantId), type, { heal });
+    return res.status(202).json({
+      success: true,
+      message: `Started an order ${type} of merchant ${run.merchantId}`,
+      data: run
+    });
+  } catch (error) {
+    if (error instanceof SallaError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Failed to start an order run:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to start the order run'
+    });
+  }
+}
@@ -0,0 +1,41 @@
+// Store-front product search
+// Serves the search box from the server, so the browser never loads the
+// data source (or the Salla client and its token) behind it. Returns the
+// titles of the matching products.
+// Query: name, category
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getDataSource } from '../../../utils/data-source';
+
+interface SearchResponse {
+  success: boolean;
+  message?: string;
+  data?: string[];
+}
+
+const queryValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) || undefined;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SearchResponse>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const data = await getDataSource().searchProducts(queryValue(req.query.name), queryValue(req.query.category));
+    return res.status(200).json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Product search failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Product search failed'
+    });
+  }
+}
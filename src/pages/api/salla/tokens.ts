@@ -0,0 +1,69 @@
+// Admin endpoint for stored merchant tokens
+// Backs the tokens dashboard with the same records webhooks and jobs use,
+// plus each merchant's install history. Tokens are only ever returned masked.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getMerchantRegistry, sallaTokenManager, toMaskedTokenData } from '../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../services/salla/admin-auth';
+
+interface TokensResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TokensResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET': {
+        const [summary, tokens, merchants] = await Promise.all([
+          sallaTokenManager.getTokenSummary(),
+          sallaTokenManager.getAllTokens(),
+          getMerchantRegistry().list()
+        ]);
+        return res.status(200).json({
+          success: true,
+          data: { summary, tokens: tokens.map(toMaskedTokenData), merchants }
+        });
+      }
+
+      case 'DELETE': {
+        const merchantId = req.query.merchantId;
+        if (typeof merchantId !== 'string' || !merchantId) {
+          return res.status(400).json({
+            success: false,
+            message: 'merchantId is required'
+          });
+        }
+        await sallaTokenManager.removeToken(merchantId);
+        return res.status(200).json({
+          success: true,
+          message: `Token removed for merchant ${merchantId}`
+        });
+      }
+
+      default:
+        res.setHeader('Allow', 'GET, DELETE');
+        return res.status(405).json({
+          success: false,
+          message: 'Method not allowed'
+        });
+    }
+  } catch (error) {
+    console.error('❌ Tokens API error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to process token request'
+    });
+  }
+}
@@ -0,0 +1,50 @@
+// Scheduled token refresh
+// Runs one scan of the token refresh scheduler. Call it from a cron when the
+// in-process timer isn't enabled, or from the tokens dashboard to refresh on
+// demand.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getTokenRefreshScheduler } from '../../../../services/salla/server';
+import { isAuthorizedJobRequest } from '../../../../services/salla/admin-auth';
+
+interface RefreshResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RefreshResponse>
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  // Vercel Cron sends GET requests
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const result = await getTokenRefreshScheduler().runOnce();
+    return res.status(200).json({
+      success: true,
+      message: `Refreshed ${result.refreshed.length} of ${result.checked} merchant tokens`,
+      data: result
+    });
+  } catch (error) {
+    console.error('❌ Token refresh run failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to refresh merchant tokens'
+    });
+  }
+}
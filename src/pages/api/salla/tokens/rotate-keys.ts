@@ -0,0 +1,59 @@
+// Admin endpoint for rotating the token encryption key
+// Re-encrypts every stored merchant token with the active key version, so an
+// old version can be removed from SALLA_TOKEN_ENCRYPTION_KEYS afterwards.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import {
+  EncryptedTokenStorage,
+  getRegisteredServerTokenStorage
+} from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface RotateKeysResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RotateKeysResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  const storage = getRegisteredServerTokenStorage();
+  if (!(storage instanceof EncryptedTokenStorage)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Token encryption is not configured (set SALLA_TOKEN_ENCRYPTION_KEYS)'
+    });
+  }
+
+  try {
+    const result = await storage.rotate();
+    return res.status(200).json({
+      success: true,
+      message: `Re-encrypted ${result.reencrypted} of ${result.total} merchant tokens`,
+      data: result
+    });
+  } catch (error) {
+    console.error('❌ Token key rotation failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to rotate token encryption key'
+    });
+  }
+}
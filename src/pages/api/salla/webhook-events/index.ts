@@ -0,0 +1,63 @@
+// Admin endpoint listing received webhook events
+// Query: event, status, merchant, from, to (ISO timestamps), limit (default 100)
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { WebhookEventStatus, getWebhookEventLog } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface WebhookEventsResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+const queryValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) || undefined;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhookEventsResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const eventLog = getWebhookEventLog();
+    const events = await eventLog.list({
+      event: queryValue(req.query.event),
+      status: queryValue(req.query.status) as WebhookEventStatus | undefined,
+      merchant: queryValue(req.query.merchant),
+      from: queryValue(req.query.from),
+      to: queryValue(req.query.to),
+      limit: Number(queryValue(req.query.limit)) || 100
+    });
+    const all = await eventLog.list();
+    const counts = all.reduce<Record<string, number>>((acc, record) => {
+      acc[record.status] = (acc[record.status] || 0) + 1;
+      return acc;
+    }, {});
+
+    return res.status(200).json({
+      success: true,
+      data: { events, counts, total: all.length }
+    });
+  } catch (error) {
+    console.error('❌ Failed to list webhook events:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load webhook events'
+    });
+  }
+}
@@ -0,0 +1,78 @@
+// Admin endpoint replaying logged webhook events
+// Body: { id } replays one event; { from, to, event?, status? } replays every
+// matching event received in that window, oldest first. Events run against
+// the handlers registered now, not the ones that handled them originally.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SallaError } from '../../../../services/salla/errors';
+import { getWebhookEventLog } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface ReplayResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReplayResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  const { id, from, to, event, status } = req.body || {};
+  if (!id && !(from && to)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Provide an event id, or a from/to range'
+    });
+  }
+
+  try {
+    const eventLog = getWebhookEventLog();
+
+    if (id) {
+      const { record, result } = await eventLog.replay(String(id));
+      return res.status(200).json({
+        success: true,
+        message: record.status === 'processed'
+          ? `Replayed ${record.event}`
+          : `Replayed ${record.event}, but handlers failed: ${record.lastError}`,
+        data: { record, result }
+      });
+    }
+
+    const results = await eventLog.replayRange({ from, to, event, status });
+    const failed = results.filter(({ record }) => record.status === 'failed').length;
+    return res.status(200).json({
+      success: true,
+      message: `Replayed ${results.length} events (${failed} failed)`,
+      data: { results: results.map(({ record }) => record) }
+    });
+  } catch (error) {
+    if (error instanceof SallaError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Webhook replay failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to replay webhook events'
+    });
+  }
+}
@@ -0,0 +1,55 @@
+// Admin endpoint listing webhook jobs
+// Returns queued, running and dead-lettered jobs with per-status counts.
+// Query: status, event
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { WebhookJobStatus, getWebhookJobQueue } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface WebhookQueueResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+const queryValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) || undefined;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhookQueueResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const queue = getWebhookJobQueue();
+    const jobs = await queue.list({
+      status: queryValue(req.query.status) as WebhookJobStatus | undefined,
+      event: queryValue(req.query.event)
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: { jobs, stats: await queue.stats(), workerRunning: queue.isRunning() }
+    });
+  } catch (error) {
+    console.error('❌ Failed to list webhook jobs:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load webhook jobs'
+    });
+  }
+}
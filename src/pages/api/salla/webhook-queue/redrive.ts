@@ -0,0 +1,74 @@
+// Admin endpoint re-queuing webhook jobs
+// Body: { id } redrives one job; { dead: true } redrives the whole
+// dead-letter queue. Redriven jobs start over with a fresh set of attempts.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SallaError } from '../../../../services/salla/errors';
+import { getWebhookJobQueue } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface RedriveResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RedriveResponse>
+) {
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  const { id, dead } = req.body || {};
+  if (!id && dead !== true) {
+    return res.status(400).json({
+      success: false,
+      message: 'Provide a job id, or dead: true'
+    });
+  }
+
+  try {
+    const queue = getWebhookJobQueue();
+
+    if (id) {
+      const job = await queue.redrive(String(id));
+      return res.status(200).json({
+        success: true,
+        message: `Requeued ${job.event}`,
+        data: job
+      });
+    }
+
+    const count = await queue.redriveDead();
+    return res.status(200).json({
+      success: true,
+      message: `Requeued ${count} dead-lettered jobs`,
+      data: { count }
+    });
+  } catch (error) {
+    if (error instanceof SallaError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Webhook job redrive failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to redrive webhook jobs'
+    });
+  }
+}
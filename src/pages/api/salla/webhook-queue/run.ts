@@ -0,0 +1,52 @@
+// Scheduled webhook queue run
+// Works through every due webhook job. Call it from a cron where no
+// long-running process keeps the in-process worker alive (the queue needs
+// shared storage for that, see the guide), or from the webhook manager to
+// process the queue on demand.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getWebhookJobQueue } from '../../../../services/salla/server';
+import { isAuthorizedJobRequest } from '../../../../services/salla/admin-auth';
+
+interface RunResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RunResponse>
+) {
+  if (!isAuthorizedJobRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  // Vercel Cron sends GET requests
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  }
+
+  try {
+    const queue = getWebhookJobQueue();
+    const attempts = await queue.drain();
+    return res.status(200).json({
+      success: true,
+      message: `Ran ${attempts} webhook jobs`,
+      data: { attempts, stats: await queue.stats() }
+    });
+  } catch (error) {
+    console.error('❌ Webhook queue run failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to run the webhook queue'
+    });
+  }
+}
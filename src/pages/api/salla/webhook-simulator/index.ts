@@ -0,0 +1,106 @@
+// Webhook simulator endpoint
+// GET: events, targets and scenarios for the simulator page.
+// POST: sign and deliver to this app's own webhook endpoints, either
+// { payload, target, strategy } for one event or { scenario, strategy }.
+// Off in production unless SALLA_WEBHOOK_SIMULATOR=on.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SALLA_CONFIG } from '../../../../services/salla/config';
+import { SallaError } from '../../../../services/salla/errors';
+import {
+  SIMULATOR_EVENTS,
+  WEBHOOK_SCENARIOS,
+  WEBHOOK_TARGETS,
+  WebhookScenarioLibrary,
+  deliverSimulatedWebhook,
+  getDefaultWebhookTarget,
+  parseWebhookScenario,
+  runWebhookScenario
+} from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface SimulatorResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SimulatorResponse>
+) {
+  if (!SALLA_CONFIG.webhookSimulator.enabled) {
+    return res.status(404).json({
+      success: false,
+      message: 'The webhook simulator is disabled'
+    });
+  }
+
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        success: true,
+        data: {
+          events: SIMULATOR_EVENTS,
+          targets: WEBHOOK_TARGETS,
+          builtInScenarios: WEBHOOK_SCENARIOS,
+          savedScenarios: await new WebhookScenarioLibrary().list(),
+          baseURL: SALLA_CONFIG.webhookSimulator.baseURL,
+          secretConfigured: Boolean(process.env.SALLA_WEBHOOK_SECRET)
+        }
+      });
+    }
+
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'GET, POST');
+      return res.status(405).json({
+        success: false,
+        message: 'Method not allowed'
+      });
+    }
+
+    const { payload, target, scenario, strategy } = req.body || {};
+
+    if (scenario) {
+      const deliveries = await runWebhookScenario(parseWebhookScenario(scenario), { strategy });
+      return res.status(200).json({
+        success: true,
+        message: `Delivered ${deliveries.length} events`,
+        data: { deliveries }
+      });
+    }
+
+    if (!payload || typeof payload.event !== 'string' || typeof payload.data !== 'object') {
+      return res.status(400).json({
+        success: false,
+        message: 'Provide a payload with an event and data, or a scenario'
+      });
+    }
+
+    const delivery = await deliverSimulatedWebhook(payload, target || getDefaultWebhookTarget(payload.event), { strategy });
+    return res.status(200).json({
+      success: true,
+      message: `Delivered ${payload.event}: ${delivery.response.status}`,
+      data: { deliveries: [delivery] }
+    });
+  } catch (error) {
+    if (error instanceof SallaError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Webhook simulation failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to simulate the webhook'
+    });
+  }
+}
@@ -0,0 +1,74 @@
+// Saved webhook simulator scenarios
+// PUT { scenario } saves it as src/tests/fixtures/webhook-scenarios/<name>.json,
+// where Jest tests can import it; DELETE ?name= removes it.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SALLA_CONFIG } from '../../../../services/salla/config';
+import { SallaError } from '../../../../services/salla/errors';
+import { WebhookScenarioLibrary } from '../../../../services/salla/server';
+import { isAuthorizedAdminRequest } from '../../../../services/salla/admin-auth';
+
+interface ScenariosResponse {
+  success: boolean;
+  message?: string;
+  data?: any;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScenariosResponse>
+) {
+  if (!SALLA_CONFIG.webhookSimulator.enabled) {
+    return res.status(404).json({
+      success: false,
+      message: 'The webhook simulator is disabled'
+    });
+  }
+
+  if (!isAuthorizedAdminRequest(req)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized'
+    });
+  }
+
+  try {
+    const library = new WebhookScenarioLibrary();
+
+    if (req.method === 'PUT') {
+      const scenario = await library.save(req.body?.scenario);
+      return res.status(200).json({
+        success: true,
+        message: `Saved scenario ${scenario.name}`,
+        data: scenario
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const name = String(req.query.name || '');
+      const removed = await library.remove(name);
+      return res.status(removed ? 200 : 404).json({
+        success: removed,
+        message: removed ? `Deleted scenario ${name}` : `Scenario ${name} not found`
+      });
+    }
+
+    res.setHeader('Allow', 'PUT, DELETE');
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed'
+    });
+  } catch (error) {
+    if (error instanceof SallaError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('❌ Failed to update webhook scenarios:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update webhook scenarios'
+    });
+  }
+}
@@ -2,30 +2,15 @@
 // This endpoint receives authentication tokens when the app is added to a store
 
 import { NextApiRequest, NextApiResponse } from 'next';
-import crypto from 'crypto';
+import {
+  SallaWebhookPayload,
+  VerifiedWebhook,
+  storeAuthorizedMerchant,
+  withSallaWebhook
+} from '../../../../services/salla/server';
 
-// Interface for the app installation webhook payload
-interface SallaAppInstallPayload {
-  event: 'app.store.authorize';
-  merchant: {
-    id: string;
-    name: string;
-    email: string;
-    domain: string;
-    currency: string;
-    timezone: string;
-    status: string;
-  };
-  data: {
-    access_token: string;
-    token_type: 'Bearer';
-    expires_in: number;
-    refresh_token?: string;
-    scope: string;
-    merchant_id: string;
-  };
-  created_at: string;
-}
+// The same event is also accepted by the unified endpoint (./index.ts)
+type SallaAppInstallPayload = SallaWebhookPayload<'app.store.authorize'>;
 
 // Interface for webhook response
 interface WebhookResponse {
@@ -34,118 +19,13 @@ interface WebhookResponse {
   data?: any;
 }
 
-// Verify webhook signature
-function verifyWebhookSignature(
-  payload: string,
-  signature: string,
-  secret: string
-): boolean {
-  try {
-    const expectedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(payload)
-      .digest('hex');
-    
-    // Remove 'sha256=' prefix if present
-    const cleanSignature = signature.replace('sha256=', '');
-    
-    return crypto.timingSafeEqual(
-      Buffer.from(expectedSignature, 'hex'),
-      Buffer.from(cleanSignature, 'hex')
-    );
-  } catch (error) {
-    console.error('Signature verification error:', error);
-    return false;
-  }
-}
-
-// Store authentication token using the token manager
-async function storeAuthToken(payload: SallaAppInstallPayload): Promise<void> {
-  try {
-    const { sallaTokenManager } = await import('../../../services/salla/token-manager');
-    
-    console.log('📦 New Salla App Installation:', {
-      merchantId: payload.merchant.id,
-      merchantName: payload.merchant.name,
-      merchantDomain: payload.merchant.domain,
-      accessToken: payload.data.access_token.substring(0, 20) + '...', // Partial token for logging
-      expiresIn: payload.data.expires_in,
-      scope: payload.data.scope,
-      installedAt: payload.created_at
-    });
-
-    // Store token data using the token manager
-    await sallaTokenManager.storeToken({
-      merchantId: payload.merchant.id,
-      merchantName: payload.merchant.name,
-      merchantDomain: payload.merchant.domain,
-      merchantEmail: payload.merchant.email,
-      accessToken: payload.data.access_token,
-      refreshToken: payload.data.refresh_token,
-      tokenType: payload.data.token_type,
-      expiresIn: payload.data.expires_in,
-      scope: payload.data.scope,
-      currency: payload.merchant.currency,
-      timezone: payload.merchant.timezone,
-      installedAt: payload.created_at
-    });
-    
-    console.log('✅ Authentication token stored successfully for merchant:', payload.merchant.id);
-    
-  } catch (error) {
-    console.error('❌ Failed to store auth token:', error);
-    throw error;
-  }
-}
-
-// Main webhook handler
-export default async function handler(
+// Main webhook handler, called once the delivery is verified
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<WebhookResponse>
+  res: NextApiResponse<WebhookResponse>,
+  { payload }: VerifiedWebhook<SallaAppInstallPayload>
 ) {
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({
-      success: false,
-      message: 'Method not allowed. Only POST requests are accepted.'
-    });
-  }
-
   try {
-    // Get webhook secret from environment
-    const webhookSecret = process.env.SALLA_WEBHOOK_SECRET;
-    if (!webhookSecret) {
-      console.error('❌ SALLA_WEBHOOK_SECRET not configured');
-      return res.status(500).json({
-        success: false,
-        message: 'Webhook secret not configured'
-      });
-    }
-
-    // Get signature from headers
-    const signature = req.headers['x-salla-signature'] as string;
-    if (!signature) {
-      return res.status(400).json({
-        success: false,
-        message: 'Missing webhook signature'
-      });
-    }
-
-    // Get raw body for signature verification
-    const rawBody = JSON.stringify(req.body);
-    
-    // Verify webhook signature
-    if (!verifyWebhookSignature(rawBody, signature, webhookSecret)) {
-      console.error('❌ Invalid webhook signature');
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid webhook signature'
-      });
-    }
-
-    // Parse the payload
-    const payload: SallaAppInstallPayload = req.body;
-    
     // Validate payload structure
     if (!payload.event || !payload.merchant || !payload.data) {
       return res.status(400).json({
@@ -178,7 +58,7 @@ export default async function handler(
     });
 
     // Store the authentication token
-    await storeAuthToken(payload);
+    await storeAuthorizedMerchant(payload);
 
     // Send success response
     return res.status(200).json({
@@ -200,11 +80,11 @@ export default async function handler(
   }
 }
 
-// Configure Next.js to parse raw body for signature verification
+export default withSallaWebhook(handler);
+
+// Signatures are computed over the raw body, so Next must not parse it
 export const config = {
   api: {
-    bodyParser: {
-      sizeLimit: '1mb',
-    },
+    bodyParser: false,
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,95 @@
+// Unified webhook endpoint for every Salla event
+// Verifies the delivery, records it in the webhook event log and queues it
+// for the handlers registered in the webhook registry (see
+// services/salla/webhook-handlers.ts), answering 202 right away. With
+// SALLA_WEBHOOK_QUEUE=off the handlers run before the response instead.
+// Redeliveries of an event that was already processed are acknowledged
+// without running the handlers again.
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SALLA_CONFIG } from '../../../../services/salla/config';
+import {
+  SallaWebhookPayload,
+  VerifiedWebhook,
+  getWebhookEventLog,
+  getWebhookJobQueue,
+  withSallaWebhook
+} from '../../../../services/salla/server';
+
+// Interface for webhook response
+interface WebhookResponse {
+  success: boolean;
+  message: string;
+  data?: any;
+}
+
+// Main webhook handler, called once the delivery is verified
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhookResponse>,
+  { payload, rawBody }: VerifiedWebhook<SallaWebhookPayload>
+) {
+  try {
+    if (!payload || typeof payload.event !== 'string' || !payload.data) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid payload structure'
+      });
+    }
+
+    const deliveryId = req.headers['x-salla-delivery-id'];
+    const { record, duplicate, result } = await getWebhookEventLog().receive(payload, {
+      rawBody,
+      deliveryId: typeof deliveryId === 'string' ? deliveryId : undefined
+    }, { defer: SALLA_CONFIG.webhookQueue.enabled });
+
+    if (duplicate) {
+      return res.status(200).json({
+        success: true,
+        message: `Event ${record.id} was already ${record.status === 'processed' ? 'processed' : 'received and is pending'}`,
+        data: { id: record.id, status: record.status, duplicate: true }
+      });
+    }
+
+    // Queued: handlers run in the background worker
+    if (!result) {
+      const job = await getWebhookJobQueue().enqueue(record);
+      return res.status(202).json({
+        success: true,
+        message: `Webhook ${payload.event} queued for processing`,
+        data: { id: job.id, status: job.status }
+      });
+    }
+
+    // A failed handler gets a 500 so Salla redelivers the event
+    if (result.errors.length > 0) {
+      return res.status(500).json({
+        success: false,
+        message: `Webhook handlers failed for ${payload.event}`,
+        data: result
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: result.handled > 0 ? 'Webhook processed successfully' : `No handlers registered for ${payload.event}`,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('❌ Webhook processing error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error processing webhook'
+    });
+  }
+}
+
+export default withSallaWebhook(handler);
+
+// Signatures are computed over the raw body, so Next must not parse it
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
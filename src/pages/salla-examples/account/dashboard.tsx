@@ -54,6 +54,7 @@ import { useSallaOrders } from '../../../hooks/useSallaOrders';
 import { FlexBox } from '../../../components/flex-box';
 import { H1, H2, H3, H4, H6 } from '../../../components/Typography';
 import { formatPrice, formatDate } from '../../../services/salla/utils';
+import { applySallaErrorToFormik } from '../../../services/salla/errors';
 import { SallaUser, SallaOrder, SallaAddress } from '../../../services/salla/types';
 
 interface TabPanelProps {
@@ -89,6 +90,8 @@ const AccountDashboard: React.FC = () => {
     email: '',
     phone: ''
   });
+  const [profileErrors, setProfileErrors] = useState<Record<string, string>>({});
+  const [profileStatus, setProfileStatus] = useState<{ error?: string }>({});
   const [addressForm, setAddressForm] = useState({
     type: 'home' as 'home' | 'work' | 'other',
     street: '',
@@ -146,11 +149,21 @@ const AccountDashboard: React.FC = () => {
 
   // Handle profile update
   const handleUpdateProfile = async () => {
+    setProfileErrors({});
+    setProfileStatus({});
     try {
-      await updateProfile(profileForm);
+      const result = await updateProfile(profileForm);
+      if (result && !result.success) {
+        applySallaErrorToFormik('error' in result ? result.error : result, {
+          setErrors: setProfileErrors,
+          setStatus: setProfileStatus
+        });
+        return;
+      }
       setEditProfileOpen(false);
     } catch (error) {
       console.error('Error updating profile:', error);
+      applySallaErrorToFormik(error, { setErrors: setProfileErrors, setStatus: setProfileStatus });
     }
   };
 
@@ -700,6 +713,11 @@ const AccountDashboard: React.FC = () => {
       <Dialog open={editProfileOpen} onClose={() => setEditProfileOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>Edit Profile</DialogTitle>
         <DialogContent>
+          {profileStatus.error && (
+            <Alert severity="error" sx={{ mt: 1 }}>
+              {profileStatus.error}
+            </Alert>
+          )}
           <Grid container spacing={2} sx={{ mt: 1 }}>
             <Grid item sm={6} xs={12}>
               <TextField
@@ -707,6 +725,8 @@ const AccountDashboard: React.FC = () => {
                 label="First Name"
                 value={profileForm.first_name}
                 onChange={(e) => setProfileForm({ ...profileForm, first_name: e.target.value })}
+                error={!!profileErrors.first_name}
+                helperText={profileErrors.first_name}
               />
             </Grid>
             <Grid item sm={6} xs={12}>
@@ -715,6 +735,8 @@ const AccountDashboard: React.FC = () => {
                 label="Last Name"
                 value={profileForm.last_name}
                 onChange={(e) => setProfileForm({ ...profileForm, last_name: e.target.value })}
+                error={!!profileErrors.last_name}
+                helperText={profileErrors.last_name}
               />
             </Grid>
             <Grid item xs={12}>
@@ -724,6 +746,8 @@ const AccountDashboard: React.FC = () => {
                 type="email"
                 value={profileForm.email}
                 onChange={(e) => setProfileForm({ ...profileForm, email: e.target.value })}
+                error={!!profileErrors.email}
+                helperText={profileErrors.email}
               />
             </Grid>
             <Grid item xs={12}>
@@ -732,6 +756,8 @@ const AccountDashboard: React.FC = () => {
                 label="Phone"
                 value={profileForm.phone}
                 onChange={(e) => setProfileForm({ ...profileForm, phone: e.target.value })}
+                error={!!profileErrors.phone}
+                helperText={profileErrors.phone}
               />
             </Grid>
           </Grid>
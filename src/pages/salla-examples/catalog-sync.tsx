@@ -0,0 +1,271 @@
+// Salla Catalog Sync Dashboard
+// What the local catalog mirror holds per store, and the sync runs that
+// fill it: start a full sync or a sweep and follow its progress
+
+import React, { useState, useEffect } from 'react';
+import type { CatalogMirrorSummary } from '../../services/salla/catalog-mirror';
+import type { CatalogSyncRun, CatalogSyncType } from '../../services/salla/catalog-sync';
+import { sallaAdminApi } from '../../services/salla/admin-api';
+
+const CATALOG_API = '/api/salla/catalog';
+const SYNC_API = '/api/salla/catalog/sync';
+
+// How often the page refreshes while a run is going
+const POLL_INTERVAL = 3000;
+
+const RUN_STATUS_STYLES: Record<CatalogSyncRun['status'], { backgroundColor: string; color: string; label: string }> = {
+  running: { backgroundColor: '#fff3cd', color: '#856404', label: '🔄 Running' },
+  completed: { backgroundColor: '#d4edda', color: '#155724', label: '✅ Completed' },
+  failed: { backgroundColor: '#f8d7da', color: '#721c24', label: '❌ Failed' }
+};
+
+const cellStyle: React.CSSProperties = { padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' };
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  padding: '6px 12px',
+  marginRight: '8px',
+  backgroundColor: color,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+});
+
+const formatDate = (dateString?: string) => (dateString ? new Date(dateString).toLocaleString() : 'Never');
+
+const CatalogSyncDashboard: React.FC = () => {
+  const [mirrors, setMirrors] = useState<CatalogMirrorSummary[]>([]);
+  const [runs, setRuns] = useState<CatalogSyncRun[]>([]);
+  const [schedulerRunning, setSchedulerRunning] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [newMerchantId, setNewMerchantId] = useState('');
+  const [starting, setStarting] = useState<string | null>(null);
+
+  const loadCatalog = async () => {
+    try {
+      setError(null);
+      const { data } = await sallaAdminApi(CATALOG_API);
+      setMirrors(data.mirrors);
+      setRuns(data.runs);
+      setSchedulerRunning(data.schedulerRunning);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the catalog mirror');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startSync = async (merchantId: string, type: CatalogSyncType) => {
+    try {
+      setStarting(`${merchantId}:${type}`);
+      setError(null);
+      const body = await sallaAdminApi(SYNC_API, {
+        method: 'POST',
+        body: JSON.stringify({ merchantId, type })
+      });
+      setMessage(body.message);
+      await loadCatalog();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the sync');
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
+  // Follow running syncs until they finish
+  const hasRunningSync = runs.some(run => run.status === 'running');
+  useEffect(() => {
+    if (!hasRunningSync) return;
+    const timer = setInterval(loadCatalog, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasRunningSync]);
+
+  if (loading) {
+    return (
+      <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
+        <h1>🗂️ Salla Catalog Sync</h1>
+        <div style={{ textAlign: 'center', padding: '40px' }}>
+          <div style={{ fontSize: '18px' }}>Loading catalog mirror...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif', maxWidth: '1200px', margin: '0 auto' }}>
+      <h1>🗂️ Salla Catalog Sync</h1>
+      <p style={{ color: '#666' }}>
+        Sweep scheduler: {schedulerRunning ? '✅ running in this process' : '⏸️ not running (the cron route sweeps instead)'}
+      </p>
+
+      {error && (
+        <div style={{ padding: '12px', marginBottom: '20px', backgroundColor: '#f8d7da', color: '#721c24', borderRadius: '4px' }}>
+          ❌ {error}
+        </div>
+      )}
+      {message && (
+        <div style={{ padding: '12px', marginBottom: '20px', backgroundColor: '#d4edda', color: '#155724', borderRadius: '4px' }}>
+          ✅ {message}
+        </div>
+      )}
+
+      {/* Mirrors */}
+      <div style={{ backgroundColor: 'white', border: '1px solid #ddd', borderRadius: '8px', overflow: 'hidden' }}>
+        <div style={{ padding: '20px', backgroundColor: '#f8f9fa', borderBottom: '1px solid #ddd' }}>
+          <h2 style={{ margin: 0, color: '#333' }}>📦 Mirrored Stores</h2>
+        </div>
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#f8f9fa' }}>
+                <th style={cellStyle}>Merchant</th>
+                <th style={cellStyle}>Products</th>
+                <th style={cellStyle}>Categories</th>
+                <th style={cellStyle}>Brands</th>
+                <th style={cellStyle}>Last Synced</th>
+                <th style={cellStyle}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {mirrors.map(mirror => (
+                <tr key={mirror.merchantId} style={{ borderBottom: '1px solid #eee', verticalAlign: 'top' }}>
+                  <td style={{ padding: '12px' }}><strong>{mirror.merchantId}</strong></td>
+                  <td style={{ padding: '12px' }}>
+                    {mirror.products}
+                    <div style={{ fontSize: '12px', color: '#666' }}>
+                      {mirror.variants} variants · {mirror.images} images
+                    </div>
+                  </td>
+                  <td style={{ padding: '12px' }}>{mirror.categories}</td>
+                  <td style={{ padding: '12px' }}>{mirror.brands}</td>
+                  <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
+                    <div>Full sync: {formatDate(mirror.lastFullSyncAt)}</div>
+                    <div>Sweep: {formatDate(mirror.lastSweepAt)}</div>
+                    <div>Webhook: {formatDate(mirror.lastWebhookAt)}</div>
+                  </td>
+                  <td style={{ padding: '12px', whiteSpace: 'nowrap' }}>
+                    <button
+                      onClick={() => startSync(mirror.merchantId, 'full')}
+                      disabled={starting !== null}
+                      style={buttonStyle('#007bff')}
+                    >
+                      Full sync
+                    </button>
+                    <button
+                      onClick={() => startSync(mirror.merchantId, 'sweep')}
+                      disabled={starting !== null}
+                      style={buttonStyle('#6c757d')}
+                    >
+                      Sweep
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {mirrors.length === 0 && (
+                <tr>
+                  <td colSpan={6} style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
+                    No store is mirrored yet. Start a full sync below.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div style={{ padding: '16px 20px', borderTop: '1px solid #ddd' }}>
+          <input
+            value={newMerchantId}
+            onChange={event => setNewMerchantId(event.target.value)}
+            placeholder="Merchant ID"
+            style={{ padding: '6px 10px', marginRight: '8px', border: '1px solid #ccc', borderRadius: '4px' }}
+          />
+          <button
+            onClick={() => startSync(newMerchantId.trim(), 'full')}
+            disabled={!newMerchantId.trim() || starting !== null}
+            style={buttonStyle('#28a745')}
+          >
+            Mirror store
+          </button>
+        </div>
+      </div>
+
+      {/* Runs */}
+      <div style={{ backgroundColor: 'white', border: '1px solid #ddd', borderRadius: '8px', overflow: 'hidden', marginTop: '30px' }}>
+        <div style={{ padding: '20px', backgroundColor: '#f8f9fa', borderBottom: '1px solid #ddd' }}>
+          <h2 style={{ margin: 0, color: '#333' }}>📜 Sync Runs</h2>
+        </div>
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#f8f9fa' }}>
+                <th style={cellStyle}>Run</th>
+                <th style={cellStyle}>Status</th>
+                <th style={cellStyle}>Progress</th>
+                <th style={cellStyle}>Products</th>
+                <th style={cellStyle}>Categories / Brands</th>
+                <th style={cellStyle}>Errors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(run => {
+                const status = RUN_STATUS_STYLES[run.status];
+                const products = run.counts.product;
+                return (
+                  <tr key={run.id} style={{ borderBottom: '1px solid #eee', verticalAlign: 'top' }}>
+                    <td style={{ padding: '12px' }}>
+                      <strong>{run.type === 'full' ? 'Full sync' : 'Sweep'}</strong> · {run.merchantId}
+                      <div style={{ fontSize: '12px', color: '#666' }}>{formatDate(run.startedAt)}</div>
+                    </td>
+                    <td style={{ padding: '12px' }}>
+                      <span style={{
+                        padding: '4px 8px',
+                        borderRadius: '12px',
+                        fontSize: '12px',
+                        fontWeight: 'bold',
+                        backgroundColor: status.backgroundColor,
+                        color: status.color
+                      }}>
+                        {status.label}
+                      </span>
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
+                      {run.pages} pages{run.stage ? ` · listing ${run.stage} records` : ''}
+                      <div>{run.finishedAt ? `Finished ${formatDate(run.finishedAt)}` : `Updated ${formatDate(run.updatedAt)}`}</div>
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
+                      {products.fetched} fetched · {products.created} new · {products.updated} updated
+                      <div>{products.unchanged} unchanged · {products.skipped} skipped · {products.deleted} deleted</div>
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
+                      {run.counts.category.fetched} / {run.counts.brand.fetched} fetched
+                      <div>{run.counts.category.deleted} / {run.counts.brand.deleted} deleted</div>
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#721c24' }}>
+                      {run.errors.map((entry, index) => (
+                        <div key={index}>{entry.stage}: {entry.message}</div>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+              {runs.length === 0 && (
+                <tr>
+                  <td colSpan={6} style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
+                    No sync has run yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogSyncDashboard;
@@ -41,6 +41,7 @@ import { useSallaUser } from '../../hooks/useSallaUser';
 import { FlexBox } from '../../components/flex-box';
 import { H1, H2, H3, H6 } from '../../components/Typography';
 import { formatPrice } from '../../services/salla/utils';
+import { applySallaErrorToFormik } from '../../services/salla/errors';
 import {
   SallaShippingMethod,
   SallaPaymentMethod,
@@ -88,6 +89,20 @@ interface CheckoutFormData {
 
 const steps = ['Customer Info', 'Shipping', 'Payment', 'Review'];
 
+// Salla's order payload field names -> checkout form field names
+const ORDER_FIELD_MAP: Record<string, string> = {
+  'customer.email': 'email',
+  'customer.first_name': 'firstName',
+  'customer.last_name': 'lastName',
+  'customer.phone': 'phone',
+  'shipping_address.street': 'shippingAddress.street',
+  'shipping_address.city': 'shippingAddress.city',
+  'shipping_address.state': 'shippingAddress.state',
+  'shipping_address.postalCode': 'shippingAddress.postalCode',
+  'shipping_address.country': 'shippingAddress.country'
+};
+const CUSTOMER_FIELDS = ['email', 'firstName', 'lastName', 'phone'];
+
 const CheckoutPage: React.FC = () => {
   const router = useRouter();
   const [activeStep, setActiveStep] = useState(0);
@@ -121,6 +136,7 @@ const CheckoutPage: React.FC = () => {
   const [shippingMethods, setShippingMethods] = useState<SallaShippingMethod[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<SallaPaymentMethod[]>([]);
   const [checkoutSession, setCheckoutSession] = useState<SallaCheckoutSession | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   // Hooks
   const { cart, loading: cartLoading } = useSallaCart();
@@ -263,6 +279,7 @@ const CheckoutPage: React.FC = () => {
   const handleSubmitOrder = async () => {
     if (!cart) return;
 
+    setFieldErrors({});
     try {
       const orderData = {
         cart_id: cart.id,
@@ -287,6 +304,16 @@ const CheckoutPage: React.FC = () => {
       router.push(`/order-confirmation/${order.id}`);
     } catch (error) {
       console.error('Error creating order:', error);
+      // Show Salla's field messages on their inputs and go back to the first broken step
+      applySallaErrorToFormik(error, {
+        setErrors: errors => {
+          setFieldErrors(errors);
+          const fields = Object.keys(errors);
+          if (fields.length > 0) {
+            setActiveStep(fields.some(field => CUSTOMER_FIELDS.includes(field)) ? 0 : 1);
+          }
+        }
+      }, ORDER_FIELD_MAP);
     }
   };
 
@@ -327,6 +354,8 @@ const CheckoutPage: React.FC = () => {
                     type="email"
                     value={formData.email}
                     onChange={(e) => handleFieldChange('email', e.target.value)}
+                    error={!!fieldErrors['email']}
+                    helperText={fieldErrors['email']}
                     required
                   />
                 </Grid>
@@ -336,6 +365,8 @@ const CheckoutPage: React.FC = () => {
                     label="First Name"
                     value={formData.firstName}
                     onChange={(e) => handleFieldChange('firstName', e.target.value)}
+                    error={!!fieldErrors['firstName']}
+                    helperText={fieldErrors['firstName']}
                     required
                   />
                 </Grid>
@@ -345,6 +376,8 @@ const CheckoutPage: React.FC = () => {
                     label="Last Name"
                     value={formData.lastName}
                     onChange={(e) => handleFieldChange('lastName', e.target.value)}
+                    error={!!fieldErrors['lastName']}
+                    helperText={fieldErrors['lastName']}
                     required
                   />
                 </Grid>
@@ -354,6 +387,8 @@ const CheckoutPage: React.FC = () => {
                     label="Phone Number"
                     value={formData.phone}
                     onChange={(e) => handleFieldChange('phone', e.target.value)}
+                    error={!!fieldErrors['phone']}
+                    helperText={fieldErrors['phone']}
                   />
                 </Grid>
                 <Grid item xs={12}>
@@ -415,6 +450,8 @@ const CheckoutPage: React.FC = () => {
                       label="Street Address"
                       value={formData.shippingAddress.street}
                       onChange={(e) => handleFieldChange('shippingAddress.street', e.target.value)}
+                      error={!!fieldErrors['shippingAddress.street']}
+                      helperText={fieldErrors['shippingAddress.street']}
                       required
                     />
                   </Grid>
@@ -424,6 +461,8 @@ const CheckoutPage: React.FC = () => {
                       label="City"
                       value={formData.shippingAddress.city}
                       onChange={(e) => handleFieldChange('shippingAddress.city', e.target.value)}
+                      error={!!fieldErrors['shippingAddress.city']}
+                      helperText={fieldErrors['shippingAddress.city']}
                       required
                     />
                   </Grid>
@@ -433,6 +472,8 @@ const CheckoutPage: React.FC = () => {
                       label="State/Province"
                       value={formData.shippingAddress.state}
                       onChange={(e) => handleFieldChange('shippingAddress.state', e.target.value)}
+                      error={!!fieldErrors['shippingAddress.state']}
+                      helperText={fieldErrors['shippingAddress.state']}
                     />
                   </Grid>
                   <Grid item xs={12} sm={6}>
@@ -441,6 +482,8 @@ const CheckoutPage: React.FC = () => {
                       label="Postal Code"
                       value={formData.shippingAddress.postalCode}
                       onChange={(e) => handleFieldChange('shippingAddress.postalCode', e.target.value)}
+                      error={!!fieldErrors['shippingAddress.postalCode']}
+                      helperText={fieldErrors['shippingAddress.postalCode']}
                     />
                   </Grid>
                   <Grid item xs={12} sm={6}>
@@ -449,6 +492,8 @@ const CheckoutPage: React.FC = () => {
                       label="Country"
                       value={formData.shippingAddress.country}
                       onChange={(e) => handleFieldChange('shippingAddress.country', e.target.value)}
+                      error={!!fieldErrors['shippingAddress.country']}
+                      helperText={fieldErrors['shippingAddress.country']}
                     />
                   </Grid>
                   {isAuthenticated && (
@@ -0,0 +1,88 @@
+// Salla OAuth Result
+// Landing page of /api/salla/oauth/callback. Only known error codes are
+// explained; the query string is never rendered as a message.
+
+import React from 'react';
+import { useRouter } from 'next/router';
+import {
+  Container,
+  Card,
+  CardContent,
+  Box,
+  Typography,
+  Button,
+  Alert
+} from '@mui/material';
+import {
+  CheckCircle as CheckIcon,
+  ErrorOutline as ErrorIcon
+} from '@mui/icons-material';
+
+const ERROR_MESSAGES: Record<string, string> = {
+  OAUTH_DENIED: 'The app was not authorized. You can start the installation again whenever you are ready.',
+  OAUTH_SESSION_MISSING: 'We could not find an installation in progress. Cookies may be blocked, or the link was opened in another browser.',
+  OAUTH_SESSION_EXPIRED: 'The installation took too long and expired. Please start again.',
+  OAUTH_SESSION_INVALID: 'The installation request could not be verified. Please start again.',
+  OAUTH_STATE_MISMATCH: 'The installation request could not be verified. Please start again.',
+  OAUTH_CODE_MISSING: 'Salla did not return an authorization code. Please start again.',
+  OAUTH_EXCHANGE_FAILED: 'Salla did not accept the authorization. Please try again in a few minutes.',
+  OAUTH_USER_INFO_FAILED: 'The app was authorized, but your store details could not be loaded. Please try again.',
+  OAUTH_NOT_CONFIGURED: 'The app is not configured for installation yet. Please contact support.'
+};
+
+const OAuthResultPage: React.FC = () => {
+  const router = useRouter();
+  const { status, code, merchant } = router.query;
+  const succeeded = status === 'success';
+  const errorCode = typeof code === 'string' ? code : 'OAUTH_ERROR';
+
+  if (!router.isReady) return null;
+
+  return (
+    <Container maxWidth="sm" sx={{ py: 8 }}>
+      <Card>
+        <CardContent sx={{ textAlign: 'center', p: 4 }}>
+          {succeeded ? (
+            <>
+              <CheckIcon color="success" sx={{ fontSize: 64, mb: 2 }} />
+              <Typography variant="h5" gutterBottom>
+                App installed
+              </Typography>
+              <Typography color="text.secondary">
+                {typeof merchant === 'string' && merchant
+                  ? `${merchant} is now connected.`
+                  : 'Your store is now connected.'}
+              </Typography>
+            </>
+          ) : (
+            <>
+              <ErrorIcon color="error" sx={{ fontSize: 64, mb: 2 }} />
+              <Typography variant="h5" gutterBottom>
+                Installation failed
+              </Typography>
+              <Alert severity="error" sx={{ textAlign: 'left', mb: 2 }}>
+                {ERROR_MESSAGES[errorCode] || 'Something went wrong while installing the app. Please try again.'}
+              </Alert>
+              <Typography variant="caption" color="text.secondary">
+                Error code: {errorCode}
+              </Typography>
+            </>
+          )}
+
+          <Box sx={{ mt: 4, display: 'flex', gap: 2, justifyContent: 'center' }}>
+            {!succeeded && (
+              <Button variant="contained" href="/api/salla/oauth/start">
+                Try Again
+              </Button>
+            )}
+            <Button variant={succeeded ? 'contained' : 'outlined'} href="/salla-examples/demo">
+              Back to Demo
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Container>
+  );
+};
+
+export default OAuthResultPage;
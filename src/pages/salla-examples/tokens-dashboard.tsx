@@ -2,27 +2,48 @@
 // View and manage authentication tokens received from app installations
 
 import React, { useState, useEffect } from 'react';
-import { sallaTokenManager, MerchantTokenData } from '../../services/salla/token-manager';
+import { maskToken } from '../../services/salla/token-manager';
+import type { MerchantTokenData } from '../../services/salla/token-manager';
+import type { MerchantHistoryAction, MerchantRecord } from '../../services/salla/merchant-registry';
+import { sallaAdminApi } from '../../services/salla/admin-api';
 
 interface TokenSummary {
   total: number;
   active: number;
   expired: number;
+  needsReauth: number;
+  unreadable: Array<{ merchantId: string; error: string }>;
   merchants: Array<{
     merchantId: string;
     merchantName: string;
     isActive: boolean;
-    expiresAt?: Date;
+    expiresAt?: string;
     timeUntilExpiry?: string;
+    status: 'active' | 'needs_reauth';
+    refreshFailures: number;
+    lastRefreshError?: string;
   }>;
 }
 
+const TOKENS_API = '/api/salla/tokens';
+
+const HISTORY_LABELS: Record<MerchantHistoryAction, string> = {
+  installed: '📦 Installed',
+  reinstalled: '♻️ Reinstalled',
+  authorized: '🔑 Authorized',
+  updated: '🔄 Updated',
+  uninstalled: '🗑️ Uninstalled'
+};
+
 const TokensDashboard: React.FC = () => {
   const [summary, setSummary] = useState<TokenSummary | null>(null);
   const [tokens, setTokens] = useState<MerchantTokenData[]>([]);
+  const [merchants, setMerchants] = useState<MerchantRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedToken, setSelectedToken] = useState<MerchantTokenData | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshMessage, setRefreshMessage] = useState<string | null>(null);
 
   // Load token data
   const loadTokenData = async () => {
@@ -31,13 +52,11 @@ const TokensDashboard: React.FC = () => {
       setError(null);
       
       // Get summary and all tokens
-      const [summaryData, allTokens] = await Promise.all([
-        sallaTokenManager.getTokenSummary(),
-        sallaTokenManager.getAllTokens()
-      ]);
+      const { data } = await sallaAdminApi(TOKENS_API);
       
-      setSummary(summaryData);
-      setTokens(allTokens);
+      setSummary(data.summary);
+      setTokens(data.tokens);
+      setMerchants(data.merchants || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load token data');
     } finally {
@@ -52,23 +71,33 @@ const TokensDashboard: React.FC = () => {
     }
     
     try {
-      await sallaTokenManager.removeToken(merchantId);
+      await sallaAdminApi(`${TOKENS_API}?merchantId=${encodeURIComponent(merchantId)}`, { method: 'DELETE' });
       await loadTokenData(); // Refresh data
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to remove token');
     }
   };
 
+  // Run the background token refresh now
+  const handleRunRefresh = async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+      const { message } = await sallaAdminApi(`${TOKENS_API}/refresh`, { method: 'POST' });
+      setRefreshMessage(message);
+      await loadTokenData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh tokens');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
 
-  // Copy token to clipboard
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-  };
-
   useEffect(() => {
     loadTokenData();
   }, []);
@@ -106,8 +135,58 @@ const TokensDashboard: React.FC = () => {
         >
           🔄 Refresh Data
         </button>
+        <button 
+          onClick={handleRunRefresh}
+          disabled={refreshing}
+          style={{
+            marginLeft: '10px',
+            padding: '10px 20px',
+            backgroundColor: '#28a745',
+            color: 'white',
+            border: 'none',
+            borderRadius: '5px',
+            cursor: refreshing ? 'wait' : 'pointer',
+            fontSize: '14px'
+          }}
+        >
+          {refreshing ? '⏳ Refreshing...' : '🔑 Refresh Expiring Tokens'}
+        </button>
+        {refreshMessage && (
+          <span style={{ marginLeft: '10px', fontSize: '14px', color: '#155724' }}>
+            ✅ {refreshMessage}
+          </span>
+        )}
       </div>
 
+      {summary && summary.needsReauth > 0 && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#fff3cd',
+          color: '#856404',
+          border: '1px solid #ffeeba',
+          borderRadius: '5px',
+          marginBottom: '20px'
+        }}>
+          ⚠️ {summary.needsReauth} merchant(s) need to re-authorize the app: their tokens could not be refreshed.
+          Ask them to reinstall the app from the Salla App Store.
+        </div>
+      )}
+
+      {summary && summary.unreadable.length > 0 && (
+        <div style={{
+          padding: '15px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          border: '1px solid #f5c6cb',
+          borderRadius: '5px',
+          marginBottom: '20px'
+        }}>
+          ❌ {summary.unreadable.length} stored token record(s) could not be read
+          ({summary.unreadable.map(record => record.merchantId).join(', ')}). Check SALLA_TOKEN_ENCRYPTION_KEYS
+          still lists every key version in use.
+        </div>
+      )}
+
       {error && (
         <div style={{
           padding: '15px',
@@ -167,6 +246,19 @@ const TokensDashboard: React.FC = () => {
               {summary.expired}
             </div>
           </div>
+
+          <div style={{
+            padding: '20px',
+            backgroundColor: '#fdecea',
+            border: '1px solid #f5c6cb',
+            borderRadius: '8px',
+            textAlign: 'center'
+          }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#c62828' }}>🚨 Needs Re-auth</h3>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#c62828' }}>
+              {summary.needsReauth}
+            </div>
+          </div>
         </div>
       )}
 
@@ -223,6 +315,7 @@ const TokensDashboard: React.FC = () => {
                 {tokens.map((token) => {
                   const merchantSummary = summary?.merchants.find(m => m.merchantId === token.merchantId);
                   const isActive = merchantSummary?.isActive ?? false;
+                  const needsReauth = merchantSummary?.status === 'needs_reauth';
                   
                   return (
                     <tr key={token.merchantId} style={{ borderBottom: '1px solid #eee' }}>
@@ -245,6 +338,27 @@ const TokensDashboard: React.FC = () => {
                         }}>
                           {isActive ? '✅ Active' : '❌ Expired'}
                         </span>
+                        {needsReauth && (
+                          <span style={{
+                            marginLeft: '6px',
+                            padding: '4px 8px',
+                            borderRadius: '12px',
+                            fontSize: '12px',
+                            fontWeight: 'bold',
+                            backgroundColor: '#fff3cd',
+                            color: '#856404'
+                          }}>
+                            ⚠️ Needs re-auth
+                          </span>
+                        )}
+                        {!!merchantSummary?.refreshFailures && (
+                          <div
+                            style={{ fontSize: '11px', color: '#721c24', marginTop: '2px' }}
+                            title={merchantSummary.lastRefreshError}
+                          >
+                            {merchantSummary.refreshFailures} failed refresh(es) in a row
+                          </div>
+                        )}
                         {merchantSummary?.timeUntilExpiry && (
                           <div style={{ fontSize: '11px', color: '#666', marginTop: '2px' }}>
                             Expires in {merchantSummary.timeUntilExpiry}
@@ -265,7 +379,7 @@ const TokensDashboard: React.FC = () => {
                         {formatDate(token.installedAt)}
                       </td>
                       <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
-                        {merchantSummary?.expiresAt ? formatDate(merchantSummary.expiresAt.toISOString()) : 'N/A'}
+                        {merchantSummary?.expiresAt ? formatDate(merchantSummary.expiresAt) : 'N/A'}
                       </td>
                       <td style={{ padding: '12px' }}>
                         <div style={{ display: 'flex', gap: '8px' }}>
@@ -308,6 +422,78 @@ const TokensDashboard: React.FC = () => {
         )}
       </div>
 
+      {/* Install History */}
+      {merchants.length > 0 && (
+        <div style={{
+          backgroundColor: 'white',
+          border: '1px solid #ddd',
+          borderRadius: '8px',
+          overflow: 'hidden',
+          marginTop: '30px'
+        }}>
+          <div style={{
+            padding: '20px',
+            backgroundColor: '#f8f9fa',
+            borderBottom: '1px solid #ddd'
+          }}>
+            <h2 style={{ margin: 0, color: '#333' }}>📜 Install History</h2>
+          </div>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f8f9fa' }}>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Merchant</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>App</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Installs</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Settings</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>History</th>
+                </tr>
+              </thead>
+              <tbody>
+                {merchants.map(merchant => (
+                  <tr key={merchant.merchantId} style={{ borderBottom: '1px solid #eee', verticalAlign: 'top' }}>
+                    <td style={{ padding: '12px' }}>
+                      <strong>{merchant.name || merchant.merchantId}</strong>
+                      <div style={{ fontSize: '12px', color: '#666' }}>ID: {merchant.merchantId}</div>
+                    </td>
+                    <td style={{ padding: '12px' }}>
+                      <span style={{
+                        padding: '4px 8px',
+                        borderRadius: '12px',
+                        fontSize: '12px',
+                        fontWeight: 'bold',
+                        backgroundColor: merchant.status === 'active' ? '#d4edda' : '#e2e3e5',
+                        color: merchant.status === 'active' ? '#155724' : '#383d41'
+                      }}>
+                        {merchant.status === 'active' ? '✅ Installed' : '⏸️ Uninstalled'}
+                      </span>
+                      {merchant.scope && (
+                        <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>{merchant.scope}</div>
+                      )}
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
+                      {merchant.installCount}
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
+                      {Object.keys(merchant.settings).length > 0
+                        ? <code>{JSON.stringify(merchant.settings)}</code>
+                        : 'None'}
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#666' }}>
+                      {merchant.history.slice(-5).reverse().map((entry, index) => (
+                        <div key={index}>
+                          {HISTORY_LABELS[entry.action]} · {formatDate(entry.at)}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Token Details Modal */}
       {selectedToken && (
         <div style={{
@@ -384,6 +570,12 @@ const TokensDashboard: React.FC = () => {
               <div>
                 <strong>Updated At:</strong> {formatDate(selectedToken.updatedAt)}
               </div>
+              {selectedToken.lastRefreshError && (
+                <div>
+                  <strong>Last Refresh Error:</strong> {selectedToken.lastRefreshError}
+                  {selectedToken.lastRefreshAttemptAt && ` (${formatDate(selectedToken.lastRefreshAttemptAt)})`}
+                </div>
+              )}
               <div>
                 <strong>Access Token:</strong>
                 <div style={{ 
@@ -394,27 +586,9 @@ const TokensDashboard: React.FC = () => {
                   borderRadius: '4px',
                   fontFamily: 'monospace',
                   fontSize: '12px',
-                  wordBreak: 'break-all',
-                  position: 'relative'
+                  wordBreak: 'break-all'
                 }}>
-                  {selectedToken.accessToken}
-                  <button
-                    onClick={() => copyToClipboard(selectedToken.accessToken)}
-                    style={{
-                      position: 'absolute',
-                      top: '5px',
-                      right: '5px',
-                      padding: '4px 8px',
-                      backgroundColor: '#007bff',
-                      color: 'white',
-                      border: 'none',
-                      borderRadius: '3px',
-                      cursor: 'pointer',
-                      fontSize: '11px'
-                    }}
-                  >
-                    📋 Copy
-                  </button>
+                  {maskToken(selectedToken.accessToken)}
                 </div>
               </div>
               {selectedToken.refreshToken && (
@@ -428,27 +602,9 @@ const TokensDashboard: React.FC = () => {
                     borderRadius: '4px',
                     fontFamily: 'monospace',
                     fontSize: '12px',
-                    wordBreak: 'break-all',
-                    position: 'relative'
+                    wordBreak: 'break-all'
                   }}>
-                    {selectedToken.refreshToken}
-                    <button
-                      onClick={() => copyToClipboard(selectedToken.refreshToken!)}
-                      style={{
-                        position: 'absolute',
-                        top: '5px',
-                        right: '5px',
-                        padding: '4px 8px',
-                        backgroundColor: '#007bff',
-                        color: 'white',
-                        border: 'none',
-                        borderRadius: '3px',
-                        cursor: 'pointer',
-                        fontSize: '11px'
-                      }}
-                    >
-                      📋 Copy
-                    </button>
+                    {maskToken(selectedToken.refreshToken)}
                   </div>
                 </div>
               )}
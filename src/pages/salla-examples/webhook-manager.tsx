@@ -1,7 +1,9 @@
 // Salla Webhook Manager
-// Configure and manage Salla webhooks for receiving events
+// Configure and manage Salla webhooks for receiving events, inspect or
+// replay the events that were received, and redrive queued webhook jobs
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import {
   setupAppInstallationWebhook,
   setupWebhook,
@@ -17,6 +19,28 @@ import {
   WebhookSetupResult
 } from '../../services/salla/webhook-setup';
 import { SallaWebhook } from '../../services/salla/notifications';
+import type { WebhookEventRecord } from '../../services/salla/webhook-event-log';
+import type { WebhookJob, WebhookQueueStats } from '../../services/salla/webhook-queue';
+import { sallaAdminApi } from '../../services/salla/admin-api';
+
+const WEBHOOK_EVENTS_API = '/api/salla/webhook-events';
+const WEBHOOK_QUEUE_API = '/api/salla/webhook-queue';
+
+const EVENT_STATUS_STYLES: Record<WebhookEventRecord['status'], { backgroundColor: string; color: string; label: string }> = {
+  processed: { backgroundColor: '#d4edda', color: '#155724', label: '✅ Processed' },
+  failed: { backgroundColor: '#f8d7da', color: '#721c24', label: '❌ Failed' },
+  processing: { backgroundColor: '#fff3cd', color: '#856404', label: '🔄 Processing' },
+  queued: { backgroundColor: '#e2e3e5', color: '#383d41', label: '⏳ Queued' }
+};
+
+const JOB_STATUS_STYLES: Record<WebhookJob['status'], { backgroundColor: string; color: string; label: string }> = {
+  queued: { backgroundColor: '#e2e3e5', color: '#383d41', label: '⏳ Queued' },
+  running: { backgroundColor: '#fff3cd', color: '#856404', label: '🔄 Running' },
+  dead: { backgroundColor: '#f8d7da', color: '#721c24', label: '💀 Dead' }
+};
+
+// datetime-local inputs have no timezone; convert to ISO for the API
+const toISO = (value: string) => (value ? new Date(value).toISOString() : '');
 
 const WebhookManager: React.FC = () => {
   const [webhooks, setWebhooks] = useState<SallaWebhook[]>([]);
@@ -38,6 +62,19 @@ const WebhookManager: React.FC = () => {
     description: ''
   });
 
+  // Received events
+  const [events, setEvents] = useState<WebhookEventRecord[]>([]);
+  const [eventCounts, setEventCounts] = useState<Record<string, number>>({});
+  const [eventsLoading, setEventsLoading] = useState(false);
+  const [eventFilter, setEventFilter] = useState({ event: '', status: '' });
+  const [replayRange, setReplayRange] = useState({ from: '', to: '' });
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  // Job queue
+  const [jobs, setJobs] = useState<WebhookJob[]>([]);
+  const [queueStats, setQueueStats] = useState<WebhookQueueStats | null>(null);
+  const [queueBusy, setQueueBusy] = useState<string | null>(null);
+
   // Load webhooks
   const loadWebhooks = async () => {
     try {
@@ -171,6 +208,85 @@ const WebhookManager: React.FC = () => {
     }
   };
 
+  // Load received events
+  const loadEvents = useCallback(async () => {
+    try {
+      setEventsLoading(true);
+      const params = new URLSearchParams();
+      if (eventFilter.event) params.set('event', eventFilter.event);
+      if (eventFilter.status) params.set('status', eventFilter.status);
+      const { data } = await sallaAdminApi(`${WEBHOOK_EVENTS_API}?${params.toString()}`);
+      setEvents(data.events);
+      setEventCounts(data.counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhook events');
+    } finally {
+      setEventsLoading(false);
+    }
+  }, [eventFilter]);
+
+  // Replay one event, or every event in the selected range
+  const handleReplay = async (body: { id: string } | { from: string; to: string; event?: string }) => {
+    try {
+      setError(null);
+      setReplaying('id' in body ? body.id : 'range');
+      const { message } = await sallaAdminApi(`${WEBHOOK_EVENTS_API}/replay`, {
+        method: 'POST',
+        body: JSON.stringify(body)
+      });
+      setSuccess(message);
+      await loadEvents();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay webhook events');
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleReplayRange = () => {
+    if (!replayRange.from || !replayRange.to) {
+      setError('Select both ends of the time range to replay');
+      return;
+    }
+    if (!confirm('Replay every event received in this range against the current handlers?')) {
+      return;
+    }
+    handleReplay({
+      from: toISO(replayRange.from),
+      to: toISO(replayRange.to),
+      event: eventFilter.event || undefined
+    });
+  };
+
+  // Load the job queue
+  const loadQueue = async () => {
+    try {
+      const { data } = await sallaAdminApi(WEBHOOK_QUEUE_API);
+      setJobs(data.jobs);
+      setQueueStats(data.stats);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the webhook queue');
+    }
+  };
+
+  // Redrive one job, the dead-letter queue, or run every due job now
+  const handleQueueAction = async (action: string, url: string, body?: object) => {
+    try {
+      setError(null);
+      setQueueBusy(action);
+      const { message } = await sallaAdminApi(url, {
+        method: 'POST',
+        body: body ? JSON.stringify(body) : undefined
+      });
+      setSuccess(message);
+      await Promise.all([loadQueue(), loadEvents()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Webhook queue action failed');
+    } finally {
+      setQueueBusy(null);
+    }
+  };
+
   // Auto-detect base URL
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -184,6 +300,14 @@ const WebhookManager: React.FC = () => {
     loadWebhooks();
   }, []);
 
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
   // Clear messages after 5 seconds
   useEffect(() => {
     if (success || error) {
@@ -235,6 +359,13 @@ const WebhookManager: React.FC = () => {
         >
           {showCustomForm ? '📋 Quick Setup' : '⚙️ Custom Setup'}
         </button>
+
+        <Link
+          href="/salla-examples/webhook-simulator"
+          style={{ marginLeft: '10px', fontSize: '14px', color: '#6f42c1' }}
+        >
+          🧪 Webhook Simulator
+        </Link>
       </div>
 
       {/* Status Messages */}
@@ -685,6 +816,317 @@ const WebhookManager: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* Received Events */}
+      <div style={{
+        backgroundColor: 'white',
+        border: '1px solid #ddd',
+        borderRadius: '8px',
+        overflow: 'hidden',
+        marginTop: '30px'
+      }}>
+        <div style={{
+          padding: '20px',
+          backgroundColor: '#f8f9fa',
+          borderBottom: '1px solid #ddd'
+        }}>
+          <h2 style={{ margin: '0 0 5px 0', color: '#333' }}>📥 Received Events</h2>
+          <div style={{ fontSize: '13px', color: '#666', marginBottom: '15px' }}>
+            {Object.keys(EVENT_STATUS_STYLES).map(status => `${eventCounts[status] || 0} ${status}`).join(' · ')}
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'flex-end' }}>
+            <label style={{ fontSize: '13px' }}>
+              Event<br/>
+              <select
+                value={eventFilter.event}
+                onChange={(e) => setEventFilter({ ...eventFilter, event: e.target.value })}
+                style={{ padding: '6px', border: '1px solid #ddd', borderRadius: '4px' }}
+              >
+                <option value="">All events</option>
+                {['app.store.authorize', ...Object.values(SALLA_WEBHOOK_EVENTS)].map(event => (
+                  <option key={event} value={event}>{event}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ fontSize: '13px' }}>
+              Status<br/>
+              <select
+                value={eventFilter.status}
+                onChange={(e) => setEventFilter({ ...eventFilter, status: e.target.value })}
+                style={{ padding: '6px', border: '1px solid #ddd', borderRadius: '4px' }}
+              >
+                <option value="">All statuses</option>
+                {Object.keys(EVENT_STATUS_STYLES).map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ fontSize: '13px' }}>
+              From<br/>
+              <input
+                type="datetime-local"
+                value={replayRange.from}
+                onChange={(e) => setReplayRange({ ...replayRange, from: e.target.value })}
+                style={{ padding: '5px', border: '1px solid #ddd', borderRadius: '4px' }}
+              />
+            </label>
+            <label style={{ fontSize: '13px' }}>
+              To<br/>
+              <input
+                type="datetime-local"
+                value={replayRange.to}
+                onChange={(e) => setReplayRange({ ...replayRange, to: e.target.value })}
+                style={{ padding: '5px', border: '1px solid #ddd', borderRadius: '4px' }}
+              />
+            </label>
+            <button
+              onClick={handleReplayRange}
+              disabled={replaying !== null}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: replaying ? '#6c757d' : '#6f42c1',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: replaying ? 'not-allowed' : 'pointer',
+                fontSize: '13px'
+              }}
+            >
+              {replaying === 'range' ? '⏳ Replaying...' : '🔁 Replay Range'}
+            </button>
+            <button
+              onClick={loadEvents}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#007bff',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '13px'
+              }}
+            >
+              🔄 Reload
+            </button>
+          </div>
+        </div>
+
+        {eventsLoading && events.length === 0 ? (
+          <div style={{ padding: '40px', textAlign: 'center', color: '#666' }}>
+            <div style={{ fontSize: '18px' }}>Loading events...</div>
+          </div>
+        ) : events.length === 0 ? (
+          <div style={{ padding: '40px', textAlign: 'center', color: '#666' }}>
+            <h3>No events received yet</h3>
+            <p>Events delivered to /api/webhooks/salla appear here.</p>
+          </div>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f8f9fa' }}>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Received</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Event</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Merchant</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Status</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Attempts</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Error</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((record) => (
+                  <tr key={record.id} style={{ borderBottom: '1px solid #eee' }}>
+                    <td style={{ padding: '12px', fontSize: '12px' }}>
+                      {new Date(record.receivedAt).toLocaleString()}
+                      {record.duplicates > 0 && (
+                        <div style={{ color: '#666' }}>+{record.duplicates} duplicate deliveries</div>
+                      )}
+                    </td>
+                    <td style={{ padding: '12px' }}>
+                      <code style={{ fontSize: '12px' }}>{record.event}</code>
+                      <div style={{ fontSize: '11px', color: '#999', wordBreak: 'break-all' }}>{record.id}</div>
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px' }}>{record.merchant}</td>
+                    <td style={{ padding: '12px' }}>
+                      <span style={{
+                        padding: '4px 8px',
+                        borderRadius: '12px',
+                        fontSize: '12px',
+                        fontWeight: 'bold',
+                        backgroundColor: EVENT_STATUS_STYLES[record.status].backgroundColor,
+                        color: EVENT_STATUS_STYLES[record.status].color
+                      }}>
+                        {EVENT_STATUS_STYLES[record.status].label}
+                      </span>
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px' }}>{record.attempts}</td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#721c24', maxWidth: '250px' }}>
+                      {record.lastError || '—'}
+                    </td>
+                    <td style={{ padding: '12px' }}>
+                      <button
+                        onClick={() => handleReplay({ id: record.id })}
+                        disabled={record.redacted || replaying !== null}
+                        title={record.redacted ? 'Contains credentials; not stored for replay' : undefined}
+                        style={{
+                          padding: '4px 8px',
+                          backgroundColor: record.redacted ? '#e9ecef' : '#6f42c1',
+                          color: record.redacted ? '#6c757d' : 'white',
+                          border: 'none',
+                          borderRadius: '3px',
+                          cursor: record.redacted ? 'not-allowed' : 'pointer',
+                          fontSize: '12px'
+                        }}
+                      >
+                        {replaying === record.id ? '⏳' : '🔁 Replay'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Job Queue */}
+      <div style={{
+        backgroundColor: 'white',
+        border: '1px solid #ddd',
+        borderRadius: '8px',
+        overflow: 'hidden',
+        marginTop: '30px'
+      }}>
+        <div style={{
+          padding: '20px',
+          backgroundColor: '#f8f9fa',
+          borderBottom: '1px solid #ddd'
+        }}>
+          <h2 style={{ margin: '0 0 5px 0', color: '#333' }}>📬 Job Queue</h2>
+          <div style={{ fontSize: '13px', color: '#666', marginBottom: '15px' }}>
+            {queueStats
+              ? `${queueStats.queued} queued (${queueStats.due} due) · ${queueStats.running} running · ${queueStats.dead} dead-lettered`
+              : 'Loading...'}
+          </div>
+
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <button
+              onClick={() => handleQueueAction('run', `${WEBHOOK_QUEUE_API}/run`)}
+              disabled={queueBusy !== null}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: queueBusy ? '#6c757d' : '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: queueBusy ? 'not-allowed' : 'pointer',
+                fontSize: '13px'
+              }}
+            >
+              {queueBusy === 'run' ? '⏳ Running...' : '▶️ Run Due Jobs'}
+            </button>
+            <button
+              onClick={() => handleQueueAction('dead', `${WEBHOOK_QUEUE_API}/redrive`, { dead: true })}
+              disabled={queueBusy !== null || !queueStats?.dead}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: queueBusy || !queueStats?.dead ? '#6c757d' : '#dc3545',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: queueBusy || !queueStats?.dead ? 'not-allowed' : 'pointer',
+                fontSize: '13px'
+              }}
+            >
+              🔁 Redrive Dead Letters
+            </button>
+            <button
+              onClick={loadQueue}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#007bff',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                cursor: 'pointer',
+                fontSize: '13px'
+              }}
+            >
+              🔄 Reload
+            </button>
+          </div>
+        </div>
+
+        {jobs.length === 0 ? (
+          <div style={{ padding: '40px', textAlign: 'center', color: '#666' }}>
+            <h3>The queue is empty</h3>
+            <p>Jobs stay here while they wait, run or end up in the dead-letter queue.</p>
+          </div>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f8f9fa' }}>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Event</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Status</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Attempts</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Next Attempt</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Error</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => (
+                  <tr key={job.id} style={{ borderBottom: '1px solid #eee' }}>
+                    <td style={{ padding: '12px' }}>
+                      <code style={{ fontSize: '12px' }}>{job.event}</code>
+                      <div style={{ fontSize: '11px', color: '#999', wordBreak: 'break-all' }}>{job.id}</div>
+                    </td>
+                    <td style={{ padding: '12px' }}>
+                      <span style={{
+                        padding: '4px 8px',
+                        borderRadius: '12px',
+                        fontSize: '12px',
+                        fontWeight: 'bold',
+                        backgroundColor: JOB_STATUS_STYLES[job.status].backgroundColor,
+                        color: JOB_STATUS_STYLES[job.status].color
+                      }}>
+                        {JOB_STATUS_STYLES[job.status].label}
+                      </span>
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px' }}>{job.attempts}</td>
+                    <td style={{ padding: '12px', fontSize: '12px' }}>
+                      {job.status === 'queued' ? new Date(job.runAt).toLocaleString() : '—'}
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '12px', color: '#721c24', maxWidth: '250px' }}>
+                      {job.lastError || '—'}
+                    </td>
+                    <td style={{ padding: '12px' }}>
+                      <button
+                        onClick={() => handleQueueAction(job.id, `${WEBHOOK_QUEUE_API}/redrive`, { id: job.id })}
+                        disabled={job.status === 'running' || queueBusy !== null}
+                        style={{
+                          padding: '4px 8px',
+                          backgroundColor: job.status === 'running' ? '#e9ecef' : '#6f42c1',
+                          color: job.status === 'running' ? '#6c757d' : 'white',
+                          border: 'none',
+                          borderRadius: '3px',
+                          cursor: job.status === 'running' ? 'not-allowed' : 'pointer',
+                          fontSize: '12px'
+                        }}
+                      >
+                        {queueBusy === job.id ? '⏳' : job.status === 'dead' ? '🔁 Redrive' : '▶️ Run Now'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
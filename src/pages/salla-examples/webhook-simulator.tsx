@@ -0,0 +1,402 @@
+// Salla Webhook Simulator
+// Generate signed webhook payloads for any Salla event, deliver them to this
+// app's webhook endpoints and compare request and response side by side.
+// Scenarios saved here land in src/tests/fixtures/webhook-scenarios for Jest.
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  WEBHOOK_TARGETS,
+  WebhookScenario,
+  WebhookScenarioStep,
+  WebhookTarget,
+  buildWebhookPayload,
+  getDefaultWebhookTarget
+} from '../../services/salla/webhook-fixtures';
+import type { SallaWebhookEventName } from '../../services/salla/webhooks';
+import type { SimulatedDelivery } from '../../services/salla/webhook-simulator';
+import { sallaAdminApi } from '../../services/salla/admin-api';
+
+const SIMULATOR_API = '/api/salla/webhook-simulator';
+
+interface SimulatorInfo {
+  events: SallaWebhookEventName[];
+  builtInScenarios: WebhookScenario[];
+  savedScenarios: WebhookScenario[];
+  baseURL: string;
+  secretConfigured: boolean;
+}
+
+const panelStyle: React.CSSProperties = {
+  backgroundColor: 'white',
+  border: '1px solid #ddd',
+  borderRadius: '8px',
+  padding: '20px',
+  marginBottom: '30px'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '14px'
+};
+
+const codeStyle: React.CSSProperties = {
+  margin: 0,
+  padding: '10px',
+  backgroundColor: '#f8f9fa',
+  border: '1px solid #eee',
+  borderRadius: '4px',
+  fontSize: '12px',
+  maxHeight: '320px',
+  overflow: 'auto',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-all'
+};
+
+const buttonStyle = (color: string, disabled = false): React.CSSProperties => ({
+  padding: '10px 20px',
+  backgroundColor: disabled ? '#6c757d' : color,
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '14px',
+  marginRight: '10px'
+});
+
+const statusColor = (status: number) => (status >= 500 ? '#dc3545' : status >= 400 ? '#fd7e14' : '#28a745');
+
+const emptyScenario = (): WebhookScenario => ({ name: '', description: '', seed: 1, steps: [{ event: 'order.created' }] });
+
+const WebhookSimulator: React.FC = () => {
+  const [info, setInfo] = useState<SimulatorInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [strategy, setStrategy] = useState<'signature' | 'token'>('signature');
+  const [deliveries, setDeliveries] = useState<SimulatedDelivery[]>([]);
+
+  // Single event
+  const [event, setEvent] = useState<SallaWebhookEventName>('order.created');
+  const [target, setTarget] = useState<WebhookTarget>('unified');
+  const [payloadText, setPayloadText] = useState('');
+
+  // Scenario
+  const [scenario, setScenario] = useState<WebhookScenario>(emptyScenario());
+  const [stepData, setStepData] = useState<string[]>(['']);
+
+  const loadInfo = async () => {
+    try {
+      const { data } = await sallaAdminApi(SIMULATOR_API);
+      setInfo(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the simulator');
+    }
+  };
+
+  const generatePayload = useCallback(() => {
+    setPayloadText(JSON.stringify(buildWebhookPayload(event), null, 2));
+  }, [event]);
+
+  // The payload is regenerated by the effect below
+  const selectEvent = (name: SallaWebhookEventName) => {
+    setEvent(name);
+    setTarget(getDefaultWebhookTarget(name));
+  };
+
+  const send = async (body: object) => {
+    try {
+      setSending(true);
+      setError(null);
+      const { message, data } = await sallaAdminApi(SIMULATOR_API, {
+        method: 'POST',
+        body: JSON.stringify({ ...body, strategy })
+      });
+      setDeliveries(data.deliveries);
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Simulation failed');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const sendPayload = () => {
+    let payload;
+    try {
+      payload = JSON.parse(payloadText);
+    } catch {
+      setError('The payload is not valid JSON');
+      return;
+    }
+    send({ payload, target });
+  };
+
+  // Steps with their data overrides parsed from the editors
+  const scenarioWithData = (): WebhookScenario | null => {
+    try {
+      return {
+        ...scenario,
+        steps: scenario.steps.map((step, index) => ({
+          ...step,
+          data: stepData[index]?.trim() ? JSON.parse(stepData[index]) : undefined
+        }))
+      };
+    } catch {
+      setError('A step has invalid JSON in its data override');
+      return null;
+    }
+  };
+
+  const loadScenario = (selected: WebhookScenario) => {
+    setScenario({ ...selected, steps: selected.steps.map(step => ({ ...step })) });
+    setStepData(selected.steps.map(step => (step.data ? JSON.stringify(step.data) : '')));
+  };
+
+  const updateStep = (index: number, change: Partial<WebhookScenarioStep>) => {
+    setScenario({
+      ...scenario,
+      steps: scenario.steps.map((step, i) => (i === index ? { ...step, ...change } : step))
+    });
+  };
+
+  const addStep = () => {
+    setScenario({ ...scenario, steps: [...scenario.steps, { event: 'order.updated' }] });
+    setStepData([...stepData, '']);
+  };
+
+  const removeStep = (index: number) => {
+    setScenario({ ...scenario, steps: scenario.steps.filter((_, i) => i !== index) });
+    setStepData(stepData.filter((_, i) => i !== index));
+  };
+
+  const runScenario = () => {
+    const prepared = scenarioWithData();
+    if (prepared) send({ scenario: { ...prepared, name: prepared.name || 'unsaved' } });
+  };
+
+  const saveScenario = async () => {
+    const prepared = scenarioWithData();
+    if (!prepared) return;
+    try {
+      setError(null);
+      const { message } = await sallaAdminApi(`${SIMULATOR_API}/scenarios`, {
+        method: 'PUT',
+        body: JSON.stringify({ scenario: prepared })
+      });
+      setSuccess(message);
+      await loadInfo();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the scenario');
+    }
+  };
+
+  const deleteScenario = async (name: string) => {
+    if (!confirm(`Delete the saved scenario "${name}"?`)) return;
+    try {
+      const { message } = await sallaAdminApi(`${SIMULATOR_API}/scenarios?name=${encodeURIComponent(name)}`, { method: 'DELETE' });
+      setSuccess(message);
+      setScenario(emptyScenario());
+      setStepData(['']);
+      await loadInfo();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the scenario');
+    }
+  };
+
+  useEffect(() => {
+    loadInfo();
+  }, []);
+
+  useEffect(() => {
+    generatePayload();
+  }, [generatePayload]);
+
+  const isSaved = info?.savedScenarios.some(saved => saved.name === scenario.name);
+
+  return (
+    <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif', maxWidth: '1200px', margin: '0 auto' }}>
+      <div style={{ marginBottom: '30px' }}>
+        <h1 style={{ color: '#333', marginBottom: '10px' }}>🧪 Salla Webhook Simulator</h1>
+        <p style={{ color: '#666', marginBottom: '10px' }}>
+          Send signed Salla webhooks to this app&apos;s endpoints and inspect how they are handled
+        </p>
+        {info && (
+          <div style={{ fontSize: '13px', color: '#666' }}>
+            Delivering to <code>{info.baseURL}</code> · Signing key: {info.secretConfigured ? '✅ SALLA_WEBHOOK_SECRET' : '❌ SALLA_WEBHOOK_SECRET is not set'}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div style={{ padding: '15px', backgroundColor: '#f8d7da', color: '#721c24', border: '1px solid #f5c6cb', borderRadius: '5px', marginBottom: '20px' }}>
+          ❌ {error}
+        </div>
+      )}
+      {success && (
+        <div style={{ padding: '15px', backgroundColor: '#d4edda', color: '#155724', border: '1px solid #c3e6cb', borderRadius: '5px', marginBottom: '20px' }}>
+          ✅ {success}
+        </div>
+      )}
+
+      <div style={{ ...panelStyle, display: 'flex', gap: '20px', alignItems: 'center' }}>
+        <label style={{ fontWeight: 'bold' }}>Security strategy:</label>
+        <select value={strategy} onChange={(e) => setStrategy(e.target.value as 'signature' | 'token')} style={{ ...inputStyle, width: 'auto' }}>
+          <option value="signature">Signature (X-Salla-Signature)</option>
+          <option value="token">Token (Authorization)</option>
+        </select>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '20px' }}>
+        {/* Single event */}
+        <div style={panelStyle}>
+          <h2 style={{ marginTop: 0, color: '#333' }}>📨 Single Event</h2>
+          <div style={{ display: 'grid', gap: '10px', marginBottom: '15px' }}>
+            <select value={event} onChange={(e) => selectEvent(e.target.value as SallaWebhookEventName)} style={inputStyle}>
+              {(info?.events || [event]).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <select value={target} onChange={(e) => setTarget(e.target.value as WebhookTarget)} style={inputStyle}>
+              {Object.entries(WEBHOOK_TARGETS).map(([key, url]) => (
+                <option key={key} value={key}>{url}</option>
+              ))}
+            </select>
+            <textarea
+              value={payloadText}
+              onChange={(e) => setPayloadText(e.target.value)}
+              rows={16}
+              style={{ ...inputStyle, fontFamily: 'monospace', fontSize: '12px', resize: 'vertical' }}
+            />
+          </div>
+          <button onClick={() => generatePayload()} style={buttonStyle('#17a2b8')}>🎲 Regenerate</button>
+          <button onClick={sendPayload} disabled={sending} style={buttonStyle('#007bff', sending)}>
+            {sending ? '⏳ Sending...' : '🚀 Send'}
+          </button>
+        </div>
+
+        {/* Scenario */}
+        <div style={panelStyle}>
+          <h2 style={{ marginTop: 0, color: '#333' }}>🎬 Scenario</h2>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '15px' }}>
+            {[...(info?.builtInScenarios || []), ...(info?.savedScenarios || [])].map(item => (
+              <button
+                key={item.name}
+                onClick={() => loadScenario(item)}
+                title={item.description}
+                style={{
+                  padding: '4px 10px',
+                  backgroundColor: scenario.name === item.name ? '#6f42c1' : '#e9ecef',
+                  color: scenario.name === item.name ? 'white' : '#333',
+                  border: 'none',
+                  borderRadius: '12px',
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+              >
+                {item.name}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px', marginBottom: '10px' }}>
+            <input
+              value={scenario.name}
+              onChange={(e) => setScenario({ ...scenario, name: e.target.value })}
+              placeholder="scenario-name"
+              style={inputStyle}
+            />
+            <input
+              value={scenario.description || ''}
+              onChange={(e) => setScenario({ ...scenario, description: e.target.value })}
+              placeholder="Description"
+              style={inputStyle}
+            />
+          </div>
+
+          {scenario.steps.map((step, index) => (
+            <div key={index} style={{ border: '1px solid #eee', borderRadius: '4px', padding: '10px', marginBottom: '8px' }}>
+              <div style={{ display: 'flex', gap: '8px', marginBottom: '6px' }}>
+                <strong style={{ alignSelf: 'center' }}>{index + 1}.</strong>
+                <select
+                  value={step.event}
+                  onChange={(e) => updateStep(index, { event: e.target.value as SallaWebhookEventName })}
+                  style={inputStyle}
+                >
+                  {(info?.events || [step.event]).map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <select
+                  value={step.target || getDefaultWebhookTarget(step.event)}
+                  onChange={(e) => updateStep(index, { target: e.target.value as WebhookTarget })}
+                  style={inputStyle}
+                >
+                  {Object.keys(WEBHOOK_TARGETS).map(key => (
+                    <option key={key} value={key}>{key}</option>
+                  ))}
+                </select>
+                <button onClick={() => removeStep(index)} style={{ ...buttonStyle('#dc3545'), padding: '4px 10px', marginRight: 0 }}>✕</button>
+              </div>
+              <input
+                value={stepData[index] || ''}
+                onChange={(e) => setStepData(stepData.map((value, i) => (i === index ? e.target.value : value)))}
+                placeholder='Data override, e.g. {"id": 700001}'
+                style={{ ...inputStyle, fontFamily: 'monospace', fontSize: '12px' }}
+              />
+            </div>
+          ))}
+
+          <div style={{ marginTop: '15px' }}>
+            <button onClick={addStep} style={buttonStyle('#17a2b8')}>➕ Step</button>
+            <button onClick={runScenario} disabled={sending || scenario.steps.length === 0} style={buttonStyle('#007bff', sending)}>
+              ▶️ Run
+            </button>
+            <button onClick={saveScenario} style={buttonStyle('#28a745')}>💾 Save</button>
+            {isSaved && (
+              <button onClick={() => deleteScenario(scenario.name)} style={buttonStyle('#dc3545')}>🗑️</button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Results */}
+      {deliveries.map((delivery, index) => (
+        <div key={index} style={panelStyle}>
+          <h3 style={{ marginTop: 0, color: '#333' }}>
+            {index + 1}. <code>{delivery.event}</code>
+            <span style={{ marginLeft: '10px', color: statusColor(delivery.response.status) }}>
+              {delivery.response.status}
+            </span>
+            <span style={{ marginLeft: '10px', fontSize: '13px', color: '#666', fontWeight: 'normal' }}>
+              {delivery.response.durationMs} ms
+            </span>
+          </h3>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px' }}>
+            <div>
+              <strong>Request</strong>
+              <pre style={codeStyle}>
+                {`${delivery.request.method} ${delivery.request.url}\n`}
+                {Object.entries(delivery.request.headers).map(([name, value]) => `${name}: ${value}`).join('\n')}
+                {`\n\n${JSON.stringify(delivery.request.body, null, 2)}`}
+              </pre>
+            </div>
+            <div>
+              <strong>Response</strong>
+              <pre style={codeStyle}>
+                {`HTTP ${delivery.response.status}\n\n`}
+                {typeof delivery.response.body === 'string'
+                  ? delivery.response.body
+                  : JSON.stringify(delivery.response.body, null, 2)}
+              </pre>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WebhookSimulator;
@@ -0,0 +1,34 @@
+// Salla Admin API Client
+// Browser helper for the admin pages. Merchant data lives on the server
+// behind SALLA_ADMIN_API_KEY; the key is asked for once and kept in
+// sessionStorage for the rest of the session.
+
+import { SALLA_CONFIG } from './config';
+
+const ADMIN_KEY_STORAGE = 'salla-admin-key';
+
+/**
+ * Call an admin API route and return its `{ success, message, data }` body.
+ * Prompts for the admin key on 401; throws with the route's message on failure.
+ */
+export async function sallaAdminApi(url: string, init: RequestInit = {}): Promise<any> {
+  const adminKey = sessionStorage.getItem(ADMIN_KEY_STORAGE);
+  const headers: Record<string, string> = {};
+  if (adminKey) headers[SALLA_CONFIG.adminKeyHeader] = adminKey;
+  if (typeof init.body === 'string') headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(url, { ...init, headers });
+  const body = await response.json();
+
+  if (response.status === 401) {
+    const enteredKey = window.prompt('Enter the Salla admin API key');
+    if (enteredKey && enteredKey !== adminKey) {
+      sessionStorage.setItem(ADMIN_KEY_STORAGE, enteredKey);
+      return sallaAdminApi(url, init);
+    }
+  }
+  if (!response.ok || !body.success) {
+    throw new Error(body.message || `Request failed with status ${response.status}`);
+  }
+  return body;
+}
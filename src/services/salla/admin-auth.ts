@@ -0,0 +1,33 @@
+// Salla Admin API Guard
+// Admin API routes expose merchant records, so they require the
+// SALLA_ADMIN_API_KEY header in production. Without a key configured they
+// are only open in development. Scheduled job routes also accept the
+// `Authorization: Bearer $CRON_SECRET` header sent by Vercel Cron.
+
+import crypto from 'crypto';
+import type { NextApiRequest } from 'next';
+import { SALLA_CONFIG } from './config';
+
+function safeEqual(provided: unknown, expected: string): boolean {
+  if (typeof provided !== 'string' || provided.length !== expected.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+}
+
+export function isAuthorizedAdminRequest(req: NextApiRequest): boolean {
+  const adminKey = process.env.SALLA_ADMIN_API_KEY;
+  if (!adminKey) {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  return safeEqual(req.headers[SALLA_CONFIG.adminKeyHeader], adminKey);
+}
+
+export function isAuthorizedJobRequest(req: NextApiRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && safeEqual(req.headers.authorization, `Bearer ${cronSecret}`)) {
+    return true;
+  }
+  return isAuthorizedAdminRequest(req);
+}
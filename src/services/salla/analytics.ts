@@ -610,7 +610,7 @@ export class SallaAnalyticsService {
   }
 }
 
-// Create service instance
+// Create service instance (analytics is background traffic, so it yields to cart/checkout)
 export const sallaAnalyticsService = new SallaAnalyticsService(
-  new SallaApiClient()
+  new SallaApiClient(undefined, { defaultPriority: 'low' })
 );
\ No newline at end of file
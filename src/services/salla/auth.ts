@@ -12,8 +12,8 @@ import {
   SallaChangePasswordRequest,
   SallaVerifyEmailRequest,
   SallaRefreshTokenRequest,
-  handleSallaError,
 } from './types';
+import { toSallaError } from './errors';
 
 // Extended auth interfaces
 export interface AuthTokens {
@@ -208,7 +208,7 @@ class SallaAuthService {
 
       return response;
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -238,7 +238,7 @@ class SallaAuthService {
 
       return response;
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -268,7 +268,7 @@ class SallaAuthService {
 
       return response;
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -287,7 +287,7 @@ class SallaAuthService {
     } catch (error: any) {
       // Clear tokens even if logout API fails
       this.clearTokensFromStorage();
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -323,7 +323,7 @@ class SallaAuthService {
         }
       } catch (error: any) {
         this.clearTokensFromStorage();
-        throw new Error(handleSallaError(error));
+        throw toSallaError(error);
       } finally {
         this.refreshPromise = null;
       }
@@ -340,7 +340,7 @@ class SallaAuthService {
         { email }
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -351,7 +351,7 @@ class SallaAuthService {
         resetData
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -362,7 +362,7 @@ class SallaAuthService {
         passwordData
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -374,7 +374,7 @@ class SallaAuthService {
         verificationData
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -386,7 +386,7 @@ class SallaAuthService {
         'POST'
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -399,7 +399,7 @@ class SallaAuthService {
         'POST'
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -410,7 +410,7 @@ class SallaAuthService {
         twoFactorData
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -421,7 +421,7 @@ class SallaAuthService {
         twoFactorData
       );
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -440,7 +440,7 @@ class SallaAuthService {
       
       return response;
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -458,7 +458,7 @@ class SallaAuthService {
       
       return response;
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
@@ -477,7 +477,7 @@ class SallaAuthService {
       
       return response;
     } catch (error: any) {
-      throw new Error(handleSallaError(error));
+      throw toSallaError(error);
     }
   }
 
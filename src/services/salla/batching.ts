@@ -0,0 +1,107 @@
+// Salla Request Coalescing and Batching
+// `coalesce` shares one promise between identical in-flight requests;
+// `SallaBatchLoader` gathers single-key loads made in the same tick and
+// resolves them with one batch call (DataLoader style).
+
+import { SALLA_CONFIG } from './config';
+
+/**
+ * Run `send` unless a call with the same key is already in flight, in which
+ * case share its promise. The key is released once the call settles.
+ */
+export function coalesce<T>(
+  inflight: Map<string, Promise<T>>,
+  key: string,
+  send: () => Promise<T>
+): Promise<T> {
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const promise = send().finally(() => {
+    inflight.delete(key);
+  });
+  inflight.set(key, promise);
+  return promise;
+}
+
+// Resolves every key in order; an Error in a slot rejects only that key
+export type BatchFunction<K, V> = (keys: K[]) => Promise<Array<V | Error>>;
+
+export interface BatchLoaderOptions {
+  maxBatchSize: number;
+  // How long to wait for more keys before dispatching, in ms
+  batchWindow: number;
+}
+
+interface PendingLoad<V> {
+  promise: Promise<V>;
+  resolve: (value: V) => void;
+  reject: (error: Error) => void;
+}
+
+export class SallaBatchLoader<K, V> {
+  private queue = new Map<K, PendingLoad<V>>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private options: BatchLoaderOptions;
+
+  constructor(private batchFn: BatchFunction<K, V>, options: Partial<BatchLoaderOptions> = {}) {
+    this.options = {
+      maxBatchSize: SALLA_CONFIG.batch.maxBatchSize,
+      batchWindow: SALLA_CONFIG.batch.batchWindow,
+      ...options,
+    };
+  }
+
+  load(key: K): Promise<V> {
+    // The same key twice in one tick shares a single slot
+    const queued = this.queue.get(key);
+    if (queued) return queued.promise;
+
+    let resolve!: (value: V) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<V>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.queue.set(key, { promise, resolve, reject });
+
+    if (this.queue.size >= this.options.maxBatchSize) {
+      this.dispatch();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.dispatch(), this.options.batchWindow);
+    }
+    return promise;
+  }
+
+  loadMany(keys: K[]): Promise<V[]> {
+    return Promise.all(keys.map(key => this.load(key)));
+  }
+
+  private dispatch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = Array.from(this.queue.entries());
+    this.queue.clear();
+    if (batch.length === 0) return;
+
+    this.batchFn(batch.map(([key]) => key))
+      .then(results => {
+        batch.forEach(([key, pending], index) => {
+          const result = results[index];
+          if (result instanceof Error) {
+            pending.reject(result);
+          } else if (result === undefined) {
+            pending.reject(new Error(`Batch function returned no value for ${String(key)}`));
+          } else {
+            pending.resolve(result);
+          }
+        });
+      })
+      .catch(error => {
+        batch.forEach(([, pending]) => pending.reject(error));
+      });
+  }
+}
@@ -0,0 +1,230 @@
+// Salla Response Cache
+// Pluggable cache for catalog reads. Entries are fresh until `expiresAt`,
+// then served stale (and revalidated in the background) until `staleUntil`.
+// ETags are kept past that so expired entries can still be revalidated with
+// If-None-Match instead of downloading the payload again.
+
+import { SALLA_CONFIG } from './config';
+
+export interface CachePolicy {
+  // How long the entry is fresh, in ms
+  ttl: number;
+  // How long after `ttl` the stale entry may still be served while revalidating
+  staleWhileRevalidate?: number;
+  tags?: string[];
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    cache?: CachePolicy;
+  }
+}
+
+export interface CacheEntry<T = any> {
+  value: T;
+  etag?: string;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+  tags: string[];
+}
+
+// Async so shared stores (Redis, KV) can implement it
+export interface SallaCacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByTag(tag: string): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface CacheInvalidation {
+  keys?: string[];
+  tags?: string[];
+}
+
+/**
+ * In-memory LRU store. Used per browser tab and, by default, as the
+ * process-wide shared store on the server.
+ */
+export class SallaMemoryCache implements SallaCacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+
+  constructor(private maxEntries: number = SALLA_CONFIG.cache.maxEntries) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    entry.tags.forEach(tag => {
+      if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+      this.tagIndex.get(tag)!.add(key);
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      this.remove(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    const keys = Array.from(this.tagIndex.get(tag) || []);
+    return keys.filter(key => this.remove(key)).length;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.entries.delete(key);
+    entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) this.tagIndex.delete(tag);
+    });
+    return true;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+let browserStore: SallaCacheStore | undefined;
+
+/**
+ * The store clients use unless they're given one: a per-tab LRU in the
+ * browser, a process-wide store on the server shared by every client.
+ */
+export function getSharedCacheStore(): SallaCacheStore {
+  if (typeof window !== 'undefined') {
+    browserStore = browserStore || new SallaMemoryCache();
+    return browserStore;
+  }
+
+  // Kept on globalThis so Next.js dev reloads and API routes share one store
+  const holder = globalThis as { __sallaCacheStore?: SallaCacheStore };
+  holder.__sallaCacheStore = holder.__sallaCacheStore || new SallaMemoryCache(SALLA_CONFIG.cache.serverMaxEntries);
+  return holder.__sallaCacheStore;
+}
+
+/**
+ * Replace the shared store, e.g. with a Redis-backed implementation
+ */
+export function setSharedCacheStore(store: SallaCacheStore): void {
+  if (typeof window !== 'undefined') {
+    browserStore = store;
+    return;
+  }
+  (globalThis as { __sallaCacheStore?: SallaCacheStore }).__sallaCacheStore = store;
+}
+
+// Two FNV-1a passes with different offsets; not a secure hash, only long
+// enough that two tokens won't share a scope by chance
+function fingerprint(value: string): string {
+  return [0x811c9dc5, 0x01000193].map(offset => {
+    let hash = offset;
+    for (let index = 0; index < value.length; index++) {
+      hash = Math.imul(hash ^ value.charCodeAt(index), 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }).join('');
+}
+
+/**
+ * Scope of a client's cache keys: its merchant, or the store of
+ * SALLA_ACCESS_TOKEN ('default'), or else a fingerprint of its access token,
+ * so clients of different stores never read each other's entries
+ */
+export function getClientScope(merchantId: string | undefined, accessToken: string): string {
+  if (merchantId) return merchantId;
+  if (accessToken === SALLA_CONFIG.accessToken) return 'default';
+  return `token-${fingerprint(accessToken)}`;
+}
+
+/**
+ * Stable cache key for a GET request; params are sorted so order doesn't matter
+ */
+export function buildCacheKey(scope: string, url: string, params?: Record<string, any>): string {
+  const query = Object.keys(params || {})
+    .filter(key => params![key] !== undefined && params![key] !== null)
+    .sort()
+    .map(key => `${key}=${encodeURIComponent(String(params![key]))}`)
+    .join('&');
+  return `${scope}:${url}${query ? `?${query}` : ''}`;
+}
+
+export function createCacheEntry<T>(
+  value: T,
+  policy: CachePolicy,
+  etag?: string,
+  now: number = Date.now()
+): CacheEntry<T> {
+  return {
+    value,
+    etag,
+    storedAt: now,
+    expiresAt: now + policy.ttl,
+    staleUntil: now + policy.ttl + (policy.staleWhileRevalidate ?? SALLA_CONFIG.cache.staleWhileRevalidate),
+    tags: policy.tags || [],
+  };
+}
+
+export async function invalidateCache(
+  store: SallaCacheStore,
+  { keys = [], tags = [] }: CacheInvalidation
+): Promise<number> {
+  await Promise.all(keys.map(key => store.delete(key)));
+  const counts = await Promise.all(tags.map(tag => store.deleteByTag(tag)));
+  return keys.length + counts.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Drop entries from the shared store, e.g. from a webhook handler
+ */
+export function invalidateSallaCache(invalidation: CacheInvalidation): Promise<number> {
+  return invalidateCache(getSharedCacheStore(), invalidation);
+}
+
+// Tags used by the catalog reads in client.ts
+export const CACHE_TAGS = {
+  products: 'products',
+  product: (id: string | number) => `product:${id}`,
+  categories: 'categories',
+  category: (id: string | number) => `category:${id}`,
+};
+
+/**
+ * Tags to drop for a product or category webhook event
+ */
+export function getCatalogCacheTags(event: string, data?: { id?: string | number }): string[] {
+  if (event.startsWith('product.')) {
+    return data?.id !== undefined
+      ? [CACHE_TAGS.products, CACHE_TAGS.product(data.id)]
+      : [CACHE_TAGS.products];
+  }
+  if (event.startsWith('category.')) {
+    return data?.id !== undefined
+      ? [CACHE_TAGS.categories, CACHE_TAGS.category(data.id)]
+      : [CACHE_TAGS.categories];
+  }
+  return [];
+}
@@ -0,0 +1,245 @@
+// Salla Catalog Mirror
+// Server-only: a local copy of each merchant's catalog (products with their
+// variants and images, categories and brands), so pages and jobs can read
+// it without calling Salla. Sync runs write what the API lists; webhooks
+// apply single changes in between (see catalog-sync.ts). Changes older than
+// the mirrored copy are ignored, and deletions leave a tombstone so a late
+// webhook can't bring a deleted entity back.
+
+import { MemoryMerchantDocumentStore, MerchantDocumentStore } from './collection-store';
+import { FileMerchantDocumentStore } from './json-file-store';
+import { SallaBrand, SallaCategory, SallaProduct } from './types';
+import { timeOf } from './utils';
+
+export type CatalogEntity = 'product' | 'category' | 'brand';
+
+export interface CatalogMirrorData {
+  merchantId: string;
+  products: Record<string, SallaProduct>;
+  categories: Record<string, SallaCategory>;
+  brands: Record<string, SallaBrand>;
+  // Deletion time per `${entity}:${id}`
+  tombstones: Record<string, string>;
+  lastFullSyncAt?: string;
+  lastSweepAt?: string;
+  lastWebhookAt?: string;
+  updatedAt: string;
+}
+
+export interface CatalogMirrorSummary {
+  merchantId: string;
+  products: number;
+  variants: number;
+  images: number;
+  categories: number;
+  brands: number;
+  lastFullSyncAt?: string;
+  lastSweepAt?: string;
+  lastWebhookAt?: string;
+  updatedAt: string;
+}
+
+export interface CatalogWriteCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  // Older than the mirrored copy or its tombstone
+  skipped: number;
+}
+
+export interface CatalogUpsertOptions {
+  // The entities come from a listing of the API: they exist, whatever the mirror says
+  authoritative?: boolean;
+  // Webhooks may carry only some fields; merge them over the mirrored copy
+  merge?: boolean;
+  // Write even when the mirrored copy looks as new
+  force?: boolean;
+}
+
+export type CatalogMirrorStore = MerchantDocumentStore<CatalogMirrorData>;
+
+const COLLECTIONS = { product: 'products', category: 'categories', brand: 'brands' } as const;
+
+export function createEmptyCatalog(merchantId: string): CatalogMirrorData {
+  return { merchantId, products: {}, categories: {}, brands: {}, tombstones: {}, updatedAt: new Date().toISOString() };
+}
+
+export class MemoryCatalogMirrorStore extends MemoryMerchantDocumentStore<CatalogMirrorData> {
+  constructor() {
+    super(createEmptyCatalog);
+  }
+}
+
+export class FileCatalogMirrorStore extends FileMerchantDocumentStore<CatalogMirrorData> {
+  constructor(directory: string) {
+    super(directory, createEmptyCatalog, 'catalog mirror');
+  }
+}
+
+/**
+ * Categories listed with nested children, flattened with their parent ids
+ */
+export function flattenCategories(categories: SallaCategory[], parentId?: string): SallaCategory[] {
+  const flat: SallaCategory[] = [];
+  for (const category of categories) {
+    const { children, ...rest } = category;
+    flat.push({ ...rest, parent_id: rest.parent_id ?? parentId } as SallaCategory);
+    if (children?.length) flat.push(...flattenCategories(children, String(category.id)));
+  }
+  return flat;
+}
+
+export class SallaCatalogMirror {
+  constructor(private store: CatalogMirrorStore) {}
+
+  async get(merchantId: string): Promise<CatalogMirrorData | null> {
+    return this.store.get(merchantId);
+  }
+
+  async merchants(): Promise<string[]> {
+    return this.store.merchants();
+  }
+
+  /**
+   * Drop the merchant's mirror, e.g. once it uninstalled the app
+   */
+  async purge(merchantId: string): Promise<void> {
+    await this.store.remove(merchantId);
+  }
+
+  /**
+   * Write entities of one kind. Products also add their brand.
+   */
+  async upsert(
+    merchantId: string,
+    entity: CatalogEntity,
+    items: Array<{ id: string | number; [key: string]: any }>,
+    options: CatalogUpsertOptions = {}
+  ): Promise<CatalogWriteCounts> {
+    const counts: CatalogWriteCounts = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+    const now = new Date().toISOString();
+
+    await this.store.transform(merchantId, data => {
+      const collection: Record<string, any> = data[COLLECTIONS[entity]];
+      for (const item of items) {
+        const id = String(item.id);
+        const tombstone = `${entity}:${id}`;
+        const existing = collection[id];
+
+        if (!options.authoritative && data.tombstones[tombstone] && timeOf(item.updated_at) <= timeOf(data.tombstones[tombstone])) {
+          counts.skipped++;
+          continue;
+        }
+        // A partial webhook payload without updated_at can't be older than the copy
+        if (existing && !options.force && item.updated_at && timeOf(item.updated_at) < timeOf(existing.updated_at)) {
+          counts.skipped++;
+          continue;
+        }
+
+        const next = { ...(options.merge && existing ? existing : {}), ...item, id };
+        delete data.tombstones[tombstone];
+        if (existing && JSON.stringify(existing) === JSON.stringify(next)) {
+          counts.unchanged++;
+          continue;
+        }
+        collection[id] = next;
+        if (existing) {
+          counts.updated++;
+        } else {
+          counts.created++;
+        }
+
+        if (entity === 'product' && next.brand?.id && !data.brands[String(next.brand.id)]) {
+          data.brands[String(next.brand.id)] = { ...next.brand, id: String(next.brand.id) };
+        }
+      }
+      data.updatedAt = now;
+      return data;
+    });
+
+    return counts;
+  }
+
+  /**
+   * Delete entities and remember when, so older changes aren't applied again
+   */
+  async remove(merchantId: string, entity: CatalogEntity, ids: Array<string | number>, at?: string): Promise<number> {
+    let removed = 0;
+    const deletedAt = at || new Date().toISOString();
+    await this.store.transform(merchantId, data => {
+      const collection: Record<string, any> = data[COLLECTIONS[entity]];
+      for (const value of ids) {
+        const id = String(value);
+        if (collection[id]) removed++;
+        delete collection[id];
+        data.tombstones[`${entity}:${id}`] = deletedAt;
+      }
+      data.updatedAt = new Date().toISOString();
+      return data;
+    });
+    return removed;
+  }
+
+  /**
+   * Delete every entity of a kind that a complete listing didn't return.
+   * Entities changed since `listedSince` (e.g. by a webhook during the
+   * listing) are kept.
+   */
+  async prune(merchantId: string, entity: CatalogEntity, listed: Set<string>, listedSince: string): Promise<number> {
+    const data = await this.store.get(merchantId);
+    const stale = Object.values<any>(data?.[COLLECTIONS[entity]] || {})
+      .filter(item => !listed.has(String(item.id)) && timeOf(item.updated_at) < timeOf(listedSince))
+      .map(item => String(item.id));
+    return stale.length > 0 ? this.remove(merchantId, entity, stale) : 0;
+  }
+
+  async touch(merchantId: string, field: 'lastFullSyncAt' | 'lastSweepAt' | 'lastWebhookAt', at: string): Promise<void> {
+    await this.store.transform(merchantId, data => ({ ...data, [field]: at }));
+  }
+
+  async getProduct(merchantId: string, id: string): Promise<SallaProduct | null> {
+    return (await this.store.get(merchantId))?.products[id] || null;
+  }
+
+  /**
+   * Mirrored products, optionally of one category or brand, newest first
+   */
+  async listProducts(merchantId: string, filter: { categoryId?: string; brandId?: string } = {}): Promise<SallaProduct[]> {
+    const data = await this.store.get(merchantId);
+    return Object.values(data?.products || {})
+      .filter(product =>
+        (!filter.categoryId || (product.categories || []).some(category => String(category.id) === filter.categoryId)) &&
+        (!filter.brandId || String(product.brand?.id) === filter.brandId)
+      )
+      .sort((a, b) => timeOf(b.created_at) - timeOf(a.created_at));
+  }
+
+  async listCategories(merchantId: string): Promise<SallaCategory[]> {
+    const data = await this.store.get(merchantId);
+    return Object.values(data?.categories || {}).sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0));
+  }
+
+  async listBrands(merchantId: string): Promise<SallaBrand[]> {
+    const data = await this.store.get(merchantId);
+    return Object.values(data?.brands || {}).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async summarize(merchantId: string): Promise<CatalogMirrorSummary | null> {
+    const data = await this.store.get(merchantId);
+    if (!data) return null;
+
+    const products = Object.values(data.products);
+    return {
+      merchantId,
+      products: products.length,
+      variants: products.reduce((total, product) => total + (product.variants?.length || 0), 0),
+      images: products.reduce((total, product) => total + (product.images?.length || 0), 0),
+      categories: Object.keys(data.categories).length,
+      brands: Object.keys(data.brands).length,
+      lastFullSyncAt: data.lastFullSyncAt,
+      lastSweepAt: data.lastSweepAt,
+      lastWebhookAt: data.lastWebhookAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
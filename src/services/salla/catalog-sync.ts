@@ -0,0 +1,318 @@
+// Salla Catalog Sync
+// Server-only: fills and refreshes the catalog mirror (catalog-mirror.ts).
+// A full sync rewrites every category, brand and product the paginated list
+// endpoints return. A sweep walks the same listings but only writes what
+// changed according to `updated_at`. Both delete what Salla no longer
+// lists. In between, product.* and category.* webhooks apply single changes.
+// Each run records its stage, progress, counts and errors for the catalog
+// dashboard. Sweeps pass over stores that uninstalled the app.
+
+import crypto from 'crypto';
+import path from 'path';
+import { SallaApiClient } from './client';
+import { ListStore, MemoryListStore } from './collection-store';
+import { SALLA_CONFIG, HTTP_STATUS } from './config';
+import { SallaError } from './errors';
+import { FileListStore } from './json-file-store';
+import { getJobClientForMerchant } from './merchant-clients';
+import { SallaMerchantRegistry, getMerchantRegistry, toEventTimestamp } from './merchant-registry';
+import {
+  CatalogEntity,
+  CatalogWriteCounts,
+  FileCatalogMirrorStore,
+  SallaCatalogMirror,
+  flattenCategories,
+} from './catalog-mirror';
+import { SyncRunStatus, SyncRunTracker } from './sync-runs';
+import { SallaWebhookPatternPayload } from './webhooks';
+
+export type CatalogSyncType = 'full' | 'sweep';
+
+export type CatalogSyncStatus = SyncRunStatus;
+
+export interface CatalogSyncCounts extends CatalogWriteCounts {
+  fetched: number;
+  deleted: number;
+}
+
+export interface CatalogSyncRun {
+  id: string;
+  merchantId: string;
+  type: CatalogSyncType;
+  status: CatalogSyncStatus;
+  // Listing being walked; gone once the run finishes
+  stage?: CatalogEntity;
+  pages: number;
+  counts: Record<CatalogEntity, CatalogSyncCounts>;
+  errors: Array<{ stage: CatalogEntity | 'run'; message: string; at: string }>;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export type CatalogSyncRunStore = ListStore<CatalogSyncRun>;
+
+export class MemoryCatalogSyncRunStore extends MemoryListStore<CatalogSyncRun> {}
+
+export class FileCatalogSyncRunStore extends FileListStore<CatalogSyncRun> {}
+
+// API client used to list a merchant's catalog
+export type CatalogClientProvider = (merchantId: string) => Promise<Pick<SallaApiClient, 'iterateProducts' | 'iterateCategories' | 'iterateBrands'>>;
+
+export interface CatalogSyncOptions {
+  mirror?: SallaCatalogMirror;
+  runs?: CatalogSyncRunStore;
+  getClient?: CatalogClientProvider;
+  merchants?: SallaMerchantRegistry;
+  perPage?: number;
+  concurrency?: number;
+  maxRuns?: number;
+  runTimeout?: number;
+  sweepInterval?: number;
+}
+
+const emptyCounts = (): CatalogSyncCounts => ({ fetched: 0, created: 0, updated: 0, unchanged: 0, skipped: 0, deleted: 0 });
+
+export class SallaCatalogSync {
+  private mirror: SallaCatalogMirror;
+  private runs: SyncRunTracker<CatalogSyncRun>;
+  private getClient: CatalogClientProvider;
+  private merchants: SallaMerchantRegistry;
+  private options: Required<Omit<CatalogSyncOptions, 'mirror' | 'runs' | 'getClient' | 'merchants'>>;
+
+  constructor(options: CatalogSyncOptions = {}) {
+    const config = SALLA_CONFIG.catalogSync;
+    this.mirror = options.mirror || new SallaCatalogMirror(new FileCatalogMirrorStore(path.resolve(process.cwd(), config.path)));
+    this.getClient = options.getClient || getJobClientForMerchant;
+    this.merchants = options.merchants || getMerchantRegistry();
+    this.options = {
+      perPage: options.perPage ?? config.perPage,
+      concurrency: options.concurrency ?? config.concurrency,
+      maxRuns: options.maxRuns ?? config.maxRuns,
+      runTimeout: options.runTimeout ?? config.runTimeout,
+      sweepInterval: options.sweepInterval ?? config.sweepInterval,
+    };
+    this.runs = new SyncRunTracker<CatalogSyncRun>({
+      store: options.runs || new MemoryCatalogSyncRunStore(),
+      label: 'Catalog sync',
+      maxRuns: this.options.maxRuns,
+      runTimeout: this.options.runTimeout,
+      conflict: busy => new SallaError(
+        `A catalog sync of merchant ${busy.merchantId} is already running`,
+        'CATALOG_SYNC_IN_PROGRESS',
+        HTTP_STATUS.CONFLICT
+      ),
+      runError: (message, at) => ({ stage: 'run', message, at }),
+      settle: run => {
+        run.stage = undefined;
+      },
+    });
+  }
+
+  getMirror(): SallaCatalogMirror {
+    return this.mirror;
+  }
+
+  /**
+   * Record a new run and work on it in the background. Resolves with the
+   * run as recorded at the start; `run()` waits for the outcome.
+   */
+  async startRun(merchantId: string, type: CatalogSyncType): Promise<CatalogSyncRun> {
+    return (await this.launch(merchantId, type)).run;
+  }
+
+  /**
+   * Sync a merchant's catalog and resolve with the finished run. A run
+   * already going in this process is shared.
+   */
+  async run(merchantId: string, type: CatalogSyncType): Promise<CatalogSyncRun> {
+    const running = this.runs.running(merchantId);
+    if (running) return running;
+    return (await this.launch(merchantId, type)).execution;
+  }
+
+  /**
+   * Sweep every mirrored store that still has the app, one after the other
+   */
+  async sweepAll(): Promise<CatalogSyncRun[]> {
+    const results: CatalogSyncRun[] = [];
+    for (const merchantId of await this.mirror.merchants()) {
+      // Its token is gone, so the run could only fail
+      if (await this.merchants.isUninstalled(merchantId)) continue;
+      try {
+        results.push(await this.run(merchantId, 'sweep'));
+      } catch (error) {
+        if (!(error instanceof SallaError) || error.code !== 'CATALOG_SYNC_IN_PROGRESS') throw error;
+        // Already syncing in another process
+        console.warn(`⚠️ Skipped catalog sweep of merchant ${merchantId}:`, error.message);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Apply a product.* or category.* webhook to a store that is mirrored
+   */
+  async applyWebhook(payload: SallaWebhookPatternPayload<'product.*' | 'category.*'>): Promise<void> {
+    const merchantId = String(payload.merchant);
+    if (!(await this.mirror.get(merchantId))) return;
+
+    const entity: CatalogEntity = payload.event.startsWith('product.') ? 'product' : 'category';
+    if (payload.event.endsWith('.deleted')) {
+      await this.mirror.remove(merchantId, entity, [payload.data.id], toEventTimestamp(payload.created_at));
+    } else {
+      const counts = await this.mirror.upsert(merchantId, entity, [payload.data], { merge: true });
+      if (counts.skipped) {
+        console.log(`🔄 Ignored ${payload.event} for ${entity} ${payload.data.id}: the mirror has a newer copy`);
+      }
+    }
+    await this.mirror.touch(merchantId, 'lastWebhookAt', new Date().toISOString());
+  }
+
+  /**
+   * Runs, newest first
+   */
+  async list(filter: { merchantId?: string; limit?: number } = {}): Promise<CatalogSyncRun[]> {
+    return this.runs.list(filter);
+  }
+
+  async get(id: string): Promise<CatalogSyncRun | null> {
+    return this.runs.get(id);
+  }
+
+  /**
+   * Sweep every mirrored store on a timer in this process
+   */
+  start(): void {
+    this.runs.schedule('Catalog sweep', this.options.sweepInterval, () => this.sweepAll());
+  }
+
+  stop(): void {
+    this.runs.unschedule();
+  }
+
+  isRunning(): boolean {
+    return this.runs.isScheduled();
+  }
+
+  // Claims fail while the merchant is already syncing somewhere
+  private launch(merchantId: string, type: CatalogSyncType) {
+    const now = new Date().toISOString();
+    return this.runs.launch({
+      id: crypto.randomUUID(),
+      merchantId,
+      type,
+      status: 'running',
+      pages: 0,
+      counts: { category: emptyCounts(), brand: emptyCounts(), product: emptyCounts() },
+      errors: [],
+      startedAt: now,
+      updatedAt: now,
+    }, run => this.execute(run));
+  }
+
+  private async execute(run: CatalogSyncRun): Promise<CatalogSyncRun> {
+    const { merchantId } = run;
+    try {
+      const client = await this.getClient(merchantId);
+      const listed: Record<CatalogEntity, Set<string> | null> = { category: null, brand: null, product: null };
+
+      listed.category = await this.walk(run, 'category', client.iterateCategories({}, this.paging()), flattenCategories);
+      // Not every app has the brands scope; products still bring their brand
+      listed.brand = await this.walk(run, 'brand', client.iterateBrands({}, this.paging()));
+      listed.product = await this.walk(run, 'product', client.iterateProducts({}, this.paging()));
+      if (!listed.product) {
+        throw new Error(run.errors[run.errors.length - 1]?.message || 'Listing products failed');
+      }
+
+      // Brands are kept while a listed product uses them
+      if (listed.brand) {
+        for (const product of await this.mirror.listProducts(merchantId)) {
+          if (product.brand?.id) listed.brand.add(String(product.brand.id));
+        }
+      }
+      for (const entity of ['category', 'brand', 'product'] as CatalogEntity[]) {
+        const ids = listed[entity];
+        if (ids) run.counts[entity].deleted = await this.mirror.prune(merchantId, entity, ids, run.startedAt);
+      }
+
+      await this.mirror.touch(merchantId, run.type === 'full' ? 'lastFullSyncAt' : 'lastSweepAt', new Date().toISOString());
+      const finished = await this.runs.finish(run, 'completed');
+      console.log(`✅ Catalog ${run.type} sync of merchant ${merchantId} completed`, {
+        products: run.counts.product,
+        categories: run.counts.category.fetched,
+        brands: run.counts.brand.fetched
+      });
+      return finished;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!run.errors.some(entry => entry.message === message)) {
+        run.errors.push({ stage: run.stage || 'run', message, at: new Date().toISOString() });
+      }
+      console.error(`❌ Catalog ${run.type} sync of merchant ${merchantId} failed:`, message);
+      return this.runs.finish(run, 'failed');
+    }
+  }
+
+  // Write one listing page by page; resolves with the listed ids, or null
+  // when the listing failed part way and can't be used for pruning
+  private async walk<T extends { id: string | number }>(
+    run: CatalogSyncRun,
+    entity: CatalogEntity,
+    items: AsyncIterable<T>,
+    prepare: (page: T[]) => T[] = page => page
+  ): Promise<Set<string> | null> {
+    run.stage = entity;
+    await this.runs.save(run);
+
+    const listed = new Set<string>();
+    let page: T[] = [];
+    const flush = async () => {
+      const batch = prepare(page);
+      page = [];
+      batch.forEach(item => listed.add(String(item.id)));
+      const counts = await this.mirror.upsert(run.merchantId, entity, batch, {
+        authoritative: true,
+        force: run.type === 'full',
+      });
+      const total = run.counts[entity];
+      total.fetched += batch.length;
+      total.created += counts.created;
+      total.updated += counts.updated;
+      total.unchanged += counts.unchanged;
+      total.skipped += counts.skipped;
+      run.pages++;
+      await this.runs.save(run);
+    };
+
+    try {
+      for await (const item of items) {
+        page.push(item);
+        if (page.length >= this.options.perPage) await flush();
+      }
+      if (page.length > 0) await flush();
+      return listed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      run.errors.push({ stage: entity, message, at: new Date().toISOString() });
+      console.warn(`⚠️ Listing ${entity} records for merchant ${run.merchantId} failed:`, message);
+      await this.runs.save(run);
+      return null;
+    }
+  }
+
+  private paging() {
+    return { perPage: this.options.perPage, concurrency: this.options.concurrency };
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one engine
+type CatalogSyncHolder = { __sallaCatalogSync?: SallaCatalogSync };
+
+export function getCatalogSync(): SallaCatalogSync {
+  const holder = globalThis as CatalogSyncHolder;
+  holder.__sallaCatalogSync = holder.__sallaCatalogSync || new SallaCatalogSync({
+    runs: new FileCatalogSyncRunStore(path.resolve(process.cwd(), SALLA_CONFIG.catalogSync.runsPath)),
+  });
+  return holder.__sallaCatalogSync;
+}
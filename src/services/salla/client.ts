@@ -1,12 +1,45 @@
 // Salla API Client
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { SALLA_CONFIG, API_ENDPOINTS, HTTP_STATUS } from './config';
+import type { Schema } from 'yup';
+import { SALLA_CONFIG, API_ENDPOINTS } from './config';
+import { RetryListener, RetryPolicy } from './retry';
+import {
+  RateLimitOptions,
+  RateLimiterState,
+  RequestPriority,
+  SallaRateLimiter,
+  getRateLimiter,
+} from './rate-limiter';
+import { PageFetcher, PaginateOptions, collectAll, paginate } from './pagination';
+import { SALLA_SCHEMAS } from './schemas';
+import { ValidationMode, validateSallaPayload } from './validation';
+import { toSallaError } from './errors';
+import {
+  CACHE_TAGS,
+  CacheEntry,
+  CacheInvalidation,
+  SallaCacheStore,
+  buildCacheKey,
+  createCacheEntry,
+  getClientScope,
+  getSharedCacheStore,
+  invalidateCache,
+} from './cache';
+import { SallaBatchLoader, coalesce } from './batching';
+import {
+  SallaMiddleware,
+  SallaMiddlewareHandler,
+  SallaMiddlewareHost,
+  SallaMiddlewarePipeline,
+  SallaRequestContext,
+  createBuiltinMiddlewares,
+} from './middleware';
 import {
   SallaApiResponse,
-  SallaApiError,
   SallaProduct,
   SallaCategory,
+  SallaBrand,
   SallaCart,
   SallaOrder,
   SallaCustomer,
@@ -15,13 +48,55 @@ import {
   SallaAuthToken,
 } from './types';
 
+export interface SallaClientOptions {
+  merchantId?: string;
+  retry?: Partial<RetryPolicy>;
+  rateLimit?: Partial<RateLimitOptions>;
+  // Priority for requests that don't set their own (e.g. 'low' for background sync)
+  defaultPriority?: RequestPriority;
+  validationMode?: ValidationMode;
+  // Store for cached catalog reads; defaults to the shared store, false disables caching
+  cache?: SallaCacheStore | false;
+  // Turn getProduct calls made in the same tick into one list request
+  batchProducts?: boolean;
+}
+
 export class SallaApiClient {
+  // Bare axios instance; the middleware pipeline wraps every call to it
   private client: AxiosInstance;
+  private pipeline: SallaMiddlewarePipeline;
   private accessToken: string;
+  private retryPolicy: RetryPolicy;
+  private retryListeners = new Set<RetryListener>();
+  private rateLimiter: SallaRateLimiter;
+  private rateLimitOptions?: Partial<RateLimitOptions>;
+  private defaultPriority: RequestPriority;
+  private validationMode: ValidationMode;
+  private cacheStore?: SallaCacheStore;
+  private revalidating = new Set<string>();
+  private inflight = new Map<string, Promise<any>>();
+  private productLoader?: SallaBatchLoader<string, SallaProduct>;
+  public readonly merchantId?: string;
+  // Prefix of this client's cache and in-flight keys and its rate limiter
+  // (see getClientScope); fixed at construction so a refreshed token keeps both
+  private readonly scope: string;
   public notifications?: any;
 
-  constructor(accessToken?: string) {
+  constructor(accessToken?: string, options: SallaClientOptions = {}) {
     this.accessToken = accessToken || SALLA_CONFIG.accessToken;
+    this.retryPolicy = { ...SALLA_CONFIG.retry, ...options.retry };
+    this.rateLimitOptions = options.rateLimit;
+    this.defaultPriority = options.defaultPriority || 'normal';
+    this.merchantId = options.merchantId;
+    this.scope = getClientScope(this.merchantId, this.accessToken);
+    this.rateLimiter = getRateLimiter(this.scope, this.rateLimitOptions);
+    this.validationMode = options.validationMode || SALLA_CONFIG.validationMode;
+    if (options.cache !== false && (options.cache || SALLA_CONFIG.cache.enabled)) {
+      this.cacheStore = options.cache || getSharedCacheStore();
+    }
+    if (options.batchProducts ?? SALLA_CONFIG.batch.enabled) {
+      this.productLoader = new SallaBatchLoader(ids => this.fetchProducts(ids));
+    }
     
     this.client = axios.create({
       baseURL: SALLA_CONFIG.baseURL,
@@ -32,98 +107,267 @@ export class SallaApiClient {
       },
     });
 
-    this.setupInterceptors();
+    this.pipeline = new SallaMiddlewarePipeline();
+    createBuiltinMiddlewares(this.middlewareHost()).forEach(middleware => this.pipeline.use(middleware));
     // Notifications service will be initialized later to avoid circular dependency
   }
 
-  private setupInterceptors(): void {
-    // Request interceptor to add auth token
-    this.client.interceptors.request.use(
-      (config) => {
-        if (this.accessToken) {
-          config.headers.Authorization = `Bearer ${this.accessToken}`;
-        }
-        return config;
-      },
-      (error) => Promise.reject(error)
+  // The slice of the client the built-in middlewares work with
+  private middlewareHost(): SallaMiddlewareHost {
+    return {
+      merchantId: this.merchantId,
+      getAccessToken: () => this.accessToken,
+      setAccessToken: (token) => this.setAccessToken(token),
+      getRateLimiter: () => this.rateLimiter,
+      getDefaultPriority: () => this.defaultPriority,
+      getRetryPolicy: () => this.retryPolicy,
+      emitRetry: (event) => this.emitRetry(event),
+      refreshToken: (refreshToken) => this.refreshToken(refreshToken),
+    };
+  }
+
+  /**
+   * Add a middleware to every request of this client. Plain functions run
+   * innermost; pass a SallaMiddleware with an `order` to place it elsewhere
+   * (see MIDDLEWARE_ORDER). Returns a function that removes it again.
+   */
+  public use(middleware: SallaMiddleware | SallaMiddlewareHandler): () => void {
+    return this.pipeline.use(
+      typeof middleware === 'function'
+        ? { name: middleware.name || 'anonymous', handle: middleware }
+        : middleware
     );
+  }
+
+  // Remove a middleware, built-ins included, by name
+  public removeMiddleware(name: string): boolean {
+    return this.pipeline.remove(name);
+  }
+
+  public getMiddlewareNames(): string[] {
+    return this.pipeline.names();
+  }
+
+  // Every HTTP call goes through here
+  private send<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const context: SallaRequestContext = {
+      config: { ...config },
+      merchantId: this.merchantId,
+      accessToken: () => this.accessToken,
+      state: {},
+    };
+    return this.pipeline.run(context, requestConfig => this.client.request(requestConfig));
+  }
 
-    // Response interceptor to handle errors
-    this.client.interceptors.response.use(
-      (response: AxiosResponse) => response,
-      (error) => {
-        const sallaError: SallaApiError = {
-          message: error.response?.data?.message || error.message,
-          code: error.response?.data?.code || 'UNKNOWN_ERROR',
-          status: error.response?.status || 500,
-          details: error.response?.data,
-        };
-        return Promise.reject(sallaError);
+  private emitRetry(event: Parameters<RetryListener>[0]): void {
+    const listeners = [this.retryPolicy.onRetry, ...Array.from(this.retryListeners)];
+    listeners.forEach(listener => {
+      try {
+        listener?.(event);
+      } catch (error) {
+        console.error('Retry listener failed:', error);
       }
-    );
+    });
   }
 
+  // The rate limiter stays: a new token for the same store shares its quota
   public setAccessToken(token: string): void {
     this.accessToken = token;
   }
 
+  public getAccessToken(): string {
+    return this.accessToken;
+  }
+
+  public getRateLimitState(): RateLimiterState {
+    return this.rateLimiter.getState();
+  }
+
+  public setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  // Subscribe to retry events, returns an unsubscribe function
+  public onRetry(listener: RetryListener): () => void {
+    this.retryListeners.add(listener);
+    return () => {
+      this.retryListeners.delete(listener);
+    };
+  }
+
+  // Pass a schema to validate and normalize the payload's `data`. GETs with a
+  // `cache` policy go through the response cache.
   private async request<T>(
-    config: AxiosRequestConfig
+    config: AxiosRequestConfig,
+    schema?: Schema<T>
   ): Promise<SallaApiResponse<T>> {
     try {
-      const response = await this.client.request<SallaApiResponse<T>>(config);
-      return response.data;
+      return await this.dedupe('parsed', config, async () => {
+        if (this.cacheStore && config.cache && (config.method || 'GET').toUpperCase() === 'GET') {
+          return this.cachedRequest(config, schema);
+        }
+        const response = await this.send<SallaApiResponse<T>>(config);
+        return this.parseResponse(response, config, schema);
+      });
     } catch (error) {
-      throw error as SallaApiError;
+      throw toSallaError(error);
     }
   }
 
+  // Identical GETs already in flight share one request. Requests with an
+  // abort signal are left alone so one caller can't cancel another's. `kind`
+  // keeps raw responses (get()) apart from parsed ones (request()).
+  private dedupe<R>(kind: 'raw' | 'parsed', config: AxiosRequestConfig, send: () => Promise<R>): Promise<R> {
+    if ((config.method || 'GET').toUpperCase() !== 'GET' || config.signal) {
+      return send();
+    }
+    const key = `${kind}:${this.cacheKey(config.url!, config.params)}`;
+    return coalesce(this.inflight, key, send);
+  }
+
+  private parseResponse<T>(
+    response: AxiosResponse<SallaApiResponse<T>>,
+    config: AxiosRequestConfig,
+    schema?: Schema<T>
+  ): SallaApiResponse<T> {
+    if (schema && response.data) {
+      const endpoint = `${(config.method || 'GET').toUpperCase()} ${config.url}`;
+      return {
+        ...response.data,
+        data: validateSallaPayload(schema, response.data.data, endpoint, this.validationMode),
+      };
+    }
+    return response.data;
+  }
+
+  // Fresh entries are returned as-is, stale ones are returned while a
+  // background request revalidates them, anything older is refetched
+  private async cachedRequest<T>(
+    config: AxiosRequestConfig,
+    schema?: Schema<T>
+  ): Promise<SallaApiResponse<T>> {
+    const key = this.cacheKey(config.url!, config.params);
+    const entry = await this.cacheStore!.get<SallaApiResponse<T>>(key);
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return entry.value;
+    }
+
+    if (entry && now < entry.staleUntil) {
+      if (!this.revalidating.has(key)) {
+        this.revalidating.add(key);
+        this.fetchAndCache(key, { ...config, priority: 'low' }, schema, entry)
+          .catch(error => console.warn(`⚠️ Failed to revalidate ${key}:`, error?.message || error))
+          .finally(() => this.revalidating.delete(key));
+      }
+      return entry.value;
+    }
+
+    return this.fetchAndCache(key, config, schema, entry);
+  }
+
+  private async fetchAndCache<T>(
+    key: string,
+    config: AxiosRequestConfig,
+    schema: Schema<T> | undefined,
+    entry?: CacheEntry<SallaApiResponse<T>>
+  ): Promise<SallaApiResponse<T>> {
+    const policy = config.cache!;
+    const response = await this.send<SallaApiResponse<T>>(
+      entry?.etag
+        ? {
+            ...config,
+            headers: { ...config.headers, 'If-None-Match': entry.etag },
+            validateStatus: status => (status >= 200 && status < 300) || status === 304,
+          }
+        : config
+    );
+
+    if (response.status === 304 && entry) {
+      await this.cacheStore!.set(key, createCacheEntry(entry.value, policy, entry.etag));
+      return entry.value;
+    }
+
+    const value = this.parseResponse(response, config, schema);
+    await this.cacheStore!.set(key, createCacheEntry(value, policy, response.headers?.etag));
+    return value;
+  }
+
+  // Key of a GET in this client's scope, e.g. to invalidate it
+  public cacheKey(url: string, params?: Record<string, any>): string {
+    return buildCacheKey(this.scope, url, params);
+  }
+
+  // Drop cached responses by key (see cacheKey) or tag (see CACHE_TAGS)
+  public async invalidateCache(invalidation: CacheInvalidation): Promise<number> {
+    if (!this.cacheStore) return 0;
+    return invalidateCache(this.cacheStore, invalidation);
+  }
+
   // HTTP Methods for services
   public async get<T>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return this.client.get<T>(url, config);
+    return this.dedupe('raw', { ...config, method: 'GET', url }, () => this.send<T>({ ...config, method: 'GET', url }));
   }
 
   public async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return this.client.post<T>(url, data, config);
+    return this.send<T>({ ...config, method: 'POST', url, data });
+  }
+
+  public async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.send<T>({ ...config, method: 'PUT', url, data });
   }
 
   public async patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return this.client.patch<T>(url, data, config);
+    return this.send<T>({ ...config, method: 'PATCH', url, data });
   }
 
   public async delete<T>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    return this.client.delete<T>(url, config);
+    return this.send<T>({ ...config, method: 'DELETE', url });
   }
 
   // Authentication Methods
+  // Exchange an authorization code; pass the redirect URI and PKCE verifier
+  // used when the authorization was started
   public async authenticate(
     clientId: string,
     clientSecret: string,
-    code: string
+    code: string,
+    options: { redirectUri?: string; codeVerifier?: string } = {}
   ): Promise<SallaAuthToken> {
     const response = await this.request<SallaAuthToken>({
       method: 'POST',
-      url: API_ENDPOINTS.auth.token,
+      url: SALLA_CONFIG.oauth.tokenURL,
+      priority: 'high',
+      skipAuthRefresh: true,
       data: {
         grant_type: 'authorization_code',
         client_id: clientId,
         client_secret: clientSecret,
         code,
+        redirect_uri: options.redirectUri,
+        code_verifier: options.codeVerifier,
       },
     });
-    return response.data;
+    // The OAuth endpoint returns the token directly rather than wrapped in `data`
+    return response.data || (response as unknown as SallaAuthToken);
   }
 
   public async refreshToken(refreshToken: string): Promise<SallaAuthToken> {
     const response = await this.request<SallaAuthToken>({
       method: 'POST',
-      url: API_ENDPOINTS.auth.refresh,
+      url: SALLA_CONFIG.oauth.tokenURL,
+      priority: 'high',
+      skipAuthRefresh: true,
       data: {
         grant_type: 'refresh_token',
+        client_id: SALLA_CONFIG.clientId,
+        client_secret: SALLA_CONFIG.clientSecret,
         refresh_token: refreshToken,
       },
     });
-    return response.data;
+    // The OAuth endpoint returns the token directly rather than wrapped in `data`
+    return response.data || (response as unknown as SallaAuthToken);
   }
 
   // Product Methods
@@ -134,17 +378,70 @@ export class SallaApiClient {
       method: 'GET',
       url: API_ENDPOINTS.products.list,
       params,
-    });
+      cache: { ttl: SALLA_CONFIG.cache.ttl.products, tags: [CACHE_TAGS.products] },
+    }, SALLA_SCHEMAS.products);
   }
 
   public async getProduct(id: string): Promise<SallaProduct> {
+    return this.productLoader ? this.productLoader.load(id) : this.fetchProduct(id);
+  }
+
+  private async fetchProduct(id: string): Promise<SallaProduct> {
     const response = await this.request<SallaProduct>({
       method: 'GET',
       url: API_ENDPOINTS.products.details(id),
-    });
+      cache: { ttl: SALLA_CONFIG.cache.ttl.product, tags: [CACHE_TAGS.products, CACHE_TAGS.product(id)] },
+    }, SALLA_SCHEMAS.product);
     return response.data;
   }
 
+  // Batch function behind getProduct: one filtered list request for the ids
+  // that aren't freshly cached, each result cached as if fetched on its own.
+  // Ids the list leaves out (Salla may ignore the filter and answer with one
+  // page) are fetched one by one rather than reported as not found.
+  private async fetchProducts(ids: string[]): Promise<Array<SallaProduct | Error>> {
+    if (ids.length === 1) {
+      return [await this.fetchProduct(ids[0]).catch(error => error)];
+    }
+
+    const found = new Map<string, SallaProduct>();
+    const now = Date.now();
+    if (this.cacheStore) {
+      await Promise.all(ids.map(async id => {
+        const entry = await this.cacheStore!.get<SallaApiResponse<SallaProduct>>(this.productCacheKey(id));
+        if (entry && now < entry.expiresAt) found.set(id, entry.value.data);
+      }));
+    }
+
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      const response = await this.request<SallaProduct[]>({
+        method: 'GET',
+        url: API_ENDPOINTS.products.list,
+        params: { [SALLA_CONFIG.batch.productIdsParam]: missing.join(','), per_page: missing.length },
+      }, SALLA_SCHEMAS.products);
+
+      await Promise.all((response.data || []).map(async product => {
+        const id = String(product.id);
+        found.set(id, product);
+        await this.cacheStore?.set(this.productCacheKey(id), createCacheEntry(
+          { ...response, data: product, pagination: undefined },
+          { ttl: SALLA_CONFIG.cache.ttl.product, tags: [CACHE_TAGS.products, CACHE_TAGS.product(id)] }
+        ));
+      }));
+    }
+
+    const unlisted = ids.filter(id => !found.has(id));
+    const fetched = new Map(await Promise.all(unlisted.map(async id =>
+      [id, await this.fetchProduct(id).catch((error: Error) => error)] as const
+    )));
+    return ids.map(id => found.get(id) || fetched.get(id)!);
+  }
+
+  private productCacheKey(id: string): string {
+    return this.cacheKey(API_ENDPOINTS.products.details(id));
+  }
+
   public async searchProducts(
     params: SallaSearchParams
   ): Promise<SallaApiResponse<SallaProduct[]>> {
@@ -152,7 +449,7 @@ export class SallaApiClient {
       method: 'GET',
       url: API_ENDPOINTS.products.search,
       params,
-    });
+    }, SALLA_SCHEMAS.products);
   }
 
   // Category Methods
@@ -160,14 +457,16 @@ export class SallaApiClient {
     return this.request<SallaCategory[]>({
       method: 'GET',
       url: API_ENDPOINTS.categories.list,
-    });
+      cache: { ttl: SALLA_CONFIG.cache.ttl.categories, tags: [CACHE_TAGS.categories] },
+    }, SALLA_SCHEMAS.categories);
   }
 
   public async getCategory(id: string): Promise<SallaCategory> {
     const response = await this.request<SallaCategory>({
       method: 'GET',
       url: API_ENDPOINTS.categories.details(id),
-    });
+      cache: { ttl: SALLA_CONFIG.cache.ttl.category, tags: [CACHE_TAGS.categories, CACHE_TAGS.category(id)] },
+    }, SALLA_SCHEMAS.category);
     return response.data;
   }
 
@@ -179,7 +478,11 @@ export class SallaApiClient {
       method: 'GET',
       url: API_ENDPOINTS.categories.products(id),
       params,
-    });
+      cache: {
+        ttl: SALLA_CONFIG.cache.ttl.categoryProducts,
+        tags: [CACHE_TAGS.products, CACHE_TAGS.category(id)],
+      },
+    }, SALLA_SCHEMAS.products);
   }
 
   // Cart Methods
@@ -187,7 +490,8 @@ export class SallaApiClient {
     const response = await this.request<SallaCart>({
       method: 'GET',
       url: API_ENDPOINTS.cart.get,
-    });
+      priority: 'high',
+    }, SALLA_SCHEMAS.cart);
     return response.data;
   }
 
@@ -199,12 +503,13 @@ export class SallaApiClient {
     const response = await this.request<SallaCart>({
       method: 'POST',
       url: API_ENDPOINTS.cart.add,
+      priority: 'high',
       data: {
         product_id: productId,
         quantity,
         variant_id: variantId,
       },
-    });
+    }, SALLA_SCHEMAS.cart);
     return response.data;
   }
 
@@ -215,8 +520,9 @@ export class SallaApiClient {
     const response = await this.request<SallaCart>({
       method: 'PUT',
       url: API_ENDPOINTS.cart.update(itemId),
+      priority: 'high',
       data: { quantity },
-    });
+    }, SALLA_SCHEMAS.cart);
     return response.data;
   }
 
@@ -224,7 +530,8 @@ export class SallaApiClient {
     const response = await this.request<SallaCart>({
       method: 'DELETE',
       url: API_ENDPOINTS.cart.remove(itemId),
-    });
+      priority: 'high',
+    }, SALLA_SCHEMAS.cart);
     return response.data;
   }
 
@@ -232,6 +539,7 @@ export class SallaApiClient {
     await this.request<void>({
       method: 'DELETE',
       url: API_ENDPOINTS.cart.clear,
+      priority: 'high',
     });
   }
 
@@ -243,14 +551,14 @@ export class SallaApiClient {
       method: 'GET',
       url: API_ENDPOINTS.orders.list,
       params,
-    });
+    }, SALLA_SCHEMAS.orders);
   }
 
   public async getOrder(id: string): Promise<SallaOrder> {
     const response = await this.request<SallaOrder>({
       method: 'GET',
       url: API_ENDPOINTS.orders.details(id),
-    });
+    }, SALLA_SCHEMAS.order);
     return response.data;
   }
 
@@ -258,17 +566,29 @@ export class SallaApiClient {
     const response = await this.request<SallaOrder>({
       method: 'POST',
       url: API_ENDPOINTS.orders.create,
+      priority: 'high',
       data: orderData,
-    });
+    }, SALLA_SCHEMAS.order);
     return response.data;
   }
 
+  // Customer Methods
+  public async getCustomers(
+    params?: { page?: number; per_page?: number }
+  ): Promise<SallaApiResponse<SallaCustomer[]>> {
+    return this.request<SallaCustomer[]>({
+      method: 'GET',
+      url: API_ENDPOINTS.customers.list,
+      params,
+    }, SALLA_SCHEMAS.customers);
+  }
+
   // User Methods
   public async getUserProfile(): Promise<SallaCustomer> {
     const response = await this.request<SallaCustomer>({
       method: 'GET',
       url: API_ENDPOINTS.users.profile,
-    });
+    }, SALLA_SCHEMAS.customer);
     return response.data;
   }
 
@@ -279,17 +599,98 @@ export class SallaApiClient {
       method: 'GET',
       url: API_ENDPOINTS.users.orders,
       params,
-    });
+    }, SALLA_SCHEMAS.orders);
   }
 
   public async getUserWishlist(): Promise<SallaWishlist> {
     const response = await this.request<SallaWishlist>({
       method: 'GET',
       url: API_ENDPOINTS.users.wishlist,
-    });
+    }, SALLA_SCHEMAS.wishlist);
     return response.data;
   }
 
+  // Pagination Methods
+  // Iterate every item of a list endpoint: `for await (const product of client.iterateProducts()) {}`
+  public paginate<T>(
+    url: string,
+    params: Record<string, any> = {},
+    options: PaginateOptions = {},
+    schema?: Schema<T[]>
+  ): AsyncGenerator<T, void, undefined> {
+    const fetchPage: PageFetcher<T> = ({ signal, ...pageParams }) =>
+      this.request<T[]>({
+        method: 'GET',
+        url,
+        params: { ...params, ...pageParams },
+        signal,
+      }, schema);
+
+    return paginate(fetchPage, { perPage: params.per_page, ...options });
+  }
+
+  public iterateProducts(
+    params?: SallaSearchParams,
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaProduct, void, undefined> {
+    return this.paginate<SallaProduct>(API_ENDPOINTS.products.list, params, options, SALLA_SCHEMAS.products);
+  }
+
+  public iterateCategoryProducts(
+    id: string,
+    params?: SallaSearchParams,
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaProduct, void, undefined> {
+    return this.paginate<SallaProduct>(
+      API_ENDPOINTS.categories.products(id),
+      params,
+      options,
+      SALLA_SCHEMAS.products
+    );
+  }
+
+  public iterateCategories(
+    params?: { per_page?: number },
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaCategory, void, undefined> {
+    return this.paginate<SallaCategory>(API_ENDPOINTS.categories.list, params, options, SALLA_SCHEMAS.categories);
+  }
+
+  public iterateBrands(
+    params?: { per_page?: number },
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaBrand, void, undefined> {
+    return this.paginate<SallaBrand>(API_ENDPOINTS.brands.list, params, options, SALLA_SCHEMAS.brands);
+  }
+
+  public iterateOrders(
+    params?: { per_page?: number },
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaOrder, void, undefined> {
+    return this.paginate<SallaOrder>(API_ENDPOINTS.orders.list, params, options, SALLA_SCHEMAS.orders);
+  }
+
+  public iterateCustomers(
+    params?: { per_page?: number },
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaCustomer, void, undefined> {
+    return this.paginate<SallaCustomer>(API_ENDPOINTS.customers.list, params, options, SALLA_SCHEMAS.customers);
+  }
+
+  public async getAllProducts(
+    params?: SallaSearchParams,
+    options?: PaginateOptions
+  ): Promise<SallaProduct[]> {
+    return collectAll(this.iterateProducts(params, options));
+  }
+
+  public async getAllOrders(
+    params?: { per_page?: number },
+    options?: PaginateOptions
+  ): Promise<SallaOrder[]> {
+    return collectAll(this.iterateOrders(params, options));
+  }
+
   // Health check method
   public async healthCheck(): Promise<boolean> {
     try {
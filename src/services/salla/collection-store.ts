@@ -0,0 +1,61 @@
+// Salla Collection Stores
+// The two storage shapes of the local persistence layers: a list of records
+// (webhook events and jobs, merchants, sync runs) and one document per
+// merchant (the catalog, order and customer mirrors). The in-memory stores,
+// for tests and when nothing else is configured, live here; the file stores
+// live in json-file-store.ts, so this module never pulls in `fs`.
+
+export interface ListStore<T> {
+  getAll(): Promise<T[]>;
+  // Atomic read-modify-write over every record
+  transform(change: (items: T[]) => T[]): Promise<void>;
+}
+
+export interface MerchantDocumentStore<T> {
+  get(merchantId: string): Promise<T | null>;
+  merchants(): Promise<string[]>;
+  // Atomic read-modify-write of one merchant's document; a merchant without
+  // one starts from the store's empty document
+  transform(merchantId: string, change: (data: T) => T): Promise<void>;
+  remove(merchantId: string): Promise<void>;
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class MemoryListStore<T extends object> implements ListStore<T> {
+  private items: T[] = [];
+
+  async getAll(): Promise<T[]> {
+    return this.items.map(item => ({ ...item }));
+  }
+
+  async transform(change: (items: T[]) => T[]): Promise<void> {
+    // Applied synchronously so concurrent callers can't interleave
+    this.items = change(this.items.map(item => ({ ...item })));
+  }
+}
+
+export class MemoryMerchantDocumentStore<T> implements MerchantDocumentStore<T> {
+  private documents = new Map<string, T>();
+
+  constructor(private empty: (merchantId: string) => T) {}
+
+  async get(merchantId: string): Promise<T | null> {
+    const data = this.documents.get(merchantId);
+    return data ? clone(data) : null;
+  }
+
+  async merchants(): Promise<string[]> {
+    return Array.from(this.documents.keys());
+  }
+
+  async transform(merchantId: string, change: (data: T) => T): Promise<void> {
+    // Applied synchronously so concurrent callers can't interleave
+    const current = this.documents.get(merchantId);
+    this.documents.set(merchantId, change(current ? clone(current) : this.empty(merchantId)));
+  }
+
+  async remove(merchantId: string): Promise<void> {
+    this.documents.delete(merchantId);
+  }
+}
@@ -6,8 +6,181 @@ export const SALLA_CONFIG = {
   clientSecret: process.env.SALLA_CLIENT_SECRET || '',
   accessToken: process.env.SALLA_ACCESS_TOKEN || '',
   webhookSecret: process.env.SALLA_WEBHOOK_SECRET || '',
+  // Incoming webhook verification (see webhook-verification.ts)
+  webhooks: {
+    // Accepted security strategies, as configured in the Salla Partners portal
+    strategies: (process.env.SALLA_WEBHOOK_STRATEGIES || 'signature,token')
+      .split(',')
+      .map(strategy => strategy.trim().toLowerCase()) as Array<'signature' | 'token'>,
+    // Reject deliveries whose created_at is further than this from now; 0 disables
+    tolerance: process.env.SALLA_WEBHOOK_TOLERANCE !== undefined
+      ? Number(process.env.SALLA_WEBHOOK_TOLERANCE)
+      : 15 * 60 * 1000,
+    maxBodySize: 1024 * 1024,
+  },
+  // Log of received webhook events, used for idempotency and replay
+  webhookEvents: {
+    path: process.env.SALLA_WEBHOOK_EVENT_LOG_PATH || '.data/salla-webhook-events.json',
+    // Oldest finished events are pruned past this count
+    maxEntries: 5000,
+    // A delivery still "processing" after this long is assumed crashed and may run again
+    processingTimeout: 5 * 60 * 1000,
+  },
+  // Background processing of webhook events (see webhook-queue.ts)
+  webhookQueue: {
+    // Off: the receiver runs handlers inline before answering
+    enabled: process.env.SALLA_WEBHOOK_QUEUE !== 'off',
+    path: process.env.SALLA_WEBHOOK_QUEUE_PATH || '.data/salla-webhook-queue.json',
+    // Jobs running at once per event type; the most specific pattern wins
+    concurrency: {
+      '*': Number(process.env.SALLA_WEBHOOK_CONCURRENCY) || 2,
+      'app.*': 1,
+    } as Record<string, number>,
+    // Attempts before a job moves to the dead-letter queue
+    maxAttempts: 5,
+    // Retry delay doubles from baseDelay up to maxDelay
+    baseDelay: 5 * 1000,
+    maxDelay: 15 * 60 * 1000,
+    // How often the in-process worker looks for due retries
+    pollInterval: 5 * 1000,
+  },
+  // Local webhook simulator (see webhook-simulator.ts); off in production
+  // unless SALLA_WEBHOOK_SIMULATOR=on
+  webhookSimulator: {
+    enabled: process.env.NODE_ENV !== 'production' || process.env.SALLA_WEBHOOK_SIMULATOR === 'on',
+    // Deliveries only go to this app, never to a host taken from the request
+    baseURL: process.env.SALLA_WEBHOOK_SIMULATOR_BASE_URL || `http://localhost:${process.env.PORT || 3000}`,
+    // Saved scenarios, as JSON files Jest tests can import
+    scenarioDir: 'src/tests/fixtures/webhook-scenarios',
+  },
   version: 'v2',
   timeout: 10000,
+  oauth: {
+    tokenURL: process.env.SALLA_OAUTH_TOKEN_URL || 'https://accounts.salla.sa/oauth2/token',
+    authorizeURL: process.env.SALLA_OAUTH_AUTHORIZE_URL || 'https://accounts.salla.sa/oauth2/auth',
+    userInfoURL: process.env.SALLA_OAUTH_USER_INFO_URL || 'https://accounts.salla.sa/oauth2/user/info',
+    // Must match the callback URL registered in the Salla Partners portal;
+    // defaults to /api/salla/oauth/callback on the requesting host
+    redirectURI: process.env.SALLA_OAUTH_REDIRECT_URI || '',
+    scope: process.env.SALLA_OAUTH_SCOPE || 'offline_access',
+    // RFC 7009 revocation endpoint called when a merchant uninstalls; Salla
+    // invalidates the tokens itself, so this is off unless configured
+    revokeURL: process.env.SALLA_OAUTH_REVOKE_URL || '',
+    // How long a started authorization stays valid
+    stateTTL: 10 * 60 * 1000,
+    // Page showing the outcome of /api/salla/oauth/callback
+    resultPage: '/salla-examples/oauth-result',
+  },
+  // Server-side merchant token records (see services/salla/server.ts)
+  tokenStore: {
+    path: process.env.SALLA_TOKEN_STORE_PATH || '.data/salla-tokens.json',
+  },
+  // Merchant install state, settings and history (see merchant-registry.ts)
+  merchants: {
+    path: process.env.SALLA_MERCHANT_STORE_PATH || '.data/salla-merchants.json',
+    // Newest install history entries kept per merchant
+    maxHistory: 100,
+  },
+  // Product and category slugs with their earlier names (see slug-registry.ts)
+  slugs: {
+    path: process.env.SALLA_SLUG_STORE_PATH || '.data/salla-slugs.json',
+  },
+  // Store that SALLA_ACCESS_TOKEN belongs to; background jobs act on it
+  // with that token when it has no merchant token record
+  storeMerchantId: process.env.SALLA_STORE_MERCHANT_ID || 'default',
+  // Header carrying SALLA_ADMIN_API_KEY for the admin API routes
+  adminKeyHeader: 'x-salla-admin-key',
+  // Refresh merchant tokens this long before they expire
+  tokenRefreshThreshold: 5 * 60 * 1000,
+  // Background refresh of stored merchant tokens (see token-refresh-scheduler.ts)
+  tokenRefreshScheduler: {
+    // Run in-process on a timer; otherwise trigger /api/salla/tokens/refresh from a cron
+    enabled: process.env.SALLA_TOKEN_REFRESH_SCHEDULER === 'on',
+    interval: Number(process.env.SALLA_TOKEN_REFRESH_INTERVAL) || 15 * 60 * 1000,
+    // Refresh tokens expiring within this window
+    refreshWindow: Number(process.env.SALLA_TOKEN_REFRESH_WINDOW) || 24 * 60 * 60 * 1000,
+    // Consecutive failures before a merchant is marked needs_reauth
+    maxConsecutiveFailures: 3,
+  },
+  // Local catalog mirror kept current by sync runs and webhooks (see catalog-sync.ts)
+  catalogSync: {
+    // One JSON file per merchant in this directory
+    path: process.env.SALLA_CATALOG_PATH || '.data/salla-catalog',
+    runsPath: process.env.SALLA_CATALOG_RUNS_PATH || '.data/salla-catalog-runs.json',
+    // Sweep every mirrored store in-process on a timer; otherwise trigger
+    // /api/salla/catalog/sync from a cron
+    scheduler: process.env.SALLA_CATALOG_SYNC_SCHEDULER === 'on',
+    sweepInterval: Number(process.env.SALLA_CATALOG_SWEEP_INTERVAL) || 60 * 60 * 1000,
+    perPage: 50,
+    // Pages fetched in parallel once the page count is known
+    concurrency: 2,
+    maxRuns: 100,
+    // A run without progress for this long is assumed interrupted
+    runTimeout: 10 * 60 * 1000,
+  },
+  // Local order mirror checked against Salla by reconciliation runs (see order-reconciliation.ts)
+  orderMirror: {
+    // One JSON file per merchant in this directory
+    path: process.env.SALLA_ORDER_MIRROR_PATH || '.data/salla-orders',
+    runsPath: process.env.SALLA_ORDER_RUNS_PATH || '.data/salla-order-runs.json',
+    // Reconcile every mirrored store in-process on a timer; otherwise trigger
+    // /api/salla/orders/reconcile from a cron
+    scheduler: process.env.SALLA_ORDER_RECONCILE_SCHEDULER === 'on',
+    reconcileInterval: Number(process.env.SALLA_ORDER_RECONCILE_INTERVAL) || 6 * 60 * 60 * 1000,
+    // Rewrite drifted orders with Salla's copy instead of only reporting them
+    autoHeal: process.env.SALLA_ORDER_AUTO_HEAL === 'on',
+    perPage: 50,
+    concurrency: 2,
+    maxRuns: 100,
+    // Drift entries kept per run; the run still counts them all
+    maxDrift: 200,
+    runTimeout: 10 * 60 * 1000,
+  },
+  // Local customer mirror and cross-store identities (see customer-sync.ts)
+  customerMirror: {
+    // One JSON file per merchant in this directory
+    path: process.env.SALLA_CUSTOMER_MIRROR_PATH || '.data/salla-customers',
+    perPage: 50,
+    concurrency: 2,
+  },
+  // Response validation: 'strict' throws, 'lenient' logs and normalizes, 'off' trusts payloads
+  validationMode: (process.env.SALLA_VALIDATION_MODE ||
+    (process.env.NODE_ENV === 'test' ? 'strict' : 'lenient')) as 'strict' | 'lenient' | 'off',
+  retry: {
+    maxAttempts: Number(process.env.SALLA_RETRY_MAX_ATTEMPTS) || 3,
+    baseDelay: 500,
+    maxDelay: 10000,
+    maxRetryAfter: 60000,
+    retryableStatuses: [408, 429, 500, 502, 503, 504],
+  },
+  // Catalog response cache; off under Jest unless SALLA_CACHE is set
+  cache: {
+    enabled: process.env.SALLA_CACHE ? process.env.SALLA_CACHE !== 'off' : process.env.NODE_ENV !== 'test',
+    maxEntries: 500,
+    serverMaxEntries: 5000,
+    staleWhileRevalidate: 5 * 60 * 1000,
+    // Freshness per endpoint, in ms
+    ttl: {
+      products: 60 * 1000,
+      product: 5 * 60 * 1000,
+      categories: 10 * 60 * 1000,
+      category: 10 * 60 * 1000,
+      categoryProducts: 60 * 1000,
+    },
+  },
+  // getProduct batching; off under Jest unless SALLA_BATCH is set
+  batch: {
+    enabled: process.env.SALLA_BATCH ? process.env.SALLA_BATCH !== 'off' : process.env.NODE_ENV !== 'test',
+    maxBatchSize: 50,
+    batchWindow: 0,
+    // List filter that accepts comma separated product ids
+    productIdsParam: process.env.SALLA_PRODUCT_IDS_PARAM || 'ids',
+  },
+  rateLimit: {
+    capacity: Number(process.env.SALLA_RATE_LIMIT_BURST) || 20,
+    refillPerSecond: Number(process.env.SALLA_RATE_LIMIT_PER_SECOND) || 2,
+    reserve: 5,
+  },
 };
 
 export const API_ENDPOINTS = {
@@ -31,6 +204,12 @@ export const API_ENDPOINTS = {
     details: (id: string) => `/categories/${id}`,
     products: (id: string) => `/categories/${id}/products`,
   },
+
+  // Brands
+  brands: {
+    list: '/brands',
+    details: (id: string) => `/brands/${id}`,
+  },
   
   // Cart
   cart: {
@@ -50,6 +229,12 @@ export const API_ENDPOINTS = {
     cancel: (id: string) => `/orders/${id}/cancel`,
   },
   
+  // Customers (merchant API)
+  customers: {
+    list: '/customers',
+    details: (id: string) => `/customers/${id}`,
+  },
+
   // Users
   users: {
     profile: '/user/profile',
@@ -66,5 +251,9 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
+  UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
 } as const;
\ No newline at end of file
@@ -0,0 +1,160 @@
+// Salla Customer Mirror
+// Server-only: a local copy of each merchant's customers, filled by a
+// paginated backfill and kept current by customer.* webhooks (see
+// customer-sync.ts). A change older than the mirrored copy, or than the
+// customer's deletion, is ignored.
+
+import { MemoryMerchantDocumentStore, MerchantDocumentStore } from './collection-store';
+import { FileMerchantDocumentStore } from './json-file-store';
+import { SallaCustomer } from './types';
+import { timeOf } from './utils';
+
+export interface CustomerMirrorData {
+  merchantId: string;
+  customers: Record<string, SallaCustomer>;
+  // Deletion time by customer id
+  deleted: Record<string, string>;
+  lastBackfillAt?: string;
+  lastWebhookAt?: string;
+  updatedAt: string;
+}
+
+export interface CustomerWriteCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  // Older than the mirrored copy or the deletion
+  skipped: number;
+}
+
+export interface CustomerMirrorSummary {
+  merchantId: string;
+  customers: number;
+  lastBackfillAt?: string;
+  lastWebhookAt?: string;
+  updatedAt: string;
+}
+
+export type CustomerMirrorStore = MerchantDocumentStore<CustomerMirrorData>;
+
+export function createEmptyCustomerMirror(merchantId: string): CustomerMirrorData {
+  return { merchantId, customers: {}, deleted: {}, updatedAt: new Date().toISOString() };
+}
+
+export class MemoryCustomerMirrorStore extends MemoryMerchantDocumentStore<CustomerMirrorData> {
+  constructor() {
+    super(createEmptyCustomerMirror);
+  }
+}
+
+export class FileCustomerMirrorStore extends FileMerchantDocumentStore<CustomerMirrorData> {
+  constructor(directory: string) {
+    super(directory, createEmptyCustomerMirror, 'customer mirror');
+  }
+}
+
+export class SallaCustomerMirror {
+  constructor(private store: CustomerMirrorStore) {}
+
+  async get(merchantId: string): Promise<CustomerMirrorData | null> {
+    return this.store.get(merchantId);
+  }
+
+  async merchants(): Promise<string[]> {
+    return this.store.merchants();
+  }
+
+  /**
+   * Drop the merchant's mirror, e.g. once it uninstalled the app
+   */
+  async purge(merchantId: string): Promise<void> {
+    await this.store.remove(merchantId);
+  }
+
+  /**
+   * Write customers. Webhooks may carry only some fields, so they are merged
+   * over the mirrored copy; `force` writes even an older copy and brings a
+   * deleted customer back (backfill).
+   */
+  async upsert(
+    merchantId: string,
+    customers: Array<{ id: string | number; [key: string]: any }>,
+    options: { force?: boolean } = {}
+  ): Promise<CustomerWriteCounts> {
+    const counts: CustomerWriteCounts = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+
+    await this.store.transform(merchantId, data => {
+      for (const customer of customers) {
+        const id = String(customer.id);
+        const existing = data.customers[id];
+        // A partial webhook payload without updated_at can't be older than the copy
+        const stale = existing
+          ? Boolean(customer.updated_at) && timeOf(customer.updated_at) < timeOf(existing.updated_at)
+          : data.deleted[id] !== undefined && timeOf(customer.updated_at) <= timeOf(data.deleted[id]);
+        if (stale && !options.force) {
+          counts.skipped++;
+          continue;
+        }
+
+        const next = { ...(existing || {}), ...customer, id } as SallaCustomer;
+        delete data.deleted[id];
+        if (existing && JSON.stringify(existing) === JSON.stringify(next)) {
+          counts.unchanged++;
+          continue;
+        }
+        data.customers[id] = next;
+        if (existing) {
+          counts.updated++;
+        } else {
+          counts.created++;
+        }
+      }
+      data.updatedAt = new Date().toISOString();
+      return data;
+    });
+
+    return counts;
+  }
+
+  /**
+   * Delete customers, remembering when so older changes can't restore them
+   */
+  async remove(merchantId: string, ids: Array<string | number>, at = new Date().toISOString()): Promise<number> {
+    let removed = 0;
+    await this.store.transform(merchantId, data => {
+      for (const value of ids) {
+        const id = String(value);
+        if (data.customers[id]) removed++;
+        delete data.customers[id];
+        data.deleted[id] = at;
+      }
+      data.updatedAt = new Date().toISOString();
+      return data;
+    });
+    return removed;
+  }
+
+  async touch(merchantId: string, field: 'lastBackfillAt' | 'lastWebhookAt', at: string): Promise<void> {
+    await this.store.transform(merchantId, data => ({ ...data, [field]: at }));
+  }
+
+  async getCustomer(merchantId: string, id: string): Promise<SallaCustomer | null> {
+    return (await this.store.get(merchantId))?.customers[id] || null;
+  }
+
+  async listCustomers(merchantId: string): Promise<SallaCustomer[]> {
+    return Object.values((await this.store.get(merchantId))?.customers || {});
+  }
+
+  async summarize(merchantId: string): Promise<CustomerMirrorSummary | null> {
+    const data = await this.store.get(merchantId);
+    if (!data) return null;
+    return {
+      merchantId,
+      customers: Object.keys(data.customers).length,
+      lastBackfillAt: data.lastBackfillAt,
+      lastWebhookAt: data.lastWebhookAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,321 @@
+// Salla Customer Sync
+// Server-only: fills the customer mirror (customer-mirror.ts) with a
+// paginated backfill and applies customer.* webhooks in between. The
+// directory links the accounts one person has in several stores by their
+// normalized email or phone, and adds up their orders from the order mirror
+// (order-mirror.ts) for the admin customers table. Stores that uninstalled
+// the app are left out of it.
+
+import path from 'path';
+import { SallaApiClient } from './client';
+import { SALLA_CONFIG } from './config';
+import { CustomerWriteCounts, FileCustomerMirrorStore, SallaCustomerMirror } from './customer-mirror';
+import { getJobClientForMerchant } from './merchant-clients';
+import { SallaMerchantRegistry, getMerchantRegistry, toEventTimestamp } from './merchant-registry';
+import { SallaOrderMirror } from './order-mirror';
+import { getOrderReconciler } from './order-reconciliation';
+import { SallaCustomer } from './types';
+import { timeOf } from './utils';
+import { SallaWebhookPatternPayload } from './webhooks';
+
+export interface CustomerBackfillResult {
+  merchantId: string;
+  fetched: number;
+  counts: CustomerWriteCounts;
+  // Mirrored customers Salla no longer lists
+  deleted: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface CustomerAccount {
+  merchantId: string;
+  customer: SallaCustomer;
+}
+
+// One person across every store they are a customer of
+export interface CustomerIdentity {
+  // `${merchantId}:${customerId}` of the oldest linked account
+  id: string;
+  // From the most recently updated account
+  name: string;
+  email: string;
+  phone: string;
+  avatar: string;
+  emails: string[];
+  phones: string[];
+  accounts: Array<{ merchantId: string; customerId: string }>;
+  orders: number;
+  // Order totals added up as they are; stores are assumed to share a currency
+  spent: number;
+  lastOrderAt?: string;
+}
+
+// API client used to list a merchant's customers
+export type CustomerClientProvider = (merchantId: string) => Promise<Pick<SallaApiClient, 'iterateCustomers'>>;
+
+export interface CustomerSyncOptions {
+  mirror?: SallaCustomerMirror;
+  // Order mirror the directory's order counts and spend come from
+  orders?: SallaOrderMirror;
+  getClient?: CustomerClientProvider;
+  merchants?: SallaMerchantRegistry;
+  perPage?: number;
+  concurrency?: number;
+}
+
+// Calling code of numbers written without one; Salla stores are Saudi by default
+const DEFAULT_COUNTRY_CODE = '966';
+
+// Orders with these status keys don't count towards lifetime spend
+const UNPAID_ORDER_STATUSES = ['canceled', 'cancelled', 'refunded', 'restored'];
+
+export function normalizeEmail(email?: string | null): string | null {
+  const value = String(email || '').trim().toLowerCase();
+  return value.includes('@') ? value : null;
+}
+
+/**
+ * Digits with the calling code, so '+966 50 123 4567', '00966501234567',
+ * '0501234567' and '501234567' all give '966501234567'
+ */
+export function normalizePhone(phone?: string | number | null, countryCode: string = DEFAULT_COUNTRY_CODE): string | null {
+  let digits = String(phone ?? '').replace(/\D/g, '');
+  if (digits.length < 7) return null;
+  const code = countryCode.replace(/\D/g, '') || DEFAULT_COUNTRY_CODE;
+
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = code + digits.slice(1);
+  } else if (digits.length <= 9) {
+    digits = code + digits;
+  }
+  return digits;
+}
+
+// The merchant API splits the phone into `mobile_code` and `mobile`
+const phoneOf = (customer: SallaCustomer) =>
+  customer.mobile ? normalizePhone(customer.mobile, customer.mobile_code) : normalizePhone(customer.phone);
+
+/**
+ * Group accounts that share a normalized email or phone, directly or through
+ * other accounts
+ */
+export function linkCustomerAccounts(accounts: CustomerAccount[]): CustomerAccount[][] {
+  const parent = accounts.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const owners = new Map<string, number>();
+  accounts.forEach((account, index) => {
+    const email = normalizeEmail(account.customer.email);
+    const phone = phoneOf(account.customer);
+    for (const key of [email && `email:${email}`, phone && `phone:${phone}`]) {
+      if (!key) continue;
+      const owner = owners.get(key);
+      if (owner === undefined) {
+        owners.set(key, index);
+      } else {
+        parent[root(index)] = root(owner);
+      }
+    }
+  });
+
+  const groups = new Map<number, CustomerAccount[]>();
+  accounts.forEach((account, index) => {
+    const group = groups.get(root(index)) || [];
+    group.push(account);
+    groups.set(root(index), group);
+  });
+  return Array.from(groups.values());
+}
+
+interface OrderStats {
+  orders: number;
+  spent: number;
+  lastOrderAt?: string;
+}
+
+export class SallaCustomerSync {
+  private mirror: SallaCustomerMirror;
+  private orders: SallaOrderMirror;
+  private getClient: CustomerClientProvider;
+  private merchants: SallaMerchantRegistry;
+  private options: Required<Pick<CustomerSyncOptions, 'perPage' | 'concurrency'>>;
+  // Backfills in this process, per merchant
+  private inFlight = new Map<string, Promise<CustomerBackfillResult>>();
+
+  constructor(options: CustomerSyncOptions = {}) {
+    const config = SALLA_CONFIG.customerMirror;
+    this.mirror = options.mirror || new SallaCustomerMirror(new FileCustomerMirrorStore(path.resolve(process.cwd(), config.path)));
+    this.orders = options.orders || getOrderReconciler().getMirror();
+    this.getClient = options.getClient || getJobClientForMerchant;
+    this.merchants = options.merchants || getMerchantRegistry();
+    this.options = {
+      perPage: options.perPage ?? config.perPage,
+      concurrency: options.concurrency ?? config.concurrency,
+    };
+  }
+
+  getMirror(): SallaCustomerMirror {
+    return this.mirror;
+  }
+
+  /**
+   * Write every customer Salla lists and delete the mirrored ones it no
+   * longer lists. A backfill already going in this process is shared.
+   */
+  backfill(merchantId: string): Promise<CustomerBackfillResult> {
+    let execution = this.inFlight.get(merchantId);
+    if (!execution) {
+      execution = this.executeBackfill(merchantId).finally(() => this.inFlight.delete(merchantId));
+      this.inFlight.set(merchantId, execution);
+    }
+    return execution;
+  }
+
+  /**
+   * Apply a customer.* webhook to a store that is mirrored
+   */
+  async applyWebhook(payload: SallaWebhookPatternPayload<'customer.*'>): Promise<void> {
+    const merchantId = String(payload.merchant);
+    if (!(await this.mirror.get(merchantId))) return;
+
+    if (payload.event === 'customer.deleted') {
+      await this.mirror.remove(merchantId, [payload.data.id], toEventTimestamp(payload.created_at));
+    } else {
+      const counts = await this.mirror.upsert(merchantId, [payload.data]);
+      if (counts.skipped) {
+        console.log(`🔄 Ignored ${payload.event} for customer ${payload.data.id}: the mirror has a newer copy`);
+      }
+    }
+    await this.mirror.touch(merchantId, 'lastWebhookAt', new Date().toISOString());
+  }
+
+  /**
+   * Linked customers of every mirrored store with their orders, most recent
+   * buyers first. `merchantId` keeps the people with an account in that store.
+   */
+  async directory(filter: { merchantId?: string; search?: string } = {}): Promise<CustomerIdentity[]> {
+    const accounts: CustomerAccount[] = [];
+    const stats = new Map<string, OrderStats>();
+
+    for (const merchantId of await this.mirror.merchants()) {
+      if (await this.merchants.isUninstalled(merchantId)) continue;
+      for (const customer of await this.mirror.listCustomers(merchantId)) {
+        accounts.push({ merchantId, customer });
+      }
+      for (const order of Object.values((await this.orders.get(merchantId))?.orders || {})) {
+        if (!order.customer?.id) continue;
+        const key = `${merchantId}:${order.customer.id}`;
+        const entry = stats.get(key) || { orders: 0, spent: 0 };
+        entry.orders++;
+        if (!UNPAID_ORDER_STATUSES.includes(order.status?.key)) {
+          entry.spent += order.totals?.total?.amount || 0;
+        }
+        if (!entry.lastOrderAt || timeOf(order.created_at) > timeOf(entry.lastOrderAt)) {
+          entry.lastOrderAt = order.created_at;
+        }
+        stats.set(key, entry);
+      }
+    }
+
+    const search = filter.search?.trim().toLowerCase();
+    return linkCustomerAccounts(accounts)
+      .filter(group => !filter.merchantId || group.some(account => account.merchantId === filter.merchantId))
+      .map(group => this.toIdentity(group, stats))
+      .filter(identity => !search || [identity.name, ...identity.emails, ...identity.phones].some(value => value.toLowerCase().includes(search)))
+      .sort((a, b) => timeOf(b.lastOrderAt) - timeOf(a.lastOrderAt) || a.name.localeCompare(b.name));
+  }
+
+  private async executeBackfill(merchantId: string): Promise<CustomerBackfillResult> {
+    const startedAt = new Date().toISOString();
+    const counts: CustomerWriteCounts = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+    const listed = new Set<string>();
+    let page: SallaCustomer[] = [];
+    const flush = async () => {
+      const batch = page;
+      page = [];
+      batch.forEach(customer => listed.add(String(customer.id)));
+      const written = await this.mirror.upsert(merchantId, batch, { force: true });
+      counts.created += written.created;
+      counts.updated += written.updated;
+      counts.unchanged += written.unchanged;
+      counts.skipped += written.skipped;
+    };
+
+    try {
+      console.log(`🔄 Customer backfill started for merchant ${merchantId}`);
+      const client = await this.getClient(merchantId);
+      for await (const customer of client.iterateCustomers({}, { perPage: this.options.perPage, concurrency: this.options.concurrency })) {
+        page.push(customer);
+        if (page.length >= this.options.perPage) await flush();
+      }
+      if (page.length > 0) await flush();
+
+      // Customers created or changed during the run are kept
+      const unlisted = (await this.mirror.listCustomers(merchantId))
+        .filter(customer => !listed.has(String(customer.id)) && timeOf(customer.updated_at || customer.created_at) < Date.parse(startedAt))
+        .map(customer => customer.id);
+      const deleted = unlisted.length > 0 ? await this.mirror.remove(merchantId, unlisted, startedAt) : 0;
+
+      const finishedAt = new Date().toISOString();
+      await this.mirror.touch(merchantId, 'lastBackfillAt', finishedAt);
+      console.log(`✅ Customer backfill of merchant ${merchantId} completed`, { fetched: listed.size, ...counts, deleted });
+      return { merchantId, fetched: listed.size, counts, deleted, startedAt, finishedAt };
+    } catch (error) {
+      console.error(`❌ Customer backfill of merchant ${merchantId} failed:`, error instanceof Error ? error.message : error);
+      throw error;
+    }
+  }
+
+  private toIdentity(group: CustomerAccount[], stats: Map<string, OrderStats>): CustomerIdentity {
+    const keyOf = (account: CustomerAccount) => `${account.merchantId}:${account.customer.id}`;
+    const oldest = group.reduce((first, account) =>
+      timeOf(account.customer.created_at) < timeOf(first.customer.created_at) ? account : first
+    );
+    const latest = group.reduce((last, account) =>
+      timeOf(account.customer.updated_at) > timeOf(last.customer.updated_at) ? account : last
+    );
+    const unique = (values: Array<string | null>) => Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+
+    const identity: CustomerIdentity = {
+      id: keyOf(oldest),
+      name: `${latest.customer.first_name || ''} ${latest.customer.last_name || ''}`.trim(),
+      email: latest.customer.email || '',
+      phone: latest.customer.mobile ? `${latest.customer.mobile_code || ''}${latest.customer.mobile}` : latest.customer.phone || '',
+      avatar: latest.customer.avatar || '',
+      emails: unique(group.map(account => normalizeEmail(account.customer.email))),
+      phones: unique(group.map(account => phoneOf(account.customer))),
+      accounts: group.map(account => ({ merchantId: account.merchantId, customerId: String(account.customer.id) })),
+      orders: 0,
+      spent: 0,
+    };
+
+    for (const account of group) {
+      const entry = stats.get(keyOf(account));
+      if (!entry) continue;
+      identity.orders += entry.orders;
+      identity.spent += entry.spent;
+      if (entry.lastOrderAt && timeOf(entry.lastOrderAt) > timeOf(identity.lastOrderAt)) {
+        identity.lastOrderAt = entry.lastOrderAt;
+      }
+    }
+    return identity;
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one engine
+type CustomerSyncHolder = { __sallaCustomerSync?: SallaCustomerSync };
+
+export function getCustomerSync(): SallaCustomerSync {
+  const holder = globalThis as CustomerSyncHolder;
+  holder.__sallaCustomerSync = holder.__sallaCustomerSync || new SallaCustomerSync();
+  return holder.__sallaCustomerSync;
+}
@@ -0,0 +1,192 @@
+// Salla Error Hierarchy
+// Every failure surfaced by the client and services is a SallaError subclass,
+// so callers can branch with instanceof instead of inspecting status codes.
+
+import { AxiosError, isAxiosError } from 'axios';
+import { HTTP_STATUS } from './config';
+import { parseRetryAfter } from './retry';
+import { SallaApiError } from './types';
+
+export type SallaFieldErrors = Record<string, string>;
+
+export class SallaError extends Error implements SallaApiError {
+  public readonly code: string;
+  public readonly status: number;
+  public readonly details?: any;
+
+  constructor(message: string, code = 'UNKNOWN_ERROR', status = 500, details?: any) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'SallaError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// 400/422 responses; fieldErrors maps request fields to their first message
+export class SallaValidationError extends SallaError {
+  public readonly fieldErrors: SallaFieldErrors;
+
+  constructor(
+    message: string,
+    fieldErrors: SallaFieldErrors = {},
+    status: number = HTTP_STATUS.UNPROCESSABLE_ENTITY,
+    details?: any
+  ) {
+    super(message, 'VALIDATION_ERROR', status, details);
+    this.name = 'SallaValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// 401/403 responses, after any token refresh has been attempted
+export class SallaAuthError extends SallaError {
+  constructor(message: string, status: number = HTTP_STATUS.UNAUTHORIZED, details?: any) {
+    super(message, status === HTTP_STATUS.FORBIDDEN ? 'FORBIDDEN' : 'UNAUTHORIZED', status, details);
+    this.name = 'SallaAuthError';
+  }
+}
+
+export class SallaRateLimitError extends SallaError {
+  // Milliseconds to wait before trying again, when Salla says so
+  public readonly retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number, details?: any) {
+    super(message, 'RATE_LIMITED', HTTP_STATUS.TOO_MANY_REQUESTS, details);
+    this.name = 'SallaRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class SallaNotFoundError extends SallaError {
+  constructor(message: string, details?: any) {
+    super(message, 'NOT_FOUND', HTTP_STATUS.NOT_FOUND, details);
+    this.name = 'SallaNotFoundError';
+  }
+}
+
+// No response at all: DNS, connection reset, timeout, offline browser
+export class SallaNetworkError extends SallaError {
+  constructor(message: string, code = 'NETWORK_ERROR', details?: any) {
+    super(message, code, 0, details);
+    this.name = 'SallaNetworkError';
+  }
+}
+
+// Authorization-code install failures; `code` is shown on the OAuth result page
+export class SallaOAuthError extends SallaError {
+  constructor(message: string, code = 'OAUTH_ERROR', status: number = HTTP_STATUS.BAD_REQUEST, details?: any) {
+    super(message, code, status, details);
+    this.name = 'SallaOAuthError';
+  }
+}
+
+// Rejected webhook deliveries (bad signature or token, stale timestamp, bad body)
+export class SallaWebhookVerificationError extends SallaError {
+  constructor(message: string, code = 'WEBHOOK_INVALID', status: number = HTTP_STATUS.UNAUTHORIZED) {
+    super(message, code, status);
+    this.name = 'SallaWebhookVerificationError';
+  }
+}
+
+/**
+ * Type guard for errors thrown by the Salla client and services
+ */
+export function isSallaError(error: unknown): error is SallaError {
+  return error instanceof SallaError;
+}
+
+/**
+ * Normalize Salla's validation payloads into a flat field -> message map.
+ * Salla sends either `errors: { field: [messages] }` or `error: { fields: {...} }`.
+ */
+export function extractFieldErrors(data: any): SallaFieldErrors {
+  const source = data?.errors || data?.error?.fields;
+  if (!source || typeof source !== 'object') return {};
+
+  return Object.keys(source).reduce<SallaFieldErrors>((fields, key) => {
+    const value = source[key];
+    const message = Array.isArray(value) ? value[0] : value;
+    if (message) fields[key] = String(message);
+    return fields;
+  }, {});
+}
+
+function fromResponse(error: AxiosError<any>, fallbackMessage?: string): SallaError {
+  const { status, data, headers } = error.response!;
+  const message = data?.message || data?.error?.message || fallbackMessage || error.message;
+
+  switch (status) {
+    case HTTP_STATUS.BAD_REQUEST:
+    case HTTP_STATUS.UNPROCESSABLE_ENTITY:
+      return new SallaValidationError(message, extractFieldErrors(data), status, data);
+    case HTTP_STATUS.UNAUTHORIZED:
+    case HTTP_STATUS.FORBIDDEN:
+      return new SallaAuthError(message, status, data);
+    case HTTP_STATUS.NOT_FOUND:
+      return new SallaNotFoundError(message, data);
+    case HTTP_STATUS.TOO_MANY_REQUESTS:
+      return new SallaRateLimitError(message, parseRetryAfter(headers?.['retry-after']), data);
+    default:
+      return new SallaError(message, data?.code || 'UNKNOWN_ERROR', status, data);
+  }
+}
+
+/**
+ * Map anything thrown while talking to Salla onto the error hierarchy.
+ * SallaErrors pass through untouched so services can rethrow client errors.
+ */
+export function toSallaError(error: unknown, fallbackMessage?: string): SallaError {
+  if (error instanceof SallaError) return error;
+
+  if (isAxiosError(error)) {
+    if (error.response) return fromResponse(error, fallbackMessage);
+
+    const code = error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT
+      ? 'TIMEOUT'
+      : 'NETWORK_ERROR';
+    return new SallaNetworkError(error.message || fallbackMessage || 'Network error', code);
+  }
+
+  // Plain errors and error-like objects keep whatever they carry
+  const source: object = typeof error === 'object' && error !== null ? error : {};
+  const message = 'message' in source && typeof source.message === 'string' && source.message
+    ? source.message
+    : fallbackMessage || 'An unexpected error occurred';
+  return new SallaError(
+    message,
+    'code' in source && typeof source.code === 'string' ? source.code : undefined,
+    'status' in source && typeof source.status === 'number' ? source.status : undefined,
+    'details' in source ? source.details : undefined
+  );
+}
+
+export interface FormikErrorHelpers {
+  setErrors: (errors: Record<string, string>) => void;
+  setStatus?: (status: any) => void;
+}
+
+/**
+ * Push a Salla failure into a Formik form: field errors land on their inputs
+ * (renamed through fieldMap when the form uses different names) and the
+ * overall message goes to `status.error`. Returns the message for toasts.
+ */
+export function applySallaErrorToFormik(
+  error: unknown,
+  helpers: FormikErrorHelpers,
+  fieldMap: Record<string, string> = {}
+): string {
+  const sallaError = toSallaError(error);
+
+  if (sallaError instanceof SallaValidationError) {
+    const errors = Object.keys(sallaError.fieldErrors).reduce<Record<string, string>>((mapped, field) => {
+      mapped[fieldMap[field] || field] = sallaError.fieldErrors[field];
+      return mapped;
+    }, {});
+    helpers.setErrors(errors);
+  }
+
+  helpers.setStatus?.({ error: sallaError.message });
+  return sallaError.message;
+}
@@ -0,0 +1,40 @@
+// Salla File Slug Store
+// Server-only: keeps the slug registry in a JSON file, so a slug handed out
+// once keeps resolving across restarts and deployments.
+
+import path from 'path';
+import { SALLA_CONFIG } from './config';
+import { JsonFileStore } from './json-file-store';
+import {
+  SlugRegistryData,
+  SlugStore,
+  createEmptySlugRegistry,
+  getRegisteredServerSlugStore,
+  registerServerSlugStore,
+} from './slug-registry';
+
+export class FileSlugStore implements SlugStore {
+  private file: JsonFileStore<SlugRegistryData>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore<SlugRegistryData>(filePath, createEmptySlugRegistry);
+  }
+
+  read(): Promise<SlugRegistryData> {
+    return this.file.read();
+  }
+
+  transform(change: (data: SlugRegistryData) => SlugRegistryData): Promise<void> {
+    return this.file.update(change);
+  }
+}
+
+/**
+ * Register a file slug store at SALLA_CONFIG.slugs.path, unless another store
+ * is registered already
+ */
+export function registerFileSlugStore(): void {
+  if (!getRegisteredServerSlugStore()) {
+    registerServerSlugStore(new FileSlugStore(path.resolve(process.cwd(), SALLA_CONFIG.slugs.path)));
+  }
+}
@@ -0,0 +1,55 @@
+// Salla File Token Storage
+// Server-only: keeps merchant records in a JSON file so webhooks, API routes
+// and background jobs all read the same tokens.
+
+import type { MerchantTokenData } from './token-manager';
+import { TokenStorageAdapter } from './token-storage';
+import { JsonFileStore } from './json-file-store';
+
+export class FileTokenStorage implements TokenStorageAdapter {
+  readonly name = 'file';
+  private file: JsonFileStore<MerchantTokenData[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore<MerchantTokenData[]>(filePath, () => []);
+  }
+
+  async getAll(): Promise<MerchantTokenData[]> {
+    return this.file.read();
+  }
+
+  async get(merchantId: string): Promise<MerchantTokenData | null> {
+    const tokens = await this.getAll();
+    return tokens.find(token => token.merchantId === merchantId) || null;
+  }
+
+  async put(record: MerchantTokenData): Promise<void> {
+    await this.update(tokens => {
+      const index = tokens.findIndex(token => token.merchantId === record.merchantId);
+      if (index >= 0) {
+        tokens[index] = record;
+      } else {
+        tokens.push(record);
+      }
+      return tokens;
+    });
+  }
+
+  async remove(merchantId: string): Promise<boolean> {
+    let removed = false;
+    await this.update(tokens => {
+      const remaining = tokens.filter(token => token.merchantId !== merchantId);
+      removed = remaining.length !== tokens.length;
+      return remaining;
+    });
+    return removed;
+  }
+
+  transform(change: (tokens: MerchantTokenData[]) => MerchantTokenData[]): Promise<void> {
+    return this.update(change);
+  }
+
+  private update(change: (tokens: MerchantTokenData[]) => MerchantTokenData[]): Promise<void> {
+    return this.file.update(change);
+  }
+}
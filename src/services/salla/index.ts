@@ -1,9 +1,23 @@
 // Salla API Service - Main Export
 
 export { SallaApiClient, sallaApi } from './client';
+export type { SallaClientOptions } from './client';
 export { SALLA_CONFIG, API_ENDPOINTS, HTTP_STATUS } from './config';
 export * from './types';
 export * from './utils';
+export * from './retry';
+export * from './rate-limiter';
+export * from './pagination';
+export * from './merchant-clients';
+export * from './schemas';
+export * from './validation';
+export * from './errors';
+export * from './cache';
+export * from './batching';
+export * from './middleware';
+export * from './token-storage';
+export * from './webhooks';
+export * from './webhook-fixtures';
 
 // Re-export commonly used functions for convenience
 export {
@@ -2,6 +2,8 @@
 
 import { SallaApiClient } from './client';
 import { SallaApiResponse } from './types';
+import { PaginateOptions, collectAll, paginate } from './pagination';
+import { toSallaError } from './errors';
 
 // Inventory interfaces
 export interface SallaInventoryItem {
@@ -143,7 +145,7 @@ export interface InventorySearchParams {
   sort_order?: 'asc' | 'desc';
 }
 
-class SallaInventoryService {
+export class SallaInventoryService {
   private client: SallaApiClient;
 
   constructor(client: SallaApiClient) {
@@ -170,15 +172,35 @@ class SallaInventoryService {
         message: 'Inventory items retrieved successfully',
         pagination: response.data.pagination,
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch inventory items',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch inventory items');
     }
   }
 
+  // Iterate every inventory item across all pages (errors are thrown, not swallowed)
+  iterateInventoryItems(
+    params: Omit<InventorySearchParams, 'page'> = {},
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaInventoryItem, void, undefined> {
+    const { limit, ...filters } = params;
+
+    return paginate<SallaInventoryItem>(async ({ page, per_page, cursor, signal }) => {
+      const response = await this.client.get<SallaApiResponse<SallaInventoryItem[]>>('/inventory', {
+        params: { ...filters, page, limit: per_page, cursor },
+        signal,
+      });
+      return response.data;
+    }, { perPage: limit, ...options });
+  }
+
+  // Fetch every inventory item in one call
+  async getAllInventoryItems(
+    params?: Omit<InventorySearchParams, 'page'>,
+    options?: PaginateOptions
+  ): Promise<SallaInventoryItem[]> {
+    return collectAll(this.iterateInventoryItems(params, options));
+  }
+
   // Get single inventory item
   async getInventoryItem(productId: string, variantId?: string, locationId?: string): Promise<SallaApiResponse<SallaInventoryItem>> {
     try {
@@ -192,12 +214,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory item retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch inventory item',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch inventory item');
     }
   }
 
@@ -216,12 +234,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update inventory',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update inventory');
     }
   }
 
@@ -234,12 +248,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Bulk inventory update completed',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to bulk update inventory',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to bulk update inventory');
     }
   }
 
@@ -252,12 +262,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Stock adjusted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to adjust stock',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to adjust stock');
     }
   }
 
@@ -288,12 +294,8 @@ class SallaInventoryService {
         message: 'Inventory movements retrieved successfully',
         pagination: response.data.pagination,
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch inventory movements',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch inventory movements');
     }
   }
 
@@ -320,12 +322,8 @@ class SallaInventoryService {
         message: 'Low stock alerts retrieved successfully',
         pagination: response.data.pagination,
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch low stock alerts',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch low stock alerts');
     }
   }
 
@@ -338,12 +336,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Low stock alert updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update low stock alert',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update low stock alert');
     }
   }
 
@@ -356,12 +350,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory locations retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch inventory locations',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch inventory locations');
     }
   }
 
@@ -374,12 +364,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory location created successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to create inventory location',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to create inventory location');
     }
   }
 
@@ -395,12 +381,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory location updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update inventory location',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update inventory location');
     }
   }
 
@@ -412,12 +394,8 @@ class SallaInventoryService {
         success: true,
         message: 'Inventory location deleted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete inventory location',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to delete inventory location');
     }
   }
 
@@ -430,12 +408,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory transfer initiated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to transfer inventory',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to transfer inventory');
     }
   }
 
@@ -464,12 +438,8 @@ class SallaInventoryService {
         message: 'Inventory transfers retrieved successfully',
         pagination: response.data.pagination,
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch inventory transfers',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch inventory transfers');
     }
   }
 
@@ -486,12 +456,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory transfer updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update inventory transfer',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update inventory transfer');
     }
   }
 
@@ -513,12 +479,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory report generated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to generate inventory report',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to generate inventory report');
     }
   }
 
@@ -539,12 +501,8 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory export initiated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to export inventory data',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to export inventory data');
     }
   }
 
@@ -570,16 +528,14 @@ class SallaInventoryService {
         data: response.data.data,
         message: 'Inventory import completed successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to import inventory data',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to import inventory data');
     }
   }
 }
 
-// Create and export the inventory service instance
-export const sallaInventoryService = new SallaInventoryService(new SallaApiClient());
+// Create and export the inventory service instance (background sync traffic runs at low priority)
+export const sallaInventoryService = new SallaInventoryService(
+  new SallaApiClient(undefined, { defaultPriority: 'low' })
+);
 export default SallaInventoryService;
\ No newline at end of file
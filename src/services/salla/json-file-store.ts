@@ -0,0 +1,117 @@
+// Salla JSON File Store
+// Server-only: a JSON document on disk for the local persistence layers
+// (tokens, webhook events, ...). Writes are serialized within the process
+// and replace the file atomically (write to temp, then rename). The file
+// variants of the collection stores (collection-store.ts) build on it.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ListStore, MerchantDocumentStore } from './collection-store';
+
+export class JsonFileStore<T> {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string, private empty: () => T) {}
+
+  async read(): Promise<T> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return content.trim() ? JSON.parse(content) : this.empty();
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return this.empty();
+      throw error;
+    }
+  }
+
+  // Read-modify-write one at a time so concurrent writers don't drop changes
+  update(change: (data: T) => T): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      await this.write(change(await this.read()));
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Delete the file, after the writes already queued
+  remove(): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      await fs.rm(this.filePath, { force: true });
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    // May hold credentials or customer data: keep the file private to the server user
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * A list of records in one JSON file
+ */
+export class FileListStore<T> implements ListStore<T> {
+  private file: JsonFileStore<T[]>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore<T[]>(filePath, () => []);
+  }
+
+  getAll(): Promise<T[]> {
+    return this.file.read();
+  }
+
+  transform(change: (items: T[]) => T[]): Promise<void> {
+    return this.file.update(change);
+  }
+}
+
+const MERCHANT_FILE = /^[\w-]+$/;
+
+/**
+ * One JSON file per merchant in a directory, named by the merchant id
+ */
+export class FileMerchantDocumentStore<T> implements MerchantDocumentStore<T> {
+  private files = new Map<string, JsonFileStore<T | null>>();
+
+  // `name` describes the documents in errors, e.g. 'catalog mirror'
+  constructor(private directory: string, private empty: (merchantId: string) => T, private name: string) {}
+
+  get(merchantId: string): Promise<T | null> {
+    return this.file(merchantId).read();
+  }
+
+  async merchants(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.directory))
+        .filter(name => name.endsWith('.json'))
+        .map(name => name.slice(0, -'.json'.length));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  transform(merchantId: string, change: (data: T) => T): Promise<void> {
+    return this.file(merchantId).update(data => change(data || this.empty(merchantId)));
+  }
+
+  remove(merchantId: string): Promise<void> {
+    return this.file(merchantId).remove();
+  }
+
+  private file(merchantId: string): JsonFileStore<T | null> {
+    if (!MERCHANT_FILE.test(merchantId)) {
+      throw new Error(`Invalid merchant id for the ${this.name}: ${merchantId}`);
+    }
+    let file = this.files.get(merchantId);
+    if (!file) {
+      file = new JsonFileStore<T | null>(path.join(this.directory, `${merchantId}.json`), () => null);
+      this.files.set(merchantId, file);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,127 @@
+// Salla Merchant Clients
+// Builds API clients and services bound to the stored token of an installed merchant
+
+import { SallaApiClient, SallaClientOptions, sallaApi } from './client';
+import { SALLA_CONFIG } from './config';
+import { sallaTokenManager } from './token-manager';
+import { SallaOrdersService } from './orders';
+import { SallaInventoryService } from './inventory';
+import { SallaAnalyticsService } from './analytics';
+import { SallaNotificationService } from './notifications';
+import { SallaSearchService } from './search';
+
+export interface SallaMerchantServices {
+  merchantId: string;
+  // App settings the merchant configured, restored after a reinstall
+  settings: Record<string, unknown>;
+  client: SallaApiClient;
+  orders: SallaOrdersService;
+  inventory: SallaInventoryService;
+  analytics: SallaAnalyticsService;
+  notifications: SallaNotificationService;
+  search: SallaSearchService;
+}
+
+interface MerchantClientEntry {
+  client: SallaApiClient;
+  // Background services (inventory, analytics) yield to storefront traffic
+  backgroundClient: SallaApiClient;
+  settings: Record<string, unknown>;
+  services?: SallaMerchantServices;
+}
+
+const merchantClients = new Map<string, MerchantClientEntry>();
+
+async function resolveMerchantEntry(
+  merchantId: string,
+  options?: Omit<SallaClientOptions, 'merchantId'>
+): Promise<MerchantClientEntry> {
+  const tokenData = await sallaTokenManager.getToken(merchantId);
+  if (!tokenData) {
+    throw new Error(`No Salla token stored for merchant ${merchantId}`);
+  }
+
+  const cached = merchantClients.get(merchantId);
+  if (cached) {
+    // Keep cached clients in sync with tokens refreshed elsewhere
+    if (cached.client.getAccessToken() !== tokenData.accessToken) {
+      cached.client.setAccessToken(tokenData.accessToken);
+      cached.backgroundClient.setAccessToken(tokenData.accessToken);
+    }
+    return cached;
+  }
+
+  const entry: MerchantClientEntry = {
+    client: new SallaApiClient(tokenData.accessToken, { ...options, merchantId }),
+    backgroundClient: new SallaApiClient(tokenData.accessToken, {
+      ...options,
+      merchantId,
+      defaultPriority: 'low',
+    }),
+    settings: tokenData.settings || {},
+  };
+  merchantClients.set(merchantId, entry);
+  return entry;
+}
+
+/**
+ * Get a cached API client acting on behalf of an installed merchant
+ */
+export async function getClientForMerchant(
+  merchantId: string,
+  options?: Omit<SallaClientOptions, 'merchantId'>
+): Promise<SallaApiClient> {
+  const entry = await resolveMerchantEntry(merchantId, options);
+  return entry.client;
+}
+
+/**
+ * Get the client background jobs (mirrors, reconciliation) use for a
+ * merchant: its low-priority client, or the SALLA_ACCESS_TOKEN client for the
+ * store named by SALLA_STORE_MERCHANT_ID in single-store setups
+ */
+export async function getJobClientForMerchant(merchantId: string): Promise<SallaApiClient> {
+  if (await sallaTokenManager.getToken(merchantId)) {
+    return (await resolveMerchantEntry(merchantId)).backgroundClient;
+  }
+  if (merchantId === SALLA_CONFIG.storeMerchantId && SALLA_CONFIG.accessToken) {
+    return sallaApi;
+  }
+  throw new Error(`No Salla token stored for merchant ${merchantId}`);
+}
+
+/**
+ * Get every Salla service bound to an installed merchant
+ */
+export async function getServicesForMerchant(merchantId: string): Promise<SallaMerchantServices> {
+  const entry = await resolveMerchantEntry(merchantId);
+
+  if (!entry.services) {
+    entry.services = {
+      merchantId,
+      settings: entry.settings,
+      client: entry.client,
+      orders: new SallaOrdersService(entry.client),
+      inventory: new SallaInventoryService(entry.backgroundClient),
+      analytics: new SallaAnalyticsService(entry.backgroundClient),
+      notifications: new SallaNotificationService(entry.client),
+      search: new SallaSearchService(entry.client),
+    };
+  }
+
+  return entry.services;
+}
+
+/**
+ * Drop the cached client of a merchant (e.g. after uninstall or token removal)
+ */
+export function evictMerchantClient(merchantId: string): void {
+  merchantClients.delete(merchantId);
+}
+
+/**
+ * Drop every cached merchant client
+ */
+export function clearMerchantClients(): void {
+  merchantClients.clear();
+}
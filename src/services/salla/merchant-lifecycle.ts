@@ -0,0 +1,232 @@
+// Salla Merchant Lifecycle
+// Server-only: reacts to the app.* webhooks and OAuth installs. An install or
+// token grant activates the merchant; its saved settings travel with the
+// stored token, so they apply again after a reinstall.
+// An app update refreshes the stored scope and settings. An uninstall
+// revokes and purges the merchant's tokens, cancels its queued webhook jobs,
+// drops its local mirrors and marks it inactive. Token refreshes stop by themselves, since the
+// refresh scheduler only visits stored tokens.
+
+import { getCatalogSync } from './catalog-sync';
+import { SALLA_CONFIG } from './config';
+import { getCustomerSync } from './customer-sync';
+import { evictMerchantClient } from './merchant-clients';
+import { MerchantTransition, SallaMerchantRegistry, getMerchantRegistry, toEventTimestamp } from './merchant-registry';
+import { getOrderReconciler } from './order-reconciliation';
+import { MerchantTokenData, SallaTokenManager, sallaTokenManager } from './token-manager';
+import { SallaWebhookEventLog, getWebhookEventLog } from './webhook-event-log';
+import { SallaWebhookJobQueue, getWebhookJobQueue } from './webhook-queue';
+import { SallaWebhookPayload } from './webhooks';
+
+export type TokenRevoker = (token: MerchantTokenData) => Promise<void>;
+
+// A local copy of a merchant's store data: the catalog, order or customer mirror
+export interface MerchantMirror {
+  purge(merchantId: string): Promise<void>;
+}
+
+export interface MerchantLifecycleOptions {
+  merchants?: SallaMerchantRegistry;
+  tokens?: SallaTokenManager;
+  jobs?: Pick<SallaWebhookJobQueue, 'cancelMerchant'>;
+  eventLog?: Pick<SallaWebhookEventLog, 'cancel'>;
+  mirrors?: MerchantMirror[];
+  revoke?: TokenRevoker;
+}
+
+export interface MerchantUninstallResult extends MerchantTransition {
+  tokensRemoved: boolean;
+  jobsCancelled: number;
+}
+
+/**
+ * Revoke a merchant's tokens at SALLA_CONFIG.oauth.revokeURL (RFC 7009);
+ * does nothing when no revocation endpoint is configured
+ */
+export async function revokeMerchantTokens(token: MerchantTokenData): Promise<void> {
+  const revokeURL = SALLA_CONFIG.oauth.revokeURL;
+  if (!revokeURL) return;
+
+  const tokens: Array<[string | undefined, string]> = [
+    [token.refreshToken, 'refresh_token'],
+    [token.accessToken, 'access_token'],
+  ];
+  for (const [value, hint] of tokens) {
+    if (!value) continue;
+    const response = await fetch(revokeURL, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        token: value,
+        token_type_hint: hint,
+        client_id: SALLA_CONFIG.clientId,
+        client_secret: SALLA_CONFIG.clientSecret,
+      }).toString(),
+    });
+    if (!response.ok) {
+      throw new Error(`Revoking the ${hint} failed with status ${response.status}`);
+    }
+  }
+}
+
+export class SallaMerchantLifecycle {
+  private merchants: SallaMerchantRegistry;
+  private tokens: SallaTokenManager;
+  private jobs?: Pick<SallaWebhookJobQueue, 'cancelMerchant'>;
+  private eventLog?: Pick<SallaWebhookEventLog, 'cancel'>;
+  private mirrors: MerchantMirror[];
+  private revoke: TokenRevoker;
+
+  constructor(options: MerchantLifecycleOptions = {}) {
+    this.merchants = options.merchants || getMerchantRegistry();
+    this.tokens = options.tokens || sallaTokenManager;
+    this.jobs = options.jobs;
+    this.eventLog = options.eventLog;
+    this.mirrors = options.mirrors || [];
+    this.revoke = options.revoke || revokeMerchantTokens;
+  }
+
+  async installed(payload: SallaWebhookPayload<'app.installed'>): Promise<MerchantTransition> {
+    const transition = await this.merchants.recordInstall(
+      String(payload.merchant),
+      toEventTimestamp(payload.created_at),
+      { scope: payload.data?.app_scopes?.join(' ') }
+    );
+    this.logInstall(transition, payload.event);
+    return transition;
+  }
+
+  /**
+   * Activate the merchant and store its tokens. A grant older than the
+   * merchant's latest uninstall is ignored, so its tokens aren't stored.
+   */
+  async authorized(payload: SallaWebhookPayload<'app.store.authorize'>): Promise<MerchantTransition> {
+    const merchant = payload.merchant;
+    return this.granted({
+      merchantId: String(merchant.id),
+      merchantName: merchant.name,
+      merchantDomain: merchant.domain,
+      merchantEmail: merchant.email,
+      accessToken: payload.data.access_token,
+      refreshToken: payload.data.refresh_token,
+      tokenType: payload.data.token_type,
+      expiresIn: payload.data.expires_in,
+      scope: payload.data.scope,
+      currency: merchant.currency,
+      timezone: merchant.timezone,
+      installedAt: payload.created_at
+    }, toEventTimestamp(payload.created_at), payload.event);
+  }
+
+  /**
+   * Record a token grant (app.store.authorize or the OAuth install flow) and
+   * store the token with the merchant's saved settings, so a reinstall picks
+   * up the configuration it had before the uninstall
+   */
+  async granted(
+    token: Omit<MerchantTokenData, 'updatedAt'>,
+    at: string,
+    source = 'oauth'
+  ): Promise<MerchantTransition> {
+    const transition = await this.merchants.recordInstall(
+      token.merchantId,
+      at,
+      { name: token.merchantName, domain: token.merchantDomain, email: token.merchantEmail, scope: token.scope },
+      'authorized'
+    );
+    this.logInstall(transition, source);
+    if (transition.stale) return transition;
+
+    const { record } = transition;
+    await this.tokens.storeToken({ ...token, scope: token.scope || record.scope || '', settings: record.settings });
+    // A client cached with the previous token must not be reused
+    evictMerchantClient(token.merchantId);
+    return transition;
+  }
+
+  /**
+   * Store the scope and settings of an app update, on the merchant record
+   * and on its token record
+   */
+  async updated(payload: SallaWebhookPayload<'app.updated'>): Promise<MerchantTransition> {
+    const merchantId = String(payload.merchant);
+    const scope = payload.data?.app_scopes?.join(' ');
+    const transition = await this.merchants.recordUpdate(merchantId, toEventTimestamp(payload.created_at), {
+      scope,
+      settings: payload.data?.settings,
+    });
+
+    const token = await this.tokens.getToken(merchantId);
+    if (token) {
+      await this.tokens.storeToken({ ...token, scope: scope || token.scope, settings: transition.record.settings });
+      // Services built with the previous settings must not be reused
+      evictMerchantClient(merchantId);
+    }
+
+    console.log(`🔄 App updated for merchant ${merchantId}`, { scope, settings: Object.keys(payload.data?.settings || {}) });
+    return transition;
+  }
+
+  /**
+   * Revoke and purge the merchant's tokens, cancel its queued webhook jobs,
+   * drop its mirrors and mark it inactive. Safe to run again for a
+   * redelivered event.
+   */
+  async uninstalled(payload: SallaWebhookPayload<'app.uninstalled'>): Promise<MerchantUninstallResult> {
+    const merchantId = String(payload.merchant);
+    const transition = await this.merchants.recordUninstall(merchantId, toEventTimestamp(payload.created_at));
+    if (transition.stale) {
+      console.warn(`⚠️ Ignoring app.uninstalled for merchant ${merchantId}: the merchant installed the app again since`);
+      return { ...transition, tokensRemoved: false, jobsCancelled: 0 };
+    }
+
+    const token = await this.tokens.getToken(merchantId);
+    if (token) {
+      try {
+        await this.revoke(token);
+      } catch (error) {
+        // The tokens are purged either way
+        console.warn(`⚠️ Could not revoke tokens of merchant ${merchantId}:`, error instanceof Error ? error.message : error);
+      }
+      await this.tokens.removeToken(merchantId);
+    }
+    evictMerchantClient(merchantId);
+
+    const cancelled = this.jobs ? await this.jobs.cancelMerchant(merchantId) : [];
+    if (cancelled.length > 0 && this.eventLog) {
+      await this.eventLog.cancel(cancelled.map(job => job.id), 'Cancelled: the merchant uninstalled the app');
+    }
+    // Nothing keeps them current any more; a reinstall backfills them again
+    for (const mirror of this.mirrors) {
+      await mirror.purge(merchantId);
+    }
+
+    console.log(`✅ Merchant ${merchantId} uninstalled the app`, {
+      tokensRemoved: Boolean(token),
+      jobsCancelled: cancelled.length
+    });
+    return { ...transition, tokensRemoved: Boolean(token), jobsCancelled: cancelled.length };
+  }
+
+  private logInstall(transition: MerchantTransition, event: string): void {
+    const { record, stale, reinstalled } = transition;
+    if (stale) {
+      console.warn(`⚠️ Ignoring ${event} for merchant ${record.merchantId}: it predates the latest uninstall`);
+    } else if (reinstalled) {
+      console.log(`✅ Merchant ${record.merchantId} reinstalled the app; restored ${Object.keys(record.settings).length} settings`);
+    }
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one instance
+type LifecycleHolder = { __sallaMerchantLifecycle?: SallaMerchantLifecycle };
+
+export function getMerchantLifecycle(): SallaMerchantLifecycle {
+  const holder = globalThis as LifecycleHolder;
+  holder.__sallaMerchantLifecycle = holder.__sallaMerchantLifecycle || new SallaMerchantLifecycle({
+    jobs: SALLA_CONFIG.webhookQueue.enabled ? getWebhookJobQueue() : undefined,
+    eventLog: getWebhookEventLog(),
+    mirrors: [getCatalogSync().getMirror(), getOrderReconciler().getMirror(), getCustomerSync().getMirror()],
+  });
+  return holder.__sallaMerchantLifecycle;
+}
@@ -0,0 +1,223 @@
+// Salla Merchant Registry
+// Server-only: one record per merchant that installed the app, with its
+// install status, granted scope, merchant-level settings and install history.
+// Unlike token records, a merchant record outlives an uninstall, so its
+// settings are restored when the merchant installs the app again. Lifecycle
+// webhooks keep it current (see merchant-lifecycle.ts).
+
+import path from 'path';
+import { ListStore, MemoryListStore } from './collection-store';
+import { SALLA_CONFIG } from './config';
+import { FileListStore } from './json-file-store';
+
+export type MerchantStatus = 'active' | 'inactive';
+
+export type MerchantHistoryAction = 'installed' | 'reinstalled' | 'authorized' | 'updated' | 'uninstalled';
+
+export interface MerchantHistoryEntry {
+  action: MerchantHistoryAction;
+  // When Salla says it happened (the event's created_at)
+  at: string;
+  scope?: string;
+}
+
+export interface MerchantRecord {
+  merchantId: string;
+  name?: string;
+  domain?: string;
+  email?: string;
+  status: MerchantStatus;
+  // Scope granted with the latest token or app update
+  scope?: string;
+  // Merchant-level app configuration, kept across uninstalls
+  settings: Record<string, unknown>;
+  // Latest install and uninstall
+  installedAt?: string;
+  uninstalledAt?: string;
+  installCount: number;
+  createdAt: string;
+  updatedAt: string;
+  // Oldest first
+  history: MerchantHistoryEntry[];
+}
+
+export interface MerchantDetails {
+  name?: string;
+  domain?: string;
+  email?: string;
+  scope?: string;
+}
+
+export interface MerchantTransition {
+  record: MerchantRecord;
+  // The event predates the merchant's latest install or uninstall and was ignored
+  stale: boolean;
+  // The merchant had uninstalled the app before this install
+  reinstalled?: boolean;
+}
+
+export type MerchantStore = ListStore<MerchantRecord>;
+
+export class MemoryMerchantStore extends MemoryListStore<MerchantRecord> {}
+
+export class FileMerchantStore extends FileListStore<MerchantRecord> {}
+
+/**
+ * ISO form of an event timestamp; Salla also sends "YYYY-MM-DD HH:mm:ss"
+ */
+export function toEventTimestamp(value?: string): string {
+  const time = value ? Date.parse(value) : NaN;
+  return new Date(isNaN(time) ? Date.now() : time).toISOString();
+}
+
+export class SallaMerchantRegistry {
+  private store: MerchantStore;
+  private maxHistory: number;
+
+  constructor(options: { store?: MerchantStore; maxHistory?: number } = {}) {
+    this.store = options.store || new MemoryMerchantStore();
+    this.maxHistory = options.maxHistory ?? SALLA_CONFIG.merchants.maxHistory;
+  }
+
+  async get(merchantId: string): Promise<MerchantRecord | null> {
+    return (await this.store.getAll()).find(record => record.merchantId === merchantId) || null;
+  }
+
+  /**
+   * Whether the merchant uninstalled the app and hasn't installed it again.
+   * A merchant without a record, such as the SALLA_ACCESS_TOKEN store, isn't.
+   */
+  async isUninstalled(merchantId: string): Promise<boolean> {
+    const record = await this.get(merchantId);
+    return record?.status === 'inactive' && Boolean(record.uninstalledAt);
+  }
+
+  /**
+   * Merchant records, most recently changed first
+   */
+  async list(filter: { status?: MerchantStatus } = {}): Promise<MerchantRecord[]> {
+    return (await this.store.getAll())
+      .filter(record => !filter.status || record.status === filter.status)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Mark the merchant installed. `authorized` also records a token grant.
+   * An install older than the merchant's latest uninstall is a late
+   * redelivery and is ignored.
+   */
+  async recordInstall(
+    merchantId: string,
+    at: string,
+    details: MerchantDetails = {},
+    action: 'installed' | 'authorized' = 'installed'
+  ): Promise<MerchantTransition> {
+    return this.change(merchantId, record => {
+      if (record.status === 'inactive' && record.uninstalledAt && at < record.uninstalledAt) {
+        return { stale: true };
+      }
+
+      const entries: MerchantHistoryEntry[] = [];
+      let reinstalled = false;
+      if (record.status === 'inactive') {
+        reinstalled = record.installCount > 0;
+        record.status = 'active';
+        record.installedAt = at;
+        record.installCount++;
+        entries.push({ action: reinstalled ? 'reinstalled' : 'installed', at });
+      }
+      if (action === 'authorized') {
+        entries.push({ action, at, scope: details.scope });
+      }
+
+      this.applyDetails(record, details);
+      record.history = [...record.history, ...entries];
+      return { stale: false, reinstalled };
+    });
+  }
+
+  /**
+   * Store the scope and settings sent with an app update. Settings are
+   * merged, so keys the update doesn't mention are kept.
+   */
+  async recordUpdate(
+    merchantId: string,
+    at: string,
+    update: { scope?: string; settings?: Record<string, unknown> } = {}
+  ): Promise<MerchantTransition> {
+    return this.change(merchantId, record => {
+      if (update.settings) record.settings = { ...record.settings, ...update.settings };
+      this.applyDetails(record, { scope: update.scope });
+      record.history = [...record.history, { action: 'updated', at, scope: update.scope }];
+      return { stale: false };
+    });
+  }
+
+  /**
+   * Mark the merchant inactive. Settings and history are kept for a later
+   * reinstall; an uninstall older than the latest install is ignored.
+   */
+  async recordUninstall(merchantId: string, at: string): Promise<MerchantTransition> {
+    return this.change(merchantId, record => {
+      if (record.installedAt && at < record.installedAt) {
+        return { stale: true };
+      }
+      // Already uninstalled: a redelivery
+      if (record.status === 'inactive' && record.uninstalledAt) {
+        return { stale: false };
+      }
+      record.status = 'inactive';
+      record.uninstalledAt = at;
+      record.history = [...record.history, { action: 'uninstalled', at }];
+      return { stale: false };
+    });
+  }
+
+  // Apply a change to the merchant's record, creating an inactive one first
+  private async change(
+    merchantId: string,
+    apply: (record: MerchantRecord) => { stale: boolean; reinstalled?: boolean }
+  ): Promise<MerchantTransition> {
+    const now = new Date().toISOString();
+    let transition: MerchantTransition | undefined;
+
+    await this.store.transform(records => {
+      const existing = records.find(item => item.merchantId === merchantId);
+      const record: MerchantRecord = existing
+        ? { ...existing, settings: { ...existing.settings }, history: [...existing.history] }
+        : { merchantId, status: 'inactive', settings: {}, installCount: 0, createdAt: now, updatedAt: now, history: [] };
+
+      const outcome = apply(record);
+      if (outcome.stale) {
+        transition = { record: existing ? { ...existing } : record, stale: true };
+        return records;
+      }
+
+      record.updatedAt = now;
+      record.history = record.history.slice(-this.maxHistory);
+      transition = { ...outcome, record: { ...record } };
+      return existing
+        ? records.map(item => (item.merchantId === merchantId ? record : item))
+        : [...records, record];
+    });
+
+    return transition as MerchantTransition;
+  }
+
+  private applyDetails(record: MerchantRecord, details: MerchantDetails): void {
+    for (const key of ['name', 'domain', 'email', 'scope'] as const) {
+      if (details[key]) record[key] = details[key];
+    }
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one registry
+type RegistryHolder = { __sallaMerchantRegistry?: SallaMerchantRegistry };
+
+export function getMerchantRegistry(): SallaMerchantRegistry {
+  const holder = globalThis as RegistryHolder;
+  holder.__sallaMerchantRegistry = holder.__sallaMerchantRegistry || new SallaMerchantRegistry({
+    store: new FileMerchantStore(path.resolve(process.cwd(), SALLA_CONFIG.merchants.path)),
+  });
+  return holder.__sallaMerchantRegistry;
+}
@@ -0,0 +1,262 @@
+// Salla Client Middleware
+// Every request made by SallaApiClient runs through an ordered pipeline of
+// middlewares before reaching axios. A middleware can change the request,
+// inspect or replace the response, call `next()` more than once (retries) or
+// not at all (cached or mocked responses). The client's own behavior (auth
+// header, token refresh, rate limiting, retries, error mapping) is made of
+// the built-in middlewares below.
+
+import { AxiosHeaders, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig, isAxiosError } from 'axios';
+import { HTTP_STATUS } from './config';
+import { toSallaError } from './errors';
+import { RetryEvent, RetryPolicy, getRetryDelay, sleep } from './retry';
+import { RequestPriority, SallaRateLimiter } from './rate-limiter';
+import { getFreshAccessToken, refreshMerchantToken } from './token-refresh';
+import { SallaAuthToken } from './types';
+
+export interface SallaRequestContext {
+  // The request about to be sent; middlewares may mutate it
+  config: AxiosRequestConfig;
+  // Merchant the client acts for, if any
+  merchantId?: string;
+  // Current bearer token of the client
+  accessToken: () => string;
+  // Scratch space shared by the middlewares of one request
+  state: Record<string, any>;
+}
+
+export type SallaNext = () => Promise<AxiosResponse>;
+
+export type SallaMiddlewareHandler = (
+  context: SallaRequestContext,
+  next: SallaNext
+) => Promise<AxiosResponse>;
+
+export interface SallaMiddleware {
+  name: string;
+  // Lower runs first (outermost); equal orders run in registration order
+  order?: number;
+  handle: SallaMiddlewareHandler;
+}
+
+// Slots of the built-ins. Middlewares without an order run innermost, right
+// before the HTTP call, so they see the final headers and every retry.
+export const MIDDLEWARE_ORDER = {
+  errorMapping: 100,
+  tokenRefresh: 200,
+  retry: 300,
+  rateLimit: 400,
+  auth: 500,
+  default: 600,
+};
+
+export class SallaMiddlewarePipeline {
+  private middlewares: Array<SallaMiddleware & { sequence: number }> = [];
+  private sequence = 0;
+
+  use(middleware: SallaMiddleware): () => void {
+    const entry = { ...middleware, sequence: this.sequence++ };
+    this.middlewares.push(entry);
+    this.middlewares.sort((a, b) =>
+      (a.order ?? MIDDLEWARE_ORDER.default) - (b.order ?? MIDDLEWARE_ORDER.default) || a.sequence - b.sequence
+    );
+    return () => {
+      this.middlewares = this.middlewares.filter(item => item !== entry);
+    };
+  }
+
+  remove(name: string): boolean {
+    const count = this.middlewares.length;
+    this.middlewares = this.middlewares.filter(middleware => middleware.name !== name);
+    return this.middlewares.length !== count;
+  }
+
+  names(): string[] {
+    return this.middlewares.map(middleware => middleware.name);
+  }
+
+  run(
+    context: SallaRequestContext,
+    send: (config: AxiosRequestConfig) => Promise<AxiosResponse>
+  ): Promise<AxiosResponse> {
+    // Snapshot so use()/remove() during a request don't affect it
+    const middlewares = this.middlewares.slice();
+    const dispatch = (index: number): Promise<AxiosResponse> => {
+      const middleware = middlewares[index];
+      if (!middleware) return send(context.config);
+      return middleware.handle(context, () => dispatch(index + 1));
+    };
+    return dispatch(0);
+  }
+}
+
+/**
+ * Build a response for a middleware that short-circuits the request
+ */
+export function createMockResponse<T>(
+  config: AxiosRequestConfig,
+  data: T,
+  status: number = HTTP_STATUS.OK,
+  headers: Record<string, string> = {}
+): AxiosResponse<T> {
+  // Responses carry the config as axios sends it, with normalized headers
+  const requestHeaders = new AxiosHeaders();
+  for (const [name, value] of Object.entries(config.headers || {})) {
+    if (value !== undefined) requestHeaders.set(name, value);
+  }
+  const internalConfig: InternalAxiosRequestConfig = { ...config, headers: requestHeaders };
+  return { data, status, statusText: String(status), headers, config: internalConfig };
+}
+
+// What the built-ins need from the client
+export interface SallaMiddlewareHost {
+  merchantId?: string;
+  getAccessToken(): string;
+  setAccessToken(token: string): void;
+  getRateLimiter(): SallaRateLimiter;
+  getDefaultPriority(): RequestPriority;
+  getRetryPolicy(): RetryPolicy;
+  emitRetry(event: RetryEvent): void;
+  refreshToken(refreshToken: string): Promise<SallaAuthToken>;
+}
+
+// Turn axios failures into the SallaError hierarchy
+export function errorMappingMiddleware(): SallaMiddleware {
+  return {
+    name: 'error-mapping',
+    order: MIDDLEWARE_ORDER.errorMapping,
+    handle: async (context, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        throw toSallaError(error);
+      }
+    },
+  };
+}
+
+// Refresh near-expiry merchant tokens up front; on a 401 refresh once and replay
+export function tokenRefreshMiddleware(host: SallaMiddlewareHost): SallaMiddleware {
+  const refresh = (refreshToken: string) => host.refreshToken(refreshToken);
+
+  return {
+    name: 'token-refresh',
+    order: MIDDLEWARE_ORDER.tokenRefresh,
+    handle: async ({ config }, next) => {
+      if (!host.merchantId || config.skipAuthRefresh) return next();
+
+      const token = await getFreshAccessToken(host.merchantId, refresh);
+      if (token && token !== host.getAccessToken()) {
+        host.setAccessToken(token);
+      }
+
+      try {
+        return await next();
+      } catch (error) {
+        const expired = isAxiosError(error) && error.response?.status === HTTP_STATUS.UNAUTHORIZED;
+        if (!expired || config.authRetried) throw error;
+
+        config.authRetried = true;
+        try {
+          host.setAccessToken(await refreshMerchantToken(host.merchantId, refresh, host.getAccessToken()));
+        } catch (refreshError) {
+          console.error(`❌ Failed to refresh token for merchant ${host.merchantId}:`, refreshError);
+          throw error;
+        }
+        return next();
+      }
+    },
+  };
+}
+
+// Replay transient failures with backoff, see retry.ts
+export function retryMiddleware(host: SallaMiddlewareHost): SallaMiddleware {
+  return {
+    name: 'retry',
+    order: MIDDLEWARE_ORDER.retry,
+    handle: async ({ config }, next) => {
+      for (;;) {
+        try {
+          return await next();
+        } catch (error) {
+          const delay = isAxiosError(error) ? getRetryDelay(error, host.getRetryPolicy()) : null;
+          if (delay === null) throw error;
+
+          config.retryAttempt = (config.retryAttempt || 0) + 1;
+          host.emitRetry({
+            attempt: config.retryAttempt,
+            delay,
+            method: (config.method || 'get').toUpperCase(),
+            url: config.url || '',
+            error: toSallaError(error),
+          });
+          await sleep(delay);
+        }
+      }
+    },
+  };
+}
+
+// Wait for a slot in the token's bucket and track the quota Salla reports
+export function rateLimitMiddleware(host: SallaMiddlewareHost): SallaMiddleware {
+  return {
+    name: 'rate-limit',
+    order: MIDDLEWARE_ORDER.rateLimit,
+    handle: async ({ config }, next) => {
+      const limiter = host.getRateLimiter();
+      await limiter.schedule(config.priority || host.getDefaultPriority());
+      try {
+        const response = await next();
+        limiter.updateFromHeaders(response.headers);
+        return response;
+      } catch (error) {
+        if (isAxiosError(error)) limiter.updateFromHeaders(error.response?.headers);
+        throw error;
+      }
+    },
+  };
+}
+
+// Bearer token; OAuth token requests authenticate with client credentials instead
+export function authMiddleware(host: SallaMiddlewareHost): SallaMiddleware {
+  return {
+    name: 'auth',
+    order: MIDDLEWARE_ORDER.auth,
+    handle: async ({ config }, next) => {
+      const token = host.getAccessToken();
+      if (token && !config.skipAuthRefresh) {
+        config.headers = { ...config.headers, Authorization: `Bearer ${token}` };
+      }
+      return next();
+    },
+  };
+}
+
+export function createBuiltinMiddlewares(host: SallaMiddlewareHost): SallaMiddleware[] {
+  return [
+    errorMappingMiddleware(),
+    tokenRefreshMiddleware(host),
+    retryMiddleware(host),
+    rateLimitMiddleware(host),
+    authMiddleware(host),
+  ];
+}
+
+/**
+ * Tag every request with an id so logs on both sides can be joined up.
+ * Retries keep the id of the original request.
+ */
+export function correlationIdMiddleware(
+  header = 'X-Correlation-ID',
+  generate: () => string = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+): SallaMiddleware {
+  return {
+    name: 'correlation-id',
+    order: MIDDLEWARE_ORDER.tokenRefresh - 10,
+    handle: async (context, next) => {
+      context.state.correlationId = context.state.correlationId || generate();
+      context.config.headers = { ...context.config.headers, [header]: context.state.correlationId };
+      return next();
+    },
+  };
+}
@@ -2,6 +2,7 @@
 
 import { SallaApiClient } from './client';
 import { SallaApiResponse, SallaPagination } from './types';
+import { toSallaError } from './errors';
 
 // Notification Types
 export interface SallaNotification {
@@ -178,12 +179,8 @@ export class SallaNotificationService {
         pagination: response.data.pagination,
         message: 'Notifications retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch notifications',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch notifications');
     }
   }
 
@@ -195,12 +192,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch notification',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch notification');
     }
   }
 
@@ -214,12 +207,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification created successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to create notification',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to create notification');
     }
   }
 
@@ -231,12 +220,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification marked as read',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to mark notification as read',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to mark notification as read');
     }
   }
 
@@ -248,12 +233,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'All notifications marked as read',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to mark all notifications as read',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to mark all notifications as read');
     }
   }
 
@@ -264,12 +245,8 @@ export class SallaNotificationService {
         success: true,
         message: 'Notification deleted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete notification',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to delete notification');
     }
   }
 
@@ -282,12 +259,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification templates retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch notification templates',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch notification templates');
     }
   }
 
@@ -299,12 +272,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification template retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch notification template',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch notification template');
     }
   }
 
@@ -318,12 +287,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification template created successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to create notification template',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to create notification template');
     }
   }
 
@@ -338,12 +303,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification template updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update notification template',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update notification template');
     }
   }
 
@@ -354,12 +315,8 @@ export class SallaNotificationService {
         success: true,
         message: 'Notification template deleted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete notification template',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to delete notification template');
     }
   }
 
@@ -372,12 +329,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification settings retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch notification settings',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch notification settings');
     }
   }
 
@@ -392,12 +345,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Notification settings updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update notification settings',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update notification settings');
     }
   }
 
@@ -420,12 +369,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Push token registered successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to register push token',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to register push token');
     }
   }
 
@@ -441,12 +386,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Push token updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update push token',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update push token');
     }
   }
 
@@ -457,12 +398,8 @@ export class SallaNotificationService {
         success: true,
         message: 'Push token deleted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete push token',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to delete push token');
     }
   }
 
@@ -476,12 +413,8 @@ export class SallaNotificationService {
         pagination: response.data.pagination,
         message: 'Webhooks retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch webhooks',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch webhooks');
     }
   }
 
@@ -493,12 +426,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Webhook retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch webhook',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch webhook');
     }
   }
 
@@ -510,12 +439,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Webhook created successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to create webhook',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to create webhook');
     }
   }
 
@@ -530,12 +455,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Webhook updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update webhook',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update webhook');
     }
   }
 
@@ -546,12 +467,8 @@ export class SallaNotificationService {
         success: true,
         message: 'Webhook deleted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete webhook',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to delete webhook');
     }
   }
 
@@ -563,12 +480,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Webhook test completed',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to test webhook',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to test webhook');
     }
   }
 
@@ -589,12 +502,8 @@ export class SallaNotificationService {
         pagination: response.data.pagination,
         message: 'Webhook events retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to fetch webhook events',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to fetch webhook events');
     }
   }
 
@@ -606,12 +515,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Webhook event retry initiated',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to retry webhook event',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to retry webhook event');
     }
   }
 
@@ -634,12 +539,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Push notification sent successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to send push notification',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to send push notification');
     }
   }
 
@@ -661,12 +562,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'Email notification sent successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to send email notification',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to send email notification');
     }
   }
 
@@ -684,12 +581,8 @@ export class SallaNotificationService {
         data: response.data.data,
         message: 'SMS notification sent successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to send SMS notification',
-        error: error.response?.data,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to send SMS notification');
     }
   }
 }
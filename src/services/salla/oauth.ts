@@ -0,0 +1,230 @@
+// Salla OAuth Install Flow
+// Server-only helpers behind /api/salla/oauth/start and /api/salla/oauth/callback
+// (authorization code with PKCE). The state, PKCE verifier and return path
+// travel between the two requests in a signed httpOnly cookie, so no
+// server-side session store is needed.
+
+import crypto from 'crypto';
+import type { NextApiRequest } from 'next';
+import { SALLA_CONFIG, HTTP_STATUS } from './config';
+import { SallaApiClient } from './client';
+import { SallaOAuthError, toSallaError } from './errors';
+import { SallaMerchantLifecycle, getMerchantLifecycle } from './merchant-lifecycle';
+import { sallaTokenManager, MerchantTokenData } from './token-manager';
+
+export const OAUTH_COOKIE = 'salla_oauth';
+const COOKIE_PATH = '/api/salla/oauth';
+
+export interface OAuthSession {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  // Local path to send the merchant to after a successful install
+  returnTo?: string;
+  createdAt: number;
+}
+
+// Response of the accounts user info endpoint
+export interface SallaUserInfo {
+  id: number | string;
+  name: string;
+  email: string;
+  mobile?: string;
+  role?: string;
+  merchant: {
+    id: number | string;
+    username?: string;
+    name: string;
+    avatar?: string;
+    domain: string;
+    plan?: string;
+    status?: string;
+  };
+}
+
+const randomToken = (bytes = 32) => crypto.randomBytes(bytes).toString('base64url');
+
+/**
+ * PKCE verifier and its S256 challenge
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = randomToken(48);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+export function createOAuthSession(redirectUri: string, returnTo?: string): OAuthSession {
+  return {
+    state: randomToken(),
+    codeVerifier: createPkcePair().codeVerifier,
+    redirectUri,
+    returnTo,
+    createdAt: Date.now(),
+  };
+}
+
+export function buildAuthorizeURL(session: OAuthSession): string {
+  const codeChallenge = crypto.createHash('sha256').update(session.codeVerifier).digest('base64url');
+  const params = new URLSearchParams({
+    client_id: SALLA_CONFIG.clientId,
+    response_type: 'code',
+    redirect_uri: session.redirectUri,
+    scope: SALLA_CONFIG.oauth.scope,
+    state: session.state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+  return `${SALLA_CONFIG.oauth.authorizeURL}?${params.toString()}`;
+}
+
+/**
+ * Callback URL on the requesting host, unless SALLA_OAUTH_REDIRECT_URI is set
+ */
+export function getOAuthRedirectUri(req: Pick<NextApiRequest, 'headers'>): string {
+  if (SALLA_CONFIG.oauth.redirectURI) return SALLA_CONFIG.oauth.redirectURI;
+
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const protocol = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0] ||
+    (process.env.NODE_ENV === 'production' ? 'https' : 'http');
+  return `${protocol}://${req.headers.host}${COOKIE_PATH}/callback`;
+}
+
+/**
+ * Accept only same-origin paths, so returnTo can't become an open redirect
+ */
+export function getSafeReturnPath(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  return /^\/(?![/\\])/.test(value) ? value : undefined;
+}
+
+function signingSecret(secret: string): string {
+  if (!secret) {
+    throw new SallaOAuthError('SALLA_CLIENT_SECRET is not configured', 'OAUTH_NOT_CONFIGURED', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+  return secret;
+}
+
+const sign = (payload: string, secret: string) =>
+  crypto.createHmac('sha256', signingSecret(secret)).update(payload).digest('base64url');
+
+export function sealOAuthSession(session: OAuthSession, secret: string = SALLA_CONFIG.clientSecret): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function openOAuthSession(
+  value: string | undefined,
+  secret: string = SALLA_CONFIG.clientSecret,
+  maxAge: number = SALLA_CONFIG.oauth.stateTTL
+): OAuthSession {
+  if (!value) {
+    throw new SallaOAuthError('No authorization in progress', 'OAUTH_SESSION_MISSING');
+  }
+
+  const [payload, signature = ''] = value.split('.');
+  const expected = sign(payload, secret);
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    throw new SallaOAuthError('Authorization session was tampered with', 'OAUTH_SESSION_INVALID');
+  }
+
+  const session: OAuthSession = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (Date.now() - session.createdAt > maxAge) {
+    throw new SallaOAuthError('Authorization session expired', 'OAUTH_SESSION_EXPIRED');
+  }
+  return session;
+}
+
+export function verifyOAuthState(session: OAuthSession, state: unknown): void {
+  const valid = typeof state === 'string' &&
+    state.length === session.state.length &&
+    crypto.timingSafeEqual(Buffer.from(state), Buffer.from(session.state));
+  if (!valid) {
+    throw new SallaOAuthError('OAuth state does not match', 'OAUTH_STATE_MISMATCH');
+  }
+}
+
+/**
+ * Set-Cookie value carrying the sealed session; an empty value clears it
+ */
+export function serializeOAuthCookie(value: string, secure: boolean): string {
+  const maxAge = value ? Math.floor(SALLA_CONFIG.oauth.stateTTL / 1000) : 0;
+  return [
+    `${OAUTH_COOKIE}=${value}`,
+    `Path=${COOKIE_PATH}`,
+    `Max-Age=${maxAge}`,
+    'HttpOnly',
+    // Lax: the cookie must survive the top-level redirect back from Salla
+    'SameSite=Lax',
+    ...(secure ? ['Secure'] : []),
+  ].join('; ');
+}
+
+export type OAuthClientFactory = (accessToken?: string) => SallaApiClient;
+
+const defaultClientFactory: OAuthClientFactory = accessToken =>
+  new SallaApiClient(accessToken, { cache: false, validationMode: 'off' });
+
+/**
+ * Exchange the authorization code, look up the merchant and record the grant
+ * through the merchant lifecycle, which activates the merchant and stores its
+ * tokens
+ */
+export async function completeOAuthInstall(
+  code: string,
+  session: OAuthSession,
+  createClient: OAuthClientFactory = defaultClientFactory,
+  lifecycle: Pick<SallaMerchantLifecycle, 'granted'> = getMerchantLifecycle()
+): Promise<MerchantTokenData> {
+  let token;
+  try {
+    token = await createClient().authenticate(SALLA_CONFIG.clientId, SALLA_CONFIG.clientSecret, code, {
+      redirectUri: session.redirectUri,
+      codeVerifier: session.codeVerifier,
+    });
+  } catch (error) {
+    throw new SallaOAuthError('Failed to exchange the authorization code', 'OAUTH_EXCHANGE_FAILED', HTTP_STATUS.BAD_GATEWAY, toSallaError(error).message);
+  }
+  if (!token?.access_token) {
+    throw new SallaOAuthError('Salla returned no access token', 'OAUTH_EXCHANGE_FAILED', HTTP_STATUS.BAD_GATEWAY);
+  }
+
+  const merchantClient = createClient(token.access_token);
+  let user: SallaUserInfo;
+  try {
+    const response = await merchantClient.get<{ data: SallaUserInfo }>(SALLA_CONFIG.oauth.userInfoURL);
+    user = response.data.data;
+  } catch (error) {
+    throw new SallaOAuthError('Failed to fetch merchant information', 'OAUTH_USER_INFO_FAILED', HTTP_STATUS.BAD_GATEWAY, toSallaError(error).message);
+  }
+  if (!user?.merchant?.id) {
+    throw new SallaOAuthError('Merchant information is missing from the user info response', 'OAUTH_USER_INFO_FAILED', HTTP_STATUS.BAD_GATEWAY);
+  }
+
+  // Currency isn't part of the user info; a failure here shouldn't fail the install
+  let currency = 'SAR';
+  try {
+    const store = await merchantClient.get<{ data: { currency?: string } }>('/store/info');
+    currency = store.data.data?.currency || currency;
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch store info for merchant ${user.merchant.id}:`, toSallaError(error).message);
+  }
+
+  const record = {
+    merchantId: String(user.merchant.id),
+    merchantName: user.merchant.name,
+    merchantDomain: (user.merchant.domain || '').replace(/^https?:\/\//, '').replace(/\/$/, ''),
+    merchantEmail: user.email,
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token,
+    tokenType: token.token_type || 'Bearer',
+    expiresIn: token.expires_in,
+    scope: token.scope,
+    currency,
+    timezone: 'Asia/Riyadh',
+    installedAt: new Date().toISOString(),
+  };
+  await lifecycle.granted(record, record.installedAt);
+
+  console.log('✅ OAuth install completed for merchant:', record.merchantId);
+  return (await sallaTokenManager.getToken(record.merchantId)) || { ...record, updatedAt: record.installedAt };
+}
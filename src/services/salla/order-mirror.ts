@@ -0,0 +1,230 @@
+// Salla Order Mirror
+// Server-only: a local copy of each merchant's orders, so the admin order
+// pages can filter, sort and page without calling Salla. order.* webhooks
+// keep it current; a paginated backfill fills it and the reconciliation job
+// (order-reconciliation.ts) checks it against Salla. A change older than the
+// mirrored copy is ignored, so a late webhook can't roll an order back.
+
+import { MemoryMerchantDocumentStore, MerchantDocumentStore } from './collection-store';
+import { FileMerchantDocumentStore } from './json-file-store';
+import { SallaOrder } from './types';
+import { timeOf } from './utils';
+
+export interface OrderMirrorData {
+  merchantId: string;
+  orders: Record<string, SallaOrder>;
+  lastBackfillAt?: string;
+  lastReconcileAt?: string;
+  lastWebhookAt?: string;
+  updatedAt: string;
+}
+
+export interface OrderWriteCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  // Older than the mirrored copy
+  skipped: number;
+}
+
+export type OrderSortField = 'created_at' | 'updated_at' | 'total' | 'items' | 'order_number';
+
+export interface OrderListQuery {
+  // Status key, e.g. 'under_review'
+  status?: string;
+  // Matches the order number, id, customer name or email
+  search?: string;
+  sortBy?: OrderSortField;
+  order?: 'asc' | 'desc';
+  page?: number;
+  perPage?: number;
+}
+
+export interface OrderListResult {
+  orders: SallaOrder[];
+  total: number;
+  page: number;
+  perPage: number;
+  // Orders per status key, before the status filter
+  statuses: Record<string, number>;
+}
+
+export interface OrderMirrorSummary {
+  merchantId: string;
+  orders: number;
+  // Orders per status key
+  statuses: Record<string, number>;
+  lastBackfillAt?: string;
+  lastReconcileAt?: string;
+  lastWebhookAt?: string;
+  updatedAt: string;
+}
+
+export type OrderMirrorStore = MerchantDocumentStore<OrderMirrorData>;
+
+export function createEmptyOrderMirror(merchantId: string): OrderMirrorData {
+  return { merchantId, orders: {}, updatedAt: new Date().toISOString() };
+}
+
+export class MemoryOrderMirrorStore extends MemoryMerchantDocumentStore<OrderMirrorData> {
+  constructor() {
+    super(createEmptyOrderMirror);
+  }
+}
+
+export class FileOrderMirrorStore extends FileMerchantDocumentStore<OrderMirrorData> {
+  constructor(directory: string) {
+    super(directory, createEmptyOrderMirror, 'order mirror');
+  }
+}
+
+const SORT_VALUES: Record<OrderSortField, (order: SallaOrder) => number | string> = {
+  created_at: order => timeOf(order.created_at),
+  updated_at: order => timeOf(order.updated_at),
+  total: order => order.totals?.total?.amount || 0,
+  items: order => order.items?.length || 0,
+  order_number: order => order.order_number || '',
+};
+
+const matchesSearch = (order: SallaOrder, search: string) => {
+  const customer = order.customer || ({} as SallaOrder['customer']);
+  return [order.id, order.order_number, `${customer.first_name || ''} ${customer.last_name || ''}`, customer.email]
+    .some(value => String(value || '').toLowerCase().includes(search));
+};
+
+export class SallaOrderMirror {
+  constructor(private store: OrderMirrorStore) {}
+
+  async get(merchantId: string): Promise<OrderMirrorData | null> {
+    return this.store.get(merchantId);
+  }
+
+  async merchants(): Promise<string[]> {
+    return this.store.merchants();
+  }
+
+  /**
+   * Drop the merchant's mirror, e.g. once it uninstalled the app
+   */
+  async purge(merchantId: string): Promise<void> {
+    await this.store.remove(merchantId);
+  }
+
+  /**
+   * Write orders. Webhooks may carry only some fields, so they are merged
+   * over the mirrored copy; `force` writes even an older copy (backfill,
+   * healing drift).
+   */
+  async upsert(
+    merchantId: string,
+    orders: Array<{ id: string | number; [key: string]: any }>,
+    options: { force?: boolean } = {}
+  ): Promise<OrderWriteCounts> {
+    const counts: OrderWriteCounts = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+
+    await this.store.transform(merchantId, data => {
+      for (const order of orders) {
+        const id = String(order.id);
+        const existing = data.orders[id];
+        // A partial webhook payload without updated_at can't be older than the copy
+        if (existing && !options.force && order.updated_at && timeOf(order.updated_at) < timeOf(existing.updated_at)) {
+          counts.skipped++;
+          continue;
+        }
+
+        const next = { ...(existing || {}), ...order, id } as SallaOrder;
+        if (existing && JSON.stringify(existing) === JSON.stringify(next)) {
+          counts.unchanged++;
+          continue;
+        }
+        data.orders[id] = next;
+        if (existing) {
+          counts.updated++;
+        } else {
+          counts.created++;
+        }
+      }
+      data.updatedAt = new Date().toISOString();
+      return data;
+    });
+
+    return counts;
+  }
+
+  async remove(merchantId: string, ids: string[]): Promise<number> {
+    let removed = 0;
+    await this.store.transform(merchantId, data => {
+      for (const id of ids) {
+        if (data.orders[id]) removed++;
+        delete data.orders[id];
+      }
+      data.updatedAt = new Date().toISOString();
+      return data;
+    });
+    return removed;
+  }
+
+  async touch(merchantId: string, field: 'lastBackfillAt' | 'lastReconcileAt' | 'lastWebhookAt', at: string): Promise<void> {
+    await this.store.transform(merchantId, data => ({ ...data, [field]: at }));
+  }
+
+  async getOrder(merchantId: string, id: string): Promise<SallaOrder | null> {
+    return (await this.store.get(merchantId))?.orders[id] || null;
+  }
+
+  /**
+   * Filter, sort and page the mirrored orders; newest first by default
+   */
+  async list(merchantId: string, query: OrderListQuery = {}): Promise<OrderListResult> {
+    const data = await this.store.get(merchantId);
+    const all = Object.values(data?.orders || {});
+    const search = query.search?.trim().toLowerCase();
+    const page = Math.max(1, query.page || 1);
+    const perPage = Math.max(1, query.perPage || 20);
+
+    const statuses: Record<string, number> = {};
+    const matching = all.filter(order => {
+      if (search && !matchesSearch(order, search)) return false;
+      const status = order.status?.key || 'unknown';
+      statuses[status] = (statuses[status] || 0) + 1;
+      return !query.status || status === query.status;
+    });
+
+    // sortBy may come straight from a page's query string
+    const value = (query.sortBy && SORT_VALUES[query.sortBy]) || SORT_VALUES.created_at;
+    const direction = query.order === 'asc' ? 1 : -1;
+    matching.sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      return (left < right ? -1 : left > right ? 1 : 0) * direction;
+    });
+
+    return {
+      orders: matching.slice((page - 1) * perPage, page * perPage),
+      total: matching.length,
+      page,
+      perPage,
+      statuses,
+    };
+  }
+
+  async summarize(merchantId: string): Promise<OrderMirrorSummary | null> {
+    const data = await this.store.get(merchantId);
+    if (!data) return null;
+
+    const statuses: Record<string, number> = {};
+    for (const order of Object.values(data.orders)) {
+      const status = order.status?.key || 'unknown';
+      statuses[status] = (statuses[status] || 0) + 1;
+    }
+    return {
+      merchantId,
+      orders: Object.keys(data.orders).length,
+      statuses,
+      lastBackfillAt: data.lastBackfillAt,
+      lastReconcileAt: data.lastReconcileAt,
+      lastWebhookAt: data.lastWebhookAt,
+      updatedAt: data.updatedAt,
+    };
+  }
+}
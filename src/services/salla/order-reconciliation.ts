@@ -0,0 +1,348 @@
+// Salla Order Reconciliation
+// Server-only: fills the order mirror (order-mirror.ts) and checks it against
+// Salla. A backfill pages through the order listing and writes every order.
+// A reconciliation walks the same listing and compares each order's status,
+// total and item count with the mirrored copy, plus orders only one side has;
+// it reports the drift and, with auto-heal on, rewrites the mirror from
+// Salla. A mirrored copy newer than the listed one is a webhook that landed
+// mid-run, not drift. order.* webhooks apply single changes in between.
+// Scheduled reconciliations pass over stores that uninstalled the app.
+
+import crypto from 'crypto';
+import path from 'path';
+import { SallaApiClient } from './client';
+import { ListStore, MemoryListStore } from './collection-store';
+import { SALLA_CONFIG, HTTP_STATUS } from './config';
+import { SallaError } from './errors';
+import { FileListStore } from './json-file-store';
+import { getJobClientForMerchant } from './merchant-clients';
+import { SallaMerchantRegistry, getMerchantRegistry } from './merchant-registry';
+import { FileOrderMirrorStore, OrderWriteCounts, SallaOrderMirror } from './order-mirror';
+import { SyncRunStatus, SyncRunTracker } from './sync-runs';
+import { SallaOrder } from './types';
+import { timeOf } from './utils';
+import { SallaWebhookPatternPayload } from './webhooks';
+
+export type OrderSyncType = 'backfill' | 'reconcile';
+
+export type OrderSyncStatus = SyncRunStatus;
+
+export type OrderDriftKind = 'missing_local' | 'missing_remote' | 'status' | 'total' | 'items';
+
+export interface OrderDrift {
+  orderId: string;
+  orderNumber?: string;
+  kind: OrderDriftKind;
+  local?: string | number;
+  remote?: string | number;
+  healed: boolean;
+}
+
+export interface OrderSyncRun {
+  id: string;
+  merchantId: string;
+  type: OrderSyncType;
+  status: OrderSyncStatus;
+  // Rewrite drifted orders (reconcile only)
+  heal: boolean;
+  pages: number;
+  fetched: number;
+  counts: OrderWriteCounts;
+  // First `maxDrift` entries; `driftCount` counts them all
+  drift: OrderDrift[];
+  driftCount: number;
+  healed: number;
+  errors: Array<{ message: string; at: string }>;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export type OrderSyncRunStore = ListStore<OrderSyncRun>;
+
+export class MemoryOrderSyncRunStore extends MemoryListStore<OrderSyncRun> {}
+
+export class FileOrderSyncRunStore extends FileListStore<OrderSyncRun> {}
+
+// API client used to list a merchant's orders
+export type OrderClientProvider = (merchantId: string) => Promise<Pick<SallaApiClient, 'iterateOrders'>>;
+
+export interface OrderReconcilerOptions {
+  mirror?: SallaOrderMirror;
+  runs?: OrderSyncRunStore;
+  getClient?: OrderClientProvider;
+  merchants?: SallaMerchantRegistry;
+  perPage?: number;
+  concurrency?: number;
+  maxRuns?: number;
+  maxDrift?: number;
+  runTimeout?: number;
+  reconcileInterval?: number;
+  autoHeal?: boolean;
+}
+
+// The fields reconciliation compares, in report order
+const COMPARED: Array<[OrderDriftKind, (order: SallaOrder) => string | number]> = [
+  ['status', order => order.status?.key || ''],
+  ['total', order => order.totals?.total?.amount ?? 0],
+  ['items', order => order.items?.length || 0],
+];
+
+export class SallaOrderReconciler {
+  private mirror: SallaOrderMirror;
+  private runs: SyncRunTracker<OrderSyncRun>;
+  private getClient: OrderClientProvider;
+  private merchants: SallaMerchantRegistry;
+  private options: Required<Omit<OrderReconcilerOptions, 'mirror' | 'runs' | 'getClient' | 'merchants'>>;
+
+  constructor(options: OrderReconcilerOptions = {}) {
+    const config = SALLA_CONFIG.orderMirror;
+    this.mirror = options.mirror || new SallaOrderMirror(new FileOrderMirrorStore(path.resolve(process.cwd(), config.path)));
+    this.getClient = options.getClient || getJobClientForMerchant;
+    this.merchants = options.merchants || getMerchantRegistry();
+    this.options = {
+      perPage: options.perPage ?? config.perPage,
+      concurrency: options.concurrency ?? config.concurrency,
+      maxRuns: options.maxRuns ?? config.maxRuns,
+      maxDrift: options.maxDrift ?? config.maxDrift,
+      runTimeout: options.runTimeout ?? config.runTimeout,
+      reconcileInterval: options.reconcileInterval ?? config.reconcileInterval,
+      autoHeal: options.autoHeal ?? config.autoHeal,
+    };
+    this.runs = new SyncRunTracker<OrderSyncRun>({
+      store: options.runs || new MemoryOrderSyncRunStore(),
+      label: 'Order sync',
+      maxRuns: this.options.maxRuns,
+      runTimeout: this.options.runTimeout,
+      conflict: busy => new SallaError(
+        `An order ${busy.type} of merchant ${busy.merchantId} is already running`,
+        'ORDER_SYNC_IN_PROGRESS',
+        HTTP_STATUS.CONFLICT
+      ),
+      runError: (message, at) => ({ message, at }),
+    });
+  }
+
+  getMirror(): SallaOrderMirror {
+    return this.mirror;
+  }
+
+  /**
+   * Record a new run and work on it in the background. Resolves with the
+   * run as recorded at the start; `run()` waits for the outcome.
+   * `heal` defaults to the auto-heal setting.
+   */
+  async startRun(merchantId: string, type: OrderSyncType, options: { heal?: boolean } = {}): Promise<OrderSyncRun> {
+    return (await this.launch(merchantId, type, options)).run;
+  }
+
+  /**
+   * Backfill or reconcile a merchant's orders and resolve with the finished
+   * run. A run already going in this process is shared.
+   */
+  async run(merchantId: string, type: OrderSyncType, options: { heal?: boolean } = {}): Promise<OrderSyncRun> {
+    const running = this.runs.running(merchantId);
+    if (running) return running;
+    return (await this.launch(merchantId, type, options)).execution;
+  }
+
+  /**
+   * Reconcile every mirrored store that still has the app, one after the other
+   */
+  async reconcileAll(): Promise<OrderSyncRun[]> {
+    const results: OrderSyncRun[] = [];
+    for (const merchantId of await this.mirror.merchants()) {
+      // Its token is gone, so the run could only fail
+      if (await this.merchants.isUninstalled(merchantId)) continue;
+      try {
+        results.push(await this.run(merchantId, 'reconcile'));
+      } catch (error) {
+        if (!(error instanceof SallaError) || error.code !== 'ORDER_SYNC_IN_PROGRESS') throw error;
+        // Already running in another process
+        console.warn(`⚠️ Skipped order reconciliation of merchant ${merchantId}:`, error.message);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Apply an order.* webhook to a store that is mirrored
+   */
+  async applyWebhook(payload: SallaWebhookPatternPayload<'order.*'>): Promise<void> {
+    const merchantId = String(payload.merchant);
+    if (!(await this.mirror.get(merchantId))) return;
+
+    const counts = await this.mirror.upsert(merchantId, [payload.data]);
+    if (counts.skipped) {
+      console.log(`🔄 Ignored ${payload.event} for order ${payload.data.id}: the mirror has a newer copy`);
+    }
+    await this.mirror.touch(merchantId, 'lastWebhookAt', new Date().toISOString());
+  }
+
+  /**
+   * Runs, newest first
+   */
+  async list(filter: { merchantId?: string; limit?: number } = {}): Promise<OrderSyncRun[]> {
+    return this.runs.list(filter);
+  }
+
+  async get(id: string): Promise<OrderSyncRun | null> {
+    return this.runs.get(id);
+  }
+
+  /**
+   * Reconcile every mirrored store on a timer in this process
+   */
+  start(): void {
+    this.runs.schedule('Order reconciliation', this.options.reconcileInterval, () => this.reconcileAll());
+  }
+
+  stop(): void {
+    this.runs.unschedule();
+  }
+
+  isRunning(): boolean {
+    return this.runs.isScheduled();
+  }
+
+  // Claims fail while the merchant's orders are already being walked somewhere
+  private launch(merchantId: string, type: OrderSyncType, options: { heal?: boolean }) {
+    const now = new Date().toISOString();
+    return this.runs.launch({
+      id: crypto.randomUUID(),
+      merchantId,
+      type,
+      status: 'running',
+      heal: type === 'reconcile' && (options.heal ?? this.options.autoHeal),
+      pages: 0,
+      fetched: 0,
+      counts: { created: 0, updated: 0, unchanged: 0, skipped: 0 },
+      drift: [],
+      driftCount: 0,
+      healed: 0,
+      errors: [],
+      startedAt: now,
+      updatedAt: now,
+    }, run => this.execute(run));
+  }
+
+  private async execute(run: OrderSyncRun): Promise<OrderSyncRun> {
+    const { merchantId } = run;
+    try {
+      const client = await this.getClient(merchantId);
+      const listed = new Set<string>();
+      let page: SallaOrder[] = [];
+      const flush = async () => {
+        const batch = page;
+        page = [];
+        batch.forEach(order => listed.add(String(order.id)));
+        if (run.type === 'backfill') {
+          this.addCounts(run, await this.mirror.upsert(merchantId, batch, { force: true }));
+        } else {
+          await this.compare(run, batch);
+        }
+        run.fetched += batch.length;
+        run.pages++;
+        await this.runs.save(run);
+      };
+
+      for await (const order of client.iterateOrders({}, this.paging())) {
+        page.push(order);
+        if (page.length >= this.options.perPage) await flush();
+      }
+      if (page.length > 0) await flush();
+
+      if (run.type === 'reconcile') {
+        await this.findUnlisted(run, listed);
+      }
+
+      await this.mirror.touch(merchantId, run.type === 'backfill' ? 'lastBackfillAt' : 'lastReconcileAt', new Date().toISOString());
+      const finished = await this.runs.finish(run, 'completed');
+      console.log(`✅ Order ${run.type} of merchant ${merchantId} completed`, {
+        fetched: run.fetched,
+        ...(run.type === 'backfill' ? run.counts : { drift: run.driftCount, healed: run.healed })
+      });
+      return finished;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      run.errors.push({ message, at: new Date().toISOString() });
+      console.error(`❌ Order ${run.type} of merchant ${merchantId} failed:`, message);
+      return this.runs.finish(run, 'failed');
+    }
+  }
+
+  // Compare one listing page with the mirror
+  private async compare(run: OrderSyncRun, remote: SallaOrder[]): Promise<void> {
+    const local = (await this.mirror.get(run.merchantId))?.orders || {};
+    const heal: SallaOrder[] = [];
+
+    for (const order of remote) {
+      const id = String(order.id);
+      const mirrored = local[id];
+      if (!mirrored) {
+        this.report(run, { orderId: id, orderNumber: order.order_number, kind: 'missing_local' });
+        heal.push(order);
+        continue;
+      }
+      // Changed after Salla listed it; the mirror is ahead
+      if (timeOf(mirrored.updated_at) > timeOf(order.updated_at)) continue;
+
+      let drifted = false;
+      for (const [kind, value] of COMPARED) {
+        if (value(mirrored) === value(order)) continue;
+        this.report(run, { orderId: id, orderNumber: order.order_number, kind, local: value(mirrored), remote: value(order) });
+        drifted = true;
+      }
+      if (drifted) heal.push(order);
+    }
+
+    if (run.heal && heal.length > 0) {
+      this.addCounts(run, await this.mirror.upsert(run.merchantId, heal, { force: true }));
+      run.healed += heal.length;
+    }
+  }
+
+  // Mirrored orders Salla didn't list; ones that arrived during the run are kept
+  private async findUnlisted(run: OrderSyncRun, listed: Set<string>): Promise<void> {
+    const local = (await this.mirror.get(run.merchantId))?.orders || {};
+    const unlisted = Object.values(local).filter(order =>
+      !listed.has(String(order.id)) && timeOf(order.updated_at || order.created_at) < Date.parse(run.startedAt)
+    );
+
+    for (const order of unlisted) {
+      this.report(run, { orderId: String(order.id), orderNumber: order.order_number, kind: 'missing_remote' });
+    }
+    if (run.heal && unlisted.length > 0) {
+      run.healed += await this.mirror.remove(run.merchantId, unlisted.map(order => String(order.id)));
+    }
+  }
+
+  private report(run: OrderSyncRun, drift: Omit<OrderDrift, 'healed'>): void {
+    run.driftCount++;
+    if (run.drift.length < this.options.maxDrift) {
+      run.drift.push({ ...drift, healed: run.heal });
+    }
+  }
+
+  private addCounts(run: OrderSyncRun, counts: OrderWriteCounts): void {
+    run.counts.created += counts.created;
+    run.counts.updated += counts.updated;
+    run.counts.unchanged += counts.unchanged;
+    run.counts.skipped += counts.skipped;
+  }
+
+  private paging() {
+    return { perPage: this.options.perPage, concurrency: this.options.concurrency };
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one engine
+type OrderReconcilerHolder = { __sallaOrderReconciler?: SallaOrderReconciler };
+
+export function getOrderReconciler(): SallaOrderReconciler {
+  const holder = globalThis as OrderReconcilerHolder;
+  holder.__sallaOrderReconciler = holder.__sallaOrderReconciler || new SallaOrderReconciler({
+    runs: new FileOrderSyncRunStore(path.resolve(process.cwd(), SALLA_CONFIG.orderMirror.runsPath)),
+  });
+  return holder.__sallaOrderReconciler;
+}
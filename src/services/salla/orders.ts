@@ -1,7 +1,7 @@
 // Salla Orders API Service
 
 import { AxiosResponse } from 'axios';
-import { apiClient } from './client';
+import { SallaApiClient, sallaApi } from './client';
 import {
   SallaApiResponse,
   SallaOrder,
@@ -12,6 +12,7 @@ import {
   SallaPagination,
 } from './types';
 import { API_ENDPOINTS } from './config';
+import { PaginateOptions, collectAll, paginate } from './pagination';
 
 // Order creation interfaces
 export interface CreateOrderRequest {
@@ -115,11 +116,13 @@ export interface PaymentMethodOption {
   supported_currencies: string[];
 }
 
-class SallaOrdersService {
+export class SallaOrdersService {
+  constructor(private apiClient: SallaApiClient = sallaApi) {}
+
   // Get user orders
   async getOrders(params: OrdersQueryParams = {}): Promise<SallaApiResponse<SallaOrder[]>> {
     try {
-      const response: AxiosResponse = await apiClient.get(API_ENDPOINTS.ORDERS.LIST, {
+      const response: AxiosResponse = await this.apiClient.get(API_ENDPOINTS.ORDERS.LIST, {
         params,
       });
       return response.data;
@@ -128,10 +131,34 @@ class SallaOrdersService {
     }
   }
 
+  // Iterate every order across all pages (errors are thrown, not swallowed)
+  iterateOrders(
+    params: Omit<OrdersQueryParams, 'page'> = {},
+    options?: PaginateOptions
+  ): AsyncGenerator<SallaOrder, void, undefined> {
+    const { per_page, ...filters } = params;
+
+    return paginate<SallaOrder>(async ({ page, per_page, cursor, signal }) => {
+      const response = await this.apiClient.get<SallaApiResponse<SallaOrder[]>>(API_ENDPOINTS.orders.list, {
+        params: { ...filters, page, per_page, cursor },
+        signal,
+      });
+      return response.data;
+    }, { perPage: per_page, ...options });
+  }
+
+  // Fetch every order in one call
+  async getAllOrders(
+    params?: Omit<OrdersQueryParams, 'page'>,
+    options?: PaginateOptions
+  ): Promise<SallaOrder[]> {
+    return collectAll(this.iterateOrders(params, options));
+  }
+
   // Get single order
   async getOrder(orderId: string): Promise<SallaApiResponse<SallaOrder>> {
     try {
-      const response: AxiosResponse = await apiClient.get(
+      const response: AxiosResponse = await this.apiClient.get(
         API_ENDPOINTS.ORDERS.DETAILS.replace(':id', orderId)
       );
       return response.data;
@@ -143,7 +170,7 @@ class SallaOrdersService {
   // Create new order
   async createOrder(orderData: CreateOrderRequest): Promise<SallaApiResponse<SallaOrder>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.ORDERS.CREATE,
         orderData
       );
@@ -159,7 +186,7 @@ class SallaOrdersService {
     updateData: UpdateOrderRequest
   ): Promise<SallaApiResponse<SallaOrder>> {
     try {
-      const response: AxiosResponse = await apiClient.put(
+      const response: AxiosResponse = await this.apiClient.put(
         API_ENDPOINTS.ORDERS.UPDATE.replace(':id', orderId),
         updateData
       );
@@ -172,7 +199,7 @@ class SallaOrdersService {
   // Cancel order
   async cancelOrder(orderId: string, reason?: string): Promise<SallaApiResponse<SallaOrder>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.ORDERS.CANCEL.replace(':id', orderId),
         { reason }
       );
@@ -185,7 +212,7 @@ class SallaOrdersService {
   // Get order tracking
   async getOrderTracking(orderId: string): Promise<SallaApiResponse<OrderTracking>> {
     try {
-      const response: AxiosResponse = await apiClient.get(
+      const response: AxiosResponse = await this.apiClient.get(
         API_ENDPOINTS.ORDERS.TRACKING.replace(':id', orderId)
       );
       return response.data;
@@ -199,7 +226,7 @@ class SallaOrdersService {
     sessionData: CheckoutSessionRequest = {}
   ): Promise<SallaApiResponse<CheckoutSession>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.CREATE_SESSION,
         sessionData
       );
@@ -212,7 +239,7 @@ class SallaOrdersService {
   // Get checkout session
   async getCheckoutSession(sessionId: string): Promise<SallaApiResponse<CheckoutSession>> {
     try {
-      const response: AxiosResponse = await apiClient.get(
+      const response: AxiosResponse = await this.apiClient.get(
         API_ENDPOINTS.CHECKOUT.GET_SESSION.replace(':id', sessionId)
       );
       return response.data;
@@ -229,7 +256,7 @@ class SallaOrdersService {
     metadata: Record<string, any> = {}
   ): Promise<SallaApiResponse<PaymentIntent>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.CREATE_PAYMENT_INTENT,
         {
           amount,
@@ -250,7 +277,7 @@ class SallaOrdersService {
     paymentMethodData?: Record<string, any>
   ): Promise<SallaApiResponse<PaymentIntent>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.CONFIRM_PAYMENT.replace(':id', paymentIntentId),
         { payment_method_data: paymentMethodData }
       );
@@ -265,7 +292,7 @@ class SallaOrdersService {
     shippingAddress?: Partial<SallaShippingAddress>
   ): Promise<SallaApiResponse<ShippingMethod[]>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.SHIPPING_METHODS,
         { shipping_address: shippingAddress }
       );
@@ -278,7 +305,7 @@ class SallaOrdersService {
   // Get available payment methods
   async getPaymentMethods(): Promise<SallaApiResponse<PaymentMethodOption[]>> {
     try {
-      const response: AxiosResponse = await apiClient.get(
+      const response: AxiosResponse = await this.apiClient.get(
         API_ENDPOINTS.CHECKOUT.PAYMENT_METHODS
       );
       return response.data;
@@ -290,7 +317,7 @@ class SallaOrdersService {
   // Apply coupon
   async applyCoupon(couponCode: string): Promise<SallaApiResponse<any>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.APPLY_COUPON,
         { coupon_code: couponCode }
       );
@@ -303,7 +330,7 @@ class SallaOrdersService {
   // Remove coupon
   async removeCoupon(): Promise<SallaApiResponse<any>> {
     try {
-      const response: AxiosResponse = await apiClient.delete(
+      const response: AxiosResponse = await this.apiClient.delete(
         API_ENDPOINTS.CHECKOUT.REMOVE_COUPON
       );
       return response.data;
@@ -318,7 +345,7 @@ class SallaOrdersService {
     shippingAddress: Partial<SallaShippingAddress>
   ): Promise<SallaApiResponse<{ cost: number; currency: string; estimated_delivery: string }>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.CALCULATE_SHIPPING,
         {
           shipping_method_id: shippingMethodId,
@@ -337,7 +364,7 @@ class SallaOrdersService {
     shippingAddress?: Partial<SallaShippingAddress>
   ): Promise<SallaApiResponse<{ tax_amount: number; tax_rate: number; currency: string }>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.CALCULATE_TAXES,
         {
           items,
@@ -359,7 +386,7 @@ class SallaOrdersService {
     payment_method?: string;
   }): Promise<SallaApiResponse<{ is_valid: boolean; errors?: string[] }>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.CHECKOUT.VALIDATE,
         checkoutData
       );
@@ -372,7 +399,7 @@ class SallaOrdersService {
   // Get order invoice
   async getOrderInvoice(orderId: string): Promise<SallaApiResponse<{ invoice_url: string }>> {
     try {
-      const response: AxiosResponse = await apiClient.get(
+      const response: AxiosResponse = await this.apiClient.get(
         API_ENDPOINTS.ORDERS.INVOICE.replace(':id', orderId)
       );
       return response.data;
@@ -391,7 +418,7 @@ class SallaOrdersService {
     }
   ): Promise<SallaApiResponse<any>> {
     try {
-      const response: AxiosResponse = await apiClient.post(
+      const response: AxiosResponse = await this.apiClient.post(
         API_ENDPOINTS.ORDERS.REFUND.replace(':id', orderId),
         refundData
       );
@@ -0,0 +1,144 @@
+// Salla API Pagination Helpers
+// Async iterators that walk every page of a list endpoint (page/per_page or cursor based)
+
+import { SallaApiResponse, SallaPagination } from './types';
+
+export interface PageRequest {
+  page?: number;
+  per_page?: number;
+  cursor?: string;
+  signal?: AbortSignal;
+}
+
+export type PageFetcher<T> = (request: PageRequest) => Promise<SallaApiResponse<T[]>>;
+
+export interface PaginateOptions {
+  perPage?: number;
+  startPage?: number;
+  // Number of pages fetched in parallel once the total page count is known
+  concurrency?: number;
+  maxPages?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_PER_PAGE = 50;
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    const error = new Error('Pagination aborted');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+/**
+ * Resolve what comes after a page: a cursor, a page number or nothing
+ */
+export function getNextPage(
+  pagination: SallaPagination | undefined,
+  currentPage: number
+): { cursor?: string; page?: number } | null {
+  if (!pagination) return null;
+
+  if (pagination.cursor) {
+    return pagination.cursor.next ? { cursor: pagination.cursor.next } : null;
+  }
+
+  if (typeof pagination.hasNextPage === 'boolean') {
+    return pagination.hasNextPage ? { page: currentPage + 1 } : null;
+  }
+
+  if (pagination.totalPages && currentPage < pagination.totalPages) {
+    return { page: currentPage + 1 };
+  }
+
+  return null;
+}
+
+/**
+ * Iterate over every page returned by a list endpoint
+ */
+export async function* paginatePages<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<SallaApiResponse<T[]>, void, undefined> {
+  const perPage = options.perPage || DEFAULT_PER_PAGE;
+  const concurrency = Math.max(1, options.concurrency || 1);
+  const maxPages = options.maxPages || Infinity;
+  const { signal } = options;
+
+  let page = options.startPage || 1;
+  let fetched = 0;
+
+  throwIfAborted(signal);
+  let response = await fetchPage({ page, per_page: perPage, signal });
+  fetched++;
+  yield response;
+
+  // Cursor pagination has to be walked sequentially
+  let next = getNextPage(response.pagination, page);
+  while (next?.cursor && fetched < maxPages) {
+    throwIfAborted(signal);
+    response = await fetchPage({ cursor: next.cursor, per_page: perPage, signal });
+    fetched++;
+    yield response;
+    next = getNextPage(response.pagination, page);
+  }
+
+  if (!next?.page) return;
+
+  const totalPages = response.pagination?.totalPages;
+  const lastPage = Math.min(totalPages || Infinity, page + maxPages - 1);
+
+  // With a known page count we can fetch several pages at once, yielding them in order
+  if (totalPages && concurrency > 1) {
+    for (let start = next.page; start <= lastPage; start += concurrency) {
+      throwIfAborted(signal);
+      const pages: number[] = [];
+      for (let p = start; p < start + concurrency && p <= lastPage; p++) {
+        pages.push(p);
+      }
+      const responses = await Promise.all(
+        pages.map(p => fetchPage({ page: p, per_page: perPage, signal }))
+      );
+      for (const pageResponse of responses) {
+        yield pageResponse;
+      }
+    }
+    return;
+  }
+
+  while (next?.page && next.page <= lastPage) {
+    throwIfAborted(signal);
+    page = next.page;
+    response = await fetchPage({ page, per_page: perPage, signal });
+    yield response;
+    next = getNextPage(response.pagination, page);
+  }
+}
+
+/**
+ * Iterate over every item of a list endpoint
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  for await (const response of paginatePages(fetchPage, options)) {
+    for (const item of response.data || []) {
+      yield item;
+    }
+  }
+}
+
+/**
+ * Drain an async iterator into an array
+ */
+export async function collectAll<T>(iterable: AsyncIterable<T>, limit = Infinity): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+    if (items.length >= limit) break;
+  }
+  return items;
+}
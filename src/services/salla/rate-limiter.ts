@@ -0,0 +1,191 @@
+// Salla API Rate Limiter
+// Token-bucket limiter with a priority queue, shared by every client using the same access token
+
+import { SALLA_CONFIG } from './config';
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Scheduling priority in the rate limiter queue (cart/checkout use 'high')
+    priority?: RequestPriority;
+  }
+}
+
+export interface RateLimitOptions {
+  capacity: number; // maximum burst size
+  refillPerSecond: number; // steady-state request rate
+  reserve: number; // remote quota kept for high priority requests
+}
+
+export interface RateLimiterState {
+  availableTokens: number;
+  queued: number;
+  remoteLimit?: number;
+  remoteRemaining?: number;
+  resetAt?: Date;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  resolve: () => void;
+}
+
+const PRIORITY_WEIGHT: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+function readHeader(headers: Record<string, any> | undefined, name: string): number | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+export class SallaRateLimiter {
+  private options: RateLimitOptions;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: QueuedRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private remoteLimit?: number;
+  private remoteRemaining?: number;
+  private resetAt?: number;
+
+  constructor(options: Partial<RateLimitOptions> = {}) {
+    this.options = { ...SALLA_CONFIG.rateLimit, ...options };
+    this.tokens = this.options.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  // Wait for a slot; higher priority requests are released first
+  schedule(priority: RequestPriority = 'normal'): Promise<void> {
+    return new Promise(resolve => {
+      const request = { priority, resolve };
+      // Insert after the last request with the same or higher priority (FIFO within a priority)
+      const index = this.queue.findIndex(
+        queued => PRIORITY_WEIGHT[queued.priority] > PRIORITY_WEIGHT[priority]
+      );
+      if (index === -1) {
+        this.queue.push(request);
+      } else {
+        this.queue.splice(index, 0, request);
+      }
+      this.drain();
+    });
+  }
+
+  // Sync with the quota reported by Salla (X-RateLimit-* headers)
+  updateFromHeaders(headers?: Record<string, any>): void {
+    const limit = readHeader(headers, 'x-ratelimit-limit');
+    const remaining = readHeader(headers, 'x-ratelimit-remaining');
+    const reset = readHeader(headers, 'x-ratelimit-reset');
+
+    if (limit !== undefined) this.remoteLimit = limit;
+    if (remaining !== undefined) this.remoteRemaining = remaining;
+    if (reset !== undefined) {
+      // Salla sends a unix timestamp; small values are treated as seconds until reset
+      this.resetAt = reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+    } else if (remaining !== undefined && !this.resetAt) {
+      // Without a reset header assume a one minute window so we never stall forever
+      this.resetAt = Date.now() + 60 * 1000;
+    }
+
+    if (this.remoteRemaining !== undefined) {
+      this.tokens = Math.min(this.tokens, this.remoteRemaining);
+    }
+
+    this.drain();
+  }
+
+  getState(): RateLimiterState {
+    this.refill();
+    return {
+      availableTokens: Math.floor(this.tokens),
+      queued: this.queue.length,
+      remoteLimit: this.remoteLimit,
+      remoteRemaining: this.remoteRemaining,
+      resetAt: this.resetAt ? new Date(this.resetAt) : undefined,
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+
+    if (this.resetAt && now >= this.resetAt) {
+      // The remote window rolled over, forget the stale quota
+      this.remoteRemaining = undefined;
+      this.resetAt = undefined;
+    }
+
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.capacity, this.tokens + elapsed * this.options.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  // Remote quota check: low/normal traffic pauses once only the reserve is left
+  private isRemoteQuotaAvailable(priority: RequestPriority): boolean {
+    if (this.remoteRemaining === undefined) return true;
+    const floor = priority === 'high' ? 0 : this.options.reserve;
+    return this.remoteRemaining > floor;
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const index = this.queue.findIndex(request => this.isRemoteQuotaAvailable(request.priority));
+      if (index === -1) break;
+
+      const [request] = this.queue.splice(index, 1);
+      this.tokens -= 1;
+      if (this.remoteRemaining !== undefined) {
+        this.remoteRemaining -= 1;
+      }
+      request.resolve();
+    }
+
+    if (this.queue.length > 0) {
+      this.scheduleDrain();
+    } else if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleDrain(): void {
+    if (this.timer) return;
+
+    const untilToken = this.tokens >= 1
+      ? 0
+      : Math.ceil(((1 - this.tokens) / this.options.refillPerSecond) * 1000);
+    const blockedByRemote = this.queue.every(request => !this.isRemoteQuotaAvailable(request.priority));
+    const untilReset = blockedByRemote && this.resetAt ? Math.max(0, this.resetAt - Date.now()) : 0;
+    const delay = Math.max(untilToken, untilReset, 10);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delay);
+  }
+}
+
+// One limiter per store so every client acting for a merchant shares its
+// quota, across token refreshes too. Keyed by the client scope (merchant id or
+// token fingerprint, see getClientScope), never by a raw token.
+const limiters = new Map<string, SallaRateLimiter>();
+
+export function getRateLimiter(
+  scope: string,
+  options?: Partial<RateLimitOptions>
+): SallaRateLimiter {
+  let limiter = limiters.get(scope);
+  if (!limiter) {
+    limiter = new SallaRateLimiter(options);
+    limiters.set(scope, limiter);
+  }
+  return limiter;
+}
@@ -0,0 +1,115 @@
+// Salla API Retry Policy
+// Decides which failed requests are retried and how long to wait between attempts
+
+import { AxiosError, AxiosRequestConfig } from 'axios';
+import { SallaApiError } from './types';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set to false to disable retries for a single request
+    retry?: boolean;
+    // Marks a non-idempotent request (POST/PATCH) as safe to replay
+    idempotent?: boolean;
+    // Number of retries already performed for this request (managed by the client)
+    retryAttempt?: number;
+  }
+}
+
+export interface RetryEvent {
+  attempt: number;
+  delay: number;
+  method: string;
+  url: string;
+  error: SallaApiError;
+}
+
+export type RetryListener = (event: RetryEvent) => void;
+
+export interface RetryPolicy {
+  maxAttempts: number; // total attempts, including the first one
+  baseDelay: number; // milliseconds
+  maxDelay: number; // milliseconds
+  maxRetryAfter: number; // give up if the server asks us to wait longer than this
+  retryableStatuses: number[];
+  onRetry?: RetryListener;
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_NETWORK_CODES = ['ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter, capped at the policy's maxDelay
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * exponential);
+}
+
+/**
+ * Check whether a request may be replayed without side effects
+ */
+export function isIdempotentRequest(config: AxiosRequestConfig): boolean {
+  if (config.idempotent) return true;
+
+  const method = (config.method || 'get').toLowerCase();
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+
+  const headers = (config.headers || {}) as Record<string, any>;
+  return Boolean(headers['Idempotency-Key'] || headers['idempotency-key']);
+}
+
+/**
+ * Decide whether a failed request should be retried. Returns the delay in
+ * milliseconds before the next attempt, or null when the error is final.
+ */
+export function getRetryDelay(error: AxiosError, policy: RetryPolicy): number | null {
+  const config = error.config;
+  if (!config || config.retry === false) return null;
+
+  const attempt = (config.retryAttempt || 0) + 1;
+  if (attempt >= policy.maxAttempts) return null;
+
+  const status = error.response?.status;
+
+  if (status) {
+    if (!policy.retryableStatuses.includes(status)) return null;
+
+    // A 429 is rejected before the request is processed, so it is safe to
+    // replay even for non-idempotent calls such as createOrder
+    if (status !== 429 && !isIdempotentRequest(config)) return null;
+  } else {
+    // No response: only retry transient network failures of idempotent requests
+    if (!error.code || !RETRYABLE_NETWORK_CODES.includes(error.code)) return null;
+    if (!isIdempotentRequest(config)) return null;
+  }
+
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAfter !== undefined) {
+    return retryAfter <= policy.maxRetryAfter ? retryAfter : null;
+  }
+
+  return computeRetryDelay(attempt, policy);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,222 @@
+// Salla API Response Schemas
+// yup schemas mirroring the interfaces in types.ts. Casting coerces numeric
+// strings, fills missing arrays and maps legacy field names.
+
+import * as yup from 'yup';
+import {
+  SallaProduct,
+  SallaCategory,
+  SallaBrand,
+  SallaCart,
+  SallaOrder,
+  SallaCustomer,
+  SallaWishlist,
+} from './types';
+
+// Salla sends numeric ids in some endpoints and string ids in others
+const id = () => yup.string().required();
+const optionalString = () => yup.string().nullable().optional();
+const timestamp = () => yup.string().default('');
+
+export const priceSchema = yup.object({
+  amount: yup.number().required(),
+  currency: yup.string().default(''),
+  formatted: yup.string().default(''),
+  sale_price: yup.number().nullable().optional(),
+  sale_formatted: optionalString(),
+});
+
+export const imageSchema = yup.object({
+  id: yup.string().default(''),
+  url: yup.string().required(),
+  alt: yup.string().default(''),
+  is_main: yup.boolean().default(false),
+  sort_order: yup.number().default(0),
+});
+
+export const ratingSchema = yup.object({
+  average: yup.number().default(0),
+  count: yup.number().default(0),
+});
+
+export const brandSchema = yup.object({
+  id: id(),
+  name: yup.string().required(),
+  logo: imageSchema.default(undefined).nullable(),
+  description: optionalString(),
+  website: optionalString(),
+});
+
+export const categorySchema: yup.ObjectSchema<any> = yup.object({
+  id: id(),
+  name: yup.string().required(),
+  description: optionalString(),
+  image: imageSchema.default(undefined).nullable(),
+  parent_id: optionalString(),
+  children: yup.array().of(yup.lazy(() => categorySchema)).optional(),
+  products_count: yup.number().default(0),
+  sort_order: yup.number().default(0),
+  is_active: yup.boolean().default(true),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+export const variantSchema = yup.object({
+  id: id(),
+  name: yup.string().default(''),
+  price: priceSchema.required(),
+  sku: yup.string().default(''),
+  stock_quantity: yup.number().default(0),
+  attributes: yup
+    .array()
+    .of(yup.object({ name: yup.string().required(), value: yup.string().default('') }))
+    .default([]),
+});
+
+export const productSchema = yup
+  .object({
+    id: id(),
+    name: yup.string().required(),
+    description: yup.string().default(''),
+    price: priceSchema.required(),
+    images: yup.array().of(imageSchema).default([]),
+    categories: yup.array().of(categorySchema).default([]),
+    brand: brandSchema.default(undefined).nullable(),
+    sku: yup.string().default(''),
+    stock_quantity: yup.number().default(0),
+    is_available: yup.boolean().default(true),
+    weight: yup.number().nullable().optional(),
+    dimensions: yup
+      .object({
+        length: yup.number().default(0),
+        width: yup.number().default(0),
+        height: yup.number().default(0),
+        unit: yup.string().default(''),
+      })
+      .default(undefined)
+      .nullable(),
+    variants: yup.array().of(variantSchema).optional(),
+    tags: yup.array().of(yup.string().required()).default([]),
+    rating: ratingSchema.default(() => ({ average: 0, count: 0 })),
+    created_at: timestamp(),
+    updated_at: timestamp(),
+  })
+  // Older payloads send a single `category` object instead of `categories`
+  .transform((value) => {
+    if (value && !value.categories && value.category) {
+      const { category, ...rest } = value;
+      return { ...rest, categories: [category] };
+    }
+    return value;
+  });
+
+export const addressSchema = yup.object({
+  id: yup.string().default(''),
+  type: yup.mixed<'shipping' | 'billing'>().oneOf(['shipping', 'billing']).default('shipping'),
+  first_name: yup.string().default(''),
+  last_name: yup.string().default(''),
+  company: optionalString(),
+  address_line_1: yup.string().default(''),
+  address_line_2: optionalString(),
+  city: yup.string().default(''),
+  state: yup.string().default(''),
+  postal_code: yup.string().default(''),
+  country: yup.string().default(''),
+  phone: optionalString(),
+  is_default: yup.boolean().default(false),
+});
+
+export const customerSchema = yup.object({
+  id: id(),
+  first_name: yup.string().default(''),
+  last_name: yup.string().default(''),
+  email: yup.string().default(''),
+  phone: optionalString(),
+  avatar: optionalString(),
+  date_of_birth: optionalString(),
+  gender: yup.mixed<'male' | 'female'>().oneOf(['male', 'female']).nullable().optional(),
+  addresses: yup.array().of(addressSchema).default([]),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+const lineItemSchema = yup.object({
+  id: id(),
+  product_id: id(),
+  variant_id: optionalString(),
+  quantity: yup.number().required(),
+  price: priceSchema.required(),
+  total: priceSchema.required(),
+  product: productSchema.required(),
+});
+
+export const totalsSchema = yup.object({
+  subtotal: priceSchema.required(),
+  tax: priceSchema.required(),
+  shipping: priceSchema.required(),
+  discount: priceSchema.required(),
+  total: priceSchema.required(),
+});
+
+export const cartSchema = yup.object({
+  id: id(),
+  items: yup.array().of(lineItemSchema).default([]),
+  totals: totalsSchema.required(),
+  currency: yup.string().default(''),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+export const orderSchema = yup.object({
+  id: id(),
+  order_number: yup.string().default(''),
+  status: yup
+    .object({
+      key: yup.string().default(''),
+      name: yup.string().default(''),
+      color: yup.string().default(''),
+    })
+    .required(),
+  items: yup.array().of(lineItemSchema).default([]),
+  totals: totalsSchema.required(),
+  customer: customerSchema.required(),
+  shipping_address: addressSchema.required(),
+  billing_address: addressSchema.required(),
+  payment_method: yup.string().default(''),
+  shipping_method: yup.string().default(''),
+  notes: optionalString(),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+export const wishlistSchema = yup.object({
+  id: id(),
+  items: yup
+    .array()
+    .of(
+      yup.object({
+        id: id(),
+        product_id: id(),
+        product: productSchema.required(),
+        added_at: timestamp(),
+      })
+    )
+    .default([]),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+// Typed handles so callers get the interface back rather than the inferred schema type
+export const SALLA_SCHEMAS = {
+  product: productSchema as unknown as yup.Schema<SallaProduct>,
+  products: yup.array().of(productSchema).default([]) as unknown as yup.Schema<SallaProduct[]>,
+  category: categorySchema as unknown as yup.Schema<SallaCategory>,
+  categories: yup.array().of(categorySchema).default([]) as unknown as yup.Schema<SallaCategory[]>,
+  brands: yup.array().of(brandSchema).default([]) as unknown as yup.Schema<SallaBrand[]>,
+  cart: cartSchema as unknown as yup.Schema<SallaCart>,
+  order: orderSchema as unknown as yup.Schema<SallaOrder>,
+  orders: yup.array().of(orderSchema).default([]) as unknown as yup.Schema<SallaOrder[]>,
+  customer: customerSchema as unknown as yup.Schema<SallaCustomer>,
+  customers: yup.array().of(customerSchema).default([]) as unknown as yup.Schema<SallaCustomer[]>,
+  wishlist: wishlistSchema as unknown as yup.Schema<SallaWishlist>,
+};
@@ -1,6 +1,6 @@
 // Salla API Search Service
 
-import { sallaApi } from './client';
+import { SallaApiClient, sallaApi } from './client';
 import { SallaApiResponse, SallaPagination } from './types';
 
 // Search Interfaces
@@ -170,7 +170,9 @@ export interface SallaAutoCompleteResponse {
 }
 
 // Search Service Class
-class SallaSearchService {
+export class SallaSearchService {
+  constructor(private apiClient: SallaApiClient = sallaApi) {}
+
   // General Search
   async search(searchQuery: SallaSearchQuery): Promise<SallaApiResponse<SallaSearchResponse>> {
     const params = new URLSearchParams();
@@ -207,7 +209,7 @@ class SallaSearchService {
       }
     }
     
-    return sallaApi.get(`/search?${params.toString()}`);
+    return this.apiClient.get(`/search?${params.toString()}`);
   }
 
   // Product Search
@@ -257,7 +259,7 @@ class SallaSearchService {
     query: string,
     limit = 10
   ): Promise<SallaApiResponse<SallaAutoCompleteResponse>> {
-    return sallaApi.get('/search/autocomplete', {
+    return this.apiClient.get('/search/autocomplete', {
       params: { q: query, limit }
     });
   }
@@ -267,7 +269,7 @@ class SallaSearchService {
     query: string,
     limit = 5
   ): Promise<SallaApiResponse<SallaSearchSuggestion[]>> {
-    return sallaApi.get('/search/suggestions', {
+    return this.apiClient.get('/search/suggestions', {
       params: { q: query, limit }
     });
   }
@@ -277,7 +279,7 @@ class SallaSearchService {
     period: 'day' | 'week' | 'month' | 'year' = 'week',
     limit = 10
   ): Promise<SallaApiResponse<SallaPopularSearch[]>> {
-    return sallaApi.get('/search/popular', {
+    return this.apiClient.get('/search/popular', {
       params: { period, limit }
     });
   }
@@ -293,7 +295,7 @@ class SallaSearchService {
       params.user_id = userId;
     }
     
-    return sallaApi.get('/search/history', { params });
+    return this.apiClient.get('/search/history', { params });
   }
 
   // Clear Search History
@@ -303,7 +305,7 @@ class SallaSearchService {
       data.user_id = userId;
     }
     
-    return sallaApi.delete('/search/history', { data });
+    return this.apiClient.delete('/search/history', { data });
   }
 
   // Save Search
@@ -312,7 +314,7 @@ class SallaSearchService {
     resultsCount: number,
     clickedResultId?: string
   ): Promise<SallaApiResponse<SallaSearchHistory>> {
-    return sallaApi.post('/search/history', {
+    return this.apiClient.post('/search/history', {
       query,
       results_count: resultsCount,
       clicked_result_id: clickedResultId
@@ -326,7 +328,7 @@ class SallaSearchService {
       end_date: string;
     }
   ): Promise<SallaApiResponse<SallaSearchAnalytics>> {
-    return sallaApi.get('/search/analytics', {
+    return this.apiClient.get('/search/analytics', {
       params: dateRange
     });
   }
@@ -346,7 +348,7 @@ class SallaSearchService {
     page?: number;
     per_page?: number;
   }): Promise<SallaApiResponse<SallaSearchResponse>> {
-    return sallaApi.post('/search/advanced', params);
+    return this.apiClient.post('/search/advanced', params);
   }
 
   // Visual Search (if supported)
@@ -366,7 +368,7 @@ class SallaSearchService {
       formData.append('filters', JSON.stringify(filters));
     }
     
-    return sallaApi.post('/search/visual', formData, {
+    return this.apiClient.post('/search/visual', formData, {
       headers: {
         'Content-Type': 'multipart/form-data'
       }
@@ -385,7 +387,7 @@ class SallaSearchService {
       formData.append('filters', JSON.stringify(filters));
     }
     
-    return sallaApi.post('/search/voice', formData, {
+    return this.apiClient.post('/search/voice', formData, {
       headers: {
         'Content-Type': 'multipart/form-data'
       }
@@ -396,7 +398,7 @@ class SallaSearchService {
   async getAvailableFilters(
     query?: string
   ): Promise<SallaApiResponse<SallaSearchFacets>> {
-    return sallaApi.get('/search/filters', {
+    return this.apiClient.get('/search/filters', {
       params: query ? { q: query } : {}
     });
   }
@@ -406,7 +408,7 @@ class SallaSearchService {
     period: 'hour' | 'day' | 'week' = 'day',
     limit = 10
   ): Promise<SallaApiResponse<Array<{ query: string; trend_score: number }>>> {
-    return sallaApi.get('/search/trending', {
+    return this.apiClient.get('/search/trending', {
       params: { period, limit }
     });
   }
@@ -426,7 +428,7 @@ class SallaSearchService {
     average_position: number;
     zero_results_rate: number;
   }>> {
-    return sallaApi.get('/search/performance', {
+    return this.apiClient.get('/search/performance', {
       params: {
         q: query,
         ...dateRange
@@ -439,7 +441,7 @@ class SallaSearchService {
     productId: string,
     limit = 10
   ): Promise<SallaApiResponse<SallaSearchResult[]>> {
-    return sallaApi.get(`/search/similar/${productId}`, {
+    return this.apiClient.get(`/search/similar/${productId}`, {
       params: { limit }
     });
   }
@@ -448,7 +450,7 @@ class SallaSearchService {
   async searchByBarcode(
     barcode: string
   ): Promise<SallaApiResponse<SallaSearchResult[]>> {
-    return sallaApi.get('/search/barcode', {
+    return this.apiClient.get('/search/barcode', {
       params: { barcode }
     });
   }
@@ -458,7 +460,7 @@ class SallaSearchService {
     searchQuery: SallaSearchQuery,
     format: 'csv' | 'excel' | 'json' = 'csv'
   ): Promise<SallaApiResponse<{ download_url: string; expires_at: string }>> {
-    return sallaApi.post('/search/export', {
+    return this.apiClient.post('/search/export', {
       ...searchQuery,
       format
     });
@@ -474,7 +476,7 @@ class SallaSearchService {
     created_at: string;
     last_used_at?: string;
   }>>> {
-    return sallaApi.get('/search/saved', {
+    return this.apiClient.get('/search/saved', {
       params: userId ? { user_id: userId } : {}
     });
   }
@@ -484,7 +486,7 @@ class SallaSearchService {
     searchQuery: SallaSearchQuery,
     userId?: string
   ): Promise<SallaApiResponse<{ id: string; success: boolean }>> {
-    return sallaApi.post('/search/saved', {
+    return this.apiClient.post('/search/saved', {
       name,
       query: searchQuery,
       user_id: userId
@@ -494,7 +496,7 @@ class SallaSearchService {
   async deleteSavedSearch(
     searchId: string
   ): Promise<SallaApiResponse<{ success: boolean }>> {
-    return sallaApi.delete(`/search/saved/${searchId}`);
+    return this.apiClient.delete(`/search/saved/${searchId}`);
   }
 
   // Search Alerts
@@ -507,7 +509,7 @@ class SallaSearchService {
       frequency?: 'immediate' | 'daily' | 'weekly';
     }
   ): Promise<SallaApiResponse<{ id: string; success: boolean }>> {
-    return sallaApi.post('/search/alerts', {
+    return this.apiClient.post('/search/alerts', {
       query,
       filters,
       settings: alertSettings
@@ -524,7 +526,7 @@ class SallaSearchService {
     active: boolean;
     created_at: string;
   }>>> {
-    return sallaApi.get('/search/alerts', {
+    return this.apiClient.get('/search/alerts', {
       params: userId ? { user_id: userId } : {}
     });
   }
@@ -538,13 +540,13 @@ class SallaSearchService {
       active?: boolean;
     }
   ): Promise<SallaApiResponse<{ success: boolean }>> {
-    return sallaApi.put(`/search/alerts/${alertId}`, updates);
+    return this.apiClient.put(`/search/alerts/${alertId}`, updates);
   }
 
   async deleteSearchAlert(
     alertId: string
   ): Promise<SallaApiResponse<{ success: boolean }>> {
-    return sallaApi.delete(`/search/alerts/${alertId}`);
+    return this.apiClient.delete(`/search/alerts/${alertId}`);
   }
 }
 
@@ -0,0 +1,76 @@
+// Salla Server Entry
+// Import Salla services from here in API routes, server components, webhooks
+// and background jobs (never from client pages or components). Loading it
+// registers the persistent token and slug stores, so every server-side reader
+// sees the same merchant records and slugs, and the default webhook handlers,
+// and starts the webhook job queue worker.
+// The webhook event log is created on first use (getWebhookEventLog()), and
+// so are the catalog sync engine (getCatalogSync()) and the order reconciler
+// (getOrderReconciler()) unless their schedulers are enabled, and the
+// customer sync (getCustomerSync()).
+
+import path from 'path';
+import { SALLA_CONFIG } from './config';
+import { FileSlugStore, registerFileSlugStore } from './file-slug-store';
+import { FileTokenStorage } from './file-token-storage';
+import { EncryptedTokenStorage, loadTokenKeyring } from './token-crypto';
+import { getRegisteredServerTokenStorage, registerServerTokenStorage } from './token-storage';
+import { getCatalogSync } from './catalog-sync';
+import { getOrderReconciler } from './order-reconciliation';
+import { getTokenRefreshScheduler } from './token-refresh-scheduler';
+import { registerDefaultWebhookHandlers } from './webhook-handlers';
+import { getWebhookJobQueue } from './webhook-queue';
+
+if (!getRegisteredServerTokenStorage()) {
+  const fileStorage = new FileTokenStorage(path.resolve(process.cwd(), SALLA_CONFIG.tokenStore.path));
+  const keyring = loadTokenKeyring();
+  if (!keyring && process.env.NODE_ENV === 'production') {
+    console.warn('⚠️ SALLA_TOKEN_ENCRYPTION_KEYS is not set; merchant tokens are stored in plaintext');
+  }
+  registerServerTokenStorage(keyring ? new EncryptedTokenStorage(fileStorage, keyring) : fileStorage);
+}
+
+registerFileSlugStore();
+
+registerDefaultWebhookHandlers();
+
+if (SALLA_CONFIG.tokenRefreshScheduler.enabled) {
+  getTokenRefreshScheduler().start();
+}
+
+if (SALLA_CONFIG.webhookQueue.enabled) {
+  getWebhookJobQueue().start();
+}
+
+if (SALLA_CONFIG.catalogSync.scheduler) {
+  getCatalogSync().start();
+}
+
+if (SALLA_CONFIG.orderMirror.scheduler) {
+  getOrderReconciler().start();
+}
+
+export { FileTokenStorage, FileSlugStore };
+export * from './token-crypto';
+export { sallaTokenManager, SallaTokenManager, maskToken, toMaskedTokenData } from './token-manager';
+export type { MerchantTokenData, MerchantTokenStatus, TokenValidationResult } from './token-manager';
+export * from './token-storage';
+export * from './merchant-clients';
+export * from './merchant-registry';
+export * from './merchant-lifecycle';
+export * from './token-refresh-scheduler';
+export * from './oauth';
+export * from './webhooks';
+export * from './webhook-handlers';
+export * from './webhook-verification';
+export * from './webhook-event-log';
+export * from './webhook-queue';
+export * from './webhook-fixtures';
+export * from './webhook-simulator';
+export * from './catalog-mirror';
+export * from './catalog-sync';
+export * from './slug-registry';
+export * from './order-mirror';
+export * from './order-reconciliation';
+export * from './customer-mirror';
+export * from './customer-sync';
@@ -0,0 +1,152 @@
+// Salla Slug Registry
+// Stable URL slugs for products and categories. Salla addresses them by id,
+// while store-front links use a slug of the name; the registry keeps the two
+// mapped both ways. Every entity gets a unique slug (Arabic names are
+// transliterated), and a renamed entity keeps answering to its old slugs so
+// existing links can redirect to the new one. Server code persists the
+// registry through the file store registered by `services/salla/server` or
+// `registerFileSlugStore()` (kept out of this module so `fs` never reaches
+// the client bundle).
+
+import { generateSlug } from './utils';
+
+export type SlugEntity = 'product' | 'category';
+
+export interface SlugRecord {
+  entity: SlugEntity;
+  id: string;
+  slug: string;
+  // Name the slug was made from; a different name means a rename
+  name: string;
+  // Earlier slugs, oldest first; they resolve to the entity forever
+  previous: string[];
+  updatedAt: string;
+}
+
+export interface SlugRegistryData {
+  // By `${entity}:${id}`
+  records: Record<string, SlugRecord>;
+  // Current and earlier slugs by `${entity}:${slug}`, to the entity id
+  slugs: Record<string, string>;
+}
+
+export interface SlugResolution {
+  id: string;
+  // The entity's current slug
+  slug: string;
+  // The slug asked for is an earlier one
+  redirect: boolean;
+}
+
+export interface SlugStore {
+  read(): Promise<SlugRegistryData>;
+  // Atomic read-modify-write of the whole registry
+  transform(change: (data: SlugRegistryData) => SlugRegistryData): Promise<void>;
+}
+
+export const createEmptySlugRegistry = (): SlugRegistryData => ({ records: {}, slugs: {} });
+
+/**
+ * Process memory; for tests, the browser and when nothing else is registered
+ */
+export class MemorySlugStore implements SlugStore {
+  private data = createEmptySlugRegistry();
+
+  async read(): Promise<SlugRegistryData> {
+    return JSON.parse(JSON.stringify(this.data));
+  }
+
+  async transform(change: (data: SlugRegistryData) => SlugRegistryData): Promise<void> {
+    // Applied synchronously so concurrent callers can't interleave
+    this.data = change(JSON.parse(JSON.stringify(this.data)));
+  }
+}
+
+const recordKey = (entity: SlugEntity, id: string) => `${entity}:${id}`;
+const slugKey = (entity: SlugEntity, slug: string) => `${entity}:${slug}`;
+
+// First free slug for the name: "name", then "name-2", "name-3"...
+function claimSlug(data: SlugRegistryData, entity: SlugEntity, id: string, name: string): string {
+  const base = generateSlug(name) || `${entity}-${id}`;
+  for (let suffix = 1; ; suffix++) {
+    const candidate = suffix === 1 ? base : `${base}-${suffix}`;
+    const owner = data.slugs[slugKey(entity, candidate)];
+    if (owner === undefined || owner === id) return candidate;
+  }
+}
+
+export class SallaSlugRegistry {
+  constructor(private store: SlugStore) {}
+
+  /**
+   * Give entities their slugs, in one write. An entity keeps its slug until
+   * its name changes; it then gets a new one and the old one redirects.
+   * Resolves with the current slug per id.
+   */
+  async assign(entity: SlugEntity, items: Array<{ id: string | number; name: string }>): Promise<Record<string, string>> {
+    const assigned: Record<string, string> = {};
+    const now = new Date().toISOString();
+
+    await this.store.transform(data => {
+      for (const item of items) {
+        const id = String(item.id);
+        const existing = data.records[recordKey(entity, id)];
+        if (existing && existing.name === item.name) {
+          assigned[id] = existing.slug;
+          continue;
+        }
+
+        const slug = claimSlug(data, entity, id, item.name);
+        const previous = existing ? existing.previous.filter(old => old !== slug) : [];
+        if (existing && existing.slug !== slug) previous.push(existing.slug);
+
+        data.records[recordKey(entity, id)] = { entity, id, slug, name: item.name, previous, updatedAt: now };
+        data.slugs[slugKey(entity, slug)] = id;
+        assigned[id] = slug;
+      }
+      return data;
+    });
+
+    return assigned;
+  }
+
+  /**
+   * The entity a slug belongs to, current or earlier
+   */
+  async resolve(entity: SlugEntity, slug: string): Promise<SlugResolution | null> {
+    const data = await this.store.read();
+    const id = data.slugs[slugKey(entity, slug)];
+    const record = id !== undefined ? data.records[recordKey(entity, id)] : undefined;
+    if (!record) return null;
+    return { id, slug: record.slug, redirect: record.slug !== slug };
+  }
+
+  async slugFor(entity: SlugEntity, id: string | number): Promise<string | null> {
+    const data = await this.store.read();
+    return data.records[recordKey(entity, String(id))]?.slug || null;
+  }
+
+  async list(entity: SlugEntity): Promise<SlugRecord[]> {
+    const data = await this.store.read();
+    return Object.values(data.records).filter(record => record.entity === entity);
+  }
+}
+
+// Kept on globalThis so every route bundle in the process sees the same registry
+type SlugRegistryHolder = { __sallaSlugStore?: SlugStore; __sallaSlugRegistry?: SallaSlugRegistry };
+
+export function registerServerSlugStore(store: SlugStore): void {
+  const holder = globalThis as SlugRegistryHolder;
+  holder.__sallaSlugStore = store;
+  holder.__sallaSlugRegistry = new SallaSlugRegistry(store);
+}
+
+export function getRegisteredServerSlugStore(): SlugStore | undefined {
+  return (globalThis as SlugRegistryHolder).__sallaSlugStore;
+}
+
+export function getSlugRegistry(): SallaSlugRegistry {
+  const holder = globalThis as SlugRegistryHolder;
+  holder.__sallaSlugRegistry = holder.__sallaSlugRegistry || new SallaSlugRegistry(new MemorySlugStore());
+  return holder.__sallaSlugRegistry;
+}
@@ -0,0 +1,145 @@
+// Salla Sync Runs
+// Server-only: run bookkeeping shared by the jobs that walk a merchant's
+// listings (catalog sync, order reconciliation). A run is claimed before it
+// starts, so a merchant has one run going at a time across processes; a run
+// without progress for `runTimeout` is assumed interrupted. Runs are saved as
+// they progress; the newest `maxRuns` are kept, plus any still running. The
+// tracker can also repeat a job on a timer in this process.
+
+import { ListStore } from './collection-store';
+
+export type SyncRunStatus = 'running' | 'completed' | 'failed';
+
+export interface SyncRun {
+  id: string;
+  merchantId: string;
+  type: string;
+  status: SyncRunStatus;
+  errors: Array<{ message: string; at: string }>;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export interface SyncRunTrackerOptions<R extends SyncRun> {
+  store: ListStore<R>;
+  // Names the job in logs, e.g. 'Catalog sync'
+  label: string;
+  maxRuns: number;
+  runTimeout: number;
+  // Thrown when the merchant already has a run going
+  conflict: (busy: R) => Error;
+  // Error entry for a failure of the run as a whole
+  runError: (message: string, at: string) => R['errors'][number];
+  // Clears progress fields once a run ends
+  settle?: (run: R) => void;
+}
+
+export class SyncRunTracker<R extends SyncRun> {
+  // Runs in this process, per merchant
+  private inFlight = new Map<string, Promise<R>>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private options: SyncRunTrackerOptions<R>) {}
+
+  /**
+   * The run going in this process for the merchant, if any
+   */
+  running(merchantId: string): Promise<R> | undefined {
+    return this.inFlight.get(merchantId);
+  }
+
+  /**
+   * Claim the run and execute it in the background. `running()` shares the
+   * execution until it ends.
+   */
+  async launch(run: R, execute: (run: R) => Promise<R>): Promise<{ run: R; execution: Promise<R> }> {
+    await this.claim(run);
+    const execution = execute(run).finally(() => this.inFlight.delete(run.merchantId));
+    this.inFlight.set(run.merchantId, execution);
+    execution.catch(error => console.error(`❌ ${this.options.label} ${run.id} failed:`, error));
+    return { run, execution };
+  }
+
+  /**
+   * Runs, newest first
+   */
+  async list(filter: { merchantId?: string; limit?: number } = {}): Promise<R[]> {
+    const runs = (await this.options.store.getAll())
+      .filter(run => !filter.merchantId || run.merchantId === filter.merchantId)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    return filter.limit ? runs.slice(0, filter.limit) : runs;
+  }
+
+  async get(id: string): Promise<R | null> {
+    return (await this.options.store.getAll()).find(run => run.id === id) || null;
+  }
+
+  async save(run: R): Promise<void> {
+    run.updatedAt = new Date().toISOString();
+    const snapshot = JSON.parse(JSON.stringify(run));
+    await this.options.store.transform(runs => runs.map(item => (item.id === run.id ? snapshot : item)));
+  }
+
+  async finish(run: R, status: SyncRunStatus): Promise<R> {
+    run.status = status;
+    this.options.settle?.(run);
+    run.finishedAt = new Date().toISOString();
+    await this.save(run);
+    return JSON.parse(JSON.stringify(run));
+  }
+
+  /**
+   * Repeat a job on a timer in this process
+   */
+  schedule(name: string, interval: number, job: () => Promise<unknown>): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      job().catch(error => console.error(`❌ ${name} failed:`, error));
+    }, interval);
+    this.timer.unref();
+    console.log(`🔄 ${name} scheduler started (every ${Math.round(interval / 60000)} min)`);
+  }
+
+  unschedule(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  isScheduled(): boolean {
+    return Boolean(this.timer);
+  }
+
+  // Record the run unless the merchant has one going somewhere
+  private async claim(run: R): Promise<void> {
+    const now = Date.parse(run.startedAt);
+    let busy: R | undefined;
+
+    await this.options.store.transform(runs => {
+      for (const item of runs) {
+        if (item.merchantId !== run.merchantId || item.status !== 'running') continue;
+        if (now - Date.parse(item.updatedAt) <= this.options.runTimeout) {
+          busy = busy || item;
+        } else {
+          // Its process stopped without finishing
+          item.status = 'failed';
+          this.options.settle?.(item);
+          item.errors = [...item.errors, this.options.runError('Interrupted', run.startedAt)];
+          item.finishedAt = run.startedAt;
+        }
+      }
+      if (busy) return runs;
+
+      // Drop the oldest finished runs; a running one is still being saved to
+      let excess = runs.length + 1 - this.options.maxRuns;
+      return [...runs, run].filter(item => {
+        if (excess <= 0 || item.status === 'running') return true;
+        excess--;
+        return false;
+      });
+    });
+
+    if (busy) throw this.options.conflict(busy);
+    console.log(`🔄 ${this.options.label} started for merchant ${run.merchantId} (${run.type}, ${run.id})`);
+  }
+}
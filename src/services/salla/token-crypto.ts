@@ -0,0 +1,242 @@
+// Salla Token Encryption
+// Server-only envelope encryption for the token fields of merchant records.
+// Every field value gets its own random data key (AES-256-GCM); the data key
+// is wrapped with a versioned master key from SALLA_TOKEN_ENCRYPTION_KEYS.
+// Ciphertexts are bound to their merchant and field, so they can't be swapped
+// between records.
+//
+// Stored format: enc:v1:<keyVersion>:<wrappedKey>:<iv>:<tag>:<ciphertext>
+
+import crypto from 'crypto';
+import type { MerchantTokenData } from './token-manager';
+import { TokenStorageAdapter, UnreadableTokenRecord } from './token-storage';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const ENCRYPTED_FIELDS = ['accessToken', 'refreshToken'] as const;
+
+export interface TokenKeyring {
+  // Version used for new ciphertexts
+  activeVersion: string;
+  keys: Map<string, Buffer>;
+}
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, TokenEncryptionError.prototype);
+    this.name = 'TokenEncryptionError';
+  }
+}
+
+/**
+ * Read the keyring from SALLA_TOKEN_ENCRYPTION_KEYS ("2:<base64>,1:<base64>",
+ * 32-byte keys). The active version is SALLA_TOKEN_ENCRYPTION_KEY_VERSION or
+ * the first key listed. Returns null when no keys are configured.
+ */
+export function loadTokenKeyring(env: Record<string, string | undefined> = process.env): TokenKeyring | null {
+  const spec = env.SALLA_TOKEN_ENCRYPTION_KEYS;
+  if (!spec) return null;
+
+  const keys = new Map<string, Buffer>();
+  spec.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const separator = part.indexOf(':');
+    const version = part.slice(0, separator);
+    const key = Buffer.from(part.slice(separator + 1), 'base64');
+    if (separator <= 0 || key.length !== 32) {
+      throw new TokenEncryptionError(`Invalid token encryption key "${version || part}": expected <version>:<32-byte base64>`);
+    }
+    keys.set(version, key);
+  });
+
+  const activeVersion = env.SALLA_TOKEN_ENCRYPTION_KEY_VERSION || Array.from(keys.keys())[0];
+  if (!keys.has(activeVersion)) {
+    throw new TokenEncryptionError(`Active token encryption key version "${activeVersion}" is not configured`);
+  }
+  return { activeVersion, keys };
+}
+
+export function isEncryptedTokenField(value?: string): boolean {
+  return Boolean(value && value.startsWith(PREFIX));
+}
+
+export function getTokenKeyVersion(value?: string): string | null {
+  return isEncryptedTokenField(value) ? value!.slice(PREFIX.length).split(':')[0] : null;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer[] {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext];
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function encryptTokenField(plaintext: string, keyring: TokenKeyring, aad: string): string {
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = Buffer.concat(seal(keyring.keys.get(keyring.activeVersion)!, dataKey, aad));
+  const parts = seal(dataKey, Buffer.from(plaintext, 'utf8'), aad);
+
+  return PREFIX + [keyring.activeVersion, wrappedKey, ...parts]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+export function decryptTokenField(value: string, keyring: TokenKeyring, aad: string): string {
+  const [version, wrapped, iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+  const masterKey = keyring.keys.get(version);
+  if (!masterKey) {
+    throw new TokenEncryptionError(`Token was encrypted with unknown key version "${version}"`);
+  }
+
+  try {
+    const wrappedKey = Buffer.from(wrapped, 'base64');
+    const dataKey = open(masterKey, wrappedKey.subarray(0, 12), wrappedKey.subarray(12, 28), wrappedKey.subarray(28), aad);
+    return open(
+      dataKey,
+      Buffer.from(iv, 'base64'),
+      Buffer.from(tag, 'base64'),
+      Buffer.from(ciphertext, 'base64'),
+      aad
+    ).toString('utf8');
+  } catch (error) {
+    throw new TokenEncryptionError(`Failed to decrypt token (key version "${version}")`);
+  }
+}
+
+const fieldAad = (record: MerchantTokenData, field: string) => `${record.merchantId}:${field}`;
+
+export function encryptTokenRecord(record: MerchantTokenData, keyring: TokenKeyring): MerchantTokenData {
+  const encrypted = { ...record };
+  ENCRYPTED_FIELDS.forEach(field => {
+    const value = record[field];
+    if (!value) return;
+    // Re-seal with the active key, including values still under an old one
+    const plaintext = isEncryptedTokenField(value) ? decryptTokenField(value, keyring, fieldAad(record, field)) : value;
+    encrypted[field] = encryptTokenField(plaintext, keyring, fieldAad(record, field));
+  });
+  return encrypted;
+}
+
+// Plaintext values (written before encryption was enabled) pass through
+export function decryptTokenRecord(record: MerchantTokenData, keyring: TokenKeyring): MerchantTokenData {
+  const decrypted = { ...record };
+  ENCRYPTED_FIELDS.forEach(field => {
+    const value = record[field];
+    if (isEncryptedTokenField(value)) {
+      decrypted[field] = decryptTokenField(value!, keyring, fieldAad(record, field));
+    }
+  });
+  return decrypted;
+}
+
+function needsRotation(record: MerchantTokenData, keyring: TokenKeyring): boolean {
+  return ENCRYPTED_FIELDS.some(field => {
+    const value = record[field];
+    return Boolean(value) && getTokenKeyVersion(value) !== keyring.activeVersion;
+  });
+}
+
+export interface TokenRotationResult {
+  total: number;
+  reencrypted: number;
+  activeVersion: string;
+}
+
+/**
+ * Storage wrapper that encrypts token fields on write and decrypts on read
+ */
+export class EncryptedTokenStorage implements TokenStorageAdapter {
+  readonly name: string;
+
+  constructor(private inner: TokenStorageAdapter, private keyring: TokenKeyring) {
+    this.name = `encrypted(${inner.name})`;
+  }
+
+  async getAll(onUnreadable?: (record: UnreadableTokenRecord) => void): Promise<MerchantTokenData[]> {
+    const records = await this.inner.getAll(onUnreadable);
+    return this.decryptEach(records, (record, error) => {
+      console.error(`❌ Skipping the token record of merchant ${record.merchantId}:`, error.message);
+      onUnreadable?.({ merchantId: record.merchantId, error: error.message });
+    });
+  }
+
+  async get(merchantId: string): Promise<MerchantTokenData | null> {
+    const record = await this.inner.get(merchantId);
+    return record ? decryptTokenRecord(record, this.keyring) : null;
+  }
+
+  async put(record: MerchantTokenData): Promise<void> {
+    await this.inner.put(encryptTokenRecord(record, this.keyring));
+  }
+
+  async remove(merchantId: string): Promise<boolean> {
+    return this.inner.remove(merchantId);
+  }
+
+  async transform(change: (records: MerchantTokenData[]) => MerchantTokenData[]): Promise<void> {
+    // Records that can't be decrypted are written back untouched, unless the
+    // change stored a new record for their merchant
+    const apply = (records: MerchantTokenData[]) => {
+      const unreadable: MerchantTokenData[] = [];
+      const changed = change(this.decryptEach(records, record => unreadable.push(record)))
+        .map(record => encryptTokenRecord(record, this.keyring));
+      return changed.concat(unreadable.filter(record => !changed.some(item => item.merchantId === record.merchantId)));
+    };
+
+    if (this.inner.transform) {
+      await this.inner.transform(apply);
+      return;
+    }
+    const records = apply(await this.inner.getAll());
+    await Promise.all(records.map(record => this.inner.put(record)));
+  }
+
+  /**
+   * Re-encrypt every record (plaintext or under an older key) with the active key
+   */
+  async rotate(): Promise<TokenRotationResult> {
+    let total = 0;
+    let reencrypted = 0;
+    const rotate = (records: MerchantTokenData[]) => {
+      total = records.length;
+      return records.map(record => {
+        if (!needsRotation(record, this.keyring)) return record;
+        reencrypted++;
+        return encryptTokenRecord(record, this.keyring);
+      });
+    };
+
+    if (this.inner.transform) {
+      await this.inner.transform(rotate);
+    } else {
+      const records = await this.inner.getAll();
+      const rotated = rotate(records);
+      await Promise.all(rotated.filter((record, index) => record !== records[index]).map(record => this.inner.put(record)));
+    }
+
+    console.log(`✅ Re-encrypted ${reencrypted} of ${total} merchant tokens with key version ${this.keyring.activeVersion}`);
+    return { total, reencrypted, activeVersion: this.keyring.activeVersion };
+  }
+
+  private decryptEach(
+    records: MerchantTokenData[],
+    onError: (record: MerchantTokenData, error: Error) => void
+  ): MerchantTokenData[] {
+    return records.flatMap(record => {
+      try {
+        return [decryptTokenRecord(record, this.keyring)];
+      } catch (error) {
+        onError(record, error instanceof Error ? error : new Error(String(error)));
+        return [];
+      }
+    });
+  }
+}
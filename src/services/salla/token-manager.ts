@@ -1,6 +1,15 @@
 // Salla Token Manager Service
 // Manages authentication tokens received from app installation webhooks
-// Uses localStorage for browser-compatible token storage
+// Records live in a TokenStorageAdapter: localStorage in the browser, the
+// adapter registered by services/salla/server on the server
+
+import {
+  LocalStorageTokenStorage,
+  MemoryTokenStorage,
+  TokenStorageAdapter,
+  UnreadableTokenRecord,
+  getRegisteredServerTokenStorage,
+} from './token-storage';
 
 // Interface for stored merchant token data
 export interface MerchantTokenData {
@@ -16,9 +25,20 @@ export interface MerchantTokenData {
   currency: string;
   timezone: string;
   installedAt: string;
+  tokenIssuedAt?: string; // set when the access token is refreshed
   updatedAt: string;
+  // Refresh health, maintained by the token refresh scheduler
+  status?: MerchantTokenStatus;
+  refreshFailures?: number; // consecutive
+  lastRefreshError?: string;
+  lastRefreshAttemptAt?: string;
+  // Merchant-level app settings from the merchant registry (see merchant-lifecycle.ts)
+  settings?: Record<string, unknown>;
 }
 
+// 'needs_reauth': refreshing kept failing, the merchant must reinstall or re-authorize
+export type MerchantTokenStatus = 'active' | 'needs_reauth';
+
 // Interface for token validation result
 export interface TokenValidationResult {
   isValid: boolean;
@@ -28,22 +48,34 @@ export interface TokenValidationResult {
 }
 
 export class SallaTokenManager {
-  private storageKey = 'salla-merchant-tokens';
+  private storage?: TokenStorageAdapter;
+  private fallbackStorage?: TokenStorageAdapter;
 
-  constructor() {
-    // Browser-compatible token storage using localStorage
+  constructor(storage?: TokenStorageAdapter) {
+    this.storage = storage;
   }
 
-  // Save tokens to localStorage
-  private saveTokens(tokens: MerchantTokenData[]): void {
-    try {
-      if (typeof window !== 'undefined') {
-        localStorage.setItem(this.storageKey, JSON.stringify(tokens));
-      }
-    } catch (error) {
-      console.error('Failed to save tokens to localStorage:', error);
-      throw new Error('Failed to save tokens to localStorage');
+  // Use a specific adapter instead of resolving one per environment
+  setStorage(storage: TokenStorageAdapter): void {
+    this.storage = storage;
+  }
+
+  getStorage(): TokenStorageAdapter {
+    if (this.storage) return this.storage;
+
+    if (typeof window !== 'undefined') {
+      this.fallbackStorage = this.fallbackStorage || new LocalStorageTokenStorage();
+      return this.fallbackStorage;
+    }
+
+    const serverStorage = getRegisteredServerTokenStorage();
+    if (serverStorage) return serverStorage;
+
+    if (!this.fallbackStorage) {
+      console.warn('⚠️ No server token storage registered; import services/salla/server to persist tokens');
+      this.fallbackStorage = new MemoryTokenStorage();
     }
+    return this.fallbackStorage;
   }
 
   // Store merchant token data
@@ -54,18 +86,7 @@ export class SallaTokenManager {
         updatedAt: new Date().toISOString()
       };
 
-      const existingTokens = await this.getAllTokens();
-      const tokenIndex = existingTokens.findIndex(
-        token => token.merchantId === tokenData.merchantId
-      );
-      
-      if (tokenIndex >= 0) {
-        existingTokens[tokenIndex] = dataWithTimestamp;
-      } else {
-        existingTokens.push(dataWithTimestamp);
-      }
-      
-      this.saveTokens(existingTokens);
+      await this.getStorage().put(dataWithTimestamp);
       console.log(`✅ Token stored for merchant: ${tokenData.merchantId}`);
     } catch (error) {
       console.error(`❌ Failed to store token for merchant ${tokenData.merchantId}:`, error);
@@ -76,26 +97,20 @@ export class SallaTokenManager {
   // Retrieve merchant token data
   async getToken(merchantId: string): Promise<MerchantTokenData | null> {
     try {
-      const tokens = await this.getAllTokens();
-      return tokens.find(token => token.merchantId === merchantId) || null;
+      return await this.getStorage().get(merchantId);
     } catch (error) {
       console.error(`❌ Failed to retrieve token for merchant ${merchantId}:`, error);
       return null;
     }
   }
 
-  // Get all stored merchant tokens
-  async getAllTokens(): Promise<MerchantTokenData[]> {
+  // Get all stored merchant tokens; records that can't be read are skipped
+  // and passed to `onUnreadable`
+  async getAllTokens(onUnreadable?: (record: UnreadableTokenRecord) => void): Promise<MerchantTokenData[]> {
     try {
-      if (typeof window === 'undefined') {
-        // Server-side rendering - return empty array
-        return [];
-      }
-      
-      const storedTokens = localStorage.getItem(this.storageKey);
-      return storedTokens ? JSON.parse(storedTokens) : [];
+      return await this.getStorage().getAll(onUnreadable);
     } catch (error) {
-      console.error('❌ Failed to read tokens from localStorage:', error);
+      console.error(`❌ Failed to read tokens from ${this.getStorage().name} storage:`, error);
       return [];
     }
   }
@@ -113,8 +128,8 @@ export class SallaTokenManager {
       }
 
       // Calculate expiration time
-      const installedAt = new Date(tokenData.installedAt);
-      const expiresAt = new Date(installedAt.getTime() + (tokenData.expiresIn * 1000));
+      const issuedAt = new Date(tokenData.tokenIssuedAt || tokenData.installedAt);
+      const expiresAt = new Date(issuedAt.getTime() + (tokenData.expiresIn * 1000));
       const now = new Date();
       const isExpired = now > expiresAt;
       const timeUntilExpiry = expiresAt.getTime() - now.getTime();
@@ -135,10 +150,12 @@ export class SallaTokenManager {
   }
 
   // Update access token (for token refresh)
+  // Salla rotates refresh tokens, so the new refresh token must be stored as well
   async updateAccessToken(
     merchantId: string, 
     newAccessToken: string, 
-    newExpiresIn?: number
+    newExpiresIn?: number,
+    newRefreshToken?: string
   ): Promise<void> {
     try {
       const existingData = await this.getToken(merchantId);
@@ -150,8 +167,14 @@ export class SallaTokenManager {
       const updatedData: MerchantTokenData = {
         ...existingData,
         accessToken: newAccessToken,
+        refreshToken: newRefreshToken || existingData.refreshToken,
         expiresIn: newExpiresIn || existingData.expiresIn,
-        updatedAt: new Date().toISOString()
+        tokenIssuedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        status: 'active',
+        refreshFailures: 0,
+        lastRefreshError: undefined,
+        lastRefreshAttemptAt: new Date().toISOString()
       };
 
       await this.storeToken(updatedData);
@@ -162,18 +185,53 @@ export class SallaTokenManager {
     }
   }
 
+  // Record a failed refresh; marks the merchant needs_reauth after `maxFailures` in a row
+  async recordRefreshFailure(
+    merchantId: string,
+    error: string,
+    maxFailures: number
+  ): Promise<MerchantTokenData | null> {
+    const fail = (existingData: MerchantTokenData): MerchantTokenData => {
+      const refreshFailures = (existingData.refreshFailures || 0) + 1;
+      return {
+        ...existingData,
+        status: refreshFailures >= maxFailures ? 'needs_reauth' : existingData.status || 'active',
+        refreshFailures,
+        lastRefreshError: error,
+        lastRefreshAttemptAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+    };
+
+    const storage = this.getStorage();
+    if (!storage.transform) {
+      const existingData = await storage.get(merchantId);
+      if (!existingData) return null;
+      const updatedData = fail(existingData);
+      await storage.put(updatedData);
+      return updatedData;
+    }
+
+    // Counted inside the transform so concurrent failures all add up
+    let updatedData: MerchantTokenData | undefined;
+    await storage.transform(records => records.map(record => {
+      if (record.merchantId !== merchantId) return record;
+      updatedData = fail(record);
+      return updatedData;
+    }));
+    return updatedData || null;
+  }
+
   // Remove merchant token
   async removeToken(merchantId: string): Promise<void> {
     try {
-      const tokens = await this.getAllTokens();
-      const filteredTokens = tokens.filter(token => token.merchantId !== merchantId);
-      
-      if (filteredTokens.length === tokens.length) {
+      const removed = await this.getStorage().remove(merchantId);
+
+      if (!removed) {
         console.log(`ℹ️ No token found for merchant: ${merchantId}`);
         return;
       }
-      
-      this.saveTokens(filteredTokens);
+
       console.log(`✅ Token removed for merchant: ${merchantId}`);
     } catch (error) {
       console.error(`❌ Failed to remove token for merchant ${merchantId}:`, error);
@@ -206,20 +264,29 @@ export class SallaTokenManager {
     total: number;
     active: number;
     expired: number;
+    needsReauth: number;
+    // Stored but unreadable, e.g. encrypted under a key that is no longer configured
+    unreadable: UnreadableTokenRecord[];
     merchants: Array<{
       merchantId: string;
       merchantName: string;
       isActive: boolean;
       expiresAt?: Date;
       timeUntilExpiry?: string;
+      status: MerchantTokenStatus;
+      refreshFailures: number;
+      lastRefreshError?: string;
     }>;
   }> {
     try {
-      const allTokens = await this.getAllTokens();
+      const unreadable: UnreadableTokenRecord[] = [];
+      const allTokens = await this.getAllTokens(record => unreadable.push(record));
       const summary = {
-        total: allTokens.length,
+        total: allTokens.length + unreadable.length,
         active: 0,
         expired: 0,
+        needsReauth: 0,
+        unreadable,
         merchants: [] as any[]
       };
 
@@ -231,6 +298,9 @@ export class SallaTokenManager {
         } else if (validation.isExpired) {
           summary.expired++;
         }
+        if (token.status === 'needs_reauth') {
+          summary.needsReauth++;
+        }
 
         // Format time until expiry
         let timeUntilExpiry: string | undefined;
@@ -252,7 +322,10 @@ export class SallaTokenManager {
           merchantName: token.merchantName,
           isActive: validation.isValid,
           expiresAt: validation.expiresAt,
-          timeUntilExpiry
+          timeUntilExpiry,
+          status: token.status || 'active',
+          refreshFailures: token.refreshFailures || 0,
+          lastRefreshError: token.lastRefreshError
         });
       }
 
@@ -264,5 +337,27 @@ export class SallaTokenManager {
   }
 }
 
+/**
+ * Mask a credential for display, keeping only its first and last characters
+ */
+export function maskToken(token: string): string;
+export function maskToken(token?: string): string | undefined;
+export function maskToken(token?: string): string | undefined {
+  if (!token) return token;
+  if (token.length <= 12) return '•'.repeat(token.length);
+  return `${token.slice(0, 4)}••••${token.slice(-4)}`;
+}
+
+/**
+ * Copy of a record that is safe to send to dashboards and API clients
+ */
+export function toMaskedTokenData(record: MerchantTokenData): MerchantTokenData {
+  return {
+    ...record,
+    accessToken: maskToken(record.accessToken),
+    refreshToken: maskToken(record.refreshToken),
+  };
+}
+
 // Export singleton instance
-export const sallaTokenManager = new SallaTokenManager();
\ No newline at end of file
+export const sallaTokenManager = new SallaTokenManager();
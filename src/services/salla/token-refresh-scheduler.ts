@@ -0,0 +1,225 @@
+// Salla Token Refresh Scheduler
+// Scans stored merchants and refreshes their access tokens a configurable
+// window before they expire, so installed stores keep working between
+// requests. Consecutive failures are counted per merchant; after
+// `maxConsecutiveFailures` the merchant is marked `needs_reauth` and skipped
+// until it installs or authorizes again.
+
+import { SALLA_CONFIG } from './config';
+import { sallaTokenManager, MerchantTokenData } from './token-manager';
+import { UnreadableTokenRecord } from './token-storage';
+import { TokenRefresher, refreshMerchantToken } from './token-refresh';
+import { evictMerchantClient, getClientForMerchant } from './merchant-clients';
+import { SallaNotificationService, sallaNotificationService } from './notifications';
+
+export type TokenRefreshEventType = 'refresh_failed' | 'needs_reauth';
+
+export interface TokenRefreshEvent {
+  type: TokenRefreshEventType;
+  merchantId: string;
+  merchantName: string;
+  failures: number;
+  error: string;
+  expiresAt?: string;
+}
+
+export type TokenRefreshNotifier = (event: TokenRefreshEvent) => Promise<void> | void;
+
+export interface TokenRefreshRunResult {
+  startedAt: string;
+  finishedAt: string;
+  checked: number;
+  refreshed: string[];
+  failed: Array<{ merchantId: string; failures: number; error: string }>;
+  needsReauth: string[];
+  // Stored but unreadable (e.g. encrypted under a missing key); never refreshed
+  unreadable: UnreadableTokenRecord[];
+  // Not due yet, or already waiting for re-authorization
+  skipped: number;
+}
+
+export interface TokenRefreshSchedulerOptions {
+  interval?: number;
+  refreshWindow?: number;
+  maxConsecutiveFailures?: number;
+  // Builds the refresher for a merchant; defaults to its merchant client
+  getRefresher?: (merchantId: string) => Promise<TokenRefresher>;
+  notify?: TokenRefreshNotifier;
+}
+
+/**
+ * Report refresh problems through the Salla notification service
+ */
+export function notificationServiceNotifier(
+  service: SallaNotificationService = sallaNotificationService
+): TokenRefreshNotifier {
+  return async event => {
+    const needsReauth = event.type === 'needs_reauth';
+    await service.createNotification({
+      type: 'system',
+      title: needsReauth
+        ? `${event.merchantName} needs to re-authorize the app`
+        : `Token refresh failed for ${event.merchantName}`,
+      message: needsReauth
+        ? `Refreshing the access token failed ${event.failures} times in a row (${event.error}). The store stops syncing once the token expires${event.expiresAt ? ` at ${event.expiresAt}` : ''}.`
+        : `Attempt ${event.failures} failed: ${event.error}. It will be retried on the next run.`,
+      priority: needsReauth ? 'urgent' : 'high',
+      channels: needsReauth ? ['in_app', 'email'] : ['in_app'],
+      data: { ...event },
+    });
+  };
+}
+
+const defaultRefresher = async (merchantId: string): Promise<TokenRefresher> => {
+  const client = await getClientForMerchant(merchantId);
+  return refreshToken => client.refreshToken(refreshToken);
+};
+
+export class SallaTokenRefreshScheduler {
+  private options: Required<TokenRefreshSchedulerOptions>;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<TokenRefreshRunResult>;
+  private lastRun?: TokenRefreshRunResult;
+
+  constructor(options: TokenRefreshSchedulerOptions = {}) {
+    this.options = {
+      interval: SALLA_CONFIG.tokenRefreshScheduler.interval,
+      refreshWindow: SALLA_CONFIG.tokenRefreshScheduler.refreshWindow,
+      maxConsecutiveFailures: SALLA_CONFIG.tokenRefreshScheduler.maxConsecutiveFailures,
+      getRefresher: defaultRefresher,
+      notify: notificationServiceNotifier(),
+      ...options,
+    };
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('❌ Token refresh run failed:', error));
+    }, this.options.interval);
+    // Don't keep the process alive just for the timer
+    this.timer.unref();
+    console.log(`🔄 Token refresh scheduler started (every ${Math.round(this.options.interval / 60000)} min)`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  isRunning(): boolean {
+    return Boolean(this.timer);
+  }
+
+  getLastRun(): TokenRefreshRunResult | undefined {
+    return this.lastRun;
+  }
+
+  /**
+   * Scan every merchant once; overlapping calls share the same run
+   */
+  runOnce(): Promise<TokenRefreshRunResult> {
+    if (!this.running) {
+      this.running = this.scan().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async scan(): Promise<TokenRefreshRunResult> {
+    const result: TokenRefreshRunResult = {
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      checked: 0,
+      refreshed: [],
+      failed: [],
+      needsReauth: [],
+      unreadable: [],
+      skipped: 0,
+    };
+
+    const tokens = await sallaTokenManager.getAllTokens(record => result.unreadable.push(record));
+    result.checked += result.unreadable.length;
+    for (const token of tokens) {
+      result.checked++;
+      if (token.status === 'needs_reauth') {
+        result.skipped++;
+        continue;
+      }
+
+      const validation = await sallaTokenManager.validateToken(token.merchantId);
+      const due = validation.isExpired || (validation.timeUntilExpiry ?? 0) < this.options.refreshWindow;
+      if (!due) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const refresher = await this.options.getRefresher(token.merchantId);
+        await refreshMerchantToken(token.merchantId, refresher);
+        result.refreshed.push(token.merchantId);
+      } catch (error) {
+        await this.handleFailure(token, error, validation.expiresAt, result);
+      }
+    }
+
+    result.finishedAt = new Date().toISOString();
+    this.lastRun = result;
+    console.log(
+      `✅ Token refresh run: ${result.refreshed.length} refreshed, ${result.failed.length} failed, ${result.needsReauth.length} need re-auth`
+    );
+    if (result.unreadable.length > 0) {
+      console.error(`❌ ${result.unreadable.length} stored token record(s) could not be read:`, result.unreadable.map(record => record.merchantId));
+    }
+    return result;
+  }
+
+  private async handleFailure(
+    token: MerchantTokenData,
+    error: unknown,
+    expiresAt: Date | undefined,
+    result: TokenRefreshRunResult
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Failed to refresh token for merchant ${token.merchantId}:`, message);
+    // The next request builds a client from whatever token is stored then
+    evictMerchantClient(token.merchantId);
+
+    const updated = await sallaTokenManager.recordRefreshFailure(
+      token.merchantId,
+      message,
+      this.options.maxConsecutiveFailures
+    );
+    const failures = updated?.refreshFailures || 1;
+    result.failed.push({ merchantId: token.merchantId, failures, error: message });
+
+    const needsReauth = updated?.status === 'needs_reauth';
+    if (needsReauth) {
+      result.needsReauth.push(token.merchantId);
+      console.warn(`⚠️ Merchant ${token.merchantId} marked needs_reauth after ${failures} failed refreshes`);
+    }
+
+    try {
+      await this.options.notify({
+        type: needsReauth ? 'needs_reauth' : 'refresh_failed',
+        merchantId: token.merchantId,
+        merchantName: token.merchantName,
+        failures,
+        error: message,
+        expiresAt: expiresAt?.toISOString(),
+      });
+    } catch (notifyError) {
+      console.error(`❌ Failed to send token refresh notification for ${token.merchantId}:`, notifyError);
+    }
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one timer
+type SchedulerHolder = { __sallaTokenRefreshScheduler?: SallaTokenRefreshScheduler };
+
+export function getTokenRefreshScheduler(): SallaTokenRefreshScheduler {
+  const holder = globalThis as SchedulerHolder;
+  holder.__sallaTokenRefreshScheduler = holder.__sallaTokenRefreshScheduler || new SallaTokenRefreshScheduler();
+  return holder.__sallaTokenRefreshScheduler;
+}
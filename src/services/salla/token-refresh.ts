@@ -0,0 +1,108 @@
+// Salla Token Refresh
+// Refreshes merchant access tokens using their stored refresh token.
+// Concurrent refreshes for the same merchant share one request.
+
+import { sallaTokenManager } from './token-manager';
+import { SALLA_CONFIG } from './config';
+import { SallaAuthToken } from './types';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Bypass the automatic token refresh (used by the refresh request itself)
+    skipAuthRefresh?: boolean;
+    // Set once a request has been replayed after a refresh
+    authRetried?: boolean;
+  }
+}
+
+export type TokenRefresher = (refreshToken: string) => Promise<SallaAuthToken>;
+
+const refreshesInFlight = new Map<string, Promise<string>>();
+
+async function performRefresh(
+  merchantId: string,
+  refresh: TokenRefresher,
+  staleAccessToken?: string
+): Promise<string> {
+  const tokenData = await sallaTokenManager.getToken(merchantId);
+  if (!tokenData) {
+    throw new Error(`No token data found for merchant ${merchantId}`);
+  }
+
+  // Someone else already refreshed the token we were using
+  if (staleAccessToken && tokenData.accessToken !== staleAccessToken) {
+    return tokenData.accessToken;
+  }
+
+  if (!tokenData.refreshToken) {
+    throw new Error(`No refresh token stored for merchant ${merchantId}`);
+  }
+
+  let token: SallaAuthToken;
+  try {
+    token = await refresh(tokenData.refreshToken);
+  } catch (error) {
+    // Salla rotates refresh tokens: a used one is rejected. If another process
+    // rotated it in the meantime, the store already holds the new pair.
+    const latest = await sallaTokenManager.getToken(merchantId);
+    if (latest && latest.refreshToken !== tokenData.refreshToken) {
+      return latest.accessToken;
+    }
+    throw error;
+  }
+
+  if (!token?.access_token) {
+    throw new Error(`Invalid token refresh response for merchant ${merchantId}`);
+  }
+
+  await sallaTokenManager.updateAccessToken(
+    merchantId,
+    token.access_token,
+    token.expires_in,
+    token.refresh_token
+  );
+  console.log(`🔄 Access token refreshed for merchant: ${merchantId}`);
+
+  return token.access_token;
+}
+
+/**
+ * Refresh a merchant's access token, deduplicating concurrent refreshes
+ */
+export function refreshMerchantToken(
+  merchantId: string,
+  refresh: TokenRefresher,
+  staleAccessToken?: string
+): Promise<string> {
+  const inFlight = refreshesInFlight.get(merchantId);
+  if (inFlight) return inFlight;
+
+  const promise = performRefresh(merchantId, refresh, staleAccessToken).finally(() => {
+    refreshesInFlight.delete(merchantId);
+  });
+  refreshesInFlight.set(merchantId, promise);
+  return promise;
+}
+
+/**
+ * Return a usable access token for a merchant, refreshing it when it is
+ * expired or about to expire. Returns null when no token is stored.
+ */
+export async function getFreshAccessToken(
+  merchantId: string,
+  refresh: TokenRefresher,
+  threshold: number = SALLA_CONFIG.tokenRefreshThreshold
+): Promise<string | null> {
+  const validation = await sallaTokenManager.validateToken(merchantId);
+
+  if (!validation.isValid && !validation.isExpired) {
+    return null;
+  }
+
+  if (validation.isExpired || (validation.timeUntilExpiry ?? 0) < threshold) {
+    return refreshMerchantToken(merchantId, refresh);
+  }
+
+  const tokenData = await sallaTokenManager.getToken(merchantId);
+  return tokenData?.accessToken || null;
+}
@@ -0,0 +1,106 @@
+// Salla Token Storage Adapters
+// Where SallaTokenManager keeps merchant records. The browser adapter backs
+// the demo pages; server code persists through the file adapter registered by
+// `services/salla/server` (kept out of this module so `fs` never reaches the
+// client bundle).
+
+import type { MerchantTokenData } from './token-manager';
+
+// A stored record that can't be read back, e.g. encrypted under a missing key
+export interface UnreadableTokenRecord {
+  merchantId: string;
+  error: string;
+}
+
+export interface TokenStorageAdapter {
+  readonly name: string;
+  // Unreadable records are skipped and passed to `onUnreadable`, one by one
+  getAll(onUnreadable?: (record: UnreadableTokenRecord) => void): Promise<MerchantTokenData[]>;
+  get(merchantId: string): Promise<MerchantTokenData | null>;
+  // Insert or replace the record for `record.merchantId`
+  put(record: MerchantTokenData): Promise<void>;
+  // Resolves false when there was nothing to remove
+  remove(merchantId: string): Promise<boolean>;
+  // Optional atomic read-modify-write over every record
+  transform?(change: (records: MerchantTokenData[]) => MerchantTokenData[]): Promise<void>;
+}
+
+/**
+ * Browser storage, shared by the tabs of one browser only
+ */
+export class LocalStorageTokenStorage implements TokenStorageAdapter {
+  readonly name = 'localStorage';
+
+  constructor(private storageKey = 'salla-merchant-tokens') {}
+
+  async getAll(): Promise<MerchantTokenData[]> {
+    const storedTokens = localStorage.getItem(this.storageKey);
+    return storedTokens ? JSON.parse(storedTokens) : [];
+  }
+
+  async get(merchantId: string): Promise<MerchantTokenData | null> {
+    const tokens = await this.getAll();
+    return tokens.find(token => token.merchantId === merchantId) || null;
+  }
+
+  async put(record: MerchantTokenData): Promise<void> {
+    const tokens = await this.getAll();
+    const index = tokens.findIndex(token => token.merchantId === record.merchantId);
+    if (index >= 0) {
+      tokens[index] = record;
+    } else {
+      tokens.push(record);
+    }
+    localStorage.setItem(this.storageKey, JSON.stringify(tokens));
+  }
+
+  async remove(merchantId: string): Promise<boolean> {
+    const tokens = await this.getAll();
+    const remaining = tokens.filter(token => token.merchantId !== merchantId);
+    if (remaining.length === tokens.length) return false;
+
+    localStorage.setItem(this.storageKey, JSON.stringify(remaining));
+    return true;
+  }
+}
+
+/**
+ * Process memory; for tests and as the fallback when nothing else is configured
+ */
+export class MemoryTokenStorage implements TokenStorageAdapter {
+  readonly name = 'memory';
+  private records = new Map<string, MerchantTokenData>();
+
+  async getAll(): Promise<MerchantTokenData[]> {
+    return Array.from(this.records.values()).map(record => ({ ...record }));
+  }
+
+  async get(merchantId: string): Promise<MerchantTokenData | null> {
+    const record = this.records.get(merchantId);
+    return record ? { ...record } : null;
+  }
+
+  async put(record: MerchantTokenData): Promise<void> {
+    this.records.set(record.merchantId, { ...record });
+  }
+
+  async remove(merchantId: string): Promise<boolean> {
+    return this.records.delete(merchantId);
+  }
+
+  async transform(change: (records: MerchantTokenData[]) => MerchantTokenData[]): Promise<void> {
+    const records = change(Array.from(this.records.values()).map(record => ({ ...record })));
+    this.records = new Map(records.map(record => [record.merchantId, { ...record }]));
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process sees the same adapter
+type StorageHolder = { __sallaTokenStorage?: TokenStorageAdapter };
+
+export function registerServerTokenStorage(storage: TokenStorageAdapter): void {
+  (globalThis as StorageHolder).__sallaTokenStorage = storage;
+}
+
+export function getRegisteredServerTokenStorage(): TokenStorageAdapter | undefined {
+  return (globalThis as StorageHolder).__sallaTokenStorage;
+}
@@ -19,6 +19,13 @@ export interface SallaPagination {
   itemsPerPage: number;
   hasNextPage: boolean;
   hasPreviousPage: boolean;
+  cursor?: SallaPaginationCursor; // present on cursor-paginated endpoints
+}
+
+export interface SallaPaginationCursor {
+  current?: string;
+  previous?: string;
+  next?: string;
 }
 
 // Product Types
@@ -176,6 +183,9 @@ export interface SallaCustomer {
   last_name: string;
   email: string;
   phone?: string;
+  // Merchant API: the phone as a number and its country code
+  mobile?: string | number;
+  mobile_code?: string;
   avatar?: string;
   date_of_birth?: string;
   gender?: 'male' | 'female';
@@ -9,6 +9,7 @@ import {
   SallaWishlistItem,
 } from './types';
 import { transformUserToBazaarFormat } from './utils';
+import { toSallaError } from './errors';
 
 // User profile interfaces
 export interface UserProfileRequest {
@@ -127,12 +128,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Profile retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get user profile',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get user profile');
     }
   }
 
@@ -161,12 +158,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Profile updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update profile',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update profile');
     }
   }
 
@@ -186,12 +179,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Avatar uploaded successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to upload avatar',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to upload avatar');
     }
   }
 
@@ -202,12 +191,8 @@ export class SallaUserService {
         success: true,
         message: 'Avatar deleted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete avatar',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to delete avatar');
     }
   }
 
@@ -224,12 +209,8 @@ export class SallaUserService {
         pagination: response.data.pagination,
         message: 'Addresses retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get addresses',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get addresses');
     }
   }
 
@@ -241,12 +222,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Address retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get address',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get address');
     }
   }
 
@@ -258,12 +235,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Address created successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to create address',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to create address');
     }
   }
 
@@ -275,12 +248,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Address updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update address',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update address');
     }
   }
 
@@ -291,12 +260,8 @@ export class SallaUserService {
         success: true,
         message: 'Address deleted successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to delete address',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to delete address');
     }
   }
 
@@ -308,12 +273,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Default address set successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to set default address',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to set default address');
     }
   }
 
@@ -330,12 +291,8 @@ export class SallaUserService {
         pagination: response.data.pagination,
         message: 'Wishlist retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get wishlist',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get wishlist');
     }
   }
 
@@ -346,12 +303,8 @@ export class SallaUserService {
         success: true,
         message: 'Product added to wishlist',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to add to wishlist',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to add to wishlist');
     }
   }
 
@@ -362,12 +315,8 @@ export class SallaUserService {
         success: true,
         message: 'Product removed from wishlist',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to remove from wishlist',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to remove from wishlist');
     }
   }
 
@@ -378,12 +327,8 @@ export class SallaUserService {
         success: true,
         message: 'Wishlist cleared successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to clear wishlist',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to clear wishlist');
     }
   }
 
@@ -401,12 +346,8 @@ export class SallaUserService {
         pagination: response.data.pagination,
         message: 'Orders retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get orders',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get orders');
     }
   }
 
@@ -418,12 +359,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Order retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get order',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get order');
     }
   }
 
@@ -440,12 +377,8 @@ export class SallaUserService {
         pagination: response.data.pagination,
         message: 'Notifications retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get notifications',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get notifications');
     }
   }
 
@@ -456,12 +389,8 @@ export class SallaUserService {
         success: true,
         message: 'Notification marked as read',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to mark notification as read',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to mark notification as read');
     }
   }
 
@@ -472,12 +401,8 @@ export class SallaUserService {
         success: true,
         message: 'All notifications marked as read',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to mark all notifications as read',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to mark all notifications as read');
     }
   }
 
@@ -490,12 +415,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Preferences retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get preferences',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get preferences');
     }
   }
 
@@ -507,12 +428,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Preferences updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update preferences',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update preferences');
     }
   }
 
@@ -524,12 +441,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Notification settings retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get notification settings',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get notification settings');
     }
   }
 
@@ -541,12 +454,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Notification settings updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update notification settings',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update notification settings');
     }
   }
 
@@ -558,12 +467,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Privacy settings retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get privacy settings',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get privacy settings');
     }
   }
 
@@ -575,12 +480,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Privacy settings updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update privacy settings',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update privacy settings');
     }
   }
 
@@ -592,12 +493,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Account settings retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get account settings',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get account settings');
     }
   }
 
@@ -609,12 +506,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Account settings updated successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to update account settings',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to update account settings');
     }
   }
 
@@ -626,12 +519,8 @@ export class SallaUserService {
         success: true,
         message: 'Password changed successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to change password',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to change password');
     }
   }
 
@@ -647,12 +536,8 @@ export class SallaUserService {
         pagination: response.data.pagination,
         message: 'Security log retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get security log',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get security log');
     }
   }
 
@@ -664,12 +549,8 @@ export class SallaUserService {
         success: true,
         message: 'Account deletion requested successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to request account deletion',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to request account deletion');
     }
   }
 
@@ -680,12 +561,8 @@ export class SallaUserService {
         success: true,
         message: 'Account deletion cancelled successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to cancel account deletion',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to cancel account deletion');
     }
   }
 
@@ -698,12 +575,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Data export requested successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to request data export',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to request data export');
     }
   }
 
@@ -715,12 +588,8 @@ export class SallaUserService {
         data: response.data.data,
         message: 'Export status retrieved successfully',
       };
-    } catch (error: any) {
-      return {
-        success: false,
-        message: error.response?.data?.message || 'Failed to get export status',
-        errors: error.response?.data?.errors,
-      };
+    } catch (error) {
+      throw toSallaError(error, 'Failed to get export status');
     }
   }
 }
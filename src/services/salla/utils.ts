@@ -10,17 +10,20 @@ import {
   SallaImage,
   SallaPrice,
 } from './types';
+import { normalizeSallaProduct } from './validation';
 
 // Import existing Bazaar types
 import { Product } from '../../models/Product.model';
 import { Category } from '../../models/Category.model';
-import { Order } from '../../models/Order.model';
+import Order from '../../models/Order.model';
 import { User } from '../../models/User.model';
 
 /**
  * Transform Salla Product to Bazaar Product format
+ * Missing arrays and ratings are defaulted so partial payloads don't crash the mapping
  */
-export function transformSallaProductToBazaar(sallaProduct: SallaProduct): Product {
+export function transformSallaProductToBazaar(product: SallaProduct): Product {
+  const sallaProduct = normalizeSallaProduct(product);
   return {
     id: sallaProduct.id,
     title: sallaProduct.name,
@@ -111,32 +114,58 @@ export function transformSallaCartToBazaar(sallaCart: SallaCart) {
   };
 }
 
+// Salla status keys by the Bazaar status they show as; anything else is Pending
+const BAZAAR_ORDER_STATUS: Record<string, Order['status']> = {
+  in_progress: 'Processing',
+  shipped: 'Processing',
+  delivering: 'Processing',
+  delivered: 'Delivered',
+  completed: 'Delivered',
+  canceled: 'Cancelled',
+  cancelled: 'Cancelled',
+  restored: 'Cancelled',
+  refunded: 'Cancelled',
+};
+
 /**
- * Transform Salla Order to Bazaar Order format
+ * Transform Salla Order to Bazaar Order format. Mirrored orders may come from
+ * partial webhook payloads, so missing fields fall back to empty values.
  */
 export function transformSallaOrderToBazaar(sallaOrder: SallaOrder): Order {
+  const status = BAZAAR_ORDER_STATUS[sallaOrder.status?.key] || 'Pending';
+  const customer = sallaOrder.customer || ({} as SallaCustomer);
+  const address = sallaOrder.shipping_address;
+
   return {
-    id: sallaOrder.id,
-    orderNo: sallaOrder.order_number,
-    status: sallaOrder.status.name,
-    purchaseDate: sallaOrder.created_at,
-    price: sallaOrder.totals.total.amount,
-    items: sallaOrder.items.map(item => ({
-      id: item.id,
-      name: item.product.name,
-      price: item.price.amount,
-      quantity: item.quantity,
-      image: item.product.images.find(img => img.is_main)?.url || item.product.images[0]?.url || '',
-    })),
-    shippingAddress: {
-      name: `${sallaOrder.shipping_address.first_name} ${sallaOrder.shipping_address.last_name}`,
-      phone: sallaOrder.shipping_address.phone || '',
-      email: sallaOrder.customer.email,
-      address: `${sallaOrder.shipping_address.address_line_1}, ${sallaOrder.shipping_address.city}, ${sallaOrder.shipping_address.state} ${sallaOrder.shipping_address.postal_code}`,
-      country: sallaOrder.shipping_address.country,
+    id: String(sallaOrder.id),
+    user: {
+      id: String(customer.id || ''),
+      email: customer.email || '',
+      phone: customer.phone || '',
+      avatar: customer.avatar || '',
+      password: '',
+      dateOfBirth: customer.date_of_birth || '',
+      verified: false,
+      name: { firstName: customer.first_name || '', lastName: customer.last_name || '' },
     },
-    paymentMethod: sallaOrder.payment_method,
-    shippingMethod: sallaOrder.shipping_method,
+    tax: sallaOrder.totals?.tax?.amount || 0,
+    items: (sallaOrder.items || []).map(item => ({
+      product_img: item.product?.images?.find(img => img.is_main)?.url || item.product?.images?.[0]?.url || '',
+      product_name: item.product?.name || '',
+      product_price: item.price?.amount || 0,
+      product_quantity: item.quantity,
+    })),
+    createdAt: new Date(sallaOrder.created_at),
+    discount: sallaOrder.totals?.discount?.amount || 0,
+    deliveredAt: new Date(sallaOrder.updated_at || sallaOrder.created_at),
+    totalPrice: sallaOrder.totals?.total?.amount || 0,
+    isDelivered: status === 'Delivered',
+    shippingAddress: address
+      ? [address.address_line_1, address.address_line_2, address.city, address.state, address.postal_code, address.country]
+          .filter(Boolean)
+          .join(', ')
+      : '',
+    status,
   };
 }
 
@@ -171,11 +200,33 @@ export function transformSallaCustomerToBazaar(sallaCustomer: SallaCustomer): Us
   };
 }
 
+// Letters without a Latin counterpart map to '', so "ء" and "ع" leave no trace
+const ARABIC_LETTERS: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'aa', 'ء': '', 'ؤ': 'u', 'ئ': 'i',
+  'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh', 'د': 'd',
+  'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd',
+  'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k',
+  'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'ة': 'a', 'و': 'w', 'ي': 'y', 'ى': 'a',
+};
+
 /**
- * Generate URL-friendly slug from string
+ * Spell Arabic text with Latin letters (and Arabic-Indic digits as 0-9)
  */
-export function generateSlug(text: string): string {
+export function transliterateArabic(text: string): string {
   return text
+    .replace(/[\u064B-\u0652\u0640]/g, '') // Remove diacritics and tatweel
+    .replace(/[\u0660-\u0669]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u06F0-\u06F9]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+    .replace(/[\u0621-\u064A]/g, letter => ARABIC_LETTERS[letter] ?? '');
+}
+
+/**
+ * Generate URL-friendly slug from string; Arabic is transliterated
+ */
+export function generateSlug(text: string): string {
+  return transliterateArabic(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
     .toLowerCase()
     .replace(/[^\w\s-]/g, '') // Remove special characters
     .replace(/[\s_-]+/g, '-') // Replace spaces and underscores with hyphens
@@ -189,6 +240,13 @@ export function formatPrice(price: SallaPrice): string {
   return price.formatted || `${price.amount} ${price.currency}`;
 }
 
+/**
+ * Milliseconds of a timestamp; missing or unreadable ones compare as oldest
+ */
+export function timeOf(value?: string): number {
+  return value ? Date.parse(value) || 0 : 0;
+}
+
 /**
  * Calculate discount percentage
  */
@@ -0,0 +1,77 @@
+// Salla Response Validation
+// Validates and normalizes payloads against the schemas in schemas.ts.
+// Strict mode throws on invalid payloads (tests), lenient mode logs and
+// returns the best-effort normalized value (production).
+
+import * as yup from 'yup';
+import { SALLA_CONFIG } from './config';
+import { SALLA_SCHEMAS } from './schemas';
+import { SallaError } from './errors';
+import { SallaProduct } from './types';
+
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Salla answered 2xx with a payload we can't use
+export class SallaResponseValidationError extends SallaError {
+  public readonly endpoint: string;
+  public readonly issues: ValidationIssue[];
+
+  constructor(endpoint: string, issues: ValidationIssue[]) {
+    super(
+      `Invalid Salla response from ${endpoint}: ` +
+      issues.map(issue => `${issue.path || '(root)'} ${issue.message}`).join('; '),
+      'INVALID_RESPONSE',
+      502,
+      issues
+    );
+    this.name = 'SallaResponseValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+function toIssues(error: yup.ValidationError): ValidationIssue[] {
+  const errors = error.inner.length > 0 ? error.inner : [error];
+  return errors.map(inner => ({
+    path: inner.path || '',
+    message: inner.message,
+  }));
+}
+
+/**
+ * Validate a payload and return the normalized (coerced and defaulted) value
+ */
+export function validateSallaPayload<T>(
+  schema: yup.Schema<T>,
+  data: unknown,
+  endpoint: string,
+  mode: ValidationMode = SALLA_CONFIG.validationMode
+): T {
+  if (mode === 'off') return data as T;
+
+  try {
+    return schema.validateSync(data, { abortEarly: false }) as T;
+  } catch (error) {
+    if (!(error instanceof yup.ValidationError)) throw error;
+
+    const validationError = new SallaResponseValidationError(endpoint, toIssues(error));
+    if (mode === 'strict') {
+      throw validationError;
+    }
+
+    console.warn(`⚠️ ${validationError.message}`);
+    return schema.cast(data, { assert: false }) as T;
+  }
+}
+
+/**
+ * Fill the gaps of a product payload without validating it
+ */
+export function normalizeSallaProduct(product: unknown): SallaProduct {
+  return SALLA_SCHEMAS.product.cast(product, { assert: false }) as SallaProduct;
+}
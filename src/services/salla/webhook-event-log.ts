@@ -0,0 +1,380 @@
+// Salla Webhook Event Log
+// Server-only: records every received webhook event so retried deliveries
+// run their handlers once. Events are keyed by Salla's delivery id, or by a
+// hash of the raw body when there is none. A delivery that arrives while the
+// same event is queued, processing or after it succeeded is acknowledged
+// without dispatching; a failed event runs again on redelivery, skipping the
+// handlers that already completed. Logged events can be replayed against the
+// current handlers from the webhook manager.
+
+import crypto from 'crypto';
+import path from 'path';
+import { ListStore, MemoryListStore } from './collection-store';
+import { SALLA_CONFIG, HTTP_STATUS } from './config';
+import { SallaError } from './errors';
+import { FileListStore } from './json-file-store';
+import { maskToken } from './token-manager';
+import {
+  SallaWebhookDispatchResult,
+  SallaWebhookEnvelope,
+  SallaWebhookPayload,
+  SallaWebhookRegistry,
+  sallaWebhookRegistry,
+} from './webhooks';
+
+type StoredWebhookPayload = SallaWebhookPayload | SallaWebhookEnvelope;
+
+export type WebhookEventStatus = 'queued' | 'processing' | 'processed' | 'failed';
+
+export interface WebhookEventRecord {
+  id: string;
+  deliveryId?: string;
+  event: string;
+  merchant: string;
+  payload: StoredWebhookPayload;
+  status: WebhookEventStatus;
+  attempts: number;
+  // Handlers that completed on the last attempt
+  handled?: number;
+  // Keys of the handlers completed so far (see SallaWebhookDispatchResult);
+  // retrying a failed event only runs the others
+  completedHandlers?: string[];
+  lastError?: string;
+  // Deliveries acknowledged without running the handlers again
+  duplicates: number;
+  // Credentials were masked before storing, so the event can't be replayed
+  redacted?: boolean;
+  receivedAt: string;
+  lastReceivedAt: string;
+  updatedAt: string;
+  processedAt?: string;
+}
+
+export interface WebhookEventFilter {
+  event?: string;
+  status?: WebhookEventStatus;
+  merchant?: string;
+  // ISO timestamps, matched against receivedAt (inclusive)
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export type WebhookEventStore = ListStore<WebhookEventRecord>;
+
+export class MemoryWebhookEventStore extends MemoryListStore<WebhookEventRecord> {}
+
+export class FileWebhookEventStore extends FileListStore<WebhookEventRecord> {}
+
+export interface WebhookReceiveResult {
+  record: WebhookEventRecord;
+  // True when the handlers did not run because the event was already handled, queued or in progress
+  duplicate: boolean;
+  // Missing when the event was queued instead of dispatched
+  result?: SallaWebhookDispatchResult;
+}
+
+export interface WebhookEventLogOptions {
+  store?: WebhookEventStore;
+  registry?: SallaWebhookRegistry;
+  maxEntries?: number;
+  processingTimeout?: number;
+}
+
+const SENSITIVE_FIELDS = ['access_token', 'refresh_token'];
+
+/**
+ * Log key of a delivery: Salla's delivery id, or a hash of the raw body
+ */
+export function getWebhookEventId(rawBody: Buffer | string, deliveryId?: string): string {
+  if (deliveryId) return deliveryId;
+  return `sha256:${crypto.createHash('sha256').update(rawBody).digest('hex')}`;
+}
+
+// app.store.authorize sends the merchant object instead of its id
+function merchantIdOf(payload: StoredWebhookPayload): string {
+  const merchant = payload.merchant;
+  return String((typeof merchant === 'object' && merchant ? merchant.id : merchant) ?? '');
+}
+
+// app.store.authorize carries merchant tokens; those are only kept in the token store
+function redactPayload(payload: StoredWebhookPayload): { payload: StoredWebhookPayload; redacted: boolean } {
+  const data: any = payload.data;
+  if (!data || typeof data !== 'object' || !SENSITIVE_FIELDS.some(field => field in data)) {
+    return { payload, redacted: false };
+  }
+  const masked = { ...data };
+  for (const field of SENSITIVE_FIELDS) {
+    if (field in masked) masked[field] = maskToken(masked[field]);
+  }
+  return { payload: { ...payload, data: masked } as StoredWebhookPayload, redacted: true };
+}
+
+export class SallaWebhookEventLog {
+  private store: WebhookEventStore;
+  private registry: SallaWebhookRegistry;
+  private maxEntries: number;
+  private processingTimeout: number;
+
+  constructor(options: WebhookEventLogOptions = {}) {
+    this.store = options.store || new MemoryWebhookEventStore();
+    this.registry = options.registry || sallaWebhookRegistry;
+    this.maxEntries = options.maxEntries ?? SALLA_CONFIG.webhookEvents.maxEntries;
+    this.processingTimeout = options.processingTimeout ?? SALLA_CONFIG.webhookEvents.processingTimeout;
+  }
+
+  /**
+   * Log a verified delivery and run its handlers unless the event was
+   * already processed, is being processed right now or is queued. With
+   * `defer`, the event is only marked queued and the caller schedules
+   * run(); events carrying credentials always run inline, since their
+   * stored copy is redacted.
+   */
+  async receive(
+    payload: StoredWebhookPayload,
+    delivery: { rawBody: Buffer | string; deliveryId?: string },
+    options: { defer?: boolean } = {}
+  ): Promise<WebhookReceiveResult> {
+    const id = getWebhookEventId(delivery.rawBody, delivery.deliveryId);
+    const now = new Date().toISOString();
+    let claimed: WebhookEventRecord | undefined;
+    let existing: WebhookEventRecord | undefined;
+
+    await this.store.transform(records => {
+      const record = records.find(item => item.id === id);
+      if (!record) {
+        const stored = redactPayload(payload);
+        const defer = options.defer && !stored.redacted;
+        claimed = {
+          id,
+          deliveryId: delivery.deliveryId,
+          event: payload.event,
+          merchant: merchantIdOf(payload),
+          payload: stored.payload,
+          redacted: stored.redacted || undefined,
+          status: defer ? 'queued' : 'processing',
+          attempts: defer ? 0 : 1,
+          duplicates: 0,
+          receivedAt: now,
+          lastReceivedAt: now,
+          updatedAt: now,
+        };
+        return this.prune([...records, claimed]);
+      }
+
+      record.lastReceivedAt = now;
+      if (!this.isClaimable(record)) {
+        record.duplicates++;
+        existing = { ...record };
+      } else if (options.defer && !record.redacted) {
+        record.status = 'queued';
+        record.updatedAt = now;
+        claimed = { ...record };
+      } else {
+        // Failed, or a crashed attempt: let this delivery retry it
+        record.status = 'processing';
+        record.attempts++;
+        record.updatedAt = now;
+        claimed = { ...record };
+      }
+      return records;
+    });
+
+    if (!claimed) {
+      console.log(`🔄 Duplicate Salla webhook ${payload.event} (${id}) acknowledged without processing`);
+      return { record: existing as WebhookEventRecord, duplicate: true };
+    }
+    if (claimed.status === 'queued') {
+      return { record: claimed, duplicate: false };
+    }
+
+    // Handlers get the original payload; the stored copy may be redacted
+    return this.process(claimed, payload, false);
+  }
+
+  /**
+   * Run a queued or failed event from its stored payload. Resolves as a
+   * duplicate when the event was processed in the meantime.
+   */
+  async run(id: string): Promise<WebhookReceiveResult> {
+    return this.claimAndProcess(id, false);
+  }
+
+  /**
+   * Run a logged event again against the current handlers
+   */
+  async replay(id: string): Promise<WebhookReceiveResult> {
+    return this.claimAndProcess(id, true);
+  }
+
+  /**
+   * Replay every replayable event matching the filter, oldest first
+   */
+  async replayRange(filter: WebhookEventFilter): Promise<WebhookReceiveResult[]> {
+    const records = (await this.list({ ...filter, limit: undefined }))
+      .filter(record => !record.redacted)
+      .reverse();
+    const results: WebhookReceiveResult[] = [];
+
+    for (const record of records) {
+      try {
+        results.push(await this.replay(record.id));
+      } catch (error) {
+        // Still processing or pruned in the meantime
+        console.warn(`⚠️ Skipped replay of ${record.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Mark queued events as failed without running them, e.g. when their jobs
+   * were cancelled. They can still be replayed later.
+   */
+  async cancel(ids: string[], reason: string): Promise<number> {
+    const cancelled = new Set(ids);
+    const now = new Date().toISOString();
+    let count = 0;
+    await this.store.transform(records => records.map(record => {
+      if (!cancelled.has(record.id) || record.status !== 'queued') return record;
+      count++;
+      return { ...record, status: 'failed', lastError: reason, updatedAt: now };
+    }));
+    return count;
+  }
+
+  /**
+   * Logged events, newest first
+   */
+  async list(filter: WebhookEventFilter = {}): Promise<WebhookEventRecord[]> {
+    const records = (await this.store.getAll())
+      .filter(record =>
+        (!filter.event || record.event === filter.event) &&
+        (!filter.status || record.status === filter.status) &&
+        (!filter.merchant || record.merchant === filter.merchant) &&
+        (!filter.from || record.receivedAt >= filter.from) &&
+        (!filter.to || record.receivedAt <= filter.to)
+      )
+      .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+    return filter.limit ? records.slice(0, filter.limit) : records;
+  }
+
+  async get(id: string): Promise<WebhookEventRecord | null> {
+    return (await this.store.getAll()).find(record => record.id === id) || null;
+  }
+
+  private async claimAndProcess(id: string, replay: boolean): Promise<WebhookReceiveResult> {
+    let claimed: WebhookEventRecord | undefined;
+    let processed: WebhookEventRecord | undefined;
+    let problem: SallaError | undefined;
+
+    await this.store.transform(records => {
+      const record = records.find(item => item.id === id);
+      if (!record) {
+        problem = new SallaError(`Webhook event ${id} not found`, 'WEBHOOK_EVENT_NOT_FOUND', HTTP_STATUS.NOT_FOUND);
+      } else if (record.redacted) {
+        problem = new SallaError(`Webhook event ${id} contained credentials and can't be replayed`, 'WEBHOOK_EVENT_REDACTED', HTTP_STATUS.CONFLICT);
+      } else if (record.status === 'processing' && !this.isStale(record)) {
+        problem = new SallaError(`Webhook event ${id} is still processing`, 'WEBHOOK_EVENT_IN_PROGRESS', HTTP_STATUS.CONFLICT);
+      } else if (record.status === 'processed' && !replay) {
+        processed = { ...record };
+      } else {
+        // Replaying a processed event runs every handler again
+        if (record.status === 'processed') record.completedHandlers = undefined;
+        record.status = 'processing';
+        record.attempts++;
+        record.updatedAt = new Date().toISOString();
+        claimed = { ...record };
+      }
+      return records;
+    });
+
+    if (problem) throw problem;
+    if (processed) return { record: processed, duplicate: true };
+
+    const record = claimed as WebhookEventRecord;
+    if (replay) console.log(`🔄 Replaying Salla webhook ${record.event} (${record.id})`);
+    return this.process(record, record.payload, replay);
+  }
+
+  private async process(
+    record: WebhookEventRecord,
+    payload: StoredWebhookPayload,
+    replay: boolean
+  ): Promise<WebhookReceiveResult> {
+    let result: SallaWebhookDispatchResult;
+    try {
+      result = await this.registry.dispatch(payload, {
+        receivedAt: record.receivedAt,
+        deliveryId: record.deliveryId,
+        eventId: record.id,
+        attempt: record.attempts,
+        replay,
+      }, { skip: record.completedHandlers });
+    } catch (error) {
+      result = {
+        event: payload.event,
+        handled: 0,
+        completed: [],
+        skipped: 0,
+        errors: [{ handler: 'dispatch', error: error instanceof Error ? error.message : String(error) }],
+      };
+    }
+
+    const failed = result.errors.length > 0;
+    const now = new Date().toISOString();
+    let updated: WebhookEventRecord = record;
+    await this.store.transform(records => records.map(item => {
+      if (item.id !== record.id) return item;
+      updated = {
+        ...item,
+        status: failed ? 'failed' : 'processed',
+        handled: result.handled,
+        completedHandlers: [...(record.completedHandlers || []), ...result.completed],
+        lastError: failed ? result.errors.map(entry => `${entry.handler}: ${entry.error}`).join('; ') : undefined,
+        updatedAt: now,
+        processedAt: failed ? item.processedAt : now,
+      };
+      return updated;
+    }));
+
+    return { record: updated, duplicate: false, result };
+  }
+
+  // Whether a new delivery may (re)start the event: not done, and not queued
+  // or running unless that attempt looks abandoned
+  private isClaimable(record: WebhookEventRecord): boolean {
+    if (record.status === 'failed') return true;
+    return (record.status === 'processing' || record.status === 'queued') && this.isStale(record);
+  }
+
+  private isStale(record: WebhookEventRecord): boolean {
+    return Date.now() - Date.parse(record.updatedAt) > this.processingTimeout;
+  }
+
+  // Drop the oldest finished events once the log is over its limit
+  private prune(records: WebhookEventRecord[]): WebhookEventRecord[] {
+    const excess = records.length - this.maxEntries;
+    if (excess <= 0) return records;
+
+    const removable = new Set(
+      records
+        .filter(record => record.status === 'processed' || record.status === 'failed')
+        .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt))
+        .slice(0, excess)
+        .map(record => record.id)
+    );
+    return records.filter(record => !removable.has(record.id));
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one log
+type EventLogHolder = { __sallaWebhookEventLog?: SallaWebhookEventLog };
+
+export function getWebhookEventLog(): SallaWebhookEventLog {
+  const holder = globalThis as EventLogHolder;
+  holder.__sallaWebhookEventLog = holder.__sallaWebhookEventLog || new SallaWebhookEventLog({
+    store: new FileWebhookEventStore(path.resolve(process.cwd(), SALLA_CONFIG.webhookEvents.path)),
+  });
+  return holder.__sallaWebhookEventLog;
+}
@@ -0,0 +1,379 @@
+// Salla Webhook Fixtures
+// Realistic payloads for every webhook event and multi-step scenarios
+// (install, order lifecycle, uninstall) for the webhook simulator and Jest
+// tests. Data comes from small fixture lists picked with a seeded generator,
+// so the same seed always yields the same payload. Client-safe: signing and
+// delivery live in webhook-simulator.ts.
+
+import { SALLA_WEBHOOK_EVENTS } from './webhook-setup';
+import type { SallaAppMerchant, SallaMerchantRef, SallaWebhookEnvelope, SallaWebhookEventName } from './webhooks';
+
+export const SIMULATOR_EVENTS: SallaWebhookEventName[] = [
+  'app.store.authorize',
+  ...Object.values(SALLA_WEBHOOK_EVENTS),
+];
+
+// Endpoints the simulator may deliver to
+export const WEBHOOK_TARGETS = {
+  unified: '/api/webhooks/salla',
+  appInstall: '/api/webhooks/salla/app-install',
+} as const;
+
+export type WebhookTarget = keyof typeof WEBHOOK_TARGETS;
+
+export interface SimulatedMerchant {
+  id: number;
+  name: string;
+  email: string;
+  domain: string;
+}
+
+export interface WebhookScenarioStep {
+  event: SallaWebhookEventName;
+  // Merged over the generated data, e.g. to keep the same order id across steps
+  data?: Record<string, any>;
+  target?: WebhookTarget;
+}
+
+export interface WebhookScenario {
+  name: string;
+  description?: string;
+  merchant?: Partial<SimulatedMerchant>;
+  // Seed for the generated data; the same seed gives the same payloads
+  seed?: number;
+  steps: WebhookScenarioStep[];
+}
+
+export interface BuildPayloadOptions {
+  merchant?: Partial<SimulatedMerchant>;
+  data?: Record<string, any>;
+  seed?: number;
+  createdAt?: Date;
+}
+
+export const DEFAULT_SIMULATED_MERCHANT: SimulatedMerchant = {
+  id: 1305146709,
+  name: 'متجر الرياض التجريبي',
+  email: 'owner@demo-store.salla.sa',
+  domain: 'demo-store.salla.sa',
+};
+
+const FIRST_NAMES = ['Mohammed', 'Sara', 'Abdullah', 'Noura', 'Khalid', 'Reem', 'Faisal', 'Lama'];
+const LAST_NAMES = ['Al-Otaibi', 'Al-Qahtani', 'Al-Harbi', 'Al-Shehri', 'Al-Ghamdi', 'Al-Dosari'];
+const CITIES = [
+  { city: 'Riyadh', state: 'Riyadh Region', postal: '12211' },
+  { city: 'Jeddah', state: 'Makkah Region', postal: '21442' },
+  { city: 'Dammam', state: 'Eastern Province', postal: '32241' },
+  { city: 'Madinah', state: 'Madinah Region', postal: '42311' },
+];
+const PRODUCTS = [
+  { name: 'قهوة عربية فاخرة', price: 89, category: 'Coffee' },
+  { name: 'Dates Gift Box', price: 145, category: 'Gifts' },
+  { name: 'عطر العود الملكي', price: 320, category: 'Perfumes' },
+  { name: 'Cotton Thobe', price: 210, category: 'Clothing' },
+  { name: 'Saffron 10g', price: 65, category: 'Spices' },
+];
+const ORDER_STATUSES: Record<string, { key: string; name: string; color: string }> = {
+  created: { key: 'under_review', name: 'بإنتظار المراجعة', color: '#1E88E5' },
+  updated: { key: 'in_progress', name: 'قيد التنفيذ', color: '#FB8C00' },
+  shipped: { key: 'shipped', name: 'تم الشحن', color: '#8E24AA' },
+  delivered: { key: 'delivered', name: 'تم التوصيل', color: '#43A047' },
+  cancelled: { key: 'canceled', name: 'ملغي', color: '#E53935' },
+  refunded: { key: 'restored', name: 'مسترجع', color: '#757575' },
+};
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ */
+export function createFixtureRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+  };
+}
+
+type FixtureRandom = ReturnType<typeof createFixtureRandom>;
+
+const price = (amount: number) => ({ amount, currency: 'SAR', formatted: `${amount.toFixed(2)} ر.س` });
+
+function person(random: FixtureRandom) {
+  const firstName = random.pick(FIRST_NAMES);
+  const lastName = random.pick(LAST_NAMES);
+  return {
+    first_name: firstName,
+    last_name: lastName,
+    email: `${firstName}.${lastName}`.toLowerCase().replace(/[^a-z.]/g, '') + '@example.com',
+    mobile: `+9665${random.int(10000000, 99999999)}`,
+  };
+}
+
+function buildCustomer(random: FixtureRandom, timestamp: string) {
+  const contact = person(random);
+  const location = random.pick(CITIES);
+  return {
+    id: random.int(100000000, 999999999),
+    ...contact,
+    phone: contact.mobile,
+    gender: random.pick(['male', 'female']),
+    city: location.city,
+    country: 'SA',
+    addresses: [{
+      id: String(random.int(1000, 9999)),
+      type: 'shipping',
+      first_name: contact.first_name,
+      last_name: contact.last_name,
+      address_line_1: `${random.int(1, 999)} King Fahd Road`,
+      city: location.city,
+      state: location.state,
+      postal_code: location.postal,
+      country: 'SA',
+      phone: contact.mobile,
+      is_default: true,
+    }],
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+function buildCategory(random: FixtureRandom, timestamp: string) {
+  const category = random.pick(PRODUCTS).category;
+  return {
+    id: random.int(10000000, 99999999),
+    name: category,
+    products_count: random.int(0, 120),
+    sort_order: random.int(1, 20),
+    is_active: true,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+function buildProduct(random: FixtureRandom, timestamp: string) {
+  const product = random.pick(PRODUCTS);
+  const id = random.int(100000000, 999999999);
+  return {
+    id,
+    name: product.name,
+    description: `${product.name} — ${product.category}`,
+    sku: `SKU-${id}`,
+    price: price(product.price),
+    stock_quantity: random.int(0, 250),
+    is_available: true,
+    status: 'sale',
+    images: [{ id: String(id), url: `https://cdn.salla.sa/demo/${id}.jpg`, alt: product.name, is_main: true, sort_order: 1 }],
+    categories: [{ id: random.int(10000000, 99999999), name: product.category }],
+    tags: [product.category.toLowerCase()],
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+function buildOrder(random: FixtureRandom, timestamp: string, stage: string) {
+  const customer = buildCustomer(random, timestamp);
+  const items = Array.from({ length: random.int(1, 3) }, () => {
+    const product = buildProduct(random, timestamp);
+    const quantity = random.int(1, 3);
+    return {
+      id: random.int(100000, 999999),
+      product_id: product.id,
+      name: product.name,
+      sku: product.sku,
+      quantity,
+      price: product.price,
+      total: price(product.price.amount * quantity),
+    };
+  });
+  const subtotal = items.reduce((sum, item) => sum + item.total.amount, 0);
+  const shipping = 25;
+  const tax = Math.round(subtotal * 0.15 * 100) / 100;
+  return {
+    id: random.int(100000000, 999999999),
+    reference_id: random.int(10000000, 99999999),
+    order_number: String(random.int(10000000, 99999999)),
+    status: ORDER_STATUSES[stage] || ORDER_STATUSES.created,
+    items,
+    totals: {
+      subtotal: price(subtotal),
+      tax: price(tax),
+      shipping: price(shipping),
+      discount: price(0),
+      total: price(subtotal + tax + shipping),
+    },
+    customer: {
+      id: customer.id,
+      first_name: customer.first_name,
+      last_name: customer.last_name,
+      email: customer.email,
+      mobile: customer.mobile,
+    },
+    shipping_address: customer.addresses[0],
+    payment_method: random.pick(['mada', 'credit_card', 'apple_pay', 'cod']),
+    shipping_method: random.pick(['SMSA', 'Aramex', 'SPL']),
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+function buildCoupon(random: FixtureRandom, timestamp: string) {
+  return {
+    id: random.int(100000, 999999),
+    code: `SALLA${random.int(10, 99)}`,
+    type: random.pick(['percentage', 'fixed']),
+    amount: random.pick([10, 15, 20, 50]),
+    status: 'active',
+    expiry_date: new Date(Date.parse(timestamp) + 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+  };
+}
+
+function buildEventData(event: SallaWebhookEventName, random: FixtureRandom, merchant: SimulatedMerchant, timestamp: string): any {
+  const [family, ...rest] = event.split('.');
+  const action = rest[rest.length - 1];
+
+  switch (family) {
+    case 'app':
+      if (event === 'app.store.authorize') {
+        return {
+          access_token: `sim_access_${random.int(1e8, 1e9 - 1)}${random.int(1e8, 1e9 - 1)}`,
+          token_type: 'Bearer',
+          expires_in: 14 * 24 * 60 * 60,
+          refresh_token: `sim_refresh_${random.int(1e8, 1e9 - 1)}${random.int(1e8, 1e9 - 1)}`,
+          scope: 'settings.read products.read_write orders.read_write customers.read offline_access',
+          merchant_id: String(merchant.id),
+        };
+      }
+      return {
+        id: random.int(1000000, 9999999),
+        app_name: 'Bazaar Salla Integration',
+        app_type: 'app',
+        app_scopes: ['settings.read', 'products.read_write', 'orders.read_write', 'customers.read', 'offline_access'],
+        installation_date: timestamp,
+        ...(event === 'app.updated' ? { settings: { sync_products: true, default_language: random.pick(['ar', 'en']) } } : {}),
+      };
+    case 'order':
+      return buildOrder(random, timestamp, action);
+    case 'product':
+      return event === 'product.quantity.low'
+        ? { ...buildProduct(random, timestamp), stock_quantity: random.int(0, 3) }
+        : buildProduct(random, timestamp);
+    case 'customer':
+      return buildCustomer(random, timestamp);
+    case 'category':
+      return buildCategory(random, timestamp);
+    case 'coupon':
+      return buildCoupon(random, timestamp);
+    default:
+      return { id: random.int(1000, 9999), name: `${random.pick(CITIES).city} Branch`, is_default: false };
+  }
+}
+
+// app.store.authorize carries the merchant object instead of its id
+export type SimulatedWebhookPayload = SallaWebhookEnvelope<
+  SallaWebhookEventName,
+  any,
+  SallaMerchantRef | SallaAppMerchant
+>;
+
+/**
+ * Payload for one event. Deleted entities only carry their id, like Salla sends them.
+ */
+export function buildWebhookPayload(
+  event: SallaWebhookEventName,
+  options: BuildPayloadOptions = {}
+): SimulatedWebhookPayload {
+  const merchant = { ...DEFAULT_SIMULATED_MERCHANT, ...options.merchant };
+  const random = createFixtureRandom(options.seed ?? Date.now());
+  const timestamp = (options.createdAt || new Date()).toISOString();
+  const generated = buildEventData(event, random, merchant, timestamp);
+  const data = event.endsWith('.deleted') || event === 'app.uninstalled'
+    ? { id: generated.id }
+    : generated;
+
+  const authorizingMerchant: SallaAppMerchant = {
+    id: String(merchant.id),
+    name: merchant.name,
+    email: merchant.email,
+    domain: merchant.domain,
+    currency: 'SAR',
+    timezone: 'Asia/Riyadh',
+    status: 'active',
+  };
+
+  return {
+    event,
+    merchant: event === 'app.store.authorize' ? authorizingMerchant : merchant.id,
+    created_at: timestamp,
+    data: { ...data, ...options.data },
+  };
+}
+
+/**
+ * Endpoint a step is delivered to when it doesn't name one
+ */
+export function getDefaultWebhookTarget(event: string): WebhookTarget {
+  return event === 'app.store.authorize' ? 'appInstall' : 'unified';
+}
+
+/**
+ * Payloads of every step, one second apart, ending at `now`
+ */
+export function buildScenarioPayloads(
+  scenario: WebhookScenario,
+  now: Date = new Date()
+): Array<{ step: WebhookScenarioStep; target: WebhookTarget; payload: SimulatedWebhookPayload }> {
+  const seed = scenario.seed ?? 1;
+  return scenario.steps.map((step, index) => ({
+    step,
+    target: step.target || getDefaultWebhookTarget(step.event),
+    payload: buildWebhookPayload(step.event, {
+      merchant: scenario.merchant,
+      data: step.data,
+      // Steps about the same entity id get the same generated data
+      seed: seed + (typeof step.data?.id === 'number' ? step.data.id : index),
+      createdAt: new Date(now.getTime() - (scenario.steps.length - 1 - index) * 1000),
+    }),
+  }));
+}
+
+/**
+ * Built-in scenarios; saved ones live in SALLA_CONFIG.webhookSimulator.scenarioDir
+ */
+export const WEBHOOK_SCENARIOS: WebhookScenario[] = [
+  {
+    name: 'install',
+    description: 'A merchant installs the app and authorizes the store',
+    seed: 101,
+    steps: [
+      { event: 'app.installed' },
+      { event: 'app.store.authorize' },
+    ],
+  },
+  {
+    name: 'order-lifecycle',
+    description: 'A new customer places an order that is shipped and delivered',
+    seed: 202,
+    steps: [
+      { event: 'customer.created', data: { id: 501001 } },
+      { event: 'order.created', data: { id: 700001 } },
+      { event: 'order.updated', data: { id: 700001 } },
+      { event: 'order.shipped', data: { id: 700001 } },
+      { event: 'order.delivered', data: { id: 700001 } },
+    ],
+  },
+  {
+    name: 'uninstall',
+    description: 'The merchant removes the app from the store',
+    seed: 303,
+    steps: [
+      { event: 'app.uninstalled' },
+    ],
+  },
+];
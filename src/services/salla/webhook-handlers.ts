@@ -0,0 +1,108 @@
+// Salla Default Webhook Handlers
+// Built-in subscribers of the webhook registry: follow the app lifecycle of
+// each merchant (install, token grant, update, uninstall) and keep the
+// catalog cache and the catalog, order and customer mirrors fresh.
+// Registered by services/salla/server; add your own with
+// `sallaWebhookRegistry.on()`.
+
+import { getCatalogCacheTags, invalidateSallaCache } from './cache';
+import { getCatalogSync } from './catalog-sync';
+import { getCustomerSync } from './customer-sync';
+import { getMerchantLifecycle } from './merchant-lifecycle';
+import { getOrderReconciler } from './order-reconciliation';
+import { getSlugRegistry } from './slug-registry';
+import {
+  SallaWebhookPatternPayload,
+  SallaWebhookPayload,
+  SallaWebhookRegistry,
+  sallaWebhookRegistry,
+} from './webhooks';
+
+/**
+ * Store the tokens of an `app.store.authorize` event
+ */
+export async function storeAuthorizedMerchant(payload: SallaWebhookPayload<'app.store.authorize'>): Promise<void> {
+  if (!payload.data?.access_token || !payload.merchant?.id) {
+    throw new Error('Missing required fields in app.store.authorize payload');
+  }
+
+  console.log('📦 New Salla App Installation:', {
+    merchantId: payload.merchant.id,
+    merchantName: payload.merchant.name,
+    merchantDomain: payload.merchant.domain,
+    expiresIn: payload.data.expires_in,
+    scope: payload.data.scope,
+    installedAt: payload.created_at
+  });
+
+  await getMerchantLifecycle().authorized(payload);
+}
+
+// app.store.authorize has its own handler above
+async function followMerchantLifecycle(
+  payload: SallaWebhookPayload<'app.installed' | 'app.updated' | 'app.uninstalled'>
+): Promise<void> {
+  const lifecycle = getMerchantLifecycle();
+  switch (payload.event) {
+    case 'app.installed':
+      await lifecycle.installed(payload);
+      break;
+    case 'app.updated':
+      await lifecycle.updated(payload);
+      break;
+    case 'app.uninstalled':
+      await lifecycle.uninstalled(payload);
+      break;
+  }
+}
+
+async function invalidateCatalogCache(payload: SallaWebhookPatternPayload<'product.*' | 'category.*'>): Promise<void> {
+  const tags = getCatalogCacheTags(payload.event, payload.data);
+  const invalidated = await invalidateSallaCache({ tags });
+  console.log('🔄 Invalidated Salla catalog cache:', { event: payload.event, tags, invalidated });
+}
+
+// Stores without a mirror are left alone until their first sync
+async function mirrorCatalogChange(payload: SallaWebhookPatternPayload<'product.*' | 'category.*'>): Promise<void> {
+  await getCatalogSync().applyWebhook(payload);
+}
+
+// Stores without an order mirror are left alone until their first backfill
+async function mirrorOrderChange(payload: SallaWebhookPatternPayload<'order.*'>): Promise<void> {
+  await getOrderReconciler().applyWebhook(payload);
+}
+
+// Stores without a customer mirror are left alone until their first backfill
+async function mirrorCustomerChange(payload: SallaWebhookPatternPayload<'customer.*'>): Promise<void> {
+  await getCustomerSync().applyWebhook(payload);
+}
+
+// A rename gets its new slug right away; the old one keeps redirecting
+async function assignCatalogSlug(payload: SallaWebhookPatternPayload<'product.*' | 'category.*'>): Promise<void> {
+  if (payload.event.endsWith('.deleted') || !payload.data.name) return;
+  const entity = payload.event.startsWith('product.') ? 'product' : 'category';
+  await getSlugRegistry().assign(entity, [{ id: payload.data.id, name: payload.data.name }]);
+}
+
+// On globalThis like the shared registry, so each bundle doesn't add its own copies
+type RegisteredHolder = { __sallaDefaultWebhookHandlers?: WeakSet<SallaWebhookRegistry> };
+
+export function registerDefaultWebhookHandlers(registry: SallaWebhookRegistry = sallaWebhookRegistry): void {
+  const holder = globalThis as RegisteredHolder;
+  const registered = (holder.__sallaDefaultWebhookHandlers = holder.__sallaDefaultWebhookHandlers || new WeakSet());
+  if (registered.has(registry)) return;
+  registered.add(registry);
+
+  registry.on('app.store.authorize', storeAuthorizedMerchant, 'store-authorized-merchant');
+  registry.on('app.installed', followMerchantLifecycle, 'merchant-lifecycle');
+  registry.on('app.updated', followMerchantLifecycle, 'merchant-lifecycle');
+  registry.on('app.uninstalled', followMerchantLifecycle, 'merchant-lifecycle');
+  registry.on('product.*', invalidateCatalogCache, 'catalog-cache');
+  registry.on('category.*', invalidateCatalogCache, 'catalog-cache');
+  registry.on('product.*', mirrorCatalogChange, 'catalog-mirror');
+  registry.on('category.*', mirrorCatalogChange, 'catalog-mirror');
+  registry.on('product.*', assignCatalogSlug, 'catalog-slugs');
+  registry.on('category.*', assignCatalogSlug, 'catalog-slugs');
+  registry.on('order.*', mirrorOrderChange, 'order-mirror');
+  registry.on('customer.*', mirrorCustomerChange, 'customer-mirror');
+}
@@ -0,0 +1,390 @@
+// Salla Webhook Job Queue
+// Server-only: lets the webhook receiver answer Salla right away while the
+// handlers run in the background. Jobs are persisted, so queued events
+// survive a restart. Each event type runs with its own concurrency limit,
+// failed jobs are retried with exponential backoff, and after `maxAttempts`
+// a job moves to the dead-letter queue until it is redriven from the webhook
+// manager. Completed jobs are removed; the event log keeps their history.
+
+import path from 'path';
+import { ListStore, MemoryListStore } from './collection-store';
+import { SALLA_CONFIG, HTTP_STATUS } from './config';
+import { SallaError } from './errors';
+import { FileListStore } from './json-file-store';
+import { SallaWebhookEventLog, getWebhookEventLog } from './webhook-event-log';
+import { matchesWebhookPattern } from './webhooks';
+
+export type WebhookJobStatus = 'queued' | 'running' | 'dead';
+
+export interface WebhookJob {
+  // Id of the event in the webhook event log
+  id: string;
+  event: string;
+  merchant: string;
+  status: WebhookJobStatus;
+  attempts: number;
+  // Earliest time the next attempt may start
+  runAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  deadAt?: string;
+}
+
+export type WebhookJobStore = ListStore<WebhookJob>;
+
+export class MemoryWebhookJobStore extends MemoryListStore<WebhookJob> {}
+
+export class FileWebhookJobStore extends FileListStore<WebhookJob> {}
+
+// Runs one job; throwing fails the attempt
+export type WebhookJobProcessor = (job: WebhookJob) => Promise<void>;
+
+export interface WebhookJobQueueOptions {
+  store?: WebhookJobStore;
+  process?: WebhookJobProcessor;
+  concurrency?: Record<string, number>;
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  pollInterval?: number;
+  // A job running longer than this is assumed lost and queued again
+  runningTimeout?: number;
+}
+
+export interface WebhookQueueStats {
+  queued: number;
+  running: number;
+  dead: number;
+  // Queued jobs whose retry time has passed
+  due: number;
+}
+
+/**
+ * Delay before retrying after `attempt` failed attempts
+ */
+export function getRetryDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  return Math.min(maxDelay, baseDelay * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+/**
+ * Concurrency limit for an event: exact name, then the family pattern, then '*'
+ */
+export function getEventConcurrency(event: string, concurrency: Record<string, number>): number {
+  const pattern = Object.keys(concurrency)
+    .filter(key => matchesWebhookPattern(key, event))
+    .sort((a, b) => (b === event ? 1 : 0) - (a === event ? 1 : 0) || b.length - a.length)[0];
+  return Math.max(1, pattern ? concurrency[pattern] : 1);
+}
+
+/**
+ * Run the job's event through the event log; failing handlers fail the job
+ */
+export function eventLogJobProcessor(eventLog: SallaWebhookEventLog = getWebhookEventLog()): WebhookJobProcessor {
+  return async job => {
+    try {
+      const { record, duplicate } = await eventLog.run(job.id);
+      if (!duplicate && record.status === 'failed') {
+        throw new Error(record.lastError || 'Webhook handlers failed');
+      }
+    } catch (error) {
+      if (error instanceof SallaError && error.code === 'WEBHOOK_EVENT_NOT_FOUND') {
+        // Pruned from the log: nothing left to run
+        console.warn(`⚠️ Dropping webhook job ${job.id}: event no longer in the log`);
+        return;
+      }
+      throw error;
+    }
+  };
+}
+
+export class SallaWebhookJobQueue {
+  private store: WebhookJobStore;
+  private options: Required<Omit<WebhookJobQueueOptions, 'store' | 'process'>>;
+  private processJob: WebhookJobProcessor;
+  // Jobs running in this process, per event type
+  private active = new Map<string, number>();
+  private draining?: Promise<number>;
+  private drainRequested = false;
+  // Wakes a running drain when new jobs become due
+  private wakeUp?: () => void;
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: WebhookJobQueueOptions = {}) {
+    const config = SALLA_CONFIG.webhookQueue;
+    this.store = options.store || new MemoryWebhookJobStore();
+    this.processJob = options.process || eventLogJobProcessor();
+    this.options = {
+      concurrency: options.concurrency || config.concurrency,
+      maxAttempts: options.maxAttempts ?? config.maxAttempts,
+      baseDelay: options.baseDelay ?? config.baseDelay,
+      maxDelay: options.maxDelay ?? config.maxDelay,
+      pollInterval: options.pollInterval ?? config.pollInterval,
+      runningTimeout: options.runningTimeout ?? SALLA_CONFIG.webhookEvents.processingTimeout,
+    };
+  }
+
+  /**
+   * Queue an event and start working on it in the background. Queuing an
+   * event that already has a job makes it due now; a dead job starts over.
+   */
+  async enqueue(event: { id: string; event: string; merchant: string }): Promise<WebhookJob> {
+    const now = new Date().toISOString();
+    let queued: WebhookJob | undefined;
+
+    await this.store.transform(jobs => {
+      const job = jobs.find(item => item.id === event.id);
+      if (!job) {
+        queued = {
+          id: event.id,
+          event: event.event,
+          merchant: event.merchant,
+          status: 'queued',
+          attempts: 0,
+          runAt: now,
+          createdAt: now,
+          updatedAt: now,
+        };
+        return [...jobs, queued];
+      }
+
+      if (job.status !== 'running') {
+        if (job.status === 'dead') {
+          job.attempts = 0;
+          job.deadAt = undefined;
+        }
+        job.status = 'queued';
+        job.runAt = now;
+        job.updatedAt = now;
+      }
+      queued = { ...job };
+      return jobs;
+    });
+
+    this.kick();
+    return queued as WebhookJob;
+  }
+
+  /**
+   * Queue a dead (or waiting) job again with a fresh set of attempts
+   */
+  async redrive(id: string): Promise<WebhookJob> {
+    const now = new Date().toISOString();
+    let redriven: WebhookJob | undefined;
+    let problem: SallaError | undefined;
+
+    await this.store.transform(jobs => jobs.map(job => {
+      if (job.id !== id) return job;
+      if (job.status === 'running') {
+        problem = new SallaError(`Webhook job ${id} is running`, 'WEBHOOK_JOB_RUNNING', HTTP_STATUS.CONFLICT);
+        return job;
+      }
+      redriven = { ...job, status: 'queued', attempts: 0, runAt: now, updatedAt: now, deadAt: undefined };
+      return redriven;
+    }));
+
+    if (problem) throw problem;
+    if (!redriven) {
+      throw new SallaError(`Webhook job ${id} not found`, 'WEBHOOK_JOB_NOT_FOUND', HTTP_STATUS.NOT_FOUND);
+    }
+    console.log(`🔄 Redriving webhook job ${id} (${redriven.event})`);
+    this.kick();
+    return redriven;
+  }
+
+  /**
+   * Queue every dead-lettered job again
+   */
+  async redriveDead(): Promise<number> {
+    const now = new Date().toISOString();
+    let count = 0;
+    await this.store.transform(jobs => jobs.map(job => {
+      if (job.status !== 'dead') return job;
+      count++;
+      return { ...job, status: 'queued', attempts: 0, runAt: now, updatedAt: now, deadAt: undefined };
+    }));
+    if (count > 0) {
+      console.log(`🔄 Redriving ${count} dead webhook jobs`);
+      this.kick();
+    }
+    return count;
+  }
+
+  /**
+   * Remove a merchant's waiting and dead jobs, e.g. after it uninstalled the
+   * app. Running jobs finish. Resolves with the removed jobs.
+   */
+  async cancelMerchant(merchantId: string): Promise<WebhookJob[]> {
+    let cancelled: WebhookJob[] = [];
+    await this.store.transform(jobs => {
+      cancelled = jobs.filter(job => job.merchant === merchantId && job.status !== 'running');
+      return jobs.filter(job => !cancelled.includes(job));
+    });
+    if (cancelled.length > 0) {
+      console.log(`✅ Cancelled ${cancelled.length} webhook jobs of merchant ${merchantId}`);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Jobs waiting, running or dead-lettered, newest first
+   */
+  async list(filter: { status?: WebhookJobStatus; event?: string } = {}): Promise<WebhookJob[]> {
+    return (await this.store.getAll())
+      .filter(job => (!filter.status || job.status === filter.status) && (!filter.event || job.event === filter.event))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async stats(): Promise<WebhookQueueStats> {
+    const now = new Date().toISOString();
+    const stats: WebhookQueueStats = { queued: 0, running: 0, dead: 0, due: 0 };
+    for (const job of await this.store.getAll()) {
+      stats[job.status]++;
+      if (job.status === 'queued' && job.runAt <= now) stats.due++;
+    }
+    return stats;
+  }
+
+  /**
+   * Work until no job is due. Overlapping calls share the same run; resolves
+   * with the number of attempts made.
+   */
+  drain(): Promise<number> {
+    this.drainRequested = true;
+    this.wakeUp?.();
+    if (!this.draining) {
+      this.draining = (async () => {
+        let attempts = 0;
+        while (this.drainRequested) {
+          this.drainRequested = false;
+          attempts += await this.work();
+        }
+        return attempts;
+      })().finally(() => {
+        this.draining = undefined;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Poll for due retries in this process
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.kick(), this.options.pollInterval);
+    this.timer.unref();
+    this.kick();
+    console.log('🔄 Webhook job queue worker started');
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  isRunning(): boolean {
+    return Boolean(this.timer);
+  }
+
+  private kick(): void {
+    this.drain().catch(error => console.error('❌ Webhook job queue run failed:', error));
+  }
+
+  private async work(): Promise<number> {
+    const inFlight = new Set<Promise<void>>();
+    let attempts = 0;
+
+    for (;;) {
+      for (const job of await this.claimDue()) {
+        attempts++;
+        const task: Promise<void> = this.execute(job).then(() => {
+          inFlight.delete(task);
+        });
+        inFlight.add(task);
+      }
+      if (inFlight.size === 0) return attempts;
+      await Promise.race([...Array.from(inFlight), new Promise<void>(resolve => {
+        this.wakeUp = resolve;
+      })]);
+      this.wakeUp = undefined;
+    }
+  }
+
+  // Mark due jobs running, within each event type's concurrency limit
+  private async claimDue(): Promise<WebhookJob[]> {
+    const now = Date.now();
+    const claimed: WebhookJob[] = [];
+
+    await this.store.transform(jobs => {
+      const due = jobs
+        .filter(job =>
+          (job.status === 'queued' && Date.parse(job.runAt) <= now) ||
+          // Lost when the process running it stopped
+          (job.status === 'running' && now - Date.parse(job.startedAt || job.updatedAt) > this.options.runningTimeout)
+        )
+        .sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+      for (const job of due) {
+        const running = this.active.get(job.event) || 0;
+        if (running >= getEventConcurrency(job.event, this.options.concurrency)) continue;
+
+        this.active.set(job.event, running + 1);
+        job.status = 'running';
+        job.attempts++;
+        job.startedAt = new Date(now).toISOString();
+        job.updatedAt = job.startedAt;
+        claimed.push({ ...job });
+      }
+      return jobs;
+    });
+
+    return claimed;
+  }
+
+  private async execute(job: WebhookJob): Promise<void> {
+    try {
+      await this.processJob(job);
+      await this.store.transform(jobs => jobs.filter(item => item.id !== job.id));
+    } catch (error) {
+      await this.fail(job, error instanceof Error ? error.message : String(error)).catch(storeError =>
+        console.error(`❌ Failed to record webhook job failure for ${job.id}:`, storeError)
+      );
+    } finally {
+      this.active.set(job.event, Math.max(0, (this.active.get(job.event) || 1) - 1));
+    }
+  }
+
+  private async fail(job: WebhookJob, message: string): Promise<void> {
+    const dead = job.attempts >= this.options.maxAttempts;
+    const now = Date.now();
+    const delay = getRetryDelay(job.attempts, this.options.baseDelay, this.options.maxDelay);
+
+    await this.store.transform(jobs => jobs.map(item => item.id !== job.id ? item : {
+      ...item,
+      status: dead ? 'dead' : 'queued',
+      lastError: message,
+      runAt: dead ? item.runAt : new Date(now + delay).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+      deadAt: dead ? new Date(now).toISOString() : undefined,
+    }));
+
+    if (dead) {
+      console.error(`❌ Webhook job ${job.id} (${job.event}) moved to the dead-letter queue after ${job.attempts} attempts: ${message}`);
+    } else {
+      console.warn(`⚠️ Webhook job ${job.id} (${job.event}) failed attempt ${job.attempts}, retrying in ${Math.round(delay / 1000)}s: ${message}`);
+    }
+  }
+}
+
+// Kept on globalThis so every API route bundle in the process shares one worker
+type QueueHolder = { __sallaWebhookJobQueue?: SallaWebhookJobQueue };
+
+export function getWebhookJobQueue(): SallaWebhookJobQueue {
+  const holder = globalThis as QueueHolder;
+  holder.__sallaWebhookJobQueue = holder.__sallaWebhookJobQueue || new SallaWebhookJobQueue({
+    store: new FileWebhookJobStore(path.resolve(process.cwd(), SALLA_CONFIG.webhookQueue.path)),
+  });
+  return holder.__sallaWebhookJobQueue;
+}
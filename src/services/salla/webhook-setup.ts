@@ -97,6 +97,19 @@ export const WEBHOOK_PRESETS = {
     ],
   },
   
+  CATALOG_CACHE: {
+    name: 'Catalog Cache Webhook',
+    description: 'Invalidates cached product and category reads',
+    events: [
+      SALLA_WEBHOOK_EVENTS.PRODUCT_CREATED,
+      SALLA_WEBHOOK_EVENTS.PRODUCT_UPDATED,
+      SALLA_WEBHOOK_EVENTS.PRODUCT_DELETED,
+      SALLA_WEBHOOK_EVENTS.CATEGORY_CREATED,
+      SALLA_WEBHOOK_EVENTS.CATEGORY_UPDATED,
+      SALLA_WEBHOOK_EVENTS.CATEGORY_DELETED,
+    ],
+  },
+  
   CUSTOMER_MANAGEMENT: {
     name: 'Customer Management Webhook',
     description: 'Receives customer-related events',
@@ -152,6 +165,28 @@ export async function setupAppInstallationWebhook(
   }
 }
 
+/**
+ * Subscribe the unified receiver (/api/webhooks/salla) to every event
+ */
+export async function setupStoreWebhook(
+  baseUrl: string,
+  secret?: string
+): Promise<WebhookSetupResult> {
+  const webhookUrl = `${baseUrl.replace(/\/$/, '')}/api/webhooks/salla`;
+
+  const result = await setupWebhook({
+    url: webhookUrl,
+    events: [...WEBHOOK_PRESETS.FULL_STORE_SYNC.events],
+    secret: secret || process.env.SALLA_WEBHOOK_SECRET,
+    name: WEBHOOK_PRESETS.FULL_STORE_SYNC.name,
+    description: WEBHOOK_PRESETS.FULL_STORE_SYNC.description,
+  });
+
+  return result.success
+    ? { ...result, message: `Store webhook successfully configured at: ${webhookUrl}` }
+    : result;
+}
+
 /**
  * Setup a webhook with custom configuration
  */
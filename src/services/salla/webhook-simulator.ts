@@ -0,0 +1,223 @@
+// Salla Webhook Simulator
+// Server-only: signs generated payloads (webhook-fixtures.ts) the way Salla
+// does and delivers them to this app's own webhook endpoints, returning the
+// exact request and response for the simulator page. The webhook secret
+// never leaves the server. Scenarios can be saved as JSON files that Jest
+// tests import and replay through the same signing code.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SALLA_CONFIG, HTTP_STATUS } from './config';
+import { SallaError } from './errors';
+import { computeWebhookSignature, WebhookSecurityStrategy } from './webhook-verification';
+import {
+  WEBHOOK_SCENARIOS,
+  WEBHOOK_TARGETS,
+  SimulatedWebhookPayload,
+  WebhookScenario,
+  WebhookTarget,
+  buildScenarioPayloads,
+} from './webhook-fixtures';
+
+export interface SignedWebhookDelivery {
+  body: string;
+  headers: Record<string, string>;
+}
+
+export interface SimulatedDelivery {
+  event: string;
+  target: WebhookTarget;
+  request: {
+    method: 'POST';
+    url: string;
+    headers: Record<string, string>;
+    body: SimulatedWebhookPayload;
+  };
+  response: {
+    status: number;
+    body: unknown;
+    durationMs: number;
+  };
+}
+
+export interface SimulatorOptions {
+  secret?: string;
+  strategy?: WebhookSecurityStrategy;
+  baseURL?: string;
+}
+
+let deliveryCounter = 0;
+
+/**
+ * Serialize and sign a payload with the given security strategy
+ */
+export function signWebhookDelivery(
+  payload: SimulatedWebhookPayload,
+  secret: string,
+  strategy: WebhookSecurityStrategy = 'signature',
+  deliveryId: string = `sim-${Date.now()}-${++deliveryCounter}`
+): SignedWebhookDelivery {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'user-agent': 'Salla-Webhook-Simulator',
+    'x-salla-delivery-id': deliveryId,
+    'x-salla-security-strategy': strategy === 'signature' ? 'Signature' : 'Token',
+  };
+  if (strategy === 'signature') {
+    headers['x-salla-signature'] = computeWebhookSignature(body, secret);
+  } else {
+    headers.authorization = `Bearer ${secret}`;
+  }
+  return { body, headers };
+}
+
+// The token strategy sends the secret itself; don't echo it to the page
+function displayHeaders(headers: Record<string, string>): Record<string, string> {
+  return headers.authorization ? { ...headers, authorization: 'Bearer ••••••••' } : headers;
+}
+
+function resolveSecret(secret?: string): string {
+  const resolved = secret ?? process.env.SALLA_WEBHOOK_SECRET;
+  if (!resolved) {
+    throw new SallaError('SALLA_WEBHOOK_SECRET is not configured', 'SIMULATOR_NOT_CONFIGURED', HTTP_STATUS.BAD_REQUEST);
+  }
+  return resolved;
+}
+
+/**
+ * Sign a payload and POST it to one of this app's webhook endpoints
+ */
+export async function deliverSimulatedWebhook(
+  payload: SimulatedWebhookPayload,
+  target: WebhookTarget,
+  options: SimulatorOptions = {}
+): Promise<SimulatedDelivery> {
+  if (!(target in WEBHOOK_TARGETS)) {
+    throw new SallaError(`Unknown webhook target "${target}"`, 'SIMULATOR_TARGET_INVALID', HTTP_STATUS.BAD_REQUEST);
+  }
+
+  const url = `${(options.baseURL || SALLA_CONFIG.webhookSimulator.baseURL).replace(/\/$/, '')}${WEBHOOK_TARGETS[target]}`;
+  const { body, headers } = signWebhookDelivery(payload, resolveSecret(options.secret), options.strategy);
+  const startedAt = Date.now();
+
+  let status: number;
+  let responseBody: unknown;
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body });
+    status = response.status;
+    const text = await response.text();
+    try {
+      responseBody = JSON.parse(text);
+    } catch {
+      responseBody = text;
+    }
+  } catch (error) {
+    throw new SallaError(
+      `Could not reach ${url}: ${error instanceof Error ? error.message : error}`,
+      'SIMULATOR_DELIVERY_FAILED',
+      HTTP_STATUS.BAD_GATEWAY
+    );
+  }
+
+  return {
+    event: payload.event,
+    target,
+    request: { method: 'POST', url, headers: displayHeaders(headers), body: payload },
+    response: { status, body: responseBody, durationMs: Date.now() - startedAt },
+  };
+}
+
+/**
+ * Deliver every step of a scenario in order
+ */
+export async function runWebhookScenario(
+  scenario: WebhookScenario,
+  options: SimulatorOptions = {}
+): Promise<SimulatedDelivery[]> {
+  const deliveries: SimulatedDelivery[] = [];
+  for (const { target, payload } of buildScenarioPayloads(scenario)) {
+    deliveries.push(await deliverSimulatedWebhook(payload, target, options));
+  }
+  console.log(`✅ Simulated scenario "${scenario.name}": ${deliveries.map(item => item.response.status).join(', ')}`);
+  return deliveries;
+}
+
+const SCENARIO_NAME = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+/**
+ * Validate a scenario received from the simulator page
+ */
+export function parseWebhookScenario(value: any): WebhookScenario {
+  if (!value || typeof value !== 'object' || !SCENARIO_NAME.test(value.name || '')) {
+    throw new SallaError('Scenario names use lowercase letters, digits and dashes', 'SIMULATOR_SCENARIO_INVALID', HTTP_STATUS.BAD_REQUEST);
+  }
+  if (!Array.isArray(value.steps) || value.steps.length === 0 || value.steps.some((step: any) => typeof step?.event !== 'string')) {
+    throw new SallaError('A scenario needs at least one step with an event', 'SIMULATOR_SCENARIO_INVALID', HTTP_STATUS.BAD_REQUEST);
+  }
+  return {
+    name: value.name,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    merchant: value.merchant,
+    seed: typeof value.seed === 'number' ? value.seed : undefined,
+    steps: value.steps.map((step: any) => ({
+      event: step.event,
+      data: step.data && typeof step.data === 'object' ? step.data : undefined,
+      target: step.target in WEBHOOK_TARGETS ? step.target : undefined,
+    })),
+  };
+}
+
+/**
+ * Saved scenarios: one `<name>.json` file each
+ */
+export class WebhookScenarioLibrary {
+  constructor(private directory: string = path.resolve(process.cwd(), SALLA_CONFIG.webhookSimulator.scenarioDir)) {}
+
+  async list(): Promise<WebhookScenario[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const scenarios: WebhookScenario[] = [];
+    for (const file of files.filter(name => name.endsWith('.json')).sort()) {
+      try {
+        scenarios.push(parseWebhookScenario(JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8'))));
+      } catch (error) {
+        console.warn(`⚠️ Skipping invalid webhook scenario ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return scenarios;
+  }
+
+  async save(scenario: WebhookScenario): Promise<WebhookScenario> {
+    const parsed = parseWebhookScenario(scenario);
+    if (WEBHOOK_SCENARIOS.some(builtIn => builtIn.name === parsed.name)) {
+      throw new SallaError(`"${parsed.name}" is a built-in scenario; choose another name`, 'SIMULATOR_SCENARIO_INVALID', HTTP_STATUS.BAD_REQUEST);
+    }
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(parsed.name), `${JSON.stringify(parsed, null, 2)}\n`);
+    return parsed;
+  }
+
+  async remove(name: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(name));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private filePath(name: string): string {
+    if (!SCENARIO_NAME.test(name)) {
+      throw new SallaError('Invalid scenario name', 'SIMULATOR_SCENARIO_INVALID', HTTP_STATUS.BAD_REQUEST);
+    }
+    return path.join(this.directory, `${name}.json`);
+  }
+}
@@ -0,0 +1,183 @@
+// Salla Webhook Verification
+// Server-only: authenticates webhook deliveries against the exact bytes Salla
+// sent. Routes using it must disable Next's body parser, since re-serializing
+// a parsed body changes key order and whitespace and breaks the signature.
+//
+// Strategies (X-Salla-Security-Strategy):
+// - Signature: X-Salla-Signature is the hex HMAC-SHA256 of the raw body
+// - Token: Authorization carries the webhook token
+// Both use SALLA_WEBHOOK_SECRET. The signed `created_at` of the payload must
+// fall within SALLA_CONFIG.webhooks.tolerance of now, so captured deliveries
+// can't be replayed later.
+
+import crypto from 'crypto';
+import type { IncomingHttpHeaders, IncomingMessage } from 'http';
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { SALLA_CONFIG, HTTP_STATUS } from './config';
+import { SallaWebhookVerificationError } from './errors';
+
+export type WebhookSecurityStrategy = 'signature' | 'token';
+
+export interface WebhookVerificationOptions {
+  secret?: string;
+  strategies?: WebhookSecurityStrategy[];
+  // Milliseconds; 0 disables the timestamp check
+  tolerance?: number;
+  now?: number;
+}
+
+export interface VerifiedWebhook<T = any> {
+  payload: T;
+  rawBody: Buffer;
+  strategy: WebhookSecurityStrategy;
+}
+
+/**
+ * Read the unparsed request body, up to `limit` bytes
+ */
+export function readRawBody(
+  req: IncomingMessage,
+  limit: number = SALLA_CONFIG.webhooks.maxBodySize
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > limit) {
+        reject(new SallaWebhookVerificationError('Webhook body too large', 'WEBHOOK_BODY_TOO_LARGE', 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(buffer);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+export function computeWebhookSignature(rawBody: Buffer | string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const header = (headers: IncomingHttpHeaders, name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+function detectStrategy(headers: IncomingHttpHeaders): WebhookSecurityStrategy | undefined {
+  const declared = header(headers, 'x-salla-security-strategy')?.toLowerCase();
+  if (declared === 'signature' || declared === 'token') return declared;
+  if (header(headers, 'x-salla-signature')) return 'signature';
+  if (header(headers, 'authorization')) return 'token';
+  return undefined;
+}
+
+// Salla sends either ISO timestamps or "YYYY-MM-DD HH:mm:ss"
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const time = typeof value === 'number'
+    ? value * (value < 1e12 ? 1000 : 1)
+    : Date.parse(/^\d{4}-\d{2}-\d{2} /.test(value) ? value.replace(' ', 'T') : value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Authenticate a delivery and parse its body. Throws SallaWebhookVerificationError.
+ */
+export function verifyWebhookRequest<T = any>(
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer,
+  options: WebhookVerificationOptions = {}
+): VerifiedWebhook<T> {
+  const secret = options.secret ?? process.env.SALLA_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new SallaWebhookVerificationError('Webhook secret not configured', 'WEBHOOK_NOT_CONFIGURED', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+
+  const strategy = detectStrategy(headers);
+  if (!strategy) {
+    throw new SallaWebhookVerificationError('Missing webhook signature', 'WEBHOOK_SIGNATURE_MISSING', HTTP_STATUS.BAD_REQUEST);
+  }
+  if (!(options.strategies || SALLA_CONFIG.webhooks.strategies).includes(strategy)) {
+    throw new SallaWebhookVerificationError(`Webhook security strategy "${strategy}" is not accepted`, 'WEBHOOK_STRATEGY_REJECTED');
+  }
+
+  if (strategy === 'signature') {
+    const signature = (header(headers, 'x-salla-signature') || '').replace(/^sha256=/, '').toLowerCase();
+    if (!safeEqual(signature, computeWebhookSignature(rawBody, secret))) {
+      throw new SallaWebhookVerificationError('Invalid webhook signature', 'WEBHOOK_SIGNATURE_INVALID');
+    }
+  } else {
+    const token = (header(headers, 'authorization') || '').replace(/^Bearer\s+/i, '');
+    if (!safeEqual(token, secret)) {
+      throw new SallaWebhookVerificationError('Invalid webhook token', 'WEBHOOK_TOKEN_INVALID');
+    }
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody.toString('utf8'));
+  } catch (error) {
+    throw new SallaWebhookVerificationError('Webhook body is not valid JSON', 'WEBHOOK_PAYLOAD_INVALID', HTTP_STATUS.BAD_REQUEST);
+  }
+
+  const tolerance = options.tolerance ?? SALLA_CONFIG.webhooks.tolerance;
+  const sentAt = parseTimestamp(payload?.created_at);
+  if (tolerance > 0 && sentAt !== null && Math.abs((options.now ?? Date.now()) - sentAt) > tolerance) {
+    throw new SallaWebhookVerificationError('Webhook timestamp is outside the accepted window', 'WEBHOOK_TIMESTAMP_EXPIRED');
+  }
+
+  return { payload, rawBody, strategy };
+}
+
+/**
+ * Read and authenticate the delivery of a Next API request
+ */
+export async function verifySallaWebhook<T = any>(
+  req: NextApiRequest,
+  options?: WebhookVerificationOptions
+): Promise<VerifiedWebhook<T>> {
+  return verifyWebhookRequest<T>(req.headers, await readRawBody(req), options);
+}
+
+export type VerifiedWebhookHandler<T = any> = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  webhook: VerifiedWebhook<T>
+) => unknown | Promise<unknown>;
+
+/**
+ * Wrap a webhook route: POST only, verified before the handler runs.
+ * The route must also export `config = { api: { bodyParser: false } }`.
+ */
+export function withSallaWebhook<T = any>(
+  handler: VerifiedWebhookHandler<T>,
+  options?: WebhookVerificationOptions
+): NextApiHandler {
+  return async (req, res) => {
+    if (req.method !== 'POST') {
+      return res.status(405).json({
+        success: false,
+        message: 'Method not allowed. Only POST requests are accepted.'
+      });
+    }
+
+    let webhook: VerifiedWebhook<T>;
+    try {
+      webhook = await verifySallaWebhook<T>(req, options);
+    } catch (error) {
+      const status = error instanceof SallaWebhookVerificationError ? error.status : HTTP_STATUS.BAD_REQUEST;
+      const message = error instanceof Error ? error.message : 'Invalid webhook request';
+      console.error(`❌ Rejected Salla webhook: ${message}`);
+      return res.status(status).json({ success: false, message });
+    }
+
+    return handler(req, res, webhook);
+  };
+}
@@ -0,0 +1,232 @@
+// Salla Webhook Registry
+// Typed payloads for every webhook event and a registry that routes incoming
+// events to handlers. Handlers subscribe to one event ('order.created'), a
+// family ('order.*') or everything ('*'); several handlers may share an event
+// and run in registration order. The receiver is /api/webhooks/salla.
+
+import type { SALLA_WEBHOOK_EVENTS } from './webhook-setup';
+import {
+  SallaCategory,
+  SallaCustomer,
+  SallaOrder,
+  SallaProduct,
+} from './types';
+
+export type SallaMerchantRef = number | string;
+
+export interface SallaWebhookEnvelope<E extends string = string, D = any, M = SallaMerchantRef> {
+  event: E;
+  merchant: M;
+  created_at: string;
+  data: D;
+}
+
+// Webhooks carry the entity as Salla sends it; only the id is guaranteed
+export type SallaWebhookEntity<T> = Partial<Omit<T, 'id'>> & {
+  id: string | number;
+  [key: string]: any;
+};
+
+export type SallaWebhookOrderData = SallaWebhookEntity<SallaOrder>;
+export type SallaWebhookProductData = SallaWebhookEntity<SallaProduct>;
+export type SallaWebhookCustomerData = SallaWebhookEntity<SallaCustomer>;
+export type SallaWebhookCategoryData = SallaWebhookEntity<SallaCategory>;
+
+export interface SallaWebhookCouponData {
+  id: string | number;
+  code?: string;
+  type?: string;
+  amount?: number;
+  status?: string;
+  expiry_date?: string;
+  [key: string]: any;
+}
+
+export interface SallaWebhookBranchData {
+  id: string | number;
+  name?: string;
+  [key: string]: any;
+}
+
+// app.store.authorize: tokens for a newly authorized store
+export interface SallaAppMerchant {
+  id: string;
+  name: string;
+  email: string;
+  domain: string;
+  currency: string;
+  timezone: string;
+  status: string;
+}
+
+export interface SallaAppAuthorizeData {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+  scope: string;
+  merchant_id: string;
+}
+
+export interface SallaWebhookAppData {
+  id?: string | number;
+  app_name?: string;
+  // Sent with app.installed and app.updated
+  app_scopes?: string[];
+  settings?: Record<string, unknown>;
+  [key: string]: any;
+}
+
+type ListedEvent = (typeof SALLA_WEBHOOK_EVENTS)[keyof typeof SALLA_WEBHOOK_EVENTS];
+type EventsOf<F extends string> = Extract<ListedEvent, `${F}.${string}`>;
+type EnvelopeMap<E extends string, D, M = SallaMerchantRef> = {
+  [K in E]: SallaWebhookEnvelope<K, D, M>;
+};
+
+export type SallaWebhookPayloadMap =
+  EnvelopeMap<'app.store.authorize', SallaAppAuthorizeData, SallaAppMerchant> &
+  EnvelopeMap<EventsOf<'app'>, SallaWebhookAppData> &
+  EnvelopeMap<EventsOf<'order'>, SallaWebhookOrderData> &
+  EnvelopeMap<EventsOf<'product'>, SallaWebhookProductData> &
+  EnvelopeMap<EventsOf<'customer'>, SallaWebhookCustomerData> &
+  EnvelopeMap<EventsOf<'category'>, SallaWebhookCategoryData> &
+  EnvelopeMap<EventsOf<'coupon'>, SallaWebhookCouponData> &
+  EnvelopeMap<EventsOf<'store'>, SallaWebhookBranchData>;
+
+export type SallaWebhookEventName = keyof SallaWebhookPayloadMap;
+
+// Discriminated on `event`: narrowing it narrows `data`
+export type SallaWebhookPayload<E extends SallaWebhookEventName = SallaWebhookEventName> =
+  SallaWebhookPayloadMap[E];
+
+export type SallaWebhookFamily = 'app' | 'order' | 'product' | 'customer' | 'category' | 'coupon' | 'store';
+
+export type SallaWebhookPattern = SallaWebhookEventName | `${SallaWebhookFamily}.*` | '*';
+
+export type SallaWebhookPatternPayload<P extends SallaWebhookPattern> =
+  P extends '*'
+    ? SallaWebhookPayload
+    : P extends `${infer F}.*`
+      ? SallaWebhookPayload<Extract<SallaWebhookEventName, `${F}.${string}`>>
+      : P extends SallaWebhookEventName
+        ? SallaWebhookPayload<P>
+        : never;
+
+export interface SallaWebhookContext {
+  receivedAt: string;
+  // Delivery id header, when Salla sends one
+  deliveryId?: string;
+  // Event log entry and attempt number, when dispatched through the event log
+  eventId?: string;
+  attempt?: number;
+  replay?: boolean;
+}
+
+export type SallaWebhookHandler<P extends SallaWebhookPattern = SallaWebhookPattern> = (
+  payload: SallaWebhookPatternPayload<P>,
+  context: SallaWebhookContext
+) => Promise<void> | void;
+
+export interface SallaWebhookDispatchResult {
+  event: string;
+  // Handlers that completed without throwing
+  handled: number;
+  // Keys of those handlers: their name, suffixed with #2, #3... when several
+  // handlers of one event share a name
+  completed: string[];
+  // Handlers not run because they completed on an earlier attempt
+  skipped: number;
+  errors: Array<{ handler: string; error: string }>;
+}
+
+interface RegisteredHandler {
+  pattern: SallaWebhookPattern;
+  name: string;
+  handle: SallaWebhookHandler<any>;
+}
+
+/**
+ * Whether a handler pattern covers an event name
+ */
+export function matchesWebhookPattern(pattern: string, event: string): boolean {
+  if (pattern === '*' || pattern === event) return true;
+  return pattern.endsWith('.*') && event.startsWith(pattern.slice(0, -1));
+}
+
+export class SallaWebhookRegistry {
+  private handlers: RegisteredHandler[] = [];
+
+  on<P extends SallaWebhookPattern>(
+    pattern: P,
+    handler: SallaWebhookHandler<P>,
+    name: string = handler.name || pattern
+  ): () => void {
+    const entry: RegisteredHandler = { pattern, name, handle: handler };
+    this.handlers.push(entry);
+    return () => {
+      this.handlers = this.handlers.filter(item => item !== entry);
+    };
+  }
+
+  handlersFor(event: string): Array<{ pattern: SallaWebhookPattern; name: string }> {
+    return this.handlers
+      .filter(entry => matchesWebhookPattern(entry.pattern, event))
+      .map(({ pattern, name }) => ({ pattern, name }));
+  }
+
+  clear(): void {
+    this.handlers = [];
+  }
+
+  /**
+   * Run every matching handler. A failing handler doesn't stop the others;
+   * failures are returned so the receiver can ask Salla to redeliver.
+   * Handlers whose key is in `skip` (completed on an earlier attempt) don't
+   * run again.
+   */
+  async dispatch(
+    payload: SallaWebhookPayload | SallaWebhookEnvelope<string, any, SallaMerchantRef | SallaAppMerchant>,
+    context: SallaWebhookContext = { receivedAt: new Date().toISOString() },
+    options: { skip?: string[] } = {}
+  ): Promise<SallaWebhookDispatchResult> {
+    const matching = this.handlers.filter(entry => matchesWebhookPattern(entry.pattern, payload.event));
+    const result: SallaWebhookDispatchResult = { event: payload.event, handled: 0, completed: [], skipped: 0, errors: [] };
+
+    if (matching.length === 0) {
+      console.warn(`⚠️ Unhandled Salla webhook event: ${payload.event}`, { merchant: payload.merchant });
+      return result;
+    }
+
+    const seen = new Map<string, number>();
+    for (const entry of matching) {
+      const count = (seen.get(entry.name) || 0) + 1;
+      seen.set(entry.name, count);
+      const key = count > 1 ? `${entry.name}#${count}` : entry.name;
+      if (options.skip?.includes(key)) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await entry.handle(payload, context);
+        result.handled++;
+        result.completed.push(key);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Webhook handler "${entry.name}" failed for ${payload.event}:`, error);
+        result.errors.push({ handler: entry.name, error: message });
+      }
+    }
+
+    return result;
+  }
+}
+
+// Shared registry used by the webhook receiver, kept on globalThis so every
+// API route bundle in the process dispatches to the same handlers
+type RegistryHolder = { __sallaWebhookRegistry?: SallaWebhookRegistry };
+
+const registryHolder = globalThis as RegistryHolder;
+registryHolder.__sallaWebhookRegistry = registryHolder.__sallaWebhookRegistry || new SallaWebhookRegistry();
+
+export const sallaWebhookRegistry = registryHolder.__sallaWebhookRegistry;
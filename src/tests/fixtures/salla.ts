@@ -0,0 +1,83 @@
+// Salla payloads and client listings shared by the sync and data source tests
+
+import { SallaAddress, SallaCartTotals, SallaCustomer, SallaOrder, SallaPrice, SallaProduct } from '../../services/salla/types';
+
+const TIMESTAMP = '2024-01-01T00:00:00.000Z';
+
+/**
+ * Stand-in for a client's `iterate*` listing; `failAfter` makes it throw
+ * after that many items
+ */
+export async function* listing<T>(items: T[], failAfter?: number): AsyncGenerator<T, void, undefined> {
+  for (let index = 0; index < items.length; index++) {
+    if (failAfter !== undefined && index === failAfter) throw new Error('Listing failed');
+    yield items[index];
+  }
+}
+
+export const sallaPrice = (amount: number): SallaPrice => ({ amount, currency: 'SAR', formatted: `${amount} SAR` });
+
+export const sallaTotals = (total: number): SallaCartTotals => ({
+  subtotal: sallaPrice(total),
+  tax: sallaPrice(0),
+  shipping: sallaPrice(0),
+  discount: sallaPrice(0),
+  total: sallaPrice(total),
+});
+
+const address = (id: number): SallaAddress => ({
+  id: String(id),
+  type: 'shipping',
+  first_name: 'Customer',
+  last_name: `${id}`,
+  address_line_1: 'King Fahd Road',
+  city: 'Riyadh',
+  state: 'Riyadh',
+  postal_code: '12211',
+  country: 'SA',
+  is_default: true,
+});
+
+export const sallaProduct = (id: number, extra: Partial<SallaProduct> = {}): SallaProduct => ({
+  id: String(id),
+  name: `Product ${id}`,
+  description: '',
+  price: sallaPrice(100),
+  images: [{ id: `${id}-1`, url: `https://cdn.example.com/${id}.jpg`, alt: '', is_main: true, sort_order: 0 }],
+  categories: [{ id: '10', name: 'Coffee', products_count: 0, sort_order: 0, is_active: true, created_at: TIMESTAMP, updated_at: TIMESTAMP }],
+  sku: '',
+  stock_quantity: 5,
+  is_available: true,
+  tags: [],
+  rating: { average: 4, count: 2 },
+  created_at: TIMESTAMP,
+  updated_at: TIMESTAMP,
+  ...extra,
+});
+
+export const sallaCustomer = (id: number, extra: Partial<SallaCustomer> = {}): SallaCustomer => ({
+  id: String(id),
+  first_name: 'Customer',
+  last_name: `${id}`,
+  email: `customer${id}@example.com`,
+  addresses: [],
+  created_at: TIMESTAMP,
+  updated_at: TIMESTAMP,
+  ...extra,
+});
+
+export const sallaOrder = (id: number, extra: Partial<SallaOrder> = {}): SallaOrder => ({
+  id: String(id),
+  order_number: `10${id}`,
+  status: { key: 'under_review', name: 'Under review', color: '#999' },
+  items: [],
+  totals: sallaTotals(100),
+  customer: sallaCustomer(7),
+  shipping_address: address(id),
+  billing_address: { ...address(id), type: 'billing' },
+  payment_method: 'mada',
+  shipping_method: 'aramex',
+  created_at: TIMESTAMP,
+  updated_at: TIMESTAMP,
+  ...extra,
+});
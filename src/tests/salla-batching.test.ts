@@ -0,0 +1,103 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import MockAdapter from 'axios-mock-adapter';
+import { SallaApiClient } from '../services/salla/client';
+import { SallaBatchLoader } from '../services/salla/batching';
+import { SallaNotFoundError } from '../services/salla/errors';
+
+const createClient = (batchProducts = true) => {
+  const client = new SallaApiClient('batch_token', {
+    retry: { maxAttempts: 1 },
+    validationMode: 'off',
+    cache: false,
+    batchProducts,
+  });
+  const mock = new MockAdapter((client as any).client);
+  return { client, mock };
+};
+
+describe('Salla request coalescing and batching', () => {
+  it('should share one request between identical in-flight GETs', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/categories').reply(200, { data: [{ id: '1' }] });
+
+    const [first, second] = await Promise.all([client.getCategories(), client.getCategories()]);
+
+    expect(first).toBe(second);
+    expect(mock.history.get).toHaveLength(1);
+
+    await client.getCategories();
+    expect(mock.history.get).toHaveLength(2);
+  });
+
+  it('should keep raw and parsed GETs of the same URL apart', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/orders').reply(200, { data: [{ id: '1' }] });
+
+    const [raw, parsed] = await Promise.all([client.get<any>('/orders'), client.getOrders()]);
+
+    expect(raw.status).toBe(200);
+    expect(raw.data).toEqual({ data: [{ id: '1' }] });
+    expect(parsed).toEqual({ data: [{ id: '1' }] });
+    expect(mock.history.get).toHaveLength(2);
+  });
+
+  it('should not coalesce requests with different params or writes', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/products').reply(200, { data: [] });
+    mock.onPost('/orders').reply(201, { data: { id: 'order' } });
+
+    await Promise.all([client.getProducts({ page: 1 }), client.getProducts({ page: 2 })]);
+    await Promise.all([client.createOrder({}), client.createOrder({})]);
+
+    expect(mock.history.get).toHaveLength(2);
+    expect(mock.history.post).toHaveLength(2);
+  });
+
+  it('should turn getProduct calls in one tick into a single list request', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/products').reply(config => [
+      200,
+      { data: config.params.ids.split(',').reverse().map((id: string) => ({ id, name: `Product ${id}` })) },
+    ]);
+
+    const products = await Promise.all(['1', '2', '3', '2'].map(id => client.getProduct(id)));
+
+    expect(products.map(product => product.id)).toEqual(['1', '2', '3', '2']);
+    expect(mock.history.get).toHaveLength(1);
+    expect(mock.history.get[0].params).toEqual({ ids: '1,2,3', per_page: 3 });
+  });
+
+  it('should fetch ids missing from the batch one by one', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/products').reply(200, { data: [{ id: '1' }] });
+    mock.onGet('/products/2').reply(200, { data: { id: '2' } });
+    mock.onGet('/products/404').reply(404, { error: { message: 'Not found' } });
+
+    const [found, unlisted, missing] = await Promise.allSettled([
+      client.getProduct('1'),
+      client.getProduct('2'),
+      client.getProduct('404'),
+    ]);
+
+    expect(found).toMatchObject({ status: 'fulfilled', value: { id: '1' } });
+    expect(unlisted).toMatchObject({ status: 'fulfilled', value: { id: '2' } });
+    expect(missing.status).toBe('rejected');
+    expect((missing as PromiseRejectedResult).reason).toBeInstanceOf(SallaNotFoundError);
+    expect(mock.history.get.map(request => request.url)).toEqual(['/products', '/products/2', '/products/404']);
+  });
+
+  it('should use the details endpoint for a lone id', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/products/9').reply(200, { data: { id: '9' } });
+
+    expect(await client.getProduct('9')).toEqual({ id: '9' });
+  });
+
+  it('should split batches at maxBatchSize', async () => {
+    const batchFn = jest.fn(async (keys: number[]) => keys.map(key => key * 2));
+    const loader = new SallaBatchLoader(batchFn, { maxBatchSize: 2 });
+
+    expect(await loader.loadMany([1, 2, 3])).toEqual([2, 4, 6]);
+    expect(batchFn.mock.calls).toEqual([[[1, 2]], [[3]]]);
+  });
+});
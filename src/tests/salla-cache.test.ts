@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import MockAdapter from 'axios-mock-adapter';
+import { SallaApiClient } from '../services/salla/client';
+import { SALLA_CONFIG } from '../services/salla/config';
+import {
+  CACHE_TAGS,
+  SallaMemoryCache,
+  buildCacheKey,
+  createCacheEntry,
+  getCatalogCacheTags,
+} from '../services/salla/cache';
+
+let clientCount = 0;
+
+// A token per client so the mocked clock doesn't leak into a shared rate limiter
+const createClient = (cache = new SallaMemoryCache()) => {
+  const client = new SallaApiClient(`cache_token_${++clientCount}`, {
+    retry: { maxAttempts: 1 },
+    validationMode: 'off',
+    cache,
+  });
+  const mock = new MockAdapter((client as any).client);
+  return { client, mock, cache };
+};
+
+const advanceClock = (ms: number) => {
+  const now = Date.now();
+  jest.spyOn(Date, 'now').mockReturnValue(now + ms);
+};
+
+// Let background revalidation settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Salla response cache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should serve fresh entries without hitting Salla', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/categories').reply(200, { data: [{ id: '1' }] });
+
+    await client.getCategories();
+    const second = await client.getCategories();
+
+    expect(second.data).toEqual([{ id: '1' }]);
+    expect(mock.history.get).toHaveLength(1);
+  });
+
+  it('should key entries by params', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/products').reply(config => [200, { data: [config.params.page] }]);
+
+    await client.getProducts({ page: 1 });
+    const page2 = await client.getProducts({ page: 2 });
+
+    expect(page2.data).toEqual([2]);
+    expect(mock.history.get).toHaveLength(2);
+  });
+
+  it('should return stale entries and revalidate in the background', async () => {
+    const { client, mock } = createClient();
+    mock
+      .onGet('/products/1').replyOnce(200, { data: { id: '1', name: 'Old' } })
+      .onGet('/products/1').replyOnce(200, { data: { id: '1', name: 'New' } });
+
+    await client.getProduct('1');
+    advanceClock(SALLA_CONFIG.cache.ttl.product + 1);
+
+    expect(await client.getProduct('1')).toEqual({ id: '1', name: 'Old' });
+    await flush();
+    expect(mock.history.get).toHaveLength(2);
+    expect(await client.getProduct('1')).toEqual({ id: '1', name: 'New' });
+  });
+
+  it('should revalidate expired entries with If-None-Match', async () => {
+    const { client, mock } = createClient();
+    mock
+      .onGet('/categories/7').replyOnce(200, { data: { id: '7' } }, { etag: '"v1"' })
+      .onGet('/categories/7').replyOnce(304);
+
+    await client.getCategory('7');
+    advanceClock(SALLA_CONFIG.cache.ttl.category + SALLA_CONFIG.cache.staleWhileRevalidate + 1);
+
+    expect(await client.getCategory('7')).toEqual({ id: '7' });
+    expect(mock.history.get[1].headers?.['If-None-Match']).toBe('"v1"');
+  });
+
+  it('should drop entries by tag and by key', async () => {
+    const { client, mock } = createClient();
+    mock.onGet(/\/products.*/).reply(200, { data: [] });
+
+    await client.getProduct('1');
+    await client.getProducts();
+    await client.invalidateCache({ tags: getCatalogCacheTags('product.updated', { id: 1 }) });
+    await client.getProduct('1');
+    await client.getProducts();
+    expect(mock.history.get).toHaveLength(4);
+
+    await client.invalidateCache({ keys: [client.cacheKey('/products/1')] });
+    await client.getProduct('1');
+    await client.getProducts();
+    expect(mock.history.get).toHaveLength(5);
+  });
+
+  it('should not share entries between clients of different stores', async () => {
+    const cache = new SallaMemoryCache();
+    const first = createClient(cache);
+    const second = createClient(cache);
+    first.mock.onGet('/categories').reply(200, { data: [{ id: 'first' }] });
+    second.mock.onGet('/categories').reply(200, { data: [{ id: 'second' }] });
+
+    await first.client.getCategories();
+
+    expect((await second.client.getCategories()).data).toEqual([{ id: 'second' }]);
+    expect(first.client.cacheKey('/categories')).not.toBe(second.client.cacheKey('/categories'));
+    expect(first.client.cacheKey('/categories')).not.toContain('cache_token');
+    expect(new SallaApiClient('x', { merchantId: '42', cache }).cacheKey('/categories')).toBe(buildCacheKey('42', '/categories'));
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const cache = new SallaMemoryCache(2);
+    const policy = { ttl: 1000, tags: [CACHE_TAGS.products] };
+    await cache.set('a', createCacheEntry(1, policy));
+    await cache.set('b', createCacheEntry(2, policy));
+    await cache.get('a');
+    await cache.set('c', createCacheEntry(3, policy));
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect((await cache.get('a'))?.value).toBe(1);
+    expect(await cache.deleteByTag(CACHE_TAGS.products)).toBe(2);
+  });
+
+  it('should not cache endpoints without a cache policy', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/cart').reply(200, { data: { id: 'cart' } });
+
+    await client.getCart();
+    await client.getCart();
+
+    expect(mock.history.get).toHaveLength(2);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemoryCatalogMirrorStore, SallaCatalogMirror } from '../services/salla/catalog-mirror';
+import { MemoryCatalogSyncRunStore, SallaCatalogSync } from '../services/salla/catalog-sync';
+import { MemoryMerchantStore, SallaMerchantRegistry } from '../services/salla/merchant-registry';
+import { SallaProduct } from '../services/salla/types';
+import { listing, sallaProduct } from './fixtures/salla';
+
+const MERCHANT = '404';
+
+const product = (id: number, updatedAt: string, extra: Partial<SallaProduct> = {}): SallaProduct =>
+  sallaProduct(id, { variants: [], brand: { id: '7', name: 'Najdi' }, updated_at: updatedAt, ...extra });
+
+describe('Salla catalog sync', () => {
+  let catalog: { products: SallaProduct[]; categories: any[]; brands: any[]; brandsFail?: boolean };
+  let mirror: SallaCatalogMirror;
+  let merchants: SallaMerchantRegistry;
+  let sync: SallaCatalogSync;
+
+  beforeEach(() => {
+    catalog = {
+      products: [product(1, '2024-05-01T00:00:00.000Z'), product(2, '2024-05-01T00:00:00.000Z'), product(3, '2024-05-01T00:00:00.000Z')],
+      categories: [{ id: '10', name: 'Coffee', children: [{ id: '11', name: 'Arabic Coffee' }] }],
+      brands: [{ id: '7', name: 'Najdi' }],
+    };
+    mirror = new SallaCatalogMirror(new MemoryCatalogMirrorStore());
+    merchants = new SallaMerchantRegistry({ store: new MemoryMerchantStore() });
+    sync = new SallaCatalogSync({
+      mirror,
+      merchants,
+      runs: new MemoryCatalogSyncRunStore(),
+      perPage: 2,
+      getClient: async () => ({
+        iterateProducts: () => listing(catalog.products),
+        iterateCategories: () => listing(catalog.categories),
+        iterateBrands: () => listing(catalog.brands, catalog.brandsFail ? 0 : undefined),
+      } as any),
+    });
+  });
+
+  it('should backfill the catalog and record the run', async () => {
+    const run = await sync.run(MERCHANT, 'full');
+
+    expect(run).toMatchObject({ status: 'completed', type: 'full', pages: 4 });
+    expect(run.counts.product).toMatchObject({ fetched: 3, created: 3, deleted: 0 });
+    expect((await mirror.listCategories(MERCHANT)).map(category => [category.id, category.parent_id])).toEqual([['10', undefined], ['11', '10']]);
+    expect(await mirror.summarize(MERCHANT)).toMatchObject({ products: 3, images: 3, categories: 2, brands: 1 });
+    expect((await mirror.get(MERCHANT))?.lastFullSyncAt).toBeDefined();
+    expect(await sync.list({ merchantId: MERCHANT })).toEqual([run]);
+  });
+
+  it('should write only newer products on a sweep and delete unlisted ones', async () => {
+    await sync.run(MERCHANT, 'full');
+    catalog.products = [
+      product(1, '2024-05-02T00:00:00.000Z', { name: 'Renamed' }),
+      product(2, '2024-05-01T00:00:00.000Z'),
+    ];
+
+    const run = await sync.run(MERCHANT, 'sweep');
+
+    expect(run.counts.product).toMatchObject({ fetched: 2, updated: 1, unchanged: 1, deleted: 1 });
+    expect((await mirror.getProduct(MERCHANT, '1'))?.name).toBe('Renamed');
+    expect(await mirror.getProduct(MERCHANT, '3')).toBeNull();
+  });
+
+  it('should apply product webhooks and ignore changes older than a deletion', async () => {
+    await sync.run(MERCHANT, 'full');
+
+    await sync.applyWebhook({
+      event: 'product.updated',
+      merchant: 404,
+      created_at: '2024-05-03T00:00:00Z',
+      data: { id: 1, price: { amount: 149, currency: 'SAR', formatted: '149 SAR' }, updated_at: '2024-05-03T00:00:00.000Z' },
+    } as any);
+    expect(await mirror.getProduct(MERCHANT, '1')).toMatchObject({ name: 'Product 1', price: { amount: 149 } });
+
+    // Payloads without updated_at still merge
+    await sync.applyWebhook({ event: 'product.updated', merchant: 404, created_at: '2024-05-03T06:00:00Z', data: { id: 1, quantity: 3 } } as any);
+    expect(await mirror.getProduct(MERCHANT, '1')).toMatchObject({ price: { amount: 149 }, quantity: 3, updated_at: '2024-05-03T00:00:00.000Z' });
+
+    await sync.applyWebhook({ event: 'product.deleted', merchant: 404, created_at: '2024-05-04T00:00:00Z', data: { id: 2 } } as any);
+    await sync.applyWebhook({
+      event: 'product.updated',
+      merchant: 404,
+      created_at: '2024-05-03T12:00:00Z',
+      data: product(2, '2024-05-03T12:00:00.000Z'),
+    } as any);
+
+    expect(await mirror.getProduct(MERCHANT, '2')).toBeNull();
+    expect((await mirror.get(MERCHANT))?.lastWebhookAt).toBeDefined();
+
+    // An unreadable created_at counts as now instead of failing the event
+    await sync.applyWebhook({ event: 'product.deleted', merchant: 404, created_at: 'not a date', data: { id: 1 } } as any);
+    expect(await mirror.getProduct(MERCHANT, '1')).toBeNull();
+  });
+
+  it('should leave stores without a mirror alone', async () => {
+    await sync.applyWebhook({ event: 'product.created', merchant: 999, data: product(1, '2024-05-01T00:00:00.000Z') } as any);
+
+    expect(await mirror.merchants()).toEqual([]);
+  });
+
+  it('should record a failed brand listing without failing the run', async () => {
+    catalog.brandsFail = true;
+
+    const run = await sync.run(MERCHANT, 'full');
+
+    expect(run.status).toBe('completed');
+    expect(run.errors).toEqual([expect.objectContaining({ stage: 'brand', message: 'Listing failed' })]);
+    // Products still bring their brand
+    expect((await mirror.listBrands(MERCHANT)).map(brand => brand.id)).toEqual(['7']);
+  });
+
+  it('should refuse a second run while one is going', async () => {
+    const started = await sync.startRun(MERCHANT, 'full');
+
+    await expect(sync.startRun(MERCHANT, 'sweep')).rejects.toMatchObject({ code: 'CATALOG_SYNC_IN_PROGRESS' });
+    expect(await sync.run(MERCHANT, 'sweep')).toMatchObject({ id: started.id, status: 'completed' });
+  });
+
+  it('should sweep only the stores that still have the app', async () => {
+    await sync.run(MERCHANT, 'full');
+    await sync.run('505', 'full');
+    await merchants.recordUninstall('505', '2024-05-05T10:00:00.000Z');
+
+    const runs = await sync.sweepAll();
+
+    expect(runs.map(run => [run.merchantId, run.status])).toEqual([[MERCHANT, 'completed']]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemoryCustomerMirrorStore, SallaCustomerMirror } from '../services/salla/customer-mirror';
+import { SallaCustomerSync, normalizeEmail, normalizePhone } from '../services/salla/customer-sync';
+import { MemoryMerchantStore, SallaMerchantRegistry } from '../services/salla/merchant-registry';
+import { MemoryOrderMirrorStore, SallaOrderMirror } from '../services/salla/order-mirror';
+import { SallaCustomer, SallaOrder } from '../services/salla/types';
+import { listing, sallaCustomer, sallaOrder, sallaTotals } from './fixtures/salla';
+
+const order = (id: number, customerId: number, amount: number, createdAt: string, status = 'completed'): SallaOrder =>
+  sallaOrder(id, {
+    status: { key: status, name: status, color: '#999' },
+    totals: sallaTotals(amount),
+    customer: sallaCustomer(customerId),
+    created_at: createdAt,
+    updated_at: createdAt,
+  });
+
+describe('Salla customer sync', () => {
+  let remote: Record<string, SallaCustomer[]>;
+  let mirror: SallaCustomerMirror;
+  let orders: SallaOrderMirror;
+  let merchants: SallaMerchantRegistry;
+  let sync: SallaCustomerSync;
+
+  beforeEach(() => {
+    remote = {
+      '404': [sallaCustomer(1, { email: 'Sara@Example.com ', mobile: '501234567', mobile_code: '+966' }), sallaCustomer(2)],
+      '505': [sallaCustomer(7, { email: 'sara.ali@example.com', phone: '0501234567', created_at: '2023-06-01T00:00:00.000Z' })],
+    };
+    mirror = new SallaCustomerMirror(new MemoryCustomerMirrorStore());
+    orders = new SallaOrderMirror(new MemoryOrderMirrorStore());
+    merchants = new SallaMerchantRegistry({ store: new MemoryMerchantStore() });
+    sync = new SallaCustomerSync({
+      mirror,
+      orders,
+      merchants,
+      perPage: 2,
+      getClient: async merchantId => ({ iterateCustomers: () => listing(remote[merchantId]) } as any),
+    });
+  });
+
+  it('should normalize emails and phone numbers', () => {
+    expect(normalizeEmail(' Sara@Example.COM ')).toBe('sara@example.com');
+    expect(normalizeEmail('not-an-email')).toBeNull();
+    for (const phone of ['+966 50 123 4567', '00966501234567', '0501234567', '501234567']) {
+      expect(normalizePhone(phone)).toBe('966501234567');
+    }
+    expect(normalizePhone('50 123 4567', '+971')).toBe('971501234567');
+    expect(normalizePhone('123')).toBeNull();
+  });
+
+  it('should backfill customers and delete the ones Salla no longer lists', async () => {
+    expect(await sync.backfill('404')).toMatchObject({ fetched: 2, counts: { created: 2 }, deleted: 0 });
+
+    remote['404'] = [remote['404'][0]];
+    expect(await sync.backfill('404')).toMatchObject({ fetched: 1, counts: { unchanged: 1 }, deleted: 1 });
+    expect(await mirror.getCustomer('404', '2')).toBeNull();
+    expect((await mirror.summarize('404'))?.customers).toBe(1);
+  });
+
+  it('should ignore webhook changes older than a deletion', async () => {
+    await sync.backfill('404');
+
+    await sync.applyWebhook({ event: 'customer.deleted', merchant: 404, created_at: '2024-05-02T00:00:00Z', data: { id: 2 } } as any);
+    await sync.applyWebhook({
+      event: 'customer.updated',
+      merchant: 404,
+      created_at: '2024-05-01T00:00:00Z',
+      data: sallaCustomer(2, { updated_at: '2024-05-01T00:00:00.000Z' }),
+    } as any);
+    await sync.applyWebhook({ event: 'customer.created', merchant: 999, data: sallaCustomer(9) } as any);
+
+    expect(await mirror.getCustomer('404', '2')).toBeNull();
+    expect(await mirror.merchants()).toEqual(['404']);
+
+    // An unreadable created_at counts as now instead of failing the event
+    await sync.applyWebhook({ event: 'customer.deleted', merchant: 404, created_at: 'not a date', data: { id: 1 } } as any);
+    expect(await mirror.getCustomer('404', '1')).toBeNull();
+  });
+
+  it('should merge customer webhooks that carry no updated_at', async () => {
+    await sync.backfill('404');
+
+    await sync.applyWebhook({ event: 'customer.updated', merchant: 404, created_at: '2024-05-03T00:00:00Z', data: { id: 2, city: 'Jeddah' } } as any);
+
+    expect(await mirror.getCustomer('404', '2')).toMatchObject({ first_name: 'Customer', city: 'Jeddah' });
+  });
+
+  it('should link one person across stores and add up their orders', async () => {
+    await sync.backfill('404');
+    await sync.backfill('505');
+    await orders.upsert('404', [
+      order(1, 1, 200, '2024-05-01T00:00:00.000Z'),
+      order(2, 1, 50, '2024-05-03T00:00:00.000Z', 'canceled'),
+      order(3, 2, 80, '2024-04-01T00:00:00.000Z'),
+    ]);
+    await orders.upsert('505', [order(4, 7, 120, '2024-05-10T00:00:00.000Z')]);
+
+    const directory = await sync.directory();
+
+    expect(directory).toHaveLength(2);
+    expect(directory[0]).toMatchObject({
+      id: '505:7',
+      emails: ['sara@example.com', 'sara.ali@example.com'],
+      phones: ['966501234567'],
+      accounts: [{ merchantId: '404', customerId: '1' }, { merchantId: '505', customerId: '7' }],
+      orders: 3,
+      spent: 320,
+      lastOrderAt: '2024-05-10T00:00:00.000Z',
+    });
+    expect(directory[1]).toMatchObject({ id: '404:2', orders: 1, spent: 80 });
+    expect((await sync.directory({ search: 'sara.ali' })).map(identity => identity.id)).toEqual(['505:7']);
+
+    // A store that uninstalled the app drops out
+    await merchants.recordUninstall('505', '2024-06-01T00:00:00.000Z');
+    expect(await sync.directory()).toEqual([
+      expect.objectContaining({ id: '404:1', accounts: [{ merchantId: '404', customerId: '1' }], orders: 2, spent: 200 }),
+      expect.objectContaining({ id: '404:2' }),
+    ]);
+  });
+});
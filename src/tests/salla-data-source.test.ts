@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { createSallaDataSource } from '../utils/data-source/salla';
+import { MemorySlugStore, SallaSlugRegistry } from '../services/salla/slug-registry';
+import { SallaProduct } from '../services/salla/types';
+import { listing, sallaProduct } from './fixtures/salla';
+
+const product = (id: number, name: string, extra: Partial<SallaProduct> = {}): SallaProduct =>
+  sallaProduct(id, { name, created_at: '2024-05-01T00:00:00.000Z', updated_at: '2024-05-01T00:00:00.000Z', ...extra });
+
+const CATALOG = [
+  product(1, 'Arabic Coffee'),
+  product(2, 'Dates Gift Box', { price: { amount: 200, currency: 'SAR', formatted: '200 SAR', sale_price: 150 } }),
+];
+
+const createClient = () => ({
+  getProduct: jest.fn(async (id: string) => CATALOG.find(item => item.id === id)),
+  getProducts: jest.fn(async (_params?: any) => ({ success: true, data: CATALOG })),
+  searchProducts: jest.fn(async (_params: any) => ({ success: true, data: [CATALOG[0]] })),
+  iterateProducts: jest.fn(() => listing(CATALOG)),
+  getCategories: jest.fn(async () => ({ success: true, data: [{ id: '10', name: 'قهوة', children: [{ id: '11', name: 'Espresso' }] }] })),
+  getCategoryProducts: jest.fn(async (_id: string, _params?: any) => ({ success: true, data: [CATALOG[0]] })),
+});
+
+const createSource = (client = createClient(), registry = new SallaSlugRegistry(new MemorySlugStore())) =>
+  createSallaDataSource(client as any, registry);
+
+describe('Salla data source', () => {
+  const originalSource = process.env.DATA_SOURCE;
+
+  afterEach(() => {
+    if (originalSource === undefined) {
+      delete process.env.DATA_SOURCE;
+    } else {
+      process.env.DATA_SOURCE = originalSource;
+    }
+  });
+
+  it('should pick the data source from the environment', () => {
+    jest.isolateModules(() => {
+      // The mock source's axios instance loads the whole demo database
+      jest.doMock('../utils/axiosInstance', () => ({ __esModule: true, default: { get: jest.fn() } }));
+      const { getDataSource, mockDataSource } = require('../utils/data-source');
+
+      delete process.env.DATA_SOURCE;
+      expect(getDataSource()).toBe(mockDataSource);
+
+      process.env.DATA_SOURCE = 'salla';
+      expect(getDataSource().name).toBe('salla');
+    });
+  });
+
+  it('should list product slugs and find a product by its slug or id', async () => {
+    const client = createClient();
+    const source = createSource(client);
+
+    expect(await source.getSlugs()).toEqual([
+      { params: { slug: 'arabic-coffee' } },
+      { params: { slug: 'dates-gift-box' } },
+    ]);
+    expect(await source.getProduct('dates-gift-box')).toMatchObject({ id: '2', title: 'Dates Gift Box', discount: 25 });
+    expect((await source.getProduct('1')).title).toBe('Arabic Coffee');
+    expect(client.getProduct).toHaveBeenCalledWith('1');
+    await expect(source.getProduct('missing')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should redirect a renamed product from its old slug', async () => {
+    const client = createClient();
+    const registry = new SallaSlugRegistry(new MemorySlugStore());
+    const source = createSource(client, registry);
+    await source.getSlugs();
+
+    client.getProduct.mockResolvedValueOnce({ ...CATALOG[0], name: 'Saudi Coffee' });
+
+    expect((await source.getProduct('arabic-coffee')).slug).toBe('saudi-coffee');
+    expect(await registry.resolve('product', 'arabic-coffee')).toEqual({ id: '1', slug: 'saudi-coffee', redirect: true });
+  });
+
+  it('should resolve category slugs to their ids', async () => {
+    const client = createClient();
+    const source = createSource(client);
+
+    const products = await source.getCategoryProducts('espresso');
+
+    expect(client.getCategoryProducts).toHaveBeenCalledWith('11', { per_page: 12 });
+    expect(products.map(item => item.slug)).toEqual(['arabic-coffee']);
+    await source.getCategoryProducts('qhwa');
+    expect(client.getCategoryProducts).toHaveBeenLastCalledWith('10', { per_page: 12 });
+  });
+
+  it('should search product titles within a category', async () => {
+    const client = createClient();
+    const source = createSource(client);
+
+    expect(await source.searchProducts('coffee', '10')).toEqual(['Arabic Coffee']);
+    expect(client.searchProducts).toHaveBeenCalledWith({ query: 'coffee', category_id: '10', per_page: 10 });
+    expect(await source.searchProducts('')).toEqual([]);
+  });
+
+  it('should map section lists onto sorted product listings', async () => {
+    const client = createClient();
+    const source = createSource(client);
+
+    const newest = await source.getProductList({ path: '/api/market-1/new-arrivals', sort: 'newest', limit: 1 });
+    expect(newest.map(item => item.title)).toEqual(['Arabic Coffee']);
+    expect(client.getProducts).toHaveBeenCalledWith({ sort_by: 'created_at', sort_order: 'desc', per_page: 1 });
+
+    const discounted = await source.getProductList({ path: '/api/market-1/flash-deals', sort: 'discounted' });
+    expect(discounted.map(item => item.id)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import MockAdapter from 'axios-mock-adapter';
+import { SallaApiClient } from '../services/salla/client';
+import { SallaInventoryService } from '../services/salla/inventory';
+import { API_ENDPOINTS } from '../services/salla/config';
+import {
+  SallaAuthError,
+  SallaError,
+  SallaNetworkError,
+  SallaNotFoundError,
+  SallaRateLimitError,
+  SallaValidationError,
+  applySallaErrorToFormik,
+  toSallaError,
+} from '../services/salla/errors';
+
+const createClient = () => {
+  const client = new SallaApiClient('test_token', {
+    retry: { maxAttempts: 1 },
+    validationMode: 'off',
+  });
+  const mock = new MockAdapter((client as any).client);
+  return { client, mock };
+};
+
+describe('Salla errors', () => {
+  it('should map 422 responses to SallaValidationError with field messages', async () => {
+    const { client, mock } = createClient();
+    mock.onPost('/orders').reply(422, {
+      message: 'The given data was invalid.',
+      errors: { 'customer.email': ['The email must be valid.'], notes: 'Too long' },
+    });
+
+    const error = await client.createOrder({}).catch(e => e);
+
+    expect(error).toBeInstanceOf(SallaValidationError);
+    expect(error).toBeInstanceOf(SallaError);
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors).toEqual({
+      'customer.email': 'The email must be valid.',
+      notes: 'Too long',
+    });
+  });
+
+  it('should map auth, not-found and rate limit responses', async () => {
+    const { client, mock } = createClient();
+    mock.onGet(API_ENDPOINTS.users.profile).reply(401, { message: 'Unauthenticated' });
+    mock.onGet('/products/missing').reply(404, { message: 'Not found' });
+    mock.onGet('/categories').reply(429, {}, { 'retry-after': '30' });
+
+    await expect(client.getUserProfile()).rejects.toBeInstanceOf(SallaAuthError);
+    await expect(client.getProduct('missing')).rejects.toBeInstanceOf(SallaNotFoundError);
+
+    const rateLimited = await client.getCategories().catch(e => e);
+    expect(rateLimited).toBeInstanceOf(SallaRateLimitError);
+    expect(rateLimited.retryAfter).toBe(30000);
+  });
+
+  it('should map timeouts to SallaNetworkError', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/products').timeout();
+
+    const error = await client.getProducts().catch(e => e);
+
+    expect(error).toBeInstanceOf(SallaNetworkError);
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.status).toBe(0);
+  });
+
+  it('should be thrown by services instead of returned as failed responses', async () => {
+    const { client, mock } = createClient();
+    mock.onGet(/\/inventory\/42/).reply(404, {});
+
+    const service = new SallaInventoryService(client);
+
+    await expect(service.getInventoryItem('42')).rejects.toBeInstanceOf(SallaNotFoundError);
+  });
+
+  it('should leave SallaErrors untouched', () => {
+    const error = new SallaRateLimitError('Slow down', 1000);
+    expect(toSallaError(error)).toBe(error);
+  });
+
+  it('should keep well-typed fields of other thrown values', () => {
+    expect(toSallaError({ message: 'Gone', code: 'GONE', status: 410, details: { id: 1 } })).toMatchObject({
+      message: 'Gone',
+      code: 'GONE',
+      status: 410,
+      details: { id: 1 },
+    });
+    expect(toSallaError({ code: 42, status: '500' }, 'Failed')).toMatchObject({
+      message: 'Failed',
+      code: 'UNKNOWN_ERROR',
+      status: 500,
+    });
+    expect(toSallaError('boom').message).toBe('An unexpected error occurred');
+  });
+
+  it('should push field errors and the message into Formik helpers', () => {
+    const setErrors = jest.fn();
+    const setStatus = jest.fn();
+    const error = new SallaValidationError('Invalid data', {
+      'customer.email': 'The email must be valid.',
+      phone: 'Required',
+    });
+
+    const message = applySallaErrorToFormik(error, { setErrors, setStatus }, { 'customer.email': 'email' });
+
+    expect(message).toBe('Invalid data');
+    expect(setErrors).toHaveBeenCalledWith({ email: 'The email must be valid.', phone: 'Required' });
+    expect(setStatus).toHaveBeenCalledWith({ error: 'Invalid data' });
+  });
+
+  it('should only set the status for non-validation errors', () => {
+    const setErrors = jest.fn();
+    const setStatus = jest.fn();
+
+    applySallaErrorToFormik(new SallaAuthError('Session expired'), { setErrors, setStatus });
+
+    expect(setErrors).not.toHaveBeenCalled();
+    expect(setStatus).toHaveBeenCalledWith({ error: 'Session expired' });
+  });
+});
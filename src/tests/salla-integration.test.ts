@@ -142,6 +142,79 @@ describe('Salla API Integration Tests', () => {
     });
   });
 
+  describe('Response Validation', () => {
+    it('should normalize the legacy product shape', async () => {
+      const { SALLA_SCHEMAS } = await import('../services/salla/schemas');
+      const { validateSallaPayload } = await import('../services/salla/validation');
+
+      const product = validateSallaPayload(
+        SALLA_SCHEMAS.product,
+        { ...mockSallaProduct, id: 123, stock_quantity: '10' },
+        'GET /products/123',
+        'strict'
+      );
+
+      expect(product.id).toBe('123');
+      expect(product.stock_quantity).toBe(10);
+      expect(product.categories).toEqual([
+        expect.objectContaining({ id: '456', name: 'Test Category' }),
+      ]);
+      expect(product.rating).toEqual({ average: 0, count: 0 });
+      expect(product.tags).toEqual([]);
+    });
+
+    it('should transform partial products without crashing', async () => {
+      const { transformSallaProductToBazaar } = await import('../services/salla/utils');
+
+      const product = transformSallaProductToBazaar(mockSallaProduct as any);
+
+      expect(product.categories).toEqual(['Test Category']);
+      expect(product.rating).toBe(0);
+      expect(product.thumbnail).toBe('https://example.com/image1.jpg');
+    });
+
+    it('should list offending paths in strict mode', async () => {
+      const { SALLA_SCHEMAS } = await import('../services/salla/schemas');
+      const { validateSallaPayload, SallaResponseValidationError } = await import(
+        '../services/salla/validation'
+      );
+
+      let caught: any;
+      try {
+        validateSallaPayload(
+          SALLA_SCHEMAS.products,
+          [{ ...mockSallaProduct, name: undefined, price: { amount: 'free' } }],
+          'GET /products',
+          'strict'
+        );
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(SallaResponseValidationError);
+      expect(caught.issues.map((issue: any) => issue.path)).toEqual(
+        expect.arrayContaining(['[0].name', '[0].price.amount'])
+      );
+    });
+
+    it('should log and normalize in lenient mode', async () => {
+      const { SALLA_SCHEMAS } = await import('../services/salla/schemas');
+      const { validateSallaPayload } = await import('../services/salla/validation');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const category = validateSallaPayload(
+        SALLA_SCHEMAS.category,
+        { id: 7, products_count: '3' },
+        'GET /categories/7',
+        'lenient'
+      );
+
+      expect(category).toMatchObject({ id: '7', products_count: 3 });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('name'));
+      warn.mockRestore();
+    });
+  });
+
   describe('Environment Configuration', () => {
     it('should have required environment variables', () => {
       const requiredEnvVars = [
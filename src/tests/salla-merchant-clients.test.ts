@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { sallaApi } from '../services/salla/client';
+import { SALLA_CONFIG } from '../services/salla/config';
+import {
+  clearMerchantClients,
+  evictMerchantClient,
+  getClientForMerchant,
+  getJobClientForMerchant,
+  getServicesForMerchant,
+} from '../services/salla/merchant-clients';
+import { SallaMerchantLifecycle } from '../services/salla/merchant-lifecycle';
+import { MemoryMerchantStore, SallaMerchantRegistry } from '../services/salla/merchant-registry';
+import { SallaOrdersService } from '../services/salla/orders';
+import { sallaTokenManager } from '../services/salla/token-manager';
+import { SallaTokenRefreshScheduler } from '../services/salla/token-refresh-scheduler';
+import { MemoryTokenStorage } from '../services/salla/token-storage';
+
+const tokenRecord = (merchantId: string, accessToken = `access_${merchantId}`, expiresIn = 14 * 24 * 3600) => ({
+  merchantId,
+  merchantName: `Store ${merchantId}`,
+  merchantDomain: `${merchantId}.salla.sa`,
+  merchantEmail: `owner@${merchantId}.salla.sa`,
+  accessToken,
+  refreshToken: `refresh_${merchantId}`,
+  tokenType: 'Bearer',
+  expiresIn,
+  scope: 'offline_access',
+  currency: 'SAR',
+  timezone: 'Asia/Riyadh',
+  installedAt: new Date().toISOString(),
+});
+
+const storeToken = (merchantId: string, accessToken?: string, expiresIn?: number) =>
+  sallaTokenManager.storeToken(tokenRecord(merchantId, accessToken, expiresIn));
+
+describe('Salla merchant clients', () => {
+  const accessToken = SALLA_CONFIG.accessToken;
+
+  beforeEach(() => {
+    sallaTokenManager.setStorage(new MemoryTokenStorage());
+    clearMerchantClients();
+  });
+
+  afterEach(() => {
+    SALLA_CONFIG.accessToken = accessToken;
+  });
+
+  it('should cache one client per merchant', async () => {
+    await storeToken('101');
+    await storeToken('202');
+
+    const client = await getClientForMerchant('101');
+
+    expect(client.getAccessToken()).toBe('access_101');
+    expect(await getClientForMerchant('101')).toBe(client);
+    expect(await getClientForMerchant('202')).not.toBe(client);
+    await expect(getClientForMerchant('303')).rejects.toThrow('No Salla token stored for merchant 303');
+  });
+
+  it('should move cached clients to a token refreshed elsewhere', async () => {
+    await storeToken('101');
+    const client = await getClientForMerchant('101');
+    const jobClient = await getJobClientForMerchant('101');
+
+    await sallaTokenManager.updateAccessToken('101', 'access_rotated', 3600);
+
+    expect(await getClientForMerchant('101')).toBe(client);
+    expect(client.getAccessToken()).toBe('access_rotated');
+    expect(jobClient.getAccessToken()).toBe('access_rotated');
+  });
+
+  it('should build the services once, on the merchant clients', async () => {
+    await storeToken('101');
+
+    const services = await getServicesForMerchant('101');
+
+    expect(services).toMatchObject({ merchantId: '101', client: await getClientForMerchant('101') });
+    expect(services.orders).toBeInstanceOf(SallaOrdersService);
+    expect(await getServicesForMerchant('101')).toBe(services);
+  });
+
+  it('should give jobs a separate client, or SALLA_ACCESS_TOKEN for the configured store', async () => {
+    await storeToken('101');
+
+    const jobClient = await getJobClientForMerchant('101');
+
+    expect(jobClient).not.toBe(await getClientForMerchant('101'));
+    expect(await getJobClientForMerchant('101')).toBe(jobClient);
+
+    SALLA_CONFIG.accessToken = 'env_token';
+    expect(await getJobClientForMerchant(SALLA_CONFIG.storeMerchantId)).toBe(sallaApi);
+    await expect(getJobClientForMerchant('303')).rejects.toThrow('No Salla token stored for merchant 303');
+  });
+
+  it('should build new clients after an eviction', async () => {
+    await storeToken('101');
+    const client = await getClientForMerchant('101');
+    const services = await getServicesForMerchant('101');
+
+    evictMerchantClient('101');
+
+    expect(await getClientForMerchant('101')).not.toBe(client);
+    expect(await getServicesForMerchant('101')).not.toBe(services);
+  });
+
+  it('should give the services of a reinstalled merchant its saved settings', async () => {
+    const merchants = new SallaMerchantRegistry({ store: new MemoryMerchantStore() });
+    const lifecycle = new SallaMerchantLifecycle({ merchants });
+    await lifecycle.granted(tokenRecord('101'), '2024-05-01T10:00:00.000Z');
+    await merchants.recordUpdate('101', '2024-05-02T10:00:00.000Z', { settings: { language: 'ar' } });
+    await merchants.recordUninstall('101', '2024-05-05T10:00:00.000Z');
+    expect((await getServicesForMerchant('101')).settings).toEqual({});
+
+    await lifecycle.granted(tokenRecord('101', 'access_reinstalled'), '2024-06-01T10:00:00.000Z');
+
+    const services = await getServicesForMerchant('101');
+    expect(services.client.getAccessToken()).toBe('access_reinstalled');
+    expect(services.settings).toEqual({ language: 'ar' });
+  });
+
+  it('should evict the client of a merchant whose token refresh failed', async () => {
+    await storeToken('101', 'access_101', 60);
+    const client = await getClientForMerchant('101');
+    const scheduler = new SallaTokenRefreshScheduler({
+      maxConsecutiveFailures: 1,
+      getRefresher: async () => async () => {
+        throw new Error('invalid_grant');
+      },
+      notify: () => undefined,
+    });
+
+    const result = await scheduler.runOnce();
+
+    expect(result.needsReauth).toEqual(['101']);
+    expect(await getClientForMerchant('101')).not.toBe(client);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { MemoryCatalogMirrorStore, SallaCatalogMirror } from '../services/salla/catalog-mirror';
+import { MemoryCustomerMirrorStore, SallaCustomerMirror } from '../services/salla/customer-mirror';
+import { SallaTokenManager } from '../services/salla/token-manager';
+import { MemoryTokenStorage } from '../services/salla/token-storage';
+import { MemoryMerchantStore, SallaMerchantRegistry } from '../services/salla/merchant-registry';
+import { SallaMerchantLifecycle } from '../services/salla/merchant-lifecycle';
+import { MemoryOrderMirrorStore, SallaOrderMirror } from '../services/salla/order-mirror';
+import { MemoryWebhookEventStore, SallaWebhookEventLog } from '../services/salla/webhook-event-log';
+import { MemoryWebhookJobStore, SallaWebhookJobQueue, WebhookJob } from '../services/salla/webhook-queue';
+import { DEFAULT_SIMULATED_MERCHANT, buildWebhookPayload } from '../services/salla/webhook-fixtures';
+import { SallaWebhookEventName } from '../services/salla/webhooks';
+
+const MERCHANT = String(DEFAULT_SIMULATED_MERCHANT.id);
+
+const event = (name: SallaWebhookEventName, at: string, data?: Record<string, any>): any =>
+  buildWebhookPayload(name, { seed: 1, createdAt: new Date(at), data });
+
+const job = (id: string, merchant: string, status: WebhookJob['status'] = 'queued'): WebhookJob => ({
+  id,
+  event: 'order.updated',
+  merchant,
+  status,
+  attempts: 0,
+  runAt: '2099-01-01T00:00:00.000Z',
+  createdAt: '2024-05-01T00:00:00.000Z',
+  updatedAt: '2024-05-01T00:00:00.000Z',
+});
+
+describe('Salla merchant lifecycle', () => {
+  let merchants: SallaMerchantRegistry;
+  let tokens: SallaTokenManager;
+  let jobStore: MemoryWebhookJobStore;
+  let eventLog: SallaWebhookEventLog;
+  let catalog: SallaCatalogMirror;
+  let orders: SallaOrderMirror;
+  let customers: SallaCustomerMirror;
+  let revoke: jest.Mock<(token: any) => Promise<void>>;
+  let lifecycle: SallaMerchantLifecycle;
+
+  beforeEach(() => {
+    merchants = new SallaMerchantRegistry({ store: new MemoryMerchantStore() });
+    tokens = new SallaTokenManager(new MemoryTokenStorage());
+    jobStore = new MemoryWebhookJobStore();
+    eventLog = new SallaWebhookEventLog({ store: new MemoryWebhookEventStore() });
+    catalog = new SallaCatalogMirror(new MemoryCatalogMirrorStore());
+    orders = new SallaOrderMirror(new MemoryOrderMirrorStore());
+    customers = new SallaCustomerMirror(new MemoryCustomerMirrorStore());
+    revoke = jest.fn(async () => undefined);
+    lifecycle = new SallaMerchantLifecycle({
+      merchants,
+      tokens,
+      jobs: new SallaWebhookJobQueue({ store: jobStore }),
+      eventLog,
+      mirrors: [catalog, orders, customers],
+      revoke,
+    });
+  });
+
+  it('should activate the merchant and store its tokens on install', async () => {
+    await lifecycle.installed(event('app.installed', '2024-05-01T10:00:00Z'));
+    const { record } = await lifecycle.authorized(event('app.store.authorize', '2024-05-01T10:00:01Z'));
+
+    expect(record).toMatchObject({ status: 'active', installCount: 1, name: DEFAULT_SIMULATED_MERCHANT.name });
+    expect(record.history.map(entry => entry.action)).toEqual(['installed', 'authorized']);
+    expect((await tokens.getToken(MERCHANT))?.accessToken).toMatch(/^sim_access_/);
+  });
+
+  it('should refresh the stored scope and merge settings on update', async () => {
+    await lifecycle.authorized(event('app.store.authorize', '2024-05-01T10:00:00Z'));
+    await lifecycle.updated(event('app.updated', '2024-05-02T10:00:00Z', { app_scopes: ['orders.read'], settings: { theme: 'dark' } }));
+    await lifecycle.updated(event('app.updated', '2024-05-03T10:00:00Z', { settings: { language: 'ar' } }));
+
+    const record = await merchants.get(MERCHANT);
+    expect(record?.settings).toMatchObject({ theme: 'dark', language: 'ar' });
+    expect((await tokens.getToken(MERCHANT))?.scope).toBe(record?.scope);
+  });
+
+  it('should purge tokens, cancel queued jobs, drop mirrors and deactivate the merchant on uninstall', async () => {
+    await lifecycle.authorized(event('app.store.authorize', '2024-05-01T10:00:00Z'));
+    await catalog.touch(MERCHANT, 'lastFullSyncAt', '2024-05-01T12:00:00.000Z');
+    await catalog.touch('99', 'lastFullSyncAt', '2024-05-01T12:00:00.000Z');
+    await orders.touch(MERCHANT, 'lastBackfillAt', '2024-05-01T12:00:00.000Z');
+    await customers.touch(MERCHANT, 'lastBackfillAt', '2024-05-01T12:00:00.000Z');
+    const queued = await eventLog.receive(event('order.updated', '2024-05-01T11:00:00Z'), { rawBody: 'o-1', deliveryId: 'd-1' }, { defer: true });
+    await jobStore.transform(() => [job('d-1', MERCHANT), job('d-2', MERCHANT, 'running'), job('d-3', '99')]);
+
+    const result = await lifecycle.uninstalled(event('app.uninstalled', '2024-05-05T10:00:00Z'));
+
+    expect(result).toMatchObject({ stale: false, tokensRemoved: true, jobsCancelled: 1, record: { status: 'inactive' } });
+    expect(revoke).toHaveBeenCalledWith(expect.objectContaining({ merchantId: MERCHANT }));
+    expect(await tokens.getToken(MERCHANT)).toBeNull();
+    expect((await jobStore.getAll()).map(item => item.id)).toEqual(['d-2', 'd-3']);
+    expect(await eventLog.get(queued.record.id)).toMatchObject({ status: 'failed', lastError: expect.stringContaining('uninstalled') });
+    expect(await catalog.merchants()).toEqual(['99']);
+    expect(await orders.merchants()).toEqual([]);
+    expect(await customers.merchants()).toEqual([]);
+
+    // A redelivery changes nothing
+    await lifecycle.uninstalled(event('app.uninstalled', '2024-05-05T10:00:00Z'));
+    expect((await merchants.get(MERCHANT))?.history.map(entry => entry.action)).toEqual(['installed', 'authorized', 'uninstalled']);
+  });
+
+  it('should purge tokens even when revoking them fails', async () => {
+    revoke.mockRejectedValue(new Error('revocation endpoint down'));
+    await lifecycle.authorized(event('app.store.authorize', '2024-05-01T10:00:00Z'));
+
+    await lifecycle.uninstalled(event('app.uninstalled', '2024-05-05T10:00:00Z'));
+
+    expect(await tokens.getToken(MERCHANT)).toBeNull();
+  });
+
+  it('should restore settings when the merchant reinstalls', async () => {
+    await lifecycle.authorized(event('app.store.authorize', '2024-05-01T10:00:00Z'));
+    await lifecycle.updated(event('app.updated', '2024-05-02T10:00:00Z', { settings: { theme: 'dark' } }));
+    await lifecycle.uninstalled(event('app.uninstalled', '2024-05-05T10:00:00Z'));
+
+    const reinstall = await lifecycle.authorized(event('app.store.authorize', '2024-06-01T10:00:00Z'));
+
+    expect(reinstall).toMatchObject({ reinstalled: true, record: { status: 'active', installCount: 2, settings: { theme: 'dark' } } });
+    expect(reinstall.record.history.map(entry => entry.action)).toEqual(['installed', 'authorized', 'updated', 'uninstalled', 'reinstalled', 'authorized']);
+    expect((await tokens.getToken(MERCHANT))?.settings).toEqual({ theme: 'dark' });
+  });
+
+  it('should ignore lifecycle events that arrive out of order', async () => {
+    await lifecycle.authorized(event('app.store.authorize', '2024-05-01T10:00:00Z'));
+    await lifecycle.uninstalled(event('app.uninstalled', '2024-05-05T10:00:00Z'));
+
+    // A late grant from before the uninstall must not bring the tokens back
+    expect((await lifecycle.authorized(event('app.store.authorize', '2024-05-04T10:00:00Z'))).stale).toBe(true);
+    expect(await tokens.getToken(MERCHANT)).toBeNull();
+
+    await lifecycle.authorized(event('app.store.authorize', '2024-06-01T10:00:00Z'));
+    // A late uninstall from before the reinstall must not remove them again
+    expect((await lifecycle.uninstalled(event('app.uninstalled', '2024-05-20T10:00:00Z'))).stale).toBe(true);
+    expect(await tokens.getToken(MERCHANT)).not.toBeNull();
+    expect((await merchants.get(MERCHANT))?.status).toBe('active');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from '@jest/globals';
+import MockAdapter from 'axios-mock-adapter';
+import { AxiosError } from 'axios';
+import { SallaApiClient } from '../services/salla/client';
+import { SallaNetworkError } from '../services/salla/errors';
+import {
+  MIDDLEWARE_ORDER,
+  correlationIdMiddleware,
+  createMockResponse,
+} from '../services/salla/middleware';
+
+const createClient = (merchantId?: string) => {
+  const client = new SallaApiClient('middleware_token', {
+    merchantId,
+    retry: { baseDelay: 0, maxDelay: 0 },
+    validationMode: 'off',
+    cache: false,
+  });
+  const mock = new MockAdapter((client as any).client);
+  return { client, mock };
+};
+
+describe('Salla client middleware', () => {
+  it('should run the built-ins in order', () => {
+    const { client } = createClient();
+
+    expect(client.getMiddlewareNames()).toEqual([
+      'error-mapping',
+      'token-refresh',
+      'retry',
+      'rate-limit',
+      'auth',
+    ]);
+  });
+
+  it('should run middlewares by order, then registration', async () => {
+    const { client, mock } = createClient();
+    const calls: string[] = [];
+    mock.onGet('/categories').reply(200, { data: [] });
+
+    client.use(async function inner(context, next) {
+      calls.push('inner');
+      return next();
+    });
+    client.use({
+      name: 'outer',
+      order: MIDDLEWARE_ORDER.errorMapping - 1,
+      handle: async (context, next) => {
+        calls.push('outer:before');
+        const response = await next();
+        calls.push('outer:after');
+        return response;
+      },
+    });
+
+    await client.getCategories();
+
+    expect(calls).toEqual(['outer:before', 'inner', 'outer:after']);
+    expect(client.getMiddlewareNames()[0]).toBe('outer');
+  });
+
+  it('should see the final request including the auth header', async () => {
+    const { client, mock } = createClient();
+    const seen: { authorization?: string; signature?: string } = {};
+    mock.onGet('/products').reply(config => {
+      seen.signature = config.headers?.['X-Signature'];
+      return [200, { data: [] }];
+    });
+
+    client.use(async (context, next) => {
+      const headers: any = context.config.headers;
+      seen.authorization = headers.Authorization;
+      context.config.headers = { ...headers, 'X-Signature': `signed:${context.config.url}` };
+      return next();
+    });
+
+    await client.getProducts();
+
+    expect(seen).toEqual({ authorization: 'Bearer middleware_token', signature: 'signed:/products' });
+  });
+
+  it('should short-circuit with a mocked response', async () => {
+    const { client, mock } = createClient();
+
+    client.use(async (context, next) =>
+      context.config.url === '/categories'
+        ? createMockResponse(context.config, { data: [{ id: 'mocked' }] })
+        : next()
+    );
+
+    const response = await client.getCategories();
+
+    expect(response.data).toEqual([{ id: 'mocked' }]);
+    expect(mock.history.get).toHaveLength(0);
+  });
+
+  it('should give mocked responses the request config with normalized headers', () => {
+    const response = createMockResponse({ url: '/products', headers: { Authorization: 'Bearer token' } }, []);
+
+    expect(response.config.url).toBe('/products');
+    expect(response.config.headers.get('authorization')).toBe('Bearer token');
+  });
+
+  it('should let injected faults go through retry and error mapping', async () => {
+    const { client, mock } = createClient();
+    let failures = 0;
+    mock.onGet('/products').reply(200, { data: [] });
+
+    const remove = client.use(async (context, next) => {
+      if (failures++ < 1) {
+        throw new AxiosError('socket hang up', 'ECONNRESET', context.config as any);
+      }
+      return next();
+    });
+
+    await client.getProducts();
+    expect(mock.history.get).toHaveLength(1);
+
+    remove();
+    client.use(async context => {
+      throw new AxiosError('timeout of 10000ms exceeded', 'ECONNABORTED', context.config as any);
+    });
+    client.removeMiddleware('retry');
+
+    await expect(client.getProducts({ page: 2 })).rejects.toBeInstanceOf(SallaNetworkError);
+  });
+
+  it('should keep one correlation id across retries', async () => {
+    const { client, mock } = createClient('merchant-ctx');
+    client.removeMiddleware('token-refresh');
+    client.use(correlationIdMiddleware('X-Correlation-ID', () => 'req-1'));
+    const merchants: Array<string | undefined> = [];
+    client.use(async (context, next) => {
+      merchants.push(context.merchantId);
+      return next();
+    });
+    mock.onGet('/categories').replyOnce(503).onGet('/categories').replyOnce(200, { data: [] });
+
+    await client.getCategories();
+
+    expect(mock.history.get.map(request => request.headers?.['X-Correlation-ID'])).toEqual(['req-1', 'req-1']);
+    expect(merchants).toEqual(['merchant-ctx', 'merchant-ctx']);
+  });
+});
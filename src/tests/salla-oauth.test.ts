@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import MockAdapter from 'axios-mock-adapter';
+import { SallaApiClient } from '../services/salla/client';
+import { SALLA_CONFIG } from '../services/salla/config';
+import { SallaOAuthError } from '../services/salla/errors';
+import { SallaMerchantLifecycle } from '../services/salla/merchant-lifecycle';
+import { MemoryMerchantStore, SallaMerchantRegistry } from '../services/salla/merchant-registry';
+import { sallaTokenManager } from '../services/salla/token-manager';
+import { MemoryTokenStorage } from '../services/salla/token-storage';
+import {
+  buildAuthorizeURL,
+  completeOAuthInstall,
+  createOAuthSession,
+  getSafeReturnPath,
+  openOAuthSession,
+  sealOAuthSession,
+  verifyOAuthState,
+} from '../services/salla/oauth';
+
+const SECRET = 'test_client_secret';
+const REDIRECT_URI = 'https://app.example.com/api/salla/oauth/callback';
+
+const expectOAuthError = (fn: () => unknown, code: string) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SallaOAuthError);
+    expect((error as SallaOAuthError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected ${code}`);
+};
+
+describe('Salla OAuth install flow', () => {
+  it('should build the authorize URL with state and an S256 PKCE challenge', () => {
+    const session = createOAuthSession(REDIRECT_URI);
+    const url = new URL(buildAuthorizeURL(session));
+    const challenge = crypto.createHash('sha256').update(session.codeVerifier).digest('base64url');
+
+    expect(`${url.origin}${url.pathname}`).toBe(SALLA_CONFIG.oauth.authorizeURL);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: 'code',
+      redirect_uri: REDIRECT_URI,
+      state: session.state,
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+    });
+  });
+
+  it('should round-trip the sealed session and reject tampering, expiry and state mismatch', () => {
+    const session = createOAuthSession(REDIRECT_URI, '/dashboard');
+    const sealed = sealOAuthSession(session, SECRET);
+
+    expect(openOAuthSession(sealed, SECRET)).toEqual(session);
+    expect(() => verifyOAuthState(session, session.state)).not.toThrow();
+
+    const forged = Buffer.from(JSON.stringify({ ...session, returnTo: '/evil' })).toString('base64url');
+    expectOAuthError(() => openOAuthSession(`${forged}.${sealed.split('.')[1]}`, SECRET), 'OAUTH_SESSION_INVALID');
+    expectOAuthError(() => openOAuthSession(sealed, SECRET, -1), 'OAUTH_SESSION_EXPIRED');
+    expectOAuthError(() => openOAuthSession(undefined, SECRET), 'OAUTH_SESSION_MISSING');
+    expectOAuthError(() => verifyOAuthState(session, 'other'), 'OAUTH_STATE_MISMATCH');
+  });
+
+  it('should only accept same-origin return paths', () => {
+    expect(getSafeReturnPath('/salla-examples/demo')).toBe('/salla-examples/demo');
+    expect(getSafeReturnPath('//evil.example.com')).toBeUndefined();
+    expect(getSafeReturnPath('/\\evil.example.com')).toBeUndefined();
+    expect(getSafeReturnPath('https://evil.example.com')).toBeUndefined();
+    expect(getSafeReturnPath(['/a'])).toBeUndefined();
+  });
+
+  describe('completeOAuthInstall', () => {
+    let mocks: MockAdapter[];
+    let merchants: SallaMerchantRegistry;
+    let lifecycle: SallaMerchantLifecycle;
+    const createClient = (accessToken?: string) => {
+      const client = new SallaApiClient(accessToken || 'oauth_app', {
+        cache: false,
+        validationMode: 'off',
+        retry: { maxAttempts: 1 },
+      });
+      const mock = new MockAdapter((client as any).client);
+      mock.onPost(SALLA_CONFIG.oauth.tokenURL).reply(200, {
+        access_token: 'merchant_access',
+        refresh_token: 'merchant_refresh',
+        token_type: 'Bearer',
+        expires_in: 1209600,
+        scope: 'offline_access',
+      });
+      mock.onGet(SALLA_CONFIG.oauth.userInfoURL).reply(200, {
+        data: {
+          id: 7,
+          name: 'Owner',
+          email: 'owner@store.sa',
+          merchant: { id: 1234, name: 'Test Store', domain: 'https://test.salla.sa/' },
+        },
+      });
+      mock.onGet('/store/info').reply(500);
+      mocks.push(mock);
+      return client;
+    };
+
+    beforeEach(() => {
+      sallaTokenManager.setStorage(new MemoryTokenStorage());
+      mocks = [];
+      merchants = new SallaMerchantRegistry({ store: new MemoryMerchantStore() });
+      lifecycle = new SallaMerchantLifecycle({ merchants });
+    });
+
+    it('should exchange the code with the PKCE verifier and store the merchant', async () => {
+      const session = createOAuthSession(REDIRECT_URI);
+
+      const merchant = await completeOAuthInstall('auth_code', session, createClient, lifecycle);
+
+      expect(JSON.parse(mocks[0].history.post[0].data)).toMatchObject({
+        grant_type: 'authorization_code',
+        code: 'auth_code',
+        redirect_uri: REDIRECT_URI,
+        code_verifier: session.codeVerifier,
+      });
+      expect(mocks[1].history.get[0].headers?.Authorization).toBe('Bearer merchant_access');
+      expect(merchant).toMatchObject({
+        merchantId: '1234',
+        merchantName: 'Test Store',
+        merchantDomain: 'test.salla.sa',
+        merchantEmail: 'owner@store.sa',
+        refreshToken: 'merchant_refresh',
+        currency: 'SAR',
+      });
+      expect((await sallaTokenManager.getToken('1234'))!.accessToken).toBe('merchant_access');
+    });
+
+    it('should reactivate a merchant that uninstalled, with its saved settings', async () => {
+      await merchants.recordInstall('1234', '2024-05-01T10:00:00.000Z');
+      await merchants.recordUpdate('1234', '2024-05-02T10:00:00.000Z', { settings: { theme: 'dark' } });
+      await merchants.recordUninstall('1234', '2024-05-05T10:00:00.000Z');
+
+      const merchant = await completeOAuthInstall('auth_code', createOAuthSession(REDIRECT_URI), createClient, lifecycle);
+
+      expect(merchant.settings).toEqual({ theme: 'dark' });
+      expect(await merchants.get('1234')).toMatchObject({ status: 'active', installCount: 2 });
+      expect((await merchants.get('1234'))!.history.map(entry => entry.action)).toEqual([
+        'installed', 'updated', 'uninstalled', 'reinstalled', 'authorized',
+      ]);
+    });
+
+    it('should report a rejected code as OAUTH_EXCHANGE_FAILED', async () => {
+      const failingClient = () => {
+        const client = createClient();
+        mocks[mocks.length - 1].onPost(SALLA_CONFIG.oauth.tokenURL).reply(400, { error: 'invalid_grant' });
+        return client;
+      };
+
+      await expect(
+        completeOAuthInstall('bad_code', createOAuthSession(REDIRECT_URI), failingClient, lifecycle)
+      ).rejects.toMatchObject({ code: 'OAUTH_EXCHANGE_FAILED' });
+      expect(await sallaTokenManager.getAllTokens()).toEqual([]);
+    });
+  });
+});
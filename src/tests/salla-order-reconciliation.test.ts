@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemoryMerchantStore, SallaMerchantRegistry } from '../services/salla/merchant-registry';
+import { MemoryOrderMirrorStore, SallaOrderMirror } from '../services/salla/order-mirror';
+import { MemoryOrderSyncRunStore, SallaOrderReconciler } from '../services/salla/order-reconciliation';
+import { SallaOrder } from '../services/salla/types';
+import { transformSallaOrderToBazaar } from '../services/salla/utils';
+import { listing, sallaCustomer, sallaOrder, sallaPrice, sallaProduct, sallaTotals } from './fixtures/salla';
+
+const MERCHANT = '404';
+
+const order = (id: number, updatedAt: string, extra: Partial<SallaOrder> = {}): SallaOrder =>
+  sallaOrder(id, {
+    items: [{
+      id: `${id}-1`,
+      product_id: '1',
+      quantity: 2,
+      price: sallaPrice(50),
+      total: sallaPrice(100),
+      product: sallaProduct(1, { name: 'Arabic Coffee', images: [] }),
+    }],
+    customer: sallaCustomer(7, { first_name: 'Sara', last_name: 'Ali', email: 'sara@example.com' }),
+    created_at: '2024-05-01T00:00:00.000Z',
+    updated_at: updatedAt,
+    ...extra,
+  });
+
+describe('Salla order reconciliation', () => {
+  let remote: SallaOrder[];
+  let mirror: SallaOrderMirror;
+  let merchants: SallaMerchantRegistry;
+  let reconciler: SallaOrderReconciler;
+
+  beforeEach(() => {
+    remote = [order(1, '2024-05-01T00:00:00.000Z'), order(2, '2024-05-01T00:00:00.000Z'), order(3, '2024-05-01T00:00:00.000Z')];
+    mirror = new SallaOrderMirror(new MemoryOrderMirrorStore());
+    merchants = new SallaMerchantRegistry({ store: new MemoryMerchantStore() });
+    reconciler = new SallaOrderReconciler({
+      mirror,
+      merchants,
+      runs: new MemoryOrderSyncRunStore(),
+      perPage: 2,
+      autoHeal: false,
+      getClient: async () => ({ iterateOrders: () => listing(remote) } as any),
+    });
+  });
+
+  it('should backfill the mirror page by page', async () => {
+    const run = await reconciler.run(MERCHANT, 'backfill');
+
+    expect(run).toMatchObject({ status: 'completed', pages: 2, fetched: 3, counts: { created: 3 } });
+    expect((await mirror.summarize(MERCHANT))?.orders).toBe(3);
+    expect((await mirror.get(MERCHANT))?.lastBackfillAt).toBeDefined();
+  });
+
+  it('should report drift without touching the mirror', async () => {
+    await reconciler.run(MERCHANT, 'backfill');
+    await mirror.remove(MERCHANT, ['3']);
+    remote = [
+      order(1, '2024-05-02T00:00:00.000Z', { status: { key: 'completed', name: 'Completed', color: '#0a0' } }),
+      order(3, '2024-05-01T00:00:00.000Z'),
+    ];
+
+    const run = await reconciler.run(MERCHANT, 'reconcile');
+
+    expect(run.driftCount).toBe(3);
+    expect(run.drift).toEqual([
+      { orderId: '1', orderNumber: '101', kind: 'status', local: 'under_review', remote: 'completed', healed: false },
+      { orderId: '3', orderNumber: '103', kind: 'missing_local', healed: false },
+      { orderId: '2', orderNumber: '102', kind: 'missing_remote', healed: false },
+    ]);
+    expect((await mirror.getOrder(MERCHANT, '1'))?.status.key).toBe('under_review');
+  });
+
+  it('should heal drift when asked', async () => {
+    await reconciler.run(MERCHANT, 'backfill');
+    remote = [
+      order(1, '2024-05-01T00:00:00.000Z', { totals: sallaTotals(80) }),
+      order(2, '2024-05-01T00:00:00.000Z'),
+    ];
+
+    const run = await reconciler.run(MERCHANT, 'reconcile', { heal: true });
+
+    expect(run).toMatchObject({ heal: true, driftCount: 2, healed: 2 });
+    expect((await mirror.getOrder(MERCHANT, '1'))?.totals.total.amount).toBe(80);
+    expect(await mirror.getOrder(MERCHANT, '3')).toBeNull();
+  });
+
+  it('should not report orders the mirror has a newer copy of', async () => {
+    await reconciler.run(MERCHANT, 'backfill');
+    await reconciler.applyWebhook({
+      event: 'order.updated',
+      merchant: 404,
+      created_at: '2024-05-03T00:00:00Z',
+      data: { id: 1, status: { key: 'shipped', name: 'Shipped', color: '#00a' }, updated_at: '2024-05-03T00:00:00.000Z' },
+    } as any);
+
+    const run = await reconciler.run(MERCHANT, 'reconcile');
+
+    expect(run.driftCount).toBe(0);
+    expect(await mirror.getOrder(MERCHANT, '1')).toMatchObject({ order_number: '101', status: { key: 'shipped' } });
+  });
+
+  it('should merge order webhooks that carry no updated_at', async () => {
+    await reconciler.run(MERCHANT, 'backfill');
+    await reconciler.applyWebhook({
+      event: 'order.updated',
+      merchant: 404,
+      created_at: '2024-05-03T00:00:00Z',
+      data: { id: 1, status: { key: 'shipped', name: 'Shipped', color: '#00a' } },
+    } as any);
+
+    expect(await mirror.getOrder(MERCHANT, '1')).toMatchObject({ order_number: '101', status: { key: 'shipped' } });
+  });
+
+  it('should reconcile only the stores that still have the app', async () => {
+    await reconciler.run(MERCHANT, 'backfill');
+    await reconciler.run('505', 'backfill');
+    await merchants.recordUninstall('505', '2024-05-05T10:00:00.000Z');
+
+    const runs = await reconciler.reconcileAll();
+
+    expect(runs.map(run => [run.merchantId, run.status])).toEqual([[MERCHANT, 'completed']]);
+  });
+
+  it('should filter, sort and map mirrored orders for the admin pages', async () => {
+    remote[1] = order(2, '2024-05-01T00:00:00.000Z', { status: { key: 'delivered', name: 'Delivered', color: '#0a0' }, totals: sallaTotals(300) });
+    await reconciler.run(MERCHANT, 'backfill');
+
+    const byTotal = await mirror.list(MERCHANT, { sortBy: 'total', order: 'desc' });
+    expect(byTotal.orders.map(item => item.id)).toEqual(['2', '1', '3']);
+    expect(byTotal.statuses).toEqual({ under_review: 2, delivered: 1 });
+    expect((await mirror.list(MERCHANT, { status: 'delivered' })).total).toBe(1);
+
+    expect(transformSallaOrderToBazaar(byTotal.orders[0])).toMatchObject({
+      id: '2',
+      status: 'Delivered',
+      isDelivered: true,
+      totalPrice: 300,
+      items: [{ product_name: 'Arabic Coffee', product_quantity: 2 }],
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import MockAdapter from 'axios-mock-adapter';
+import { SallaApiClient } from '../services/salla/client';
+import { SallaOrdersService } from '../services/salla/orders';
+import { PageRequest, collectAll, paginate } from '../services/salla/pagination';
+import { SallaApiResponse } from '../services/salla/types';
+
+const pageResponse = (items: number[], currentPage: number, totalPages: number): SallaApiResponse<number[]> => ({
+  status: 200,
+  success: true,
+  data: items,
+  pagination: {
+    currentPage,
+    totalPages,
+    totalItems: totalPages * items.length,
+    itemsPerPage: items.length,
+    hasNextPage: currentPage < totalPages,
+    hasPreviousPage: currentPage > 1,
+  },
+});
+
+describe('Salla pagination', () => {
+  it('should follow hasNextPage across page/per_page pages', async () => {
+    const fetchPage = jest.fn(async ({ page }: PageRequest) =>
+      pageResponse([page! * 10 + 1, page! * 10 + 2], page!, 3)
+    );
+
+    const items = await collectAll(paginate(fetchPage, { perPage: 2 }));
+
+    expect(items).toEqual([11, 12, 21, 22, 31, 32]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ page: 3, per_page: 2 }));
+  });
+
+  it('should follow cursors', async () => {
+    const cursors: Record<string, { items: number[]; next?: string }> = {
+      start: { items: [1, 2], next: 'b' },
+      b: { items: [3], next: 'c' },
+      c: { items: [4] },
+    };
+    const fetchPage = async ({ cursor }: PageRequest): Promise<SallaApiResponse<number[]>> => {
+      const page = cursors[cursor || 'start'];
+      return {
+        status: 200,
+        success: true,
+        data: page.items,
+        pagination: { cursor: { next: page.next } } as any,
+      };
+    };
+
+    expect(await collectAll(paginate(fetchPage))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should fetch known pages concurrently while keeping order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetchPage = async ({ page }: PageRequest) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5 * (6 - page!)));
+      inFlight--;
+      return pageResponse([page!], page!, 6);
+    };
+
+    const items = await collectAll(paginate(fetchPage, { concurrency: 3 }));
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = jest.fn(async ({ page }: PageRequest) => pageResponse([page!], page!, 10));
+    const seen: number[] = [];
+
+    await expect((async () => {
+      for await (const item of paginate(fetchPage, { signal: controller.signal })) {
+        seen.push(item);
+        if (item === 2) controller.abort();
+      }
+    })()).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect(seen).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should walk every product page through the client', async () => {
+    const client = new SallaApiClient('pagination_token', {
+      retry: { maxAttempts: 1 },
+      validationMode: 'off',
+    });
+    const mock = new MockAdapter((client as any).client);
+    mock.onGet('/products').reply(config => {
+      const page = config.params.page;
+      return [200, pageResponse([page], page, 2)];
+    });
+
+    const products = await client.getAllProducts({ per_page: 1 });
+
+    expect(products).toEqual([1, 2]);
+    expect(mock.history.get.map(request => request.params)).toEqual([
+      { per_page: 1, page: 1 },
+      { per_page: 1, page: 2 },
+    ]);
+  });
+
+  it('should walk every order page through the orders service', async () => {
+    const client = new SallaApiClient('pagination_token', {
+      retry: { maxAttempts: 1 },
+      validationMode: 'off',
+    });
+    const mock = new MockAdapter((client as any).client);
+    mock.onGet('/orders').reply(config => {
+      const page = config.params.page;
+      return [200, pageResponse([page], page, 2)];
+    });
+
+    const orders = await new SallaOrdersService(client).getAllOrders({ status: 'completed', per_page: 1 });
+
+    expect(orders).toEqual([1, 2]);
+    expect(mock.history.get.map(request => request.params)).toEqual([
+      { status: 'completed', per_page: 1, page: 1 },
+      { status: 'completed', per_page: 1, page: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { SallaApiClient } from '../services/salla/client';
+import { SallaRateLimiter, getRateLimiter } from '../services/salla/rate-limiter';
+
+describe('SallaRateLimiter', () => {
+  it('should release requests immediately while tokens are available', async () => {
+    const limiter = new SallaRateLimiter({ capacity: 3, refillPerSecond: 1 });
+
+    await Promise.all([limiter.schedule(), limiter.schedule(), limiter.schedule()]);
+
+    expect(limiter.getState().availableTokens).toBe(0);
+  });
+
+  it('should let high priority requests jump ahead of queued background traffic', async () => {
+    const limiter = new SallaRateLimiter({ capacity: 1, refillPerSecond: 50 });
+    const order: string[] = [];
+
+    await limiter.schedule();
+    const pending = [
+      limiter.schedule('low').then(() => order.push('low')),
+      limiter.schedule('normal').then(() => order.push('normal')),
+      limiter.schedule('high').then(() => order.push('high')),
+    ];
+    await Promise.all(pending);
+
+    expect(order).toEqual(['high', 'normal', 'low']);
+  });
+
+  it('should keep the remote reserve for high priority requests', async () => {
+    const limiter = new SallaRateLimiter({ capacity: 10, refillPerSecond: 10, reserve: 2 });
+    limiter.updateFromHeaders({
+      'x-ratelimit-limit': '60',
+      'x-ratelimit-remaining': '2',
+      'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 60),
+    });
+
+    let lowReleased = false;
+    const low = limiter.schedule('low').then(() => {
+      lowReleased = true;
+    });
+    await limiter.schedule('high');
+
+    expect(lowReleased).toBe(false);
+    expect(limiter.getState()).toMatchObject({ queued: 1, remoteRemaining: 1 });
+
+    // A fresh quota releases the background request
+    limiter.updateFromHeaders({ 'x-ratelimit-remaining': '50' });
+    await low;
+    expect(lowReleased).toBe(true);
+  });
+
+  it('should share one limiter per scope', () => {
+    expect(getRateLimiter('merchant-a')).toBe(getRateLimiter('merchant-a'));
+    expect(getRateLimiter('merchant-a')).not.toBe(getRateLimiter('merchant-b'));
+  });
+
+  it('should keep a merchant on one limiter across token refreshes', () => {
+    const client = new SallaApiClient('token-1', { merchantId: 'limited-merchant' });
+    const limiter = (client as any).rateLimiter;
+
+    client.setAccessToken('token-2');
+
+    expect((client as any).rateLimiter).toBe(limiter);
+    expect(new SallaApiClient('token-3', { merchantId: 'limited-merchant' }).getRateLimitState())
+      .toEqual(client.getRateLimitState());
+    expect(getRateLimiter('limited-merchant')).toBe(limiter);
+  });
+});
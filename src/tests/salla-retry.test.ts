@@ -0,0 +1,110 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import MockAdapter from 'axios-mock-adapter';
+import { SallaApiClient } from '../services/salla/client';
+import { parseRetryAfter, computeRetryDelay } from '../services/salla/retry';
+import { SALLA_CONFIG } from '../services/salla/config';
+
+const createClient = (retry = {}) => {
+  const client = new SallaApiClient('test_token', {
+    retry: { baseDelay: 0, maxDelay: 0, ...retry },
+    validationMode: 'off',
+  });
+  const mock = new MockAdapter((client as any).client);
+  return { client, mock };
+};
+
+describe('Salla retry policy', () => {
+  describe('parseRetryAfter', () => {
+    it('should parse delta seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const date = new Date(Date.now() + 5000).toUTCString();
+      const delay = parseRetryAfter(date)!;
+      expect(delay).toBeGreaterThan(3000);
+      expect(delay).toBeLessThanOrEqual(5000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should stay within the exponential cap', () => {
+      const policy = { ...SALLA_CONFIG.retry, baseDelay: 100, maxDelay: 1000 };
+      for (let attempt = 1; attempt <= 6; attempt++) {
+        const delay = computeRetryDelay(attempt, policy);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(Math.min(1000, 100 * Math.pow(2, attempt - 1)));
+      }
+    });
+  });
+
+  describe('SallaApiClient', () => {
+    it('should retry 5xx responses for GET requests', async () => {
+      const { client, mock } = createClient();
+      mock.onGet('/products').replyOnce(503).onGet('/products').replyOnce(200, { data: [] });
+
+      const response = await client.get('/products');
+
+      expect(response.status).toBe(200);
+      expect(mock.history.get).toHaveLength(2);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const { client, mock } = createClient({ maxAttempts: 2 });
+      mock.onGet('/products').reply(500, { message: 'Server error' });
+
+      await expect(client.get('/products')).rejects.toMatchObject({
+        status: 500,
+        message: 'Server error',
+      });
+      expect(mock.history.get).toHaveLength(2);
+    });
+
+    it('should not replay non-idempotent POSTs on 5xx', async () => {
+      const { client, mock } = createClient();
+      mock.onPost('/orders').reply(502);
+
+      await expect(client.createOrder({})).rejects.toMatchObject({ status: 502 });
+      expect(mock.history.post).toHaveLength(1);
+    });
+
+    it('should replay POSTs rejected with 429', async () => {
+      const { client, mock } = createClient();
+      mock
+        .onPost('/orders').replyOnce(429, {}, { 'retry-after': '0' })
+        .onPost('/orders').replyOnce(201, { data: { id: 'order-1' } });
+
+      const order = await client.createOrder({});
+
+      expect(order).toEqual({ id: 'order-1' });
+      expect(mock.history.post).toHaveLength(2);
+    });
+
+    it('should notify retry listeners', async () => {
+      const { client, mock } = createClient();
+      const listener = jest.fn();
+      client.onRetry(listener);
+      mock.onGet('/categories').replyOnce(429).onGet('/categories').replyOnce(200, { data: [] });
+
+      await client.getCategories();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, method: 'GET', url: '/categories' })
+      );
+    });
+
+    it('should respect per-request opt out', async () => {
+      const { client, mock } = createClient();
+      mock.onGet('/products').reply(503);
+
+      await expect(client.get('/products', { retry: false })).rejects.toMatchObject({ status: 503 });
+      expect(mock.history.get).toHaveLength(1);
+    });
+  });
+});
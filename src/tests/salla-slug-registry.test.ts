@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemorySlugStore, SallaSlugRegistry } from '../services/salla/slug-registry';
+import { generateSlug, transliterateArabic } from '../services/salla/utils';
+
+describe('Salla slug registry', () => {
+  let registry: SallaSlugRegistry;
+
+  beforeEach(() => {
+    registry = new SallaSlugRegistry(new MemorySlugStore());
+  });
+
+  it('should transliterate Arabic names into slugs', () => {
+    expect(transliterateArabic('شاي ١٠')).toBe('shay 10');
+    expect(generateSlug('قهوة عربية فاخرة')).toBe('qhwa-rbya-fakhra');
+    expect(generateSlug('Café Crème')).toBe('cafe-creme');
+  });
+
+  it('should give products with the same name unique slugs', async () => {
+    const assigned = await registry.assign('product', [
+      { id: 1, name: 'Dates Gift Box' },
+      { id: 2, name: 'Dates Gift Box' },
+      { id: 3, name: '🎁' },
+    ]);
+
+    expect(assigned).toEqual({ '1': 'dates-gift-box', '2': 'dates-gift-box-2', '3': 'product-3' });
+    expect(await registry.resolve('product', 'dates-gift-box-2')).toEqual({ id: '2', slug: 'dates-gift-box-2', redirect: false });
+  });
+
+  it('should keep slugs stable and redirect old slugs after a rename', async () => {
+    await registry.assign('product', [{ id: 1, name: 'Arabic Coffee' }]);
+    await registry.assign('product', [{ id: 1, name: 'Arabic Coffee' }]);
+    await registry.assign('product', [{ id: 1, name: 'Saudi Coffee' }]);
+
+    expect(await registry.slugFor('product', 1)).toBe('saudi-coffee');
+    expect(await registry.resolve('product', 'arabic-coffee')).toEqual({ id: '1', slug: 'saudi-coffee', redirect: true });
+    // Old slugs stay reserved for the renamed product
+    expect(await registry.assign('product', [{ id: 2, name: 'Arabic Coffee' }])).toEqual({ '2': 'arabic-coffee-2' });
+  });
+
+  it('should give a slug back to the product when its old name returns', async () => {
+    await registry.assign('product', [{ id: 1, name: 'Arabic Coffee' }]);
+    await registry.assign('product', [{ id: 1, name: 'Saudi Coffee' }]);
+    await registry.assign('product', [{ id: 1, name: 'Arabic Coffee' }]);
+
+    const [record] = await registry.list('product');
+    expect(record).toMatchObject({ slug: 'arabic-coffee', previous: ['saudi-coffee'] });
+    expect(await registry.resolve('product', 'saudi-coffee')).toMatchObject({ id: '1', redirect: true });
+  });
+
+  it('should keep product and category slugs apart', async () => {
+    await registry.assign('product', [{ id: 1, name: 'Coffee' }]);
+    await registry.assign('category', [{ id: 10, name: 'Coffee' }]);
+
+    expect(await registry.resolve('category', 'coffee')).toMatchObject({ id: '10' });
+    expect(await registry.resolve('product', 'coffee')).toMatchObject({ id: '1' });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemoryListStore } from '../services/salla/collection-store';
+import { SyncRun, SyncRunTracker } from '../services/salla/sync-runs';
+
+const syncRun = (id: string, merchantId: string, startedAt: string): SyncRun => ({
+  id,
+  merchantId,
+  type: 'sweep',
+  status: 'running',
+  errors: [],
+  startedAt,
+  updatedAt: startedAt,
+});
+
+describe('Salla sync runs', () => {
+  let tracker: SyncRunTracker<SyncRun>;
+
+  beforeEach(() => {
+    tracker = new SyncRunTracker<SyncRun>({
+      store: new MemoryListStore<SyncRun>(),
+      label: 'Test sync',
+      maxRuns: 2,
+      runTimeout: 60 * 60 * 1000,
+      conflict: busy => new Error(`Run ${busy.id} is going`),
+      runError: (message, at) => ({ message, at }),
+    });
+  });
+
+  it('should keep running runs when trimming to maxRuns', async () => {
+    const { execution } = await tracker.launch(syncRun('a', '101', '2024-05-01T10:00:00.000Z'), async run => run);
+    await tracker.finish(await execution, 'completed');
+    await tracker.launch(syncRun('b', '202', '2024-05-01T10:01:00.000Z'), () => new Promise(() => undefined));
+    await tracker.launch(syncRun('c', '303', '2024-05-01T10:02:00.000Z'), () => new Promise(() => undefined));
+    await tracker.launch(syncRun('d', '404', '2024-05-01T10:03:00.000Z'), () => new Promise(() => undefined));
+
+    expect((await tracker.list()).map(run => [run.id, run.status])).toEqual([
+      ['d', 'running'],
+      ['c', 'running'],
+      ['b', 'running'],
+    ]);
+  });
+
+  it('should refuse a second run for a merchant until the first one ends', async () => {
+    await tracker.launch(syncRun('a', '101', '2024-05-01T10:00:00.000Z'), () => new Promise(() => undefined));
+
+    await expect(tracker.launch(syncRun('b', '101', '2024-05-01T10:01:00.000Z'), async run => run)).rejects.toThrow('Run a is going');
+  });
+});
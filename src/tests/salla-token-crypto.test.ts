@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import crypto from 'crypto';
+import {
+  EncryptedTokenStorage,
+  TokenEncryptionError,
+  getTokenKeyVersion,
+  loadTokenKeyring,
+} from '../services/salla/token-crypto';
+import { MemoryTokenStorage } from '../services/salla/token-storage';
+import { SallaTokenManager, maskToken, toMaskedTokenData } from '../services/salla/token-manager';
+
+const key = () => crypto.randomBytes(32).toString('base64');
+const KEY_1 = key();
+const KEY_2 = key();
+
+const record = (merchantId: string) => ({
+  merchantId,
+  merchantName: `Store ${merchantId}`,
+  merchantDomain: `${merchantId}.salla.sa`,
+  merchantEmail: `owner@${merchantId}.salla.sa`,
+  accessToken: `access_token_for_${merchantId}`,
+  refreshToken: `refresh_token_for_${merchantId}`,
+  tokenType: 'Bearer',
+  expiresIn: 3600,
+  scope: 'offline_access',
+  currency: 'SAR',
+  timezone: 'Asia/Riyadh',
+  installedAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+describe('Salla token encryption', () => {
+  it('should store ciphertext tagged with the key version and read back plaintext', async () => {
+    const inner = new MemoryTokenStorage();
+    const storage = new EncryptedTokenStorage(inner, loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `1:${KEY_1}` })!);
+
+    await storage.put(record('m1'));
+
+    const raw = (await inner.get('m1'))!;
+    expect(raw.accessToken).not.toContain('access_token_for_m1');
+    expect(getTokenKeyVersion(raw.accessToken)).toBe('1');
+    expect(getTokenKeyVersion(raw.refreshToken)).toBe('1');
+    expect((await storage.get('m1'))!.accessToken).toBe('access_token_for_m1');
+    expect((await storage.getAll())[0].refreshToken).toBe('refresh_token_for_m1');
+  });
+
+  it('should reject ciphertext moved to another merchant', async () => {
+    const inner = new MemoryTokenStorage();
+    const storage = new EncryptedTokenStorage(inner, loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `1:${KEY_1}` })!);
+    await storage.put(record('m1'));
+
+    const raw = (await inner.get('m1'))!;
+    await inner.put({ ...raw, merchantId: 'm2' });
+
+    await expect(storage.get('m2')).rejects.toBeInstanceOf(TokenEncryptionError);
+  });
+
+  it('should skip and report records it cannot decrypt', async () => {
+    const inner = new MemoryTokenStorage();
+    await new EncryptedTokenStorage(inner, loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `1:${KEY_1}` })!).put(record('lost'));
+    const storage = new EncryptedTokenStorage(inner, loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `2:${KEY_2}` })!);
+    const manager = new SallaTokenManager(storage);
+    await manager.storeToken(record('m1'));
+    const unreadable: Array<{ merchantId: string; error: string }> = [];
+
+    const tokens = await manager.getAllTokens(item => unreadable.push(item));
+
+    expect(tokens.map(token => token.merchantId)).toEqual(['m1']);
+    expect(unreadable).toEqual([{ merchantId: 'lost', error: 'Token was encrypted with unknown key version "1"' }]);
+    expect(await manager.getTokenSummary()).toMatchObject({ total: 2, unreadable: [{ merchantId: 'lost' }] });
+
+    // Atomic updates of other records leave it in place
+    await manager.recordRefreshFailure('m1', 'invalid_grant', 3);
+    expect((await inner.getAll()).map(token => token.merchantId).sort()).toEqual(['lost', 'm1']);
+    expect(await manager.getToken('m1')).toMatchObject({ refreshFailures: 1, accessToken: 'access_token_for_m1' });
+  });
+
+  it('should rotate plaintext and old-key records to the active key', async () => {
+    const inner = new MemoryTokenStorage();
+    const oldStorage = new EncryptedTokenStorage(inner, loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `1:${KEY_1}` })!);
+    await oldStorage.put(record('m1'));
+    await inner.put(record('legacy'));
+
+    const keyring = loadTokenKeyring({
+      SALLA_TOKEN_ENCRYPTION_KEYS: `1:${KEY_1},2:${KEY_2}`,
+      SALLA_TOKEN_ENCRYPTION_KEY_VERSION: '2',
+    })!;
+    const storage = new EncryptedTokenStorage(inner, keyring);
+    // Legacy plaintext is readable before rotation
+    expect((await storage.get('legacy'))!.accessToken).toBe('access_token_for_legacy');
+
+    const result = await storage.rotate();
+
+    expect(result).toEqual({ total: 2, reencrypted: 2, activeVersion: '2' });
+    const raw = await inner.getAll();
+    expect(raw.map(token => getTokenKeyVersion(token.accessToken))).toEqual(['2', '2']);
+
+    // Version 1 can now be retired
+    const retired = new EncryptedTokenStorage(inner, loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `2:${KEY_2}` })!);
+    expect((await retired.get('m1'))!.accessToken).toBe('access_token_for_m1');
+    expect((await retired.rotate()).reencrypted).toBe(0);
+  });
+
+  it('should reject malformed keys', () => {
+    expect(loadTokenKeyring({})).toBeNull();
+    expect(() => loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: '1:short' })).toThrow(TokenEncryptionError);
+    expect(() =>
+      loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `1:${KEY_1}`, SALLA_TOKEN_ENCRYPTION_KEY_VERSION: '3' })
+    ).toThrow(TokenEncryptionError);
+  });
+
+  it('should mask tokens for display', () => {
+    expect(maskToken('abcdefghijklmnopqrstuvwxyz')).toBe('abcd••••wxyz');
+    expect(maskToken('short')).toBe('•••••');
+    expect(maskToken(undefined)).toBeUndefined();
+
+    const masked = toMaskedTokenData(record('m1'));
+    expect(masked.accessToken).toBe('acce••••r_m1');
+    expect(masked.refreshToken).not.toContain('refresh_token');
+  });
+});
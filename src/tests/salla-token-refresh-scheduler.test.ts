@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import crypto from 'crypto';
+import { EncryptedTokenStorage, loadTokenKeyring } from '../services/salla/token-crypto';
+import { sallaTokenManager } from '../services/salla/token-manager';
+import { MemoryTokenStorage } from '../services/salla/token-storage';
+import {
+  SallaTokenRefreshScheduler,
+  TokenRefreshEvent,
+} from '../services/salla/token-refresh-scheduler';
+import { SallaAuthToken } from '../services/salla/types';
+
+const HOUR = 60 * 60 * 1000;
+
+const storeToken = (merchantId: string, expiresInSeconds: number) =>
+  sallaTokenManager.storeToken({
+    merchantId,
+    merchantName: `Store ${merchantId}`,
+    merchantDomain: `${merchantId}.salla.sa`,
+    merchantEmail: `owner@${merchantId}.salla.sa`,
+    accessToken: `access_${merchantId}`,
+    refreshToken: `refresh_${merchantId}`,
+    tokenType: 'Bearer',
+    expiresIn: expiresInSeconds,
+    scope: 'offline_access',
+    currency: 'SAR',
+    timezone: 'Asia/Riyadh',
+    installedAt: new Date().toISOString(),
+  });
+
+const newToken = (suffix: string): SallaAuthToken => ({
+  access_token: `access_${suffix}`,
+  refresh_token: `refresh_${suffix}`,
+  token_type: 'Bearer',
+  expires_in: 14 * 24 * 3600,
+} as SallaAuthToken);
+
+describe('Salla token refresh scheduler', () => {
+  let events: TokenRefreshEvent[];
+
+  beforeEach(() => {
+    sallaTokenManager.setStorage(new MemoryTokenStorage());
+    events = [];
+  });
+
+  const createScheduler = (refresh: (refreshToken: string) => Promise<SallaAuthToken>) =>
+    new SallaTokenRefreshScheduler({
+      refreshWindow: 24 * HOUR,
+      maxConsecutiveFailures: 2,
+      getRefresher: async () => refresh,
+      notify: event => {
+        events.push(event);
+      },
+    });
+
+  it('should only refresh tokens inside the refresh window', async () => {
+    await storeToken('soon', 3600);
+    await storeToken('later', 7 * 24 * 3600);
+    const refresh = jest.fn(async () => newToken('rotated'));
+
+    const result = await createScheduler(refresh).runOnce();
+
+    expect(result.refreshed).toEqual(['soon']);
+    expect(result.skipped).toBe(1);
+    expect(refresh).toHaveBeenCalledWith('refresh_soon');
+    expect((await sallaTokenManager.getToken('soon'))!.accessToken).toBe('access_rotated');
+    expect((await sallaTokenManager.getToken('later'))!.accessToken).toBe('access_later');
+  });
+
+  it('should mark merchants needs_reauth after repeated failures and notify', async () => {
+    await storeToken('broken', 60);
+    const refresh = jest.fn(async (): Promise<SallaAuthToken> => {
+      throw new Error('invalid_grant');
+    });
+    const scheduler = createScheduler(refresh);
+
+    await scheduler.runOnce();
+    let token = await sallaTokenManager.getToken('broken');
+    expect(token).toMatchObject({ status: 'active', refreshFailures: 1, lastRefreshError: 'invalid_grant' });
+
+    const result = await scheduler.runOnce();
+    token = await sallaTokenManager.getToken('broken');
+    expect(token).toMatchObject({ status: 'needs_reauth', refreshFailures: 2 });
+    expect(result.needsReauth).toEqual(['broken']);
+    expect(events.map(event => event.type)).toEqual(['refresh_failed', 'needs_reauth']);
+
+    // Waits for re-authorization instead of retrying
+    const skipped = await scheduler.runOnce();
+    expect(skipped.skipped).toBe(1);
+    expect(refresh).toHaveBeenCalledTimes(2);
+
+    const summary = await sallaTokenManager.getTokenSummary();
+    expect(summary.needsReauth).toBe(1);
+    expect(summary.merchants[0]).toMatchObject({ status: 'needs_reauth', refreshFailures: 2 });
+  });
+
+  it('should reset the failure count after a successful refresh', async () => {
+    await storeToken('flaky', 60);
+    const refresh = jest
+      .fn(async (): Promise<SallaAuthToken> => newToken('recovered'))
+      .mockRejectedValueOnce(new Error('timeout'));
+    const scheduler = createScheduler(refresh);
+
+    await scheduler.runOnce();
+    await scheduler.runOnce();
+
+    expect(await sallaTokenManager.getToken('flaky')).toMatchObject({
+      accessToken: 'access_recovered',
+      status: 'active',
+      refreshFailures: 0,
+    });
+  });
+
+  it('should share one scan between overlapping runs', async () => {
+    await storeToken('soon', 60);
+    const refresh = jest.fn(async () => newToken('once'));
+    const scheduler = createScheduler(refresh);
+
+    const [first, second] = await Promise.all([scheduler.runOnce(), scheduler.runOnce()]);
+
+    expect(first).toBe(second);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report records it cannot read and refresh the rest', async () => {
+    const inner = new MemoryTokenStorage();
+    const keyring = (version: string) =>
+      loadTokenKeyring({ SALLA_TOKEN_ENCRYPTION_KEYS: `${version}:${crypto.randomBytes(32).toString('base64')}` })!;
+    sallaTokenManager.setStorage(new EncryptedTokenStorage(inner, keyring('1')));
+    await storeToken('lost', 60);
+    sallaTokenManager.setStorage(new EncryptedTokenStorage(inner, keyring('2')));
+    await storeToken('soon', 60);
+
+    const result = await createScheduler(async () => newToken('rotated')).runOnce();
+
+    expect(result.checked).toBe(2);
+    expect(result.refreshed).toEqual(['soon']);
+    expect(result.unreadable).toEqual([{ merchantId: 'lost', error: 'Token was encrypted with unknown key version "1"' }]);
+  });
+});
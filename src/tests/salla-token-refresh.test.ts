@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import MockAdapter from 'axios-mock-adapter';
+import { SallaApiClient } from '../services/salla/client';
+import { SALLA_CONFIG } from '../services/salla/config';
+import { sallaTokenManager } from '../services/salla/token-manager';
+
+const MERCHANT_ID = 'merchant-1';
+
+const storeToken = (expiresIn: number) =>
+  sallaTokenManager.storeToken({
+    merchantId: MERCHANT_ID,
+    merchantName: 'Test Store',
+    merchantDomain: 'test.salla.sa',
+    merchantEmail: 'owner@test.salla.sa',
+    accessToken: 'old_access',
+    refreshToken: 'old_refresh',
+    tokenType: 'Bearer',
+    expiresIn,
+    scope: 'offline_access',
+    currency: 'SAR',
+    timezone: 'Asia/Riyadh',
+    installedAt: new Date().toISOString(),
+  });
+
+const createClient = () => {
+  const client = new SallaApiClient('old_access', {
+    merchantId: MERCHANT_ID,
+    retry: { maxAttempts: 1 },
+  });
+  const mock = new MockAdapter((client as any).client);
+  return { client, mock };
+};
+
+describe('Salla token refresh', () => {
+  beforeEach(() => {
+    // jest.setup.js stubs localStorage; back it with a real in-memory store here
+    const storage: Record<string, string> = {};
+    jest.mocked(localStorage.getItem).mockImplementation((key: string) => storage[key] ?? null);
+    jest.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => {
+      storage[key] = value;
+    });
+  });
+
+  it('should refresh near-expiry tokens before the request and persist the rotated pair', async () => {
+    await storeToken(60);
+    const { client, mock } = createClient();
+    mock.onPost(SALLA_CONFIG.oauth.tokenURL).reply(200, {
+      access_token: 'new_access',
+      refresh_token: 'new_refresh',
+      token_type: 'Bearer',
+      expires_in: 3600,
+    });
+    mock.onGet('/products').reply(200, { data: [] });
+
+    await client.getProducts();
+
+    expect(JSON.parse(mock.history.post[0].data)).toMatchObject({
+      grant_type: 'refresh_token',
+      refresh_token: 'old_refresh',
+    });
+    expect(mock.history.get[0].headers?.Authorization).toBe('Bearer new_access');
+    expect(await sallaTokenManager.getToken(MERCHANT_ID)).toMatchObject({
+      accessToken: 'new_access',
+      refreshToken: 'new_refresh',
+      expiresIn: 3600,
+    });
+  });
+
+  it('should refresh once on concurrent 401s and replay each request', async () => {
+    await storeToken(3600);
+    const { client, mock } = createClient();
+    mock.onPost(SALLA_CONFIG.oauth.tokenURL).reply(200, {
+      access_token: 'new_access',
+      refresh_token: 'new_refresh',
+      expires_in: 3600,
+    });
+    mock.onGet(/\/categories.*/).reply(config =>
+      config.headers?.Authorization === 'Bearer new_access' ? [200, { data: [] }] : [401, {}]
+    );
+
+    // Distinct requests, identical ones would be coalesced into one
+    await Promise.all([
+      client.getCategories(),
+      client.getCategoryProducts('1'),
+      client.getCategoryProducts('2'),
+    ]);
+
+    expect(mock.history.post).toHaveLength(1);
+    expect(mock.history.get).toHaveLength(6);
+  });
+
+  it('should surface the original 401 when the refresh token was rejected', async () => {
+    await storeToken(3600);
+    const { client, mock } = createClient();
+    mock.onPost(SALLA_CONFIG.oauth.tokenURL).reply(400, { error: 'invalid_grant' });
+    mock.onGet('/products').reply(401, { message: 'Unauthenticated' });
+
+    await expect(client.getProducts()).rejects.toMatchObject({ status: 401 });
+    expect(mock.history.get).toHaveLength(1);
+  });
+
+  it('should use a token rotated by another process instead of failing', async () => {
+    await storeToken(3600);
+    const { client, mock } = createClient();
+    mock.onPost(SALLA_CONFIG.oauth.tokenURL).reply(async () => {
+      // Another worker already used the refresh token and stored the new pair
+      await sallaTokenManager.updateAccessToken(MERCHANT_ID, 'rotated_access', 3600, 'rotated_refresh');
+      return [400, { error: 'invalid_grant' }];
+    });
+    mock.onGet('/products').reply(config =>
+      config.headers?.Authorization === 'Bearer rotated_access' ? [200, { data: [] }] : [401, {}]
+    );
+
+    await expect(client.getProducts()).resolves.toMatchObject({ data: [] });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileTokenStorage } from '../services/salla/file-token-storage';
+import { SallaTokenManager, MerchantTokenData } from '../services/salla/token-manager';
+
+const record = (merchantId: string, accessToken = `access_${merchantId}`) => ({
+  merchantId,
+  merchantName: `Store ${merchantId}`,
+  merchantDomain: `${merchantId}.salla.sa`,
+  merchantEmail: `owner@${merchantId}.salla.sa`,
+  accessToken,
+  refreshToken: `refresh_${merchantId}`,
+  tokenType: 'Bearer',
+  expiresIn: 3600,
+  scope: 'offline_access',
+  currency: 'SAR',
+  timezone: 'Asia/Riyadh',
+  installedAt: new Date().toISOString(),
+});
+
+describe('Salla token storage', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'salla-tokens-'));
+    filePath = path.join(directory, 'nested', 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist records across instances', async () => {
+    const writer = new SallaTokenManager(new FileTokenStorage(filePath));
+    await writer.storeToken(record('m1'));
+
+    const reader = new SallaTokenManager(new FileTokenStorage(filePath));
+    expect(await reader.getToken('m1')).toMatchObject({ merchantId: 'm1', accessToken: 'access_m1' });
+    expect(await reader.getTokenSummary()).toMatchObject({ total: 1, active: 1 });
+  });
+
+  it('should not lose records written concurrently', async () => {
+    const manager = new SallaTokenManager(new FileTokenStorage(filePath));
+
+    await Promise.all(['a', 'b', 'c', 'd'].map(id => manager.storeToken(record(id))));
+    await manager.updateAccessToken('b', 'rotated', 7200, 'rotated_refresh');
+
+    const tokens = await manager.getAllTokens();
+    expect(tokens.map(token => token.merchantId).sort()).toEqual(['a', 'b', 'c', 'd']);
+    expect(tokens.find(token => token.merchantId === 'b')).toMatchObject({
+      accessToken: 'rotated',
+      refreshToken: 'rotated_refresh',
+    });
+  });
+
+  it('should count refresh failures recorded concurrently', async () => {
+    const manager = new SallaTokenManager(new FileTokenStorage(filePath));
+    await manager.storeToken(record('m1'));
+
+    await Promise.all([1, 2, 3].map(attempt => manager.recordRefreshFailure('m1', `attempt ${attempt}`, 3)));
+
+    expect(await manager.getToken('m1')).toMatchObject({ refreshFailures: 3, status: 'needs_reauth' });
+    expect(await manager.recordRefreshFailure('missing', 'attempt 1', 3)).toBeNull();
+  });
+
+  it('should remove records and report missing ones', async () => {
+    const storage = new FileTokenStorage(filePath);
+    await storage.put({ ...record('m1'), updatedAt: new Date().toISOString() } as MerchantTokenData);
+
+    expect(await storage.remove('m1')).toBe(true);
+    expect(await storage.remove('m1')).toBe(false);
+    expect(await storage.getAll()).toEqual([]);
+  });
+
+  it('should read a missing file as empty', async () => {
+    expect(await new FileTokenStorage(filePath).getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { SallaWebhookRegistry, SallaWebhookEnvelope } from '../services/salla/webhooks';
+import {
+  MemoryWebhookEventStore,
+  SallaWebhookEventLog,
+  getWebhookEventId,
+} from '../services/salla/webhook-event-log';
+
+const envelope = (event: string, data: any = { id: 1 }, createdAt = '2024-01-01T00:00:00Z'): SallaWebhookEnvelope =>
+  ({ event, merchant: 42, created_at: createdAt, data });
+
+const deliver = (log: SallaWebhookEventLog, payload: SallaWebhookEnvelope, deliveryId?: string) =>
+  log.receive(payload, { rawBody: JSON.stringify(payload), deliveryId });
+
+describe('Salla webhook event log', () => {
+  let registry: SallaWebhookRegistry;
+  let log: SallaWebhookEventLog;
+  let calls: string[];
+
+  beforeEach(() => {
+    registry = new SallaWebhookRegistry();
+    log = new SallaWebhookEventLog({ store: new MemoryWebhookEventStore(), registry });
+    calls = [];
+    registry.on('order.*', payload => {
+      calls.push(String(payload.data.id));
+    });
+  });
+
+  it('should key events by delivery id, or by a hash of the body', () => {
+    expect(getWebhookEventId('{}', 'delivery-1')).toBe('delivery-1');
+    expect(getWebhookEventId('{"a":1}')).toBe(getWebhookEventId(Buffer.from('{"a":1}')));
+    expect(getWebhookEventId('{"a":1}')).not.toBe(getWebhookEventId('{"a":2}'));
+  });
+
+  it('should run handlers once when the same event is delivered again', async () => {
+    const payload = envelope('order.created', { id: 'o-1' });
+
+    const first = await deliver(log, payload);
+    const second = await deliver(log, payload);
+
+    expect(calls).toEqual(['o-1']);
+    expect(first.duplicate).toBe(false);
+    expect(first.record).toMatchObject({ status: 'processed', attempts: 1, handled: 1, merchant: '42' });
+    expect(second.duplicate).toBe(true);
+    expect((await log.get(first.record.id))?.duplicates).toBe(1);
+  });
+
+  it('should skip a delivery that arrives while the event is processing', async () => {
+    let release: () => void = () => undefined;
+    registry.on('order.updated', () => new Promise<void>(resolve => {
+      release = resolve;
+    }));
+    const payload = envelope('order.updated');
+
+    const first = deliver(log, payload, 'd-1');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const second = await deliver(log, payload, 'd-1');
+    release();
+
+    expect(second).toMatchObject({ duplicate: true, record: { status: 'processing' } });
+    expect((await first).record.status).toBe('processed');
+    expect(calls).toEqual(['1']);
+  });
+
+  it('should record failures and retry them on redelivery', async () => {
+    let fail = true;
+    registry.on('order.created', () => {
+      if (fail) throw new Error('downstream unavailable');
+    }, 'flaky');
+    const payload = envelope('order.created', { id: 'o-2' });
+
+    const failed = await deliver(log, payload, 'd-2');
+    expect(failed.record).toMatchObject({ status: 'failed', attempts: 1, lastError: 'flaky: downstream unavailable' });
+
+    fail = false;
+    const retried = await deliver(log, payload, 'd-2');
+    expect(retried.duplicate).toBe(false);
+    expect(retried.record).toMatchObject({ status: 'processed', attempts: 2, lastError: undefined });
+    // The handler that succeeded the first time didn't run again
+    expect(calls).toEqual(['o-2']);
+    expect(retried.result).toMatchObject({ handled: 1, skipped: 1, completed: ['flaky'] });
+    expect(retried.record.completedHandlers).toEqual(['order.*', 'flaky']);
+  });
+
+  it('should replay a single event against the current handlers', async () => {
+    const { record } = await deliver(log, envelope('order.created', { id: 'o-3' }));
+    registry.on('order.created', () => {
+      calls.push('new handler');
+    });
+
+    const replayed = await log.replay(record.id);
+
+    // A processed event runs every handler again
+    expect(calls).toEqual(['o-3', 'o-3', 'new handler']);
+    expect(replayed.record).toMatchObject({ status: 'processed', attempts: 2 });
+    await expect(log.replay('missing')).rejects.toMatchObject({ code: 'WEBHOOK_EVENT_NOT_FOUND' });
+  });
+
+  it('should replay the events received in a time range', async () => {
+    await deliver(log, envelope('order.created', { id: 'a' }), 'd-a');
+    await deliver(log, envelope('order.created', { id: 'b' }), 'd-b');
+    await deliver(log, envelope('customer.created', { id: 'c' }), 'd-c');
+    calls = [];
+
+    const results = await log.replayRange({
+      from: new Date(Date.now() - 60000).toISOString(),
+      to: new Date(Date.now() + 60000).toISOString(),
+      event: 'order.created',
+    });
+
+    expect(results.map(result => result.record.id).sort()).toEqual(['d-a', 'd-b']);
+    expect(calls.sort()).toEqual(['a', 'b']);
+  });
+
+  it('should mask credentials in stored payloads and refuse to replay them', async () => {
+    const received: string[] = [];
+    registry.on('app.store.authorize', payload => {
+      received.push(payload.data.access_token);
+    });
+    const token = 'access-token-that-must-not-be-logged';
+
+    const { record } = await deliver(log, envelope('app.store.authorize', { access_token: token, merchant_id: '42' }));
+
+    expect(received).toEqual([token]);
+    expect(record.redacted).toBe(true);
+    expect(JSON.stringify(await log.list())).not.toContain(token);
+    await expect(log.replay(record.id)).rejects.toMatchObject({ code: 'WEBHOOK_EVENT_REDACTED' });
+  });
+
+  it('should prune the oldest finished events past the limit', async () => {
+    log = new SallaWebhookEventLog({ store: new MemoryWebhookEventStore(), registry, maxEntries: 2 });
+
+    await deliver(log, envelope('order.created', { id: 1 }), 'd-1');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await deliver(log, envelope('order.created', { id: 2 }), 'd-2');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await deliver(log, envelope('order.created', { id: 3 }), 'd-3');
+
+    expect((await log.list()).map(record => record.id)).toEqual(['d-3', 'd-2']);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { SallaWebhookRegistry, SallaWebhookEnvelope } from '../services/salla/webhooks';
+import { MemoryWebhookEventStore, SallaWebhookEventLog } from '../services/salla/webhook-event-log';
+import {
+  MemoryWebhookJobStore,
+  SallaWebhookJobQueue,
+  WebhookJob,
+  eventLogJobProcessor,
+  getEventConcurrency,
+  getRetryDelay,
+} from '../services/salla/webhook-queue';
+
+const job = (id: string, event = 'order.created') => ({ id, event, merchant: '42' });
+
+describe('Salla webhook job queue', () => {
+  let store: MemoryWebhookJobStore;
+
+  beforeEach(() => {
+    store = new MemoryWebhookJobStore();
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(attempt, 1000, 5000))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should pick the most specific concurrency limit', () => {
+    const limits = { '*': 4, 'order.*': 2, 'order.created': 1 };
+    expect(getEventConcurrency('order.created', limits)).toBe(1);
+    expect(getEventConcurrency('order.updated', limits)).toBe(2);
+    expect(getEventConcurrency('product.created', limits)).toBe(4);
+    expect(getEventConcurrency('product.created', {})).toBe(1);
+  });
+
+  it('should remove jobs once they complete', async () => {
+    const processed: string[] = [];
+    const queue = new SallaWebhookJobQueue({
+      store,
+      process: async queued => {
+        processed.push(queued.id);
+      },
+    });
+
+    await queue.enqueue(job('e-1'));
+    await queue.enqueue(job('e-2', 'product.updated'));
+    await queue.drain();
+
+    expect(processed.sort()).toEqual(['e-1', 'e-2']);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('should limit how many jobs of one event type run at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const queue = new SallaWebhookJobQueue({
+      store,
+      concurrency: { '*': 2 },
+      process: async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+      },
+    });
+
+    await Promise.all(['a', 'b', 'c', 'd'].map(id => queue.enqueue(job(id))));
+    await queue.drain();
+
+    expect(peak).toBe(2);
+    expect(await queue.stats()).toEqual({ queued: 0, running: 0, dead: 0, due: 0 });
+  });
+
+  it('should schedule a retry with backoff after a failure', async () => {
+    const queue = new SallaWebhookJobQueue({
+      store,
+      baseDelay: 60000,
+      process: async () => {
+        throw new Error('token store unavailable');
+      },
+    });
+
+    await queue.enqueue(job('e-1'));
+    await queue.drain();
+
+    const [retry] = await queue.list();
+    expect(retry).toMatchObject({ status: 'queued', attempts: 1, lastError: 'token store unavailable' });
+    expect(Date.parse(retry.runAt) - Date.now()).toBeGreaterThan(50000);
+    expect((await queue.stats()).due).toBe(0);
+  });
+
+  it('should dead-letter a job after the last attempt and redrive it', async () => {
+    let fail = true;
+    const attempts: number[] = [];
+    const queue = new SallaWebhookJobQueue({
+      store,
+      maxAttempts: 3,
+      baseDelay: 0,
+      process: async (queued: WebhookJob) => {
+        attempts.push(queued.attempts);
+        if (fail) throw new Error('downstream timeout');
+      },
+    });
+
+    await queue.enqueue(job('e-1'));
+    await queue.drain();
+
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(await queue.list({ status: 'dead' })).toHaveLength(1);
+
+    fail = false;
+    await queue.redrive('e-1');
+    await queue.drain();
+
+    expect(attempts).toEqual([1, 2, 3, 1]);
+    expect(await queue.list()).toEqual([]);
+    await expect(queue.redrive('missing')).rejects.toMatchObject({ code: 'WEBHOOK_JOB_NOT_FOUND' });
+  });
+
+  it('should run queued events through the event log exactly once', async () => {
+    const registry = new SallaWebhookRegistry();
+    const eventLog = new SallaWebhookEventLog({ store: new MemoryWebhookEventStore(), registry });
+    const calls: string[] = [];
+    registry.on('order.created', payload => {
+      calls.push(String(payload.data.id));
+    });
+    const queue = new SallaWebhookJobQueue({ store, process: eventLogJobProcessor(eventLog) });
+    const payload: SallaWebhookEnvelope = { event: 'order.created', merchant: 42, created_at: '2024-01-01T00:00:00Z', data: { id: 'o-1' } };
+    const delivery = { rawBody: JSON.stringify(payload), deliveryId: 'd-1' };
+
+    const received = await eventLog.receive(payload, delivery, { defer: true });
+    expect(received).toMatchObject({ duplicate: false, record: { status: 'queued', attempts: 0 } });
+    expect(received.result).toBeUndefined();
+    expect(calls).toEqual([]);
+
+    // A redelivery while the job waits is a duplicate
+    expect((await eventLog.receive(payload, delivery, { defer: true })).duplicate).toBe(true);
+
+    await queue.enqueue(received.record);
+    await queue.drain();
+
+    expect(calls).toEqual(['o-1']);
+    expect(await eventLog.get('d-1')).toMatchObject({ status: 'processed', attempts: 1 });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SallaWebhookRegistry } from '../services/salla/webhooks';
+import { verifyWebhookRequest } from '../services/salla/webhook-verification';
+import {
+  SIMULATOR_EVENTS,
+  WEBHOOK_SCENARIOS,
+  buildScenarioPayloads,
+  buildWebhookPayload,
+} from '../services/salla/webhook-fixtures';
+import { WebhookScenarioLibrary, signWebhookDelivery } from '../services/salla/webhook-simulator';
+
+const SECRET = 'simulator_secret';
+const CREATED_AT = new Date('2024-05-01T12:00:00Z');
+const FIXTURES = path.join(__dirname, 'fixtures', 'webhook-scenarios');
+
+describe('Salla webhook simulator', () => {
+  it('should build a deterministic payload for every event', () => {
+    for (const event of SIMULATOR_EVENTS) {
+      const payload = buildWebhookPayload(event, { seed: 7, createdAt: CREATED_AT });
+      expect(payload).toMatchObject({ event, created_at: CREATED_AT.toISOString() });
+      expect(event === 'app.store.authorize' ? payload.data.access_token : payload.data.id).toBeDefined();
+      expect(buildWebhookPayload(event, { seed: 7, createdAt: CREATED_AT })).toEqual(payload);
+    }
+  });
+
+  it('should only send the id for deleted entities', () => {
+    expect(Object.keys(buildWebhookPayload('product.deleted', { seed: 1 }).data)).toEqual(['id']);
+    expect(buildWebhookPayload('app.store.authorize', { seed: 1 }).merchant).toMatchObject({ id: expect.any(String) });
+  });
+
+  it.each(['signature', 'token'] as const)('should sign deliveries the receiver accepts (%s)', strategy => {
+    const payload = buildWebhookPayload('order.created', { seed: 3, createdAt: CREATED_AT });
+    const { body, headers } = signWebhookDelivery(payload, SECRET, strategy, 'sim-1');
+
+    const webhook = verifyWebhookRequest(headers, Buffer.from(body), { secret: SECRET, now: CREATED_AT.getTime() });
+
+    expect(webhook).toMatchObject({ strategy, payload });
+    expect(headers['x-salla-delivery-id']).toBe('sim-1');
+  });
+
+  it('should keep the entity across the steps of a scenario', () => {
+    const lifecycle = WEBHOOK_SCENARIOS.find(scenario => scenario.name === 'order-lifecycle')!;
+    const payloads = buildScenarioPayloads(lifecycle, CREATED_AT).map(item => item.payload);
+    const orders = payloads.filter(payload => payload.event.startsWith('order.'));
+
+    expect(payloads.map(payload => payload.event)).toEqual(lifecycle.steps.map(step => step.event));
+    expect(new Set(orders.map(order => order.data.id))).toEqual(new Set([700001]));
+    expect(payloads[payloads.length - 1].created_at).toBe(CREATED_AT.toISOString());
+  });
+
+  it('should replay a saved scenario through the handler registry', async () => {
+    const [scenario] = await new WebhookScenarioLibrary(FIXTURES).list();
+    const registry = new SallaWebhookRegistry();
+    const seen: string[] = [];
+    registry.on('product.*', payload => {
+      seen.push(`${payload.event}:${payload.data.id}`);
+    });
+
+    for (const { payload } of buildScenarioPayloads(scenario, CREATED_AT)) {
+      await registry.dispatch(payload);
+    }
+
+    expect(scenario.name).toBe('catalog-changes');
+    expect(seen).toEqual(['product.created:310001', 'product.updated:310001', 'product.deleted:310001']);
+  });
+
+  it('should save, list and remove scenarios', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'salla-scenarios-'));
+    const library = new WebhookScenarioLibrary(directory);
+
+    try {
+      await library.save({ name: 'refund-flow', steps: [{ event: 'order.refunded', data: { id: 1 } }] });
+      expect((await library.list()).map(scenario => scenario.name)).toEqual(['refund-flow']);
+
+      await expect(library.save({ name: 'install', steps: [{ event: 'app.installed' }] }))
+        .rejects.toMatchObject({ code: 'SIMULATOR_SCENARIO_INVALID' });
+      await expect(library.save({ name: '../escape', steps: [{ event: 'app.installed' }] }))
+        .rejects.toMatchObject({ code: 'SIMULATOR_SCENARIO_INVALID' });
+
+      expect(await library.remove('refund-flow')).toBe(true);
+      expect(await library.list()).toEqual([]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { SallaWebhookVerificationError } from '../services/salla/errors';
+import {
+  computeWebhookSignature,
+  readRawBody,
+  verifyWebhookRequest,
+  withSallaWebhook,
+} from '../services/salla/webhook-verification';
+
+const SECRET = 'webhook_secret';
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+// Deliberately not what JSON.stringify would produce
+const RAW = '{"merchant": 42,  "event":"order.created","created_at":"2024-05-01 12:01:00","data":{"id":1}}';
+
+const options = { secret: SECRET, now: NOW, tolerance: 5 * 60 * 1000 };
+
+const expectRejected = (fn: () => unknown, code: string) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SallaWebhookVerificationError);
+    expect((error as SallaWebhookVerificationError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected ${code}`);
+};
+
+const createRequest = (body: string, headers: Record<string, string>, method = 'POST') => {
+  const req: any = new PassThrough();
+  req.method = method;
+  req.headers = headers;
+  process.nextTick(() => req.end(body));
+  return req;
+};
+
+const createResponse = () => {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body: any) => {
+    res.body = body;
+    return res;
+  };
+  return res;
+};
+
+describe('Salla webhook verification', () => {
+  it('should verify the signature over the raw bytes', () => {
+    const signature = computeWebhookSignature(RAW, SECRET);
+
+    const webhook = verifyWebhookRequest({ 'x-salla-signature': signature }, Buffer.from(RAW), options);
+
+    expect(webhook.strategy).toBe('signature');
+    expect(webhook.payload.event).toBe('order.created');
+    // Re-serializing the parsed body would not match
+    expect(computeWebhookSignature(JSON.stringify(webhook.payload), SECRET)).not.toBe(signature);
+    expectRejected(
+      () => verifyWebhookRequest({ 'x-salla-signature': signature }, Buffer.from(RAW.replace('42', '43')), options),
+      'WEBHOOK_SIGNATURE_INVALID'
+    );
+  });
+
+  it('should accept the token strategy and honour the allowed strategies', () => {
+    const headers = { 'x-salla-security-strategy': 'Token', authorization: `Bearer ${SECRET}` };
+
+    expect(verifyWebhookRequest(headers, Buffer.from(RAW), options).strategy).toBe('token');
+    expectRejected(
+      () => verifyWebhookRequest({ ...headers, authorization: 'Bearer wrong' }, Buffer.from(RAW), options),
+      'WEBHOOK_TOKEN_INVALID'
+    );
+    expectRejected(
+      () => verifyWebhookRequest(headers, Buffer.from(RAW), { ...options, strategies: ['signature'] }),
+      'WEBHOOK_STRATEGY_REJECTED'
+    );
+    expectRejected(() => verifyWebhookRequest({}, Buffer.from(RAW), options), 'WEBHOOK_SIGNATURE_MISSING');
+  });
+
+  it('should reject deliveries outside the timestamp window', () => {
+    const signature = computeWebhookSignature(RAW, SECRET);
+    const headers = { 'x-salla-signature': signature };
+
+    expectRejected(
+      () => verifyWebhookRequest(headers, Buffer.from(RAW), { ...options, now: NOW + 60 * 60 * 1000 }),
+      'WEBHOOK_TIMESTAMP_EXPIRED'
+    );
+    expect(() =>
+      verifyWebhookRequest(headers, Buffer.from(RAW), { ...options, now: NOW + 60 * 60 * 1000, tolerance: 0 })
+    ).not.toThrow();
+  });
+
+  it('should read the raw body and enforce the size limit', async () => {
+    await expect(readRawBody(createRequest(RAW, {}))).resolves.toEqual(Buffer.from(RAW));
+    await expect(readRawBody(createRequest(RAW, {}), 10)).rejects.toMatchObject({ code: 'WEBHOOK_BODY_TOO_LARGE' });
+  });
+
+  it('should only call the route handler for verified deliveries', async () => {
+    const handler = jest.fn((req: any, res: any, webhook: any) => res.status(200).json({ event: webhook.payload.event }));
+    const route = withSallaWebhook(handler, options);
+
+    const ok = createResponse();
+    await route(createRequest(RAW, { 'x-salla-signature': computeWebhookSignature(RAW, SECRET) }), ok);
+    expect(ok.body).toEqual({ event: 'order.created' });
+
+    const rejected = createResponse();
+    await route(createRequest(RAW, { 'x-salla-signature': 'deadbeef' }), rejected);
+    expect(rejected.statusCode).toBe(401);
+
+    const wrongMethod = createResponse();
+    await route(createRequest('', {}, 'GET'), wrongMethod);
+    expect(wrongMethod.statusCode).toBe(405);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
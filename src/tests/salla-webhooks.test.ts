@@ -0,0 +1,101 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  SallaWebhookPayload,
+  SallaWebhookRegistry,
+  matchesWebhookPattern,
+} from '../services/salla/webhooks';
+
+const payload = <E extends SallaWebhookPayload['event']>(event: E, data: any = { id: 1 }) =>
+  ({ event, merchant: 42, created_at: '2024-01-01T00:00:00Z', data }) as SallaWebhookPayload<E>;
+
+describe('Salla webhook registry', () => {
+  it('should match exact events, families and the catch-all', () => {
+    expect(matchesWebhookPattern('order.created', 'order.created')).toBe(true);
+    expect(matchesWebhookPattern('order.*', 'order.refunded')).toBe(true);
+    expect(matchesWebhookPattern('product.*', 'product.quantity.low')).toBe(true);
+    expect(matchesWebhookPattern('order.*', 'orders.created')).toBe(false);
+    expect(matchesWebhookPattern('*', 'coupon.deleted')).toBe(true);
+  });
+
+  it('should run every matching handler in registration order', async () => {
+    const registry = new SallaWebhookRegistry();
+    const calls: string[] = [];
+
+    registry.on('order.*', order => {
+      calls.push(`family:${order.event}`);
+    });
+    registry.on('order.created', order => {
+      // Narrowed to the order payload
+      calls.push(`exact:${order.data.id}`);
+    });
+    registry.on('*', event => {
+      calls.push(`all:${event.event}`);
+    });
+
+    const result = await registry.dispatch(payload('order.created', { id: 'o-1' }));
+
+    expect(calls).toEqual(['family:order.created', 'exact:o-1', 'all:order.created']);
+    expect(result).toEqual({
+      event: 'order.created',
+      handled: 3,
+      completed: ['order.*', 'order.created', '*'],
+      skipped: 0,
+      errors: [],
+    });
+  });
+
+  it('should skip handlers that completed before, telling same-named ones apart', async () => {
+    const registry = new SallaWebhookRegistry();
+    const calls: string[] = [];
+    registry.on('order.created', () => {
+      calls.push('first');
+    }, 'audit');
+    registry.on('order.created', () => {
+      calls.push('second');
+    }, 'audit');
+
+    const result = await registry.dispatch(payload('order.created'), undefined, { skip: ['audit'] });
+
+    expect(calls).toEqual(['second']);
+    expect(result).toMatchObject({ handled: 1, skipped: 1, completed: ['audit#2'] });
+  });
+
+  it('should keep going when a handler fails and report the failure', async () => {
+    const registry = new SallaWebhookRegistry();
+    const after = jest.fn(() => undefined);
+    registry.on('coupon.created', () => {
+      throw new Error('boom');
+    }, 'failing');
+    registry.on('coupon.created', after);
+
+    const result = await registry.dispatch(payload('coupon.created'));
+
+    expect(after).toHaveBeenCalled();
+    expect(result.handled).toBe(1);
+    expect(result.errors).toEqual([{ handler: 'failing', error: 'boom' }]);
+  });
+
+  it('should log unhandled events and allow unsubscribing', async () => {
+    const registry = new SallaWebhookRegistry();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const handler = jest.fn(() => undefined);
+    const off = registry.on('customer.created', handler);
+    off();
+
+    const result = await registry.dispatch(payload('customer.created'));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.handled).toBe(0);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('customer.created'), { merchant: 42 });
+    warn.mockRestore();
+  });
+
+  it('should list the handlers of an event', () => {
+    const registry = new SallaWebhookRegistry();
+    registry.on('category.*', () => undefined, 'catalog-cache');
+    registry.on('category.deleted', () => undefined, 'cleanup');
+
+    expect(registry.handlersFor('category.deleted').map(entry => entry.name)).toEqual(['catalog-cache', 'cleanup']);
+    expect(registry.handlersFor('category.created').map(entry => entry.name)).toEqual(['catalog-cache']);
+  });
+});
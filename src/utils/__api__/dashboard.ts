@@ -5,6 +5,12 @@ import Order from "models/Order.model";
 import Review from "models/Review.model";
 import Product from "models/Product.model";
 import Category from "models/Category.model";
+import { getDataSourceName } from "utils/data-source";
+import { SALLA_CONFIG } from "services/salla/config";
+import { transformSallaOrderToBazaar } from "services/salla/utils";
+import { getCustomerSync } from "services/salla/customer-sync";
+import type { OrderListQuery } from "services/salla/order-mirror";
+import { getOrderReconciler } from "services/salla/order-reconciliation";
 
 // dashboard
 const getAllCard = cache(async () => {
@@ -43,19 +49,54 @@ const reviews = cache(async (): Promise<Review[]> => {
   return response.data;
 });
 
-// orders
-const orders = cache(async (): Promise<Order[]> => {
+// orders; with the Salla data source one page of the local order mirror of
+// the store, filtered, sorted and paged there. page and pageCount are only
+// set then; the mock orders come all at once and the table pages them
+export type OrderList = { orders: Order[]; page?: number; pageCount?: number };
+
+const orders = cache(async (query: OrderListQuery = {}): Promise<OrderList> => {
+  if (getDataSourceName() === "salla") {
+    const mirror = getOrderReconciler().getMirror();
+    const result = await mirror.list(SALLA_CONFIG.storeMerchantId, query);
+    return {
+      orders: result.orders.map(transformSallaOrderToBazaar),
+      page: result.page,
+      pageCount: Math.max(1, Math.ceil(result.total / result.perPage))
+    };
+  }
+
   const response = await axios.get("/api/admin/orders");
-  return response.data;
+  return { orders: response.data };
 });
 
 const getOrder = cache(async (id: string): Promise<Order> => {
+  if (getDataSourceName() === "salla") {
+    const order = await getOrderReconciler().getMirror().getOrder(SALLA_CONFIG.storeMerchantId, id);
+    if (!order) throw new Error(`Order ${id} is not in the order mirror`);
+    return transformSallaOrderToBazaar(order);
+  }
+
   const response = await axios.get("/api/admin/orders/1", { params: { id } });
   return response.data;
 });
 
-// customers
+// customers; with the Salla data source they are the people of every
+// mirrored store, linked across stores, with their orders from the order mirror
 const customers = cache(async () => {
+  if (getDataSourceName() === "salla") {
+    const identities = await getCustomerSync().directory();
+    return identities.map(({ id, name, email, phone, avatar, orders, spent, lastOrderAt }) => ({
+      id,
+      name,
+      email,
+      phone,
+      avatar,
+      orders,
+      spent,
+      lastOrderAt
+    }));
+  }
+
   const response = await axios.get("/api/admin/customers");
   return response.data;
 });
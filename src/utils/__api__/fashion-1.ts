@@ -1,21 +1,19 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 
 const getFlashDeals = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-1/products?tag=flash");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-1/products?tag=flash", sort: "discounted" });
 });
 
 const getNewArrivals = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-1/products?tag=new");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-1/products?tag=new", sort: "newest" });
 });
 
 const getTrendingItems = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-1/products?tag=trending");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-1/products?tag=trending", sort: "popular" });
 });
 
 const getServiceList = cache(async (): Promise<Service[]> => {
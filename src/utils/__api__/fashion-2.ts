@@ -1,5 +1,6 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Blog from "models/Blog.model";
 import Brand from "models/Brand.model";
 import Product from "models/Product.model";
@@ -8,28 +9,23 @@ import Category from "models/Category.model";
 import MainCarouselItem from "models/Market-1.model";
 
 const getProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-shop-2/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-shop-2/products" });
 });
 
 const getFeatureProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-shop-2/products?tag=feature");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-shop-2/products?tag=feature" });
 });
 
 const getSaleProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-shop-2/products?tag=sale");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-shop-2/products?tag=sale", sort: "discounted" });
 });
 
 const getPopularProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-shop-2/products?tag=popular");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-shop-2/products?tag=popular", sort: "popular" });
 });
 
 const getLatestProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-shop-2/products?tag=latest");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-shop-2/products?tag=latest", sort: "newest" });
 });
 
 const getBestWeekProducts = cache(async (): Promise<Product[]> => {
@@ -1,5 +1,6 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODELS
 import Blog from "models/Blog.model";
 import Product from "models/Product.model";
@@ -8,13 +9,11 @@ import { MainCarouselItem } from "models/Market-2.model";
 import Brand from "models/Brand.model";
 
 const getProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-3/products?tag=feature");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-3/products?tag=feature" });
 });
 
 const getBestProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/fashion-3/products?tag=best");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/fashion-3/products?tag=best", sort: "popular" });
 });
 
 const getMainCarouselData = cache(async (): Promise<MainCarouselItem[]> => {
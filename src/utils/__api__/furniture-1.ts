@@ -1,23 +1,21 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODELS
 import Product from "models/Product.model";
 import CategoryNavList from "models/CategoryNavList.model";
 import { FurnitureCarouselItem } from "models/Carousel.model";
 
 const getTopNewProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/furniture-1/products?tag=new");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/furniture-1/products?tag=new", sort: "newest" });
 });
 
 const getTopSellingProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/furniture-1/products?tag=top-selling");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/furniture-1/products?tag=top-selling", sort: "popular" });
 });
 
 const getFurnitureProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/furniture-1/all-products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/furniture-1/all-products" });
 });
 
 const getFurnitureShopNavList = cache(async (): Promise<CategoryNavList[]> => {
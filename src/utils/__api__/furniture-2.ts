@@ -1,17 +1,16 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODELS
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 
 const getNewArrivalProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/furniture-2/products?tag=new-arrival");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/furniture-2/products?tag=new-arrival", sort: "newest" });
 });
 
 const getTrendingProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/furniture-2/products?tag=trending");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/furniture-2/products?tag=trending", sort: "popular" });
 });
 
 const getTestimonial = cache(async (): Promise<any[]> => {
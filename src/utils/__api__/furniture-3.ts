@@ -1,17 +1,16 @@
 import { cache } from "react";
 import axios from "../axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODEL
 import Product from "models/Product.model";
 import { Category } from "models/Common";
 
 const getAllProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/furniture-3/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/furniture-3/products" });
 });
 
 const getAllProductsBySlug = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/furniture-3/products-by-slug");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/furniture-3/products-by-slug" });
 });
 
 const getCategories = cache(async (): Promise<Category[]> => {
@@ -1,5 +1,6 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Blog from "models/Blog.model";
 import Product from "models/Product.model";
 import Category from "models/Category.model";
@@ -21,23 +22,19 @@ const getBlogLists = cache(async (): Promise<Blog[]> => {
 });
 
 const getMainCarousel = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-1/main-carousel");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-1/main-carousel" });
 });
 
 const getTopPicksList = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-1/products?tag=top-picks");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-1/products?tag=top-picks", sort: "popular" });
 });
 
 const getMostViewedList = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-1/products?tag=most-viewed");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-1/products?tag=most-viewed", sort: "popular" });
 });
 
 const getNewArrival = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-1/products?tag=new-arrival");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-1/products?tag=new-arrival", sort: "newest" });
 });
 
 export default {
@@ -1,18 +1,17 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODELS
 import Blog from "models/Blog.model";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 
 const getBestSellerProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-2/products?tag=best-seller");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-2/products?tag=best-seller", sort: "popular" });
 });
 
 const getNewArrivalProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-2/products?tag=new-arrival");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-2/products?tag=new-arrival", sort: "newest" });
 });
 
 const getServices = cache(async (): Promise<Service[]> => {
@@ -1,18 +1,17 @@
 import { cache } from "react";
 import axios from "../axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODEL
 import Story from "models/Story.model";
 import Product from "models/Product.model";
 import { Category } from "models/Common";
 
 const getAllProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-3/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-3/products" });
 });
 
 const getAllProductsBySlug = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gadget-3/products-by-slug");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gadget-3/products-by-slug" });
 });
 
 const getStories = cache(async (): Promise<Story[]> => {
@@ -1,5 +1,6 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 import Category from "models/Category.model";
@@ -17,18 +18,15 @@ const getCategoryNavigation = cache(async (): Promise<CategoryNavList[]> => {
 });
 
 const getPopularProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gift-shop/products?tag=popular");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gift-shop/products?tag=popular", sort: "popular" });
 });
 
 const getTopSailedProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gift-shop/products?tag=top-sailed");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gift-shop/products?tag=top-sailed", sort: "popular" });
 });
 
 const getAllProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/gift-shop/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/gift-shop/products" });
 });
 
 const getServiceList = cache(async (): Promise<Service[]> => {
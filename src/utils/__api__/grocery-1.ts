@@ -1,5 +1,6 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 
@@ -9,18 +10,15 @@ const getGrocery1Navigation = cache(async () => {
 });
 
 const getPopularProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-1/products?tag=popular");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-1/products?tag=popular", sort: "popular" });
 });
 
 const getTrendingProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-1/products?tag=trending");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-1/products?tag=trending", sort: "popular" });
 });
 
 const getProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-1/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-1/products" });
 });
 
 const getServices = cache(async (): Promise<Service[]> => {
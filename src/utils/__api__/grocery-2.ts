@@ -1,5 +1,6 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Service from "models/Service.model";
 import Product from "models/Product.model";
 import Category from "models/Category.model";
@@ -27,23 +28,19 @@ const getNavigationList = cache(async () => {
 });
 
 const getFeaturedProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-2/featured-products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-2/featured-products" });
 });
 
 const getBestSellProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-2/best-sell-products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-2/best-sell-products", sort: "popular" });
 });
 
 const getBestHomeProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-2/home-essentials-products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-2/home-essentials-products" });
 });
 
 const getDairyProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-2/more-products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-2/more-products" });
 });
 
 const getTestimonials = cache(async () => {
@@ -1,16 +1,15 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Product from "models/Product.model";
 import { OfferCard } from "models/Grocery-3.model";
 
 const getTopSailedProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-3/products?tag=top-sailed");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-3/products?tag=top-sailed", sort: "popular" });
 });
 
 const getAllProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/grocery-3/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/grocery-3/products" });
 });
 
 const getOfferCards = cache(async (): Promise<OfferCard[]> => {
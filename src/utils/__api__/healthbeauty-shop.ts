@@ -1,5 +1,6 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 import { HealthCarouselItem } from "models/Carousel.model";
@@ -10,13 +11,11 @@ const getNavigation = cache(async () => {
 });
 
 const getTopNewProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/health-beauty/products?tag=new");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/health-beauty/products?tag=new", sort: "newest" });
 });
 
 const getProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/health-beauty/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/health-beauty/products" });
 });
 
 const getServices = cache(async (): Promise<Service[]> => {
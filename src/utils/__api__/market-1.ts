@@ -1,4 +1,5 @@
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import { cache } from "react";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
@@ -7,8 +8,7 @@ import MainCarouselItem from "models/Market-1.model";
 import Brand from "models/Brand.model";
 
 const getTopRatedProduct = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/toprated-product");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/toprated-product", sort: "popular" });
 });
 
 const getTopRatedBrand = cache(async () => {
@@ -17,8 +17,7 @@ const getTopRatedBrand = cache(async () => {
 });
 
 const getNewArrivalList = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/new-arrivals");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/new-arrivals", sort: "newest" });
 });
 
 const getCarBrands = cache(async (): Promise<Brand[]> => {
@@ -27,8 +26,7 @@ const getCarBrands = cache(async (): Promise<Brand[]> => {
 });
 
 const getCarList = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/car-list");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/car-list" });
 });
 
 const getMobileBrands = cache(async (): Promise<Brand[]> => {
@@ -42,8 +40,7 @@ const getMobileShops = cache(async (): Promise<string[]> => {
 });
 
 const getMobileList = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/mobile-list");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/mobile-list" });
 });
 
 const getOpticsBrands = cache(async (): Promise<Brand[]> => {
@@ -57,8 +54,7 @@ const getOpticsShops = cache(async (): Promise<string[]> => {
 });
 
 const getOpticsList = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/optics-list");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/optics-list" });
 });
 
 const getCategories = cache(async (): Promise<Category[]> => {
@@ -67,8 +63,7 @@ const getCategories = cache(async (): Promise<Category[]> => {
 });
 
 const getMoreItems = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/get-more-items");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/get-more-items" });
 });
 
 const getServiceList = cache(async (): Promise<Service[]> => {
@@ -82,8 +77,7 @@ const getMainCarousel = cache(async (): Promise<[MainCarouselItem]> => {
 });
 
 const getFlashDeals = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/flash-deals");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/flash-deals", sort: "discounted" });
 });
 
 const getTopCategories = cache(async (): Promise<Category[]> => {
@@ -92,8 +86,7 @@ const getTopCategories = cache(async (): Promise<Category[]> => {
 });
 
 const getBigDiscountList = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-1/big-discounts");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-1/big-discounts", sort: "discounted" });
 });
 
 export default {
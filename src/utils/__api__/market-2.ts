@@ -1,13 +1,13 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Brand from "models/Brand.model";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 import { CategoryBasedProducts, MainCarouselItem } from "models/Market-2.model";
 
 const getProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/market-2/products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/market-2/products" });
 });
 
 const getServices = cache(async (): Promise<Service[]> => {
@@ -1,18 +1,17 @@
 import { cache } from "react";
 import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODELS
 import Blog from "models/Blog.model";
 import Product from "models/Product.model";
 import Service from "models/Service.model";
 
 const getFeaturedProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/medical/products?tag=featured");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/medical/products?tag=featured" });
 });
 
 const getBestSellerProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/medical/products?tag=best");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/medical/products?tag=best", sort: "popular" });
 });
 
 const getTestimonials = cache(async (): Promise<any[]> => {
@@ -1,27 +1,27 @@
 import { cache } from "react";
-import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 // CUSTOM DATA MODEL
 import { SlugParams } from "models/Common";
 import Product from "models/Product.model";
 
 // get all product slug
 const getSlugs = cache(async (): Promise<SlugParams[]> => {
-  const response = await axios.get("/api/products/slug-list");
-  return response.data;
+  return getDataSource().getSlugs();
 });
 
 // get product based on slug
 const getProduct = cache(async (slug: string): Promise<Product> => {
-  const response = await axios.get("/api/products/slug", { params: { slug } });
-  return response.data;
+  return getDataSource().getProduct(slug);
+});
+
+// get products of a category based on its slug
+const getCategoryProducts = cache(async (slug: string): Promise<Product[]> => {
+  return getDataSource().getCategoryProducts(slug);
 });
 
 // search products
 const searchProducts = cache(async (name?: string, category?: string): Promise<string[]> => {
-  const response = await axios.get("/api/products/search", {
-    params: { name, category }
-  });
-  return response.data;
+  return getDataSource().searchProducts(name, category);
 });
 
-export default { getSlugs, getProduct, searchProducts };
+export default { getSlugs, getProduct, getCategoryProducts, searchProducts };
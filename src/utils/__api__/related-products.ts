@@ -1,13 +1,11 @@
 import { cache } from "react";
-import axios from "../../utils/axiosInstance";
+import { getDataSource } from "../data-source";
 import Product from "models/Product.model";
 
 export const getFrequentlyBought = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/frequently-bought-products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/frequently-bought-products" });
 });
 
 export const getRelatedProducts = cache(async (): Promise<Product[]> => {
-  const response = await axios.get("/api/related-products");
-  return response.data;
+  return getDataSource().getProductList({ path: "/api/related-products" });
 });
@@ -0,0 +1,24 @@
+// Data source behind utils/__api__: the bundled mock data, or the Salla
+// store. DATA_SOURCE=salla switches to Salla. It is server-only: the search
+// box in the browser goes through /api/salla/search instead of importing this.
+// Sections without a Salla counterpart (banners, services, blogs...) keep
+// reading the mock data either way.
+
+import { mockDataSource } from "./mock";
+import { createSallaDataSource } from "./salla";
+import { BazaarDataSource, DataSourceName } from "./types";
+
+export * from "./types";
+export { mockDataSource, createSallaDataSource };
+
+let sallaDataSource: BazaarDataSource | undefined;
+
+export function getDataSourceName(): DataSourceName {
+  return process.env.DATA_SOURCE === "salla" ? "salla" : "mock";
+}
+
+export function getDataSource(): BazaarDataSource {
+  if (getDataSourceName() === "mock") return mockDataSource;
+  sallaDataSource = sallaDataSource || createSallaDataSource();
+  return sallaDataSource;
+}
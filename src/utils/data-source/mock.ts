@@ -0,0 +1,34 @@
+import axios from "../axiosInstance";
+import { BazaarDataSource } from "./types";
+
+// The bundled demo data, served by MockAdapter (see __server__)
+export const mockDataSource: BazaarDataSource = {
+  name: "mock",
+
+  getSlugs: async () => {
+    const response = await axios.get("/api/products/slug-list");
+    return response.data;
+  },
+
+  getProduct: async (slug) => {
+    const response = await axios.get("/api/products/slug", { params: { slug } });
+    return response.data;
+  },
+
+  getCategoryProducts: async (slug) => {
+    const response = await axios.get("/api/products/category", { params: { slug } });
+    return response.data;
+  },
+
+  searchProducts: async (name, category) => {
+    const response = await axios.get("/api/products/search", {
+      params: { name, category }
+    });
+    return response.data;
+  },
+
+  getProductList: async ({ path }) => {
+    const response = await axios.get(path);
+    return response.data;
+  }
+};
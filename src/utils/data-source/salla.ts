@@ -0,0 +1,110 @@
+import { SallaApiClient, sallaApi } from "../../services/salla/client";
+import { SallaNotFoundError } from "../../services/salla/errors";
+import { SallaSlugRegistry, SlugEntity, getSlugRegistry } from "../../services/salla/slug-registry";
+import { SallaCategory, SallaProduct, SallaSearchParams } from "../../services/salla/types";
+import { transformSallaProductToBazaar } from "../../services/salla/utils";
+import Product from "models/Product.model";
+import { BazaarDataSource, ProductListSort } from "./types";
+
+const DEFAULT_LIST_SIZE = 12;
+const SEARCH_RESULT_SIZE = 10;
+
+const SORT_PARAMS: Record<ProductListSort, SallaSearchParams> = {
+  newest: { sort_by: "created_at", sort_order: "desc" },
+  popular: { sort_by: "popularity", sort_order: "desc" },
+  discounted: {}
+};
+
+type SallaCatalogClient = Pick<
+  SallaApiClient,
+  "getProduct" | "getProducts" | "searchProducts" | "iterateProducts" | "getCategories" | "getCategoryProducts"
+>;
+
+const flattenCategories = (categories: SallaCategory[]): SallaCategory[] =>
+  categories.reduce<SallaCategory[]>(
+    (flat, category) => [...flat, category, ...flattenCategories(category.children || [])],
+    []
+  );
+
+/**
+ * Data source reading the store's catalog from the Salla API. Slugs come
+ * from the slug registry, so links stay unique and survive renames.
+ */
+export function createSallaDataSource(
+  client: SallaCatalogClient = sallaApi,
+  registry?: SallaSlugRegistry
+): BazaarDataSource {
+  // Looked up late so the server's file store is registered by then
+  const slugs = () => registry || getSlugRegistry();
+
+  // Bazaar products carrying their registered slugs
+  const toBazaar = async (products: SallaProduct[]): Promise<Product[]> => {
+    const assigned = await slugs().assign("product", products);
+    return products.map((product) => ({
+      ...transformSallaProductToBazaar(product),
+      slug: assigned[String(product.id)]
+    }));
+  };
+
+  // Registers every listed entity when the slug is unknown, e.g. on a fresh registry
+  const resolveId = async (entity: SlugEntity, slug: string, list: () => Promise<Array<{ id: string; name: string }>>) => {
+    const known = await slugs().resolve(entity, slug);
+    if (known) return known.id;
+
+    await slugs().assign(entity, await list());
+    const listed = await slugs().resolve(entity, slug);
+    if (listed) return listed.id;
+    if (/^\d+$/.test(slug)) return slug;
+    throw new SallaNotFoundError(`No ${entity} has the slug ${slug}`);
+  };
+
+  const listProducts = async () => {
+    const products: SallaProduct[] = [];
+    for await (const product of client.iterateProducts()) products.push(product);
+    return products;
+  };
+
+  const listCategories = async () => flattenCategories((await client.getCategories()).data || []);
+
+  return {
+    name: "salla",
+
+    getSlugs: async () => {
+      const assigned = await slugs().assign("product", await listProducts());
+      return Object.values(assigned).map((slug) => ({ params: { slug } }));
+    },
+
+    // Resolves with the current slug, which differs from the one asked for after a rename
+    getProduct: async (slug) => {
+      const id = await resolveId("product", slug, listProducts);
+      const [product] = await toBazaar([await client.getProduct(id)]);
+      return product;
+    },
+
+    getCategoryProducts: async (slug) => {
+      const id = await resolveId("category", slug, listCategories);
+      const response = await client.getCategoryProducts(id, { per_page: DEFAULT_LIST_SIZE });
+      return toBazaar(response.data || []);
+    },
+
+    searchProducts: async (name, category) => {
+      if (!name) return [];
+      const response = await client.searchProducts({
+        query: name,
+        category_id: category,
+        per_page: SEARCH_RESULT_SIZE
+      });
+      return (response.data || []).map((product) => product.name);
+    },
+
+    getProductList: async ({ sort, limit = DEFAULT_LIST_SIZE }) => {
+      // Salla can't filter on a sale price, so discounted lists come from a wider page
+      const perPage = sort === "discounted" ? limit * 4 : limit;
+      const response = await client.getProducts({ ...(sort ? SORT_PARAMS[sort] : {}), per_page: perPage });
+      const products = (response.data || []).filter(
+        (product) => sort !== "discounted" || Boolean(product.price.sale_price)
+      );
+      return toBazaar(products.slice(0, limit));
+    }
+  };
+}
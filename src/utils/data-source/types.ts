@@ -0,0 +1,25 @@
+import Product from "models/Product.model";
+import { SlugParams } from "models/Common";
+
+export type DataSourceName = "mock" | "salla";
+
+// How a store-front section orders its products; the mock source ignores it
+// because each mock endpoint already returns a curated list
+export type ProductListSort = "newest" | "popular" | "discounted";
+
+export interface ProductListRequest {
+  // Mock endpoint serving the section
+  path: string;
+  sort?: ProductListSort;
+  limit?: number;
+}
+
+export interface BazaarDataSource {
+  name: DataSourceName;
+  getSlugs(): Promise<SlugParams[]>;
+  getProduct(slug: string): Promise<Product>;
+  getCategoryProducts(slug: string): Promise<Product[]>;
+  // Titles of the products matching the search box
+  searchProducts(name?: string, category?: string): Promise<string[]>;
+  getProductList(request: ProductListRequest): Promise<Product[]>;
+}